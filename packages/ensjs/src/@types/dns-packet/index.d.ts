@@ -51,6 +51,31 @@ declare module 'dns-packet' {
     data: string
   }
 
+  interface Aaaa extends AnswerBase {
+    type: 'AAAA'
+    data: string
+  }
+
+  interface Caa extends AnswerBase {
+    type: 'CAA'
+    data: {
+      flags?: number
+      tag: string
+      value: string
+      issuerCritical?: boolean
+    }
+  }
+
+  interface Cname extends AnswerBase {
+    type: 'CNAME'
+    data: string
+  }
+
+  interface Dname extends AnswerBase {
+    type: 'DNAME'
+    data: string
+  }
+
   interface Dnskey extends AnswerBase {
     type: 'DNSKEY'
     data: {
@@ -70,6 +95,19 @@ declare module 'dns-packet' {
     }
   }
 
+  interface Mx extends AnswerBase {
+    type: 'MX'
+    data: {
+      preference?: number
+      exchange: string
+    }
+  }
+
+  interface Ns extends AnswerBase {
+    type: 'NS'
+    data: string
+  }
+
   interface Opt extends AnswerBase {
     type: 'OPT'
     udpPayloadSize?: number
@@ -79,6 +117,11 @@ declare module 'dns-packet' {
     data?: any
   }
 
+  interface Ptr extends AnswerBase {
+    type: 'PTR'
+    data: string
+  }
+
   interface Rrsig extends AnswerBase {
     type: 'RRSIG'
     data: {
@@ -99,7 +142,45 @@ declare module 'dns-packet' {
     data: Buffer[]
   }
 
-  type Answer = A | Dnskey | Ds | Opt | Rrsig | Rtxt
+  interface Soa extends AnswerBase {
+    type: 'SOA'
+    data: {
+      mname: string
+      rname: string
+      serial?: number
+      refresh?: number
+      retry?: number
+      expire?: number
+      minimum?: number
+    }
+  }
+
+  interface Srv extends AnswerBase {
+    type: 'SRV'
+    data: {
+      priority?: number
+      weight?: number
+      port: number
+      target: string
+    }
+  }
+
+  type Answer =
+    | A
+    | Aaaa
+    | Caa
+    | Cname
+    | Dname
+    | Dnskey
+    | Ds
+    | Mx
+    | Ns
+    | Opt
+    | Ptr
+    | Rrsig
+    | Rtxt
+    | Soa
+    | Srv
 
   interface Encodable<T> {
     decode: decoder<T>
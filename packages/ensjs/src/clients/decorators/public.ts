@@ -1,6 +1,7 @@
-import type { Account, Client, Transport } from 'viem'
+import type { Abi, Account, Client, Hex, Transport } from 'viem'
 import type { ChainWithEns } from '../../contracts/consts.js'
 import batch, {
+  type BatchOptions,
   type BatchParameters,
   type BatchReturnType,
 } from '../../functions/public/batch.js'
@@ -12,22 +13,62 @@ import getAddressRecord, {
   type GetAddressRecordParameters,
   type GetAddressRecordReturnType,
 } from '../../functions/public/getAddressRecord.js'
+import getApproved, {
+  type GetApprovedParameters,
+  type GetApprovedReturnType,
+} from '../../functions/public/getApproved.js'
+import getApprovedForAll, {
+  type GetApprovedForAllParameters,
+  type GetApprovedForAllReturnType,
+} from '../../functions/public/getApprovedForAll.js'
 import getAvailable, {
   type GetAvailableParameters,
   type GetAvailableReturnType,
 } from '../../functions/public/getAvailable.js'
+import getAvatar, {
+  type GetAvatarParameters,
+  type GetAvatarReturnType,
+} from '../../functions/public/getAvatar.js'
+import getCommitment, {
+  type GetCommitmentParameters,
+  type GetCommitmentReturnType,
+} from '../../functions/public/getCommitment.js'
 import getContentHashRecord, {
   type GetContentHashRecordParameters,
   type GetContentHashRecordReturnType,
 } from '../../functions/public/getContentHashRecord.js'
+import getContractFromName, {
+  type GetContractFromNameParameters,
+  type GetContractFromNameReturnType,
+} from '../../functions/public/getContractFromName.js'
 import getExpiry, {
   type GetExpiryParameters,
   type GetExpiryReturnType,
 } from '../../functions/public/getExpiry.js'
+import getHeader, {
+  type GetHeaderParameters,
+  type GetHeaderReturnType,
+} from '../../functions/public/getHeader.js'
+import getInterfaceImplementer, {
+  type GetInterfaceImplementerParameters,
+  type GetInterfaceImplementerReturnType,
+} from '../../functions/public/getInterfaceImplementer.js'
 import getName, {
   type GetNameParameters,
   type GetNameReturnType,
 } from '../../functions/public/getName.js'
+import getNamePermissions, {
+  type GetNamePermissionsParameters,
+  type GetNamePermissionsReturnType,
+} from '../../functions/public/getNamePermissions.js'
+import getNames, {
+  type GetNamesParameters,
+  type GetNamesReturnType,
+} from '../../functions/public/getNames.js'
+import getNameStatus, {
+  type GetNameStatusParameters,
+  type GetNameStatusReturnType,
+} from '../../functions/public/getNameStatus.js'
 import getOwner, {
   type GetOwnerParameters,
   type GetOwnerReturnType,
@@ -36,6 +77,10 @@ import getPrice, {
   type GetPriceParameters,
   type GetPriceReturnType,
 } from '../../functions/public/getPrice.js'
+import getPubkeyRecord, {
+  type GetPubkeyRecordParameters,
+  type GetPubkeyRecordReturnType,
+} from '../../functions/public/getPubkeyRecord.js'
 import getRecords, {
   type GetRecordsParameters,
   type GetRecordsReturnType,
@@ -44,6 +89,10 @@ import getResolver, {
   type GetResolverParameters,
   type GetResolverReturnType,
 } from '../../functions/public/getResolver.js'
+import getResolverApprovals, {
+  type GetResolverApprovalsParameters,
+  type GetResolverApprovalsReturnType,
+} from '../../functions/public/getResolverApprovals.js'
 import getTextRecord, {
   type GetTextRecordParameters,
   type GetTextRecordReturnType,
@@ -56,12 +105,17 @@ import getWrapperName, {
   type GetWrapperNameParameters,
   type GetWrapperNameReturnType,
 } from '../../functions/public/getWrapperName.js'
+import getZonehashRecord, {
+  type GetZonehashRecordParameters,
+  type GetZonehashRecordReturnType,
+} from '../../functions/public/getZonehashRecord.js'
+import type { CoinInput } from '../../types.js'
 
 export type EnsPublicActions = {
   /**
    * Batches multiple read functions into a single call.
-   * @param ...parameters - Array of {@link BatchFunctionResult} objects
-   * @returns Array of return values from each function
+   * @param ...parameters - Optional {@link BatchOptions}, followed by an array of {@link BatchFunctionResult} objects
+   * @returns Array of return values from each function, with the `blockNumber` the batch was read at
    *
    * @example
    * import { createPublicClient, http } from 'viem'
@@ -78,9 +132,15 @@ export type EnsPublicActions = {
    * )
    * // ['ensdomains', { id: 60, name: 'ETH', value: '0xFe89cc7aBB2C4183683ab71653C4cdc9B02D44b7 }]
    */
-  ensBatch: <TBatchFunctions extends BatchParameters>(
-    ...parameters: TBatchFunctions
-  ) => Promise<BatchReturnType<TBatchFunctions>>
+  ensBatch: {
+    <TBatchFunctions extends BatchParameters>(
+      ...parameters: TBatchFunctions
+    ): Promise<BatchReturnType<TBatchFunctions>>
+    <TBatchFunctions extends BatchParameters>(
+      options: BatchOptions,
+      ...parameters: TBatchFunctions
+    ): Promise<BatchReturnType<TBatchFunctions>>
+  }
   /**
    * Gets the ABI record for a name
    * @param parameters - {@link GetAbiRecordParameters}
@@ -119,15 +179,66 @@ export type EnsPublicActions = {
    *   transport: http(),
    * }).extend(ensPublicActions)
    * const result = await client.getAddressRecord({ name: 'ens.eth', coin: 'ETH' })
-   * // { id: 60, name: 'ETH , value: '0xFe89cc7aBB2C4183683ab71653C4cdc9B02D44b7' }
+   * // { id: 60, name: 'ETH , value: '0xFe89cc7aBB2C4183683ab71653C4cdc9B02D44b7', chainId: 1 }
    */
   getAddressRecord: ({
     name,
     coin,
     bypassFormat,
+    evmFallback,
     gatewayUrls,
     strict,
   }: GetAddressRecordParameters) => Promise<GetAddressRecordReturnType>
+  /**
+   * Gets the address approved to manage a single name on the registrar or NameWrapper
+   * @param parameters - {@link GetApprovedParameters}
+   * @returns Approved address, or `null` if no address is approved. {@link GetApprovedReturnType}
+   *
+   * @example
+   * import { createPublicClient, http } from 'viem'
+   * import { mainnet } from 'viem/chains'
+   * import { addEnsContracts, ensPublicActions } from '@ensdomains/ensjs'
+   *
+   * const client = createPublicClient({
+   *   chain: addEnsContracts(mainnet),
+   *   transport: http(),
+   * }).extend(ensPublicActions)
+   * const result = await client.getApproved({
+   *   name: 'ens.eth',
+   *   contract: 'nameWrapper',
+   * })
+   * // null
+   */
+  getApproved: ({
+    name,
+    contract,
+  }: GetApprovedParameters) => Promise<GetApprovedReturnType>
+  /**
+   * Gets whether an operator is approved to manage all names of an owner on a contract
+   * @param parameters - {@link GetApprovedForAllParameters}
+   * @returns Approval as boolean. {@link GetApprovedForAllReturnType}
+   *
+   * @example
+   * import { createPublicClient, http } from 'viem'
+   * import { mainnet } from 'viem/chains'
+   * import { addEnsContracts, ensPublicActions } from '@ensdomains/ensjs'
+   *
+   * const client = createPublicClient({
+   *   chain: addEnsContracts(mainnet),
+   *   transport: http(),
+   * }).extend(ensPublicActions)
+   * const result = await client.getApprovedForAll({
+   *   contract: 'nameWrapper',
+   *   owner: '0xb8c2C29ee19D8307cb7255e1Cd9CbDE883A267d5',
+   *   operator: '0x983110309620D911731Ac0932219af06091b6744',
+   * })
+   * // false
+   */
+  getApprovedForAll: ({
+    contract,
+    owner,
+    operator,
+  }: GetApprovedForAllParameters) => Promise<GetApprovedForAllReturnType>
   /**
    * Gets the availability of a name to register
    * @param parameters - {@link GetAvailableParameters}
@@ -148,6 +259,51 @@ export type EnsPublicActions = {
   getAvailable: ({
     name,
   }: GetAvailableParameters) => Promise<GetAvailableReturnType>
+  /**
+   * Gets the resolved avatar image URI for a name, as specified by ENSIP-12
+   * @param parameters - {@link GetAvatarParameters}
+   * @returns Fetchable image URI, or `null` if not found or invalid. {@link GetAvatarReturnType}
+   *
+   * @example
+   * import { createPublicClient, http } from 'viem'
+   * import { mainnet } from 'viem/chains'
+   * import { addEnsContracts, ensPublicActions } from '@ensdomains/ensjs'
+   *
+   * const client = createPublicClient({
+   *   chain: addEnsContracts(mainnet),
+   *   transport: http(),
+   * }).extend(ensPublicActions)
+   * const result = await client.getAvatar({ name: 'ens.eth' })
+   * // https://ipfs.io/ipfs/...
+   */
+  getAvatar: ({
+    name,
+    gateways,
+    strict,
+    gatewayUrls,
+  }: GetAvatarParameters) => Promise<GetAvatarReturnType>
+  /**
+   * Gets the status of a registration commitment
+   * @param parameters - {@link GetCommitmentParameters}
+   * @returns Commitment status, or `null` if the commitment doesn't exist. {@link GetCommitmentReturnType}
+   *
+   * @example
+   * import { createPublicClient, http } from 'viem'
+   * import { mainnet } from 'viem/chains'
+   * import { addEnsContracts, ensPublicActions } from '@ensdomains/ensjs'
+   *
+   * const client = createPublicClient({
+   *   chain: addEnsContracts(mainnet),
+   *   transport: http(),
+   * }).extend(ensPublicActions)
+   * const result = await client.getCommitment({
+   *   commitment: '0x6e1b2cfd4bc0b14ca5cbcf6466e8b5ebdd9b7c4d46e3aebb4b0a5e3e1c1e5b4f',
+   * })
+   * // { timestamp: { date: Date, value: 1700000000n }, status: 'valid', isValid: true, secondsRemaining: 86340 }
+   */
+  getCommitment: (
+    parameters: GetCommitmentParameters,
+  ) => Promise<GetCommitmentReturnType>
   /**
    * Gets the content hash record for a name
    * @param parameters - {@link GetContentHashRecordParameters}
@@ -170,6 +326,30 @@ export type EnsPublicActions = {
     gatewayUrls,
     strict,
   }: GetContentHashRecordParameters) => Promise<GetContentHashRecordReturnType>
+  /**
+   * Gets a contract instance for a name, using its ETH address and ABI records
+   * @param parameters - {@link GetContractFromNameParameters}
+   * @returns Contract instance. {@link GetContractFromNameReturnType}
+   *
+   * @example
+   * import { createPublicClient, http } from 'viem'
+   * import { mainnet } from 'viem/chains'
+   * import { addEnsContracts, ensPublicActions } from '@ensdomains/ensjs'
+   *
+   * const client = createPublicClient({
+   *   chain: addEnsContracts(mainnet),
+   *   transport: http(),
+   * }).extend(ensPublicActions)
+   * const contract = await client.getContractFromName({ name: 'contract.eth' })
+   * const result = await contract.read.totalSupply()
+   */
+  getContractFromName: <TAbi extends Abi = Abi>({
+    name,
+    abiFetcher,
+    gatewayUrls,
+  }: GetContractFromNameParameters) => Promise<
+    GetContractFromNameReturnType<TAbi>
+  >
   /**
    * Gets the expiry for a name
    * @param parameters - {@link GetExpiryParameters}
@@ -187,10 +367,62 @@ export type EnsPublicActions = {
    * const result = await client.getExpiry({ name: 'ens.eth' })
    * // { expiry: { date: Date, value: 1913933217n }, gracePeriod: 7776000, status: 'active' }
    */
-  getExpiry: ({
+  getExpiry: <TEffective extends boolean | undefined = undefined>({
     name,
     contract,
-  }: GetExpiryParameters) => Promise<GetExpiryReturnType>
+    effective,
+  }: GetExpiryParameters<TEffective>) => Promise<
+    GetExpiryReturnType<TEffective>
+  >
+  /**
+   * Gets the resolved header image URI for a name, as specified by ENSIP-12
+   * @param parameters - {@link GetHeaderParameters}
+   * @returns Fetchable image URI, or `null` if not found or invalid. {@link GetHeaderReturnType}
+   *
+   * @example
+   * import { createPublicClient, http } from 'viem'
+   * import { mainnet } from 'viem/chains'
+   * import { addEnsContracts, ensPublicActions } from '@ensdomains/ensjs'
+   *
+   * const client = createPublicClient({
+   *   chain: addEnsContracts(mainnet),
+   *   transport: http(),
+   * }).extend(ensPublicActions)
+   * const result = await client.getHeader({ name: 'ens.eth' })
+   * // https://ipfs.io/ipfs/...
+   */
+  getHeader: ({
+    name,
+    gateways,
+    strict,
+    gatewayUrls,
+  }: GetHeaderParameters) => Promise<GetHeaderReturnType>
+  /**
+   * Gets the implementer address of an EIP-165 interface for a name
+   * @param parameters - {@link GetInterfaceImplementerParameters}
+   * @returns Implementer address, or `null` if not found. {@link GetInterfaceImplementerReturnType}
+   *
+   * @example
+   * import { createPublicClient, http } from 'viem'
+   * import { mainnet } from 'viem/chains'
+   * import { addEnsContracts, ensPublicActions } from '@ensdomains/ensjs'
+   *
+   * const client = createPublicClient({
+   *   chain: addEnsContracts(mainnet),
+   *   transport: http(),
+   * }).extend(ensPublicActions)
+   * const result = await client.getInterfaceImplementer({
+   *   name: 'eth',
+   *   interfaceId: '0x612e8c09',
+   * })
+   * // 0x253553366Da8546fC250F225fe3d25d0C782303b
+   */
+  getInterfaceImplementer: ({
+    name,
+    interfaceId,
+    gatewayUrls,
+    strict,
+  }: GetInterfaceImplementerParameters) => Promise<GetInterfaceImplementerReturnType>
   /**
    * Gets the primary name for an address
    * @param parameters - {@link GetNameParameters}
@@ -210,10 +442,84 @@ export type EnsPublicActions = {
    */
   getName: ({
     address,
+    coin,
     allowMismatch,
     gatewayUrls,
     strict,
   }: GetNameParameters) => Promise<GetNameReturnType>
+  /**
+   * Gets the operations an account is allowed to perform on a name, based on ownership, fuses, expiry, and approvals
+   * @param parameters - {@link GetNamePermissionsParameters}
+   * @returns Permissions object. {@link GetNamePermissionsReturnType}
+   *
+   * @example
+   * import { createPublicClient, http } from 'viem'
+   * import { mainnet } from 'viem/chains'
+   * import { addEnsContracts, ensPublicActions } from '@ensdomains/ensjs'
+   *
+   * const client = createPublicClient({
+   *   chain: addEnsContracts(mainnet),
+   *   transport: http(),
+   * }).extend(ensPublicActions)
+   * const result = await client.getNamePermissions({
+   *   name: 'ens.eth',
+   *   account: '0xb8c2C29ee19D8307cb7255e1Cd9CbDE883A267d5',
+   * })
+   * // { ownershipLevel: 'registrar', isOwner: false, isRegistrant: false, isParentOwner: false, permissions: { setResolver: { allowed: false, reasons: ['Account is not the owner or an approved operator of the name'] }, ... } }
+   */
+  getNamePermissions: ({
+    name,
+    account,
+  }: GetNamePermissionsParameters) => Promise<GetNamePermissionsReturnType>
+  /**
+   * Gets the primary names for multiple addresses
+   * @param parameters - {@link GetNamesParameters}
+   * @returns Map of checksummed address to result or error. {@link GetNamesReturnType}
+   *
+   * @example
+   * import { createPublicClient, http } from 'viem'
+   * import { mainnet } from 'viem/chains'
+   * import { addEnsContracts, ensPublicActions } from '@ensdomains/ensjs'
+   *
+   * const client = createPublicClient({
+   *   chain: addEnsContracts(mainnet),
+   *   transport: http(),
+   * }).extend(ensPublicActions)
+   * const result = await client.getNames({
+   *   addresses: [
+   *     '0xb8c2C29ee19D8307cb7255e1Cd9CbDE883A267d5',
+   *     '0x983110309620D911731Ac0932219af06091b6744',
+   *   ],
+   * })
+   * // Map { '0xb8c2C29ee19D8307cb7255e1Cd9CbDE883A267d5' => { result: { name: 'nick.eth', match: true, ... }, error: null }, ... }
+   */
+  getNames: ({
+    addresses,
+    coin,
+    allowMismatch,
+    gatewayUrls,
+  }: GetNamesParameters) => Promise<GetNamesReturnType>
+  /**
+   * Gets the registration status of a name, including normalisation, length, expiry, and price checks
+   * @param parameters - {@link GetNameStatusParameters}
+   * @returns Name status object. {@link GetNameStatusReturnType}
+   *
+   * @example
+   * import { createPublicClient, http } from 'viem'
+   * import { mainnet } from 'viem/chains'
+   * import { addEnsContracts, ensPublicActions } from '@ensdomains/ensjs'
+   *
+   * const client = createPublicClient({
+   *   chain: addEnsContracts(mainnet),
+   *   transport: http(),
+   * }).extend(ensPublicActions)
+   * const result = await client.getNameStatus({ name: 'ens.eth' })
+   * // { status: 'registered', name: 'ens.eth', expiry: { date: Date, value: 1913933217n }, gracePeriod: 7776000, price: { base: 352828971668930335n, premium: 0n } }
+   */
+  getNameStatus: ({
+    name,
+    duration,
+  }: GetNameStatusParameters) => Promise<GetNameStatusReturnType>
   /**
    * Gets the owner(s) of a name.
    * @param parameters - {@link GetOwnerParameters}
@@ -256,6 +562,28 @@ export type EnsPublicActions = {
     nameOrNames,
     duration,
   }: GetPriceParameters) => Promise<GetPriceReturnType>
+  /**
+   * Gets the ECDSA SECP256k1 public key record for a name
+   * @param parameters - {@link GetPubkeyRecordParameters}
+   * @returns Pubkey object, or `null` if not found. {@link GetPubkeyRecordReturnType}
+   *
+   * @example
+   * import { createPublicClient, http } from 'viem'
+   * import { mainnet } from 'viem/chains'
+   * import { addEnsContracts, ensPublicActions } from '@ensdomains/ensjs'
+   *
+   * const client = createPublicClient({
+   *   chain: addEnsContracts(mainnet),
+   *   transport: http(),
+   * }).extend(ensPublicActions)
+   * const result = await client.getPubkeyRecord({ name: 'ens.eth' })
+   * // { x: '0x...', y: '0x...' }
+   */
+  getPubkeyRecord: ({
+    name,
+    gatewayUrls,
+    strict,
+  }: GetPubkeyRecordParameters) => Promise<GetPubkeyRecordReturnType>
   /**
    * Gets arbitrary records for a name
    * @param parameters - {@link GetRecordsParameters}
@@ -282,22 +610,42 @@ export type EnsPublicActions = {
    */
   getRecords: <
     const TTexts extends readonly string[] = readonly string[],
-    const TCoins extends readonly (string | number)[] = readonly (
-      | string
-      | number
-    )[],
+    const TCoins extends readonly CoinInput[] = readonly CoinInput[],
     const TContentHash extends boolean = true,
     const TAbi extends boolean = true,
+    const TPubkey extends boolean = true,
+    const TInterfaces extends readonly Hex[] = readonly Hex[],
+    const TDetailed extends boolean | undefined = undefined,
   >({
     name,
     texts,
     coins,
     contentHash,
     abi,
+    pubkey,
+    interfaces,
+    evmFallback,
     resolver,
     gatewayUrls,
-  }: GetRecordsParameters<TTexts, TCoins, TContentHash, TAbi>) => Promise<
-    GetRecordsReturnType<TTexts, TCoins, TContentHash, TAbi>
+    detailed,
+  }: GetRecordsParameters<
+    TTexts,
+    TCoins,
+    TContentHash,
+    TAbi,
+    TPubkey,
+    TInterfaces,
+    TDetailed
+  >) => Promise<
+    GetRecordsReturnType<
+      TTexts,
+      TCoins,
+      TContentHash,
+      TAbi,
+      TPubkey,
+      TInterfaces,
+      TDetailed
+    >
   >
   /**
    * Gets the resolver address for a name.
@@ -319,6 +667,34 @@ export type EnsPublicActions = {
   getResolver: ({
     name,
   }: GetResolverParameters) => Promise<GetResolverReturnType>
+  /**
+   * Gets the record delegation approvals for an address on a resolver
+   * @param parameters - {@link GetResolverApprovalsParameters}
+   * @returns Approvals object. {@link GetResolverApprovalsReturnType}
+   *
+   * @example
+   * import { createPublicClient, http } from 'viem'
+   * import { mainnet } from 'viem/chains'
+   * import { addEnsContracts, ensPublicActions } from '@ensdomains/ensjs'
+   *
+   * const client = createPublicClient({
+   *   chain: addEnsContracts(mainnet),
+   *   transport: http(),
+   * }).extend(ensPublicActions)
+   * const result = await client.getResolverApprovals({
+   *   name: 'ens.eth',
+   *   resolverAddress: '0x231b0Ee14048e9dCcD1d247744d114a4EB5E8E63',
+   *   owner: '0xb8c2C29ee19D8307cb7255e1Cd9CbDE883A267d5',
+   *   delegate: '0x983110309620D911731Ac0932219af06091b6744',
+   * })
+   * // { approvedForName: false, approvedForAll: false }
+   */
+  getResolverApprovals: ({
+    name,
+    resolverAddress,
+    owner,
+    delegate,
+  }: GetResolverApprovalsParameters) => Promise<GetResolverApprovalsReturnType>
   /**
    * Gets a text record for a name.
    * @param parameters - {@link GetTextRecordParameters}
@@ -381,6 +757,28 @@ export type EnsPublicActions = {
   getWrapperName: ({
     name,
   }: GetWrapperNameParameters) => Promise<GetWrapperNameReturnType>
+  /**
+   * Gets the zonehash record for a name
+   * @param parameters - {@link GetZonehashRecordParameters}
+   * @returns Zonehash object, or `null` if not found. {@link GetZonehashRecordReturnType}
+   *
+   * @example
+   * import { createPublicClient, http } from 'viem'
+   * import { mainnet } from 'viem/chains'
+   * import { addEnsContracts, ensPublicActions } from '@ensdomains/ensjs'
+   *
+   * const client = createPublicClient({
+   *   chain: addEnsContracts(mainnet),
+   *   transport: http(),
+   * }).extend(ensPublicActions)
+   * const result = await client.getZonehashRecord({ name: 'example.eth' })
+   * // { protocolType: 'ipns', decoded: 'k51qzi5uqu5djdczd6zw0grmo23j2vkj9uzvujencg15s5rlkq0ss4ivll8wqw' }
+   */
+  getZonehashRecord: ({
+    name,
+    gatewayUrls,
+    strict,
+  }: GetZonehashRecordParameters) => Promise<GetZonehashRecordReturnType>
 }
 
 /**
@@ -404,19 +802,36 @@ export const ensPublicActions = <
 >(
   client: Client<TTransport, TChain, TAccount>,
 ): EnsPublicActions => ({
-  ensBatch: (...parameters) => batch(client, ...parameters),
+  // batch options are detected at runtime, so both overloads share an implementation
+  ensBatch: ((...parameters: BatchParameters) =>
+    batch(client, ...parameters)) as EnsPublicActions['ensBatch'],
   getAbiRecord: (parameters) => getAbiRecord(client, parameters),
   getAddressRecord: (parameters) => getAddressRecord(client, parameters),
+  getApproved: (parameters) => getApproved(client, parameters),
+  getApprovedForAll: (parameters) => getApprovedForAll(client, parameters),
   getAvailable: (parameters) => getAvailable(client, parameters),
+  getAvatar: (parameters) => getAvatar(client, parameters),
+  getCommitment: (parameters) => getCommitment(client, parameters),
   getContentHashRecord: (parameters) =>
     getContentHashRecord(client, parameters),
+  getContractFromName: (parameters) => getContractFromName(client, parameters),
   getExpiry: (parameters) => getExpiry(client, parameters),
+  getHeader: (parameters) => getHeader(client, parameters),
+  getInterfaceImplementer: (parameters) =>
+    getInterfaceImplementer(client, parameters),
   getName: (parameters) => getName(client, parameters),
+  getNamePermissions: (parameters) => getNamePermissions(client, parameters),
+  getNames: (parameters) => getNames(client, parameters),
+  getNameStatus: (parameters) => getNameStatus(client, parameters),
   getOwner: (parameters) => getOwner(client, parameters),
   getPrice: (parameters) => getPrice(client, parameters),
+  getPubkeyRecord: (parameters) => getPubkeyRecord(client, parameters),
   getRecords: (parameters) => getRecords(client, parameters),
   getResolver: (parameters) => getResolver(client, parameters),
+  getResolverApprovals: (parameters) =>
+    getResolverApprovals(client, parameters),
   getTextRecord: (parameters) => getTextRecord(client, parameters),
   getWrapperData: (parameters) => getWrapperData(client, parameters),
   getWrapperName: (parameters) => getWrapperName(client, parameters),
+  getZonehashRecord: (parameters) => getZonehashRecord(client, parameters),
 })
@@ -1,5 +1,9 @@
 import type { Account, Transport, WalletClient } from 'viem'
 import type { ChainWithEns } from '../../contracts/consts.js'
+import approveName, {
+  type ApproveNameParameters,
+  type ApproveNameReturnType,
+} from '../../functions/wallet/approveName.js'
 import clearRecords, {
   type ClearRecordsParameters,
   type ClearRecordsReturnType,
@@ -32,6 +36,10 @@ import setAddressRecord, {
   type SetAddressRecordParameters,
   type SetAddressRecordReturnType,
 } from '../../functions/wallet/setAddressRecord.js'
+import setApprovalForAll, {
+  type SetApprovalForAllParameters,
+  type SetApprovalForAllReturnType,
+} from '../../functions/wallet/setApprovalForAll.js'
 import setChildFuses, {
   type SetChildFusesParameters,
   type SetChildFusesReturnType,
@@ -44,10 +52,18 @@ import setFuses, {
   type SetFusesParameters,
   type SetFusesReturnType,
 } from '../../functions/wallet/setFuses.js'
+import setInterfaceRecord, {
+  type SetInterfaceRecordParameters,
+  type SetInterfaceRecordReturnType,
+} from '../../functions/wallet/setInterfaceRecord.js'
 import setPrimaryName, {
   type SetPrimaryNameParameters,
   type SetPrimaryNameReturnType,
 } from '../../functions/wallet/setPrimaryName.js'
+import setPubkeyRecord, {
+  type SetPubkeyRecordParameters,
+  type SetPubkeyRecordReturnType,
+} from '../../functions/wallet/setPubkeyRecord.js'
 import setRecords, {
   type SetRecordsParameters,
   type SetRecordsReturnType,
@@ -56,10 +72,18 @@ import setResolver, {
   type SetResolverParameters,
   type SetResolverReturnType,
 } from '../../functions/wallet/setResolver.js'
+import setResolverApproval, {
+  type SetResolverApprovalParameters,
+  type SetResolverApprovalReturnType,
+} from '../../functions/wallet/setResolverApproval.js'
 import setTextRecord, {
   type SetTextRecordParameters,
   type SetTextRecordReturnType,
 } from '../../functions/wallet/setTextRecord.js'
+import setZonehashRecord, {
+  type SetZonehashRecordParameters,
+  type SetZonehashRecordReturnType,
+} from '../../functions/wallet/setZonehashRecord.js'
 import transferName, {
   type TransferNameParameters,
   type TransferNameReturnType,
@@ -72,11 +96,46 @@ import wrapName, {
   type WrapNameParameters,
   type WrapNameReturnType,
 } from '../../functions/wallet/wrapName.js'
+import {
+  withoutEnsReadCache,
+  withReadCacheInvalidation,
+} from '../../utils/readCache.js'
 
 export type EnsWalletActions<
   TChain extends ChainWithEns,
   TAccount extends Account | undefined,
 > = {
+  /**
+   * Approves an address to manage a single name on the registrar or NameWrapper.
+   * @param parameters - {@link ApproveNameParameters}
+   * @returns Transaction hash. {@link ApproveNameReturnType}
+   *
+   * @example
+   * import { createWalletClient, custom } from 'viem'
+   * import { mainnet } from 'viem/chains'
+   * import { addEnsContracts, ensWalletActions } from '@ensdomains/ensjs'
+   *
+   * const wallet = createWalletClient({
+   *   chain: addEnsContracts(mainnet),
+   *   transport: custom(window.ethereum),
+   * }).extend(ensWalletActions)
+   * const hash = await wallet.approveName({
+   *   name: 'ens.eth',
+   *   contract: 'nameWrapper',
+   *   approvedAddress: '0x983110309620D911731Ac0932219af06091b6744',
+   * })
+   * // 0x...
+   */
+  approveName: ({
+    name,
+    contract,
+    approvedAddress,
+    ...txArgs
+  }: ApproveNameParameters<
+    TChain,
+    TAccount,
+    TChain
+  >) => Promise<ApproveNameReturnType>
   /**
    * Clears the records for a name on a resolver.
    * @param parameters - {@link ClearRecordsParameters}
@@ -373,6 +432,37 @@ export type EnsWalletActions<
     TAccount,
     TChain
   >) => Promise<SetAddressRecordReturnType>
+  /**
+   * Grants or revokes approval for an operator to manage all names of the account on a contract.
+   * @param parameters - {@link SetApprovalForAllParameters}
+   * @returns Transaction hash. {@link SetApprovalForAllReturnType}
+   *
+   * @example
+   * import { createWalletClient, custom } from 'viem'
+   * import { mainnet } from 'viem/chains'
+   * import { addEnsContracts, ensWalletActions } from '@ensdomains/ensjs'
+   *
+   * const wallet = createWalletClient({
+   *   chain: addEnsContracts(mainnet),
+   *   transport: custom(window.ethereum),
+   * }).extend(ensWalletActions)
+   * const hash = await wallet.setApprovalForAll({
+   *   contract: 'nameWrapper',
+   *   operator: '0x983110309620D911731Ac0932219af06091b6744',
+   *   approved: true,
+   * })
+   * // 0x...
+   */
+  setApprovalForAll: ({
+    contract,
+    operator,
+    approved,
+    ...txArgs
+  }: SetApprovalForAllParameters<
+    TChain,
+    TAccount,
+    TChain
+  >) => Promise<SetApprovalForAllReturnType>
   /**
    * Sets the fuses for a name as the parent.
    * @param parameters - {@link SetChildFusesParameters}
@@ -469,6 +559,39 @@ export type EnsWalletActions<
     TAccount,
     TChain
   >) => Promise<SetFusesReturnType>
+  /**
+   * Sets the implementer of an EIP-165 interface for a name on a resolver.
+   * @param parameters - {@link SetInterfaceRecordParameters}
+   * @returns Transaction hash. {@link SetInterfaceRecordReturnType}
+   *
+   * @example
+   * import { createWalletClient, custom } from 'viem'
+   * import { mainnet } from 'viem/chains'
+   * import { addEnsContracts, ensWalletActions } from '@ensdomains/ensjs'
+   *
+   * const wallet = createWalletClient({
+   *   chain: addEnsContracts(mainnet),
+   *   transport: custom(window.ethereum),
+   * }).extend(ensWalletActions)
+   * const hash = await wallet.setInterfaceRecord({
+   *   name: 'ens.eth',
+   *   interfaceId: '0x01ffc9a7',
+   *   implementer: '0xb8c2C29ee19D8307cb7255e1Cd9CbDE883A267d5',
+   *   resolverAddress: '0x4976fb03C32e5B8cfe2b6cCB31c09Ba78EBaBa41',
+   * })
+   * // 0x...
+   */
+  setInterfaceRecord: ({
+    name,
+    interfaceId,
+    implementer,
+    resolverAddress,
+    ...txArgs
+  }: SetInterfaceRecordParameters<
+    TChain,
+    TAccount,
+    TChain
+  >) => Promise<SetInterfaceRecordReturnType>
   /**
    * Sets a primary name for an address.
    * @param parameters - {@link SetPrimaryNameParameters}
@@ -498,6 +621,40 @@ export type EnsWalletActions<
     TAccount,
     TChain
   >) => Promise<SetPrimaryNameReturnType>
+  /**
+   * Sets the ECDSA SECP256k1 public key record for a name on a resolver.
+   * @param parameters - {@link SetPubkeyRecordParameters}
+   * @returns Transaction hash. {@link SetPubkeyRecordReturnType}
+   *
+   * @example
+   * import { createWalletClient, custom } from 'viem'
+   * import { mainnet } from 'viem/chains'
+   * import { addEnsContracts, ensWalletActions } from '@ensdomains/ensjs'
+   *
+   * const wallet = createWalletClient({
+   *   chain: addEnsContracts(mainnet),
+   *   transport: custom(window.ethereum),
+   * }).extend(ensWalletActions)
+   * const hash = await wallet.setPubkeyRecord({
+   *   name: 'ens.eth',
+   *   pubkey: {
+   *     x: '0x1111111111111111111111111111111111111111111111111111111111111111',
+   *     y: '0x2222222222222222222222222222222222222222222222222222222222222222',
+   *   },
+   *   resolverAddress: '0x4976fb03C32e5B8cfe2b6cCB31c09Ba78EBaBa41',
+   * })
+   * // 0x...
+   */
+  setPubkeyRecord: ({
+    name,
+    pubkey,
+    resolverAddress,
+    ...txArgs
+  }: SetPubkeyRecordParameters<
+    TChain,
+    TAccount,
+    TChain
+  >) => Promise<SetPubkeyRecordReturnType>
   /**
    * Sets multiple records for a name on a resolver.
    * @param parameters - {@link SetRecordsParameters}
@@ -534,6 +691,9 @@ export type EnsWalletActions<
     texts,
     coins,
     abi,
+    pubkey,
+    interfaces,
+    checkAuthorisation,
     ...txArgs
   }: SetRecordsParameters<
     TChain,
@@ -571,6 +731,39 @@ export type EnsWalletActions<
     TAccount,
     TChain
   >) => Promise<SetResolverReturnType>
+  /**
+   * Grants or revokes approval for an address to set records on a resolver, for a single name or all names of the account.
+   * @param parameters - {@link SetResolverApprovalParameters}
+   * @returns Transaction hash. {@link SetResolverApprovalReturnType}
+   *
+   * @example
+   * import { createWalletClient, custom } from 'viem'
+   * import { mainnet } from 'viem/chains'
+   * import { addEnsContracts, ensWalletActions } from '@ensdomains/ensjs'
+   *
+   * const wallet = createWalletClient({
+   *   chain: addEnsContracts(mainnet),
+   *   transport: custom(window.ethereum),
+   * }).extend(ensWalletActions)
+   * const hash = await wallet.setResolverApproval({
+   *   name: 'ens.eth',
+   *   resolverAddress: '0x231b0Ee14048e9dCcD1d247744d114a4EB5E8E63',
+   *   delegate: '0x983110309620D911731Ac0932219af06091b6744',
+   *   approved: true,
+   * })
+   * // 0x...
+   */
+  setResolverApproval: ({
+    resolverAddress,
+    name,
+    delegate,
+    approved,
+    ...txArgs
+  }: SetResolverApprovalParameters<
+    TChain,
+    TAccount,
+    TChain
+  >) => Promise<SetResolverApprovalReturnType>
   /**
    * Sets a text record for a name on a resolver.
    * @param parameters - {@link SetTextRecordParameters}
@@ -604,6 +797,37 @@ export type EnsWalletActions<
     TAccount,
     TChain
   >) => Promise<SetTextRecordReturnType>
+  /**
+   * Sets the zonehash record for a name on a resolver.
+   * @param parameters - {@link SetZonehashRecordParameters}
+   * @returns Transaction hash. {@link SetZonehashRecordReturnType}
+   *
+   * @example
+   * import { createWalletClient, custom } from 'viem'
+   * import { mainnet } from 'viem/chains'
+   * import { addEnsContracts, ensWalletActions } from '@ensdomains/ensjs'
+   *
+   * const wallet = createWalletClient({
+   *   chain: addEnsContracts(mainnet),
+   *   transport: custom(window.ethereum),
+   * }).extend(ensWalletActions)
+   * const hash = await wallet.setZonehashRecord({
+   *   name: 'ens.eth',
+   *   zonehash: 'ipns://k51qzi5uqu5djdczd6zw0grmo23j2vkj9uzvujencg15s5rlkq0ss4ivll8wqw',
+   *   resolverAddress: '0x4976fb03C32e5B8cfe2b6cCB31c09Ba78EBaBa41',
+   * })
+   * // 0x...
+   */
+  setZonehashRecord: ({
+    name,
+    zonehash,
+    resolverAddress,
+    ...txArgs
+  }: SetZonehashRecordParameters<
+    TChain,
+    TAccount,
+    TChain
+  >) => Promise<SetZonehashRecordReturnType>
   /**
    * Transfers a name to a new owner.
    * @param parameters - {@link TransferNameParameters}
@@ -723,24 +947,40 @@ export const ensWalletActions = <
   TAccount extends Account | undefined = Account | undefined,
 >(
   client: WalletClient<TTransport, TChain, TAccount>,
-): EnsWalletActions<TChain, TAccount> => ({
-  clearRecords: (parameters) => clearRecords(client, parameters),
-  commitName: (parameters) => commitName(client, parameters),
-  createSubname: (parameters) => createSubname(client, parameters),
-  deleteSubname: (parameters) => deleteSubname(client, parameters),
-  registerName: (parameters) => registerName(client, parameters),
-  renewNames: (parameters) => renewNames(client, parameters),
-  setAbiRecord: (parameters) => setAbiRecord(client, parameters),
-  setAddressRecord: (parameters) => setAddressRecord(client, parameters),
-  setChildFuses: (parameters) => setChildFuses(client, parameters),
-  setContentHashRecord: (parameters) =>
-    setContentHashRecord(client, parameters),
-  setFuses: (parameters) => setFuses(client, parameters),
-  setPrimaryName: (parameters) => setPrimaryName(client, parameters),
-  setRecords: (parameters) => setRecords(client, parameters),
-  setResolver: (parameters) => setResolver(client, parameters),
-  setTextRecord: (parameters) => setTextRecord(client, parameters),
-  transferName: (parameters) => transferName(client, parameters),
-  unwrapName: (parameters) => unwrapName(client, parameters),
-  wrapName: (parameters) => wrapName(client, parameters),
-})
+): EnsWalletActions<TChain, TAccount> => {
+  // reads made by the actions, such as authorisation checks, shouldn't use cached data
+  const uncachedClient = withoutEnsReadCache(client)
+  return withReadCacheInvalidation<EnsWalletActions<TChain, TAccount>>(client, {
+    approveName: (parameters) => approveName(uncachedClient, parameters),
+    clearRecords: (parameters) => clearRecords(uncachedClient, parameters),
+    commitName: (parameters) => commitName(uncachedClient, parameters),
+    createSubname: (parameters) => createSubname(uncachedClient, parameters),
+    deleteSubname: (parameters) => deleteSubname(uncachedClient, parameters),
+    registerName: (parameters) => registerName(uncachedClient, parameters),
+    renewNames: (parameters) => renewNames(uncachedClient, parameters),
+    setAbiRecord: (parameters) => setAbiRecord(uncachedClient, parameters),
+    setAddressRecord: (parameters) =>
+      setAddressRecord(uncachedClient, parameters),
+    setApprovalForAll: (parameters) =>
+      setApprovalForAll(uncachedClient, parameters),
+    setChildFuses: (parameters) => setChildFuses(uncachedClient, parameters),
+    setContentHashRecord: (parameters) =>
+      setContentHashRecord(uncachedClient, parameters),
+    setFuses: (parameters) => setFuses(uncachedClient, parameters),
+    setInterfaceRecord: (parameters) =>
+      setInterfaceRecord(uncachedClient, parameters),
+    setPrimaryName: (parameters) => setPrimaryName(uncachedClient, parameters),
+    setPubkeyRecord: (parameters) =>
+      setPubkeyRecord(uncachedClient, parameters),
+    setRecords: (parameters) => setRecords(uncachedClient, parameters),
+    setResolver: (parameters) => setResolver(uncachedClient, parameters),
+    setResolverApproval: (parameters) =>
+      setResolverApproval(uncachedClient, parameters),
+    setTextRecord: (parameters) => setTextRecord(uncachedClient, parameters),
+    setZonehashRecord: (parameters) =>
+      setZonehashRecord(uncachedClient, parameters),
+    transferName: (parameters) => transferName(uncachedClient, parameters),
+    unwrapName: (parameters) => unwrapName(uncachedClient, parameters),
+    wrapName: (parameters) => wrapName(uncachedClient, parameters),
+  })
+}
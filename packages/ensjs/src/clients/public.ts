@@ -9,8 +9,15 @@ import { addEnsContracts } from '../contracts/addEnsContracts.js'
 import type {
   ChainWithBaseContracts,
   ChainWithEns,
+  CheckedChainWithEns,
 } from '../contracts/consts.js'
 import type { Prettify } from '../types.js'
+import type { EnsReadCache } from '../utils/readCache.js'
+import {
+  createRequestCoalescer,
+  type CreateRequestCoalescerParameters,
+  type RequestCoalescer,
+} from '../utils/requestCoalescer.js'
 import { ensPublicActions, type EnsPublicActions } from './decorators/public.js'
 import {
   ensSubgraphActions,
@@ -25,6 +32,10 @@ export type EnsPublicClientConfig<
   'batch' | 'key' | 'name' | 'pollingInterval' | 'transport'
 > & {
   chain: TChain
+  /** Read cache to use for contract reads, created with `createEnsReadCache` */
+  cache?: EnsReadCache
+  /** Collects contract reads made within a window and sends them as a single multicall, disabled by default */
+  coalesce?: boolean | CreateRequestCoalescerParameters
 }
 
 export type EnsPublicClient<
@@ -36,7 +47,11 @@ export type EnsPublicClient<
     TChain,
     undefined,
     PublicRpcSchema,
-    EnsPublicActions & EnsSubgraphActions
+    EnsPublicActions &
+      EnsSubgraphActions & {
+        ensReadCache?: EnsReadCache
+        ensRequestCoalescer?: RequestCoalescer
+      }
   >
 >
 
@@ -61,14 +76,16 @@ export const createEnsPublicClient = <
   TChain extends ChainWithBaseContracts,
 >({
   batch,
+  cache,
   chain,
+  coalesce,
   key = 'ensPublic',
   name = 'ENS Public Client',
   transport,
   pollingInterval,
 }: EnsPublicClientConfig<TTransport, TChain>): EnsPublicClient<
   TTransport,
-  ChainWithEns<TChain>
+  CheckedChainWithEns<TChain>
 > => {
   return createClient({
     batch,
@@ -79,6 +96,15 @@ export const createEnsPublicClient = <
     transport,
     type: 'ensPublicClient',
   })
+    .extend((client) => ({
+      ensReadCache: cache,
+      ensRequestCoalescer: coalesce
+        ? createRequestCoalescer(
+            client,
+            typeof coalesce === 'object' ? coalesce : {},
+          )
+        : undefined,
+    }))
     .extend(ensPublicActions)
     .extend(ensSubgraphActions)
 }
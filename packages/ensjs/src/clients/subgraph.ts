@@ -9,6 +9,7 @@ import { addEnsContracts } from '../contracts/addEnsContracts.js'
 import type {
   ChainWithBaseContracts,
   ChainWithEns,
+  CheckedChainWithEns,
 } from '../contracts/consts.js'
 import type { Prettify } from '../types.js'
 import {
@@ -61,7 +62,7 @@ export const createEnsSubgraphClient = <
   pollingInterval,
 }: EnsSubgraphClientConfig<TTransport, TChain>): EnsSubgraphClient<
   TTransport,
-  ChainWithEns<TChain>
+  CheckedChainWithEns<TChain>
 > => {
   return createClient({
     batch,
@@ -16,6 +16,7 @@ import type {
   CheckedChainWithEns,
 } from '../contracts/consts.js'
 import type { Assign, Prettify } from '../types.js'
+import type { EnsReadCache } from '../utils/readCache.js'
 import { ensWalletActions, type EnsWalletActions } from './decorators/wallet.js'
 
 export type EnsWalletClientConfig<
@@ -32,6 +33,8 @@ export type EnsWalletClientConfig<
   >,
   {
     chain: TChain
+    /** Read cache to invalidate when names are written to, created with `createEnsReadCache` */
+    cache?: EnsReadCache
   }
 >
 
@@ -45,7 +48,8 @@ export type EnsWalletClient<
     TChain,
     TAccount,
     WalletRpcSchema,
-    WalletActions<TChain, TAccount> & EnsWalletActions<TChain, TAccount>
+    WalletActions<TChain, TAccount> &
+      EnsWalletActions<TChain, TAccount> & { ensReadCache?: EnsReadCache }
   >
 >
 
@@ -71,6 +75,7 @@ export const createEnsWalletClient = <
   TAccountOrAddress extends Account | Address | undefined = undefined,
 >({
   account,
+  cache,
   chain,
   key = 'ensWallet',
   name = 'ENS Wallet Client',
@@ -92,5 +97,7 @@ export const createEnsWalletClient = <
     name,
     pollingInterval,
     transport,
-  }).extend(ensWalletActions)
+  })
+    .extend(() => ({ ensReadCache: cache }))
+    .extend(ensWalletActions)
 }
@@ -0,0 +1,81 @@
+import { defineChain } from 'viem'
+import { mainnet } from 'viem/chains'
+import { describe, expect, it } from 'vitest'
+import { addEnsContracts } from './addEnsContracts.js'
+import { addresses, supportedContracts, type EnsDeployment } from './consts.js'
+
+const customChain = defineChain({
+  id: 7777,
+  name: 'Custom',
+  nativeCurrency: { name: 'Ether', symbol: 'ETH', decimals: 18 },
+  rpcUrls: { default: { http: ['http://localhost:8545'] } },
+})
+
+const deploymentContracts = {
+  ...Object.fromEntries(
+    supportedContracts.map((contract) => [
+      contract,
+      { address: '0x0000000000000000000000000000000000000001' },
+    ]),
+  ),
+  multicall3: { address: '0x0000000000000000000000000000000000000002' },
+} as unknown as EnsDeployment['contracts']
+
+describe('addEnsContracts', () => {
+  it('adds built-in contracts and subgraphs for a supported chain', () => {
+    const chain = addEnsContracts(mainnet)
+    expect(chain.contracts.ensRegistry).toEqual(addresses[1].ensRegistry)
+    expect(chain.contracts.multicall3).toEqual(mainnet.contracts.multicall3)
+    expect(chain.subgraphs.ens.url).toBeTypeOf('string')
+  })
+  it('throws for an unsupported chain without a deployment', () => {
+    expect(() => addEnsContracts(customChain))
+      .toThrowErrorMatchingInlineSnapshot(`
+      [UnsupportedChainError: Unsupported chain: 7777
+
+      - Supported chains: 1, 5, 17000, 11155111
+
+      Version: @ensdomains/ensjs@1.0.0-mock.0]
+    `)
+  })
+  it('adds a custom deployment to an unsupported chain', () => {
+    const chain = addEnsContracts(customChain, {
+      contracts: deploymentContracts,
+      subgraphUrl: 'http://localhost:8000/subgraphs/name/ens',
+    })
+    expect(chain.contracts).toEqual(deploymentContracts)
+    expect(chain.subgraphs).toEqual({
+      ens: { url: 'http://localhost:8000/subgraphs/name/ens' },
+    })
+  })
+  it('does not add subgraphs when no subgraph url is specified', () => {
+    const chain = addEnsContracts(customChain, {
+      contracts: deploymentContracts,
+    })
+    expect(chain).not.toHaveProperty('subgraphs')
+  })
+  it('returns a chain with a custom deployment as-is', () => {
+    const chain = addEnsContracts(customChain, {
+      contracts: deploymentContracts,
+    })
+    expect(addEnsContracts(chain)).toBe(chain)
+  })
+  it('throws when a custom deployment is missing contracts', () => {
+    const {
+      multicall3: _,
+      ensNameWrapper: __,
+      ...contracts
+    } = deploymentContracts
+    expect(() =>
+      addEnsContracts(customChain, {
+        contracts: contracts as typeof deploymentContracts,
+      }),
+    ).toThrowErrorMatchingInlineSnapshot(`
+      [MissingEnsContractsError: Missing ENS contracts for chain: 7777
+
+      - Missing contracts: ensNameWrapper, multicall3
+
+      Version: @ensdomains/ensjs@1.0.0-mock.0]
+    `)
+  })
+})
@@ -1,16 +1,32 @@
 import type { Chain } from 'viem'
-import { NoChainError, UnsupportedChainError } from '../errors/contracts.js'
+import {
+  MissingEnsContractsError,
+  NoChainError,
+  UnsupportedChainError,
+} from '../errors/contracts.js'
 import {
   addresses,
   subgraphs,
   supportedChains,
+  supportedContracts,
+  type ChainWithEnsDeployment,
   type CheckedChainWithEns,
+  type EnsDeployment,
   type SupportedChain,
 } from './consts.js'
 
+const requiredContracts = [...supportedContracts, 'multicall3'] as const
+
+const getMissingContracts = (contracts: Chain['contracts']) =>
+  requiredContracts.filter((contract) => {
+    const chainContract = contracts?.[contract]
+    return !chainContract || !('address' in chainContract)
+  })
+
 /**
  * Adds ENS contract addresses to the viem chain
  * @param chain - The viem {@link Chain} object to add the ENS contracts to
+ * @param deployment - Optional custom ENS deployment to use instead of the built-in addresses. {@link EnsDeployment}
  *
  * @example
  * import { createPublicClient, http } from 'viem'
@@ -21,9 +37,55 @@ import {
  *   chain: addEnsContracts(mainnet),
  *   transport: http(),
  * })
+ *
+ * @example
+ * import { defineChain, http } from 'viem'
+ * import { addEnsContracts, createEnsPublicClient } from '@ensdomains/ensjs'
+ *
+ * const dreyerx = defineChain({ ... })
+ * const client = createEnsPublicClient({
+ *   chain: addEnsContracts(dreyerx, {
+ *     contracts: {
+ *       ensRegistry: { address: '0x...' },
+ *       ensUniversalResolver: { address: '0x...' },
+ *       // ...all other ENS contracts
+ *     },
+ *     subgraphUrl: 'https://example.com/subgraphs/name/ens',
+ *   }),
+ *   transport: http(),
+ * })
  */
-export const addEnsContracts = <const TChain extends Chain>(chain: TChain) => {
+export const addEnsContracts = <
+  const TChain extends Chain,
+  const TDeployment extends EnsDeployment | undefined = undefined,
+>(
+  chain: TChain,
+  deployment?: TDeployment,
+) => {
+  type ReturnType = TDeployment extends EnsDeployment
+    ? ChainWithEnsDeployment<TChain, TDeployment>
+    : CheckedChainWithEns<TChain>
+
   if (!chain) throw new NoChainError()
+  if (deployment) {
+    const contracts = { ...chain.contracts, ...deployment.contracts }
+    const missingContracts = getMissingContracts(contracts)
+    if (missingContracts.length)
+      throw new MissingEnsContractsError({
+        chainId: chain.id,
+        missingContracts,
+      })
+    return {
+      ...chain,
+      contracts,
+      ...(deployment.subgraphUrl
+        ? { subgraphs: { ens: { url: deployment.subgraphUrl } } }
+        : {}),
+    } as unknown as ReturnType
+  }
+  // chain already has a full deployment, so can be used as-is
+  if (!getMissingContracts(chain.contracts).length)
+    return chain as unknown as ReturnType
   if (!supportedChains.includes(chain.id as SupportedChain))
     throw new UnsupportedChainError({
       chainId: chain.id,
@@ -38,5 +100,5 @@ export const addEnsContracts = <const TChain extends Chain>(chain: TChain) => {
     subgraphs: {
       ...subgraphs[chain.id as SupportedChain],
     },
-  } as unknown as CheckedChainWithEns<TChain>
+  } as unknown as ReturnType
 }
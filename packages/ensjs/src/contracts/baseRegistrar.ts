@@ -1,7 +1,11 @@
 import {
+  erc721ApproveSnippet,
+  erc721GetApprovedSnippet,
+  erc721IsApprovedForAllSnippet,
   erc721OwnerOfSnippet,
   erc721SafeTransferFromSnippet,
   erc721SafeTransferFromWithDataSnippet,
+  erc721SetApprovalForAllSnippet,
 } from './erc721.js'
 
 export const baseRegistrarAvailableSnippet = [
@@ -87,3 +91,17 @@ export const baseRegistrarSafeTransferFromWithDataSnippet = [
 ] as const
 
 export const baseRegistrarOwnerOfSnippet = [...erc721OwnerOfSnippet] as const
+
+export const baseRegistrarGetApprovedSnippet = [
+  ...erc721GetApprovedSnippet,
+] as const
+
+export const baseRegistrarIsApprovedForAllSnippet = [
+  ...erc721IsApprovedForAllSnippet,
+] as const
+
+export const baseRegistrarApproveSnippet = [...erc721ApproveSnippet] as const
+
+export const baseRegistrarSetApprovalForAllSnippet = [
+  ...erc721SetApprovalForAllSnippet,
+] as const
@@ -208,9 +208,42 @@ export type ChainWithEns<TChain extends Chain = Chain> = Omit<
   'contracts'
 > & {
   contracts: BaseChainContracts & EnsChainContracts
-  subgraphs: Subgraphs
+  subgraphs?: Subgraphs
 }
 
+export type ChainWithL2ReverseRegistrar<TChain extends Chain = Chain> = Omit<
+  TChain,
+  'contracts'
+> & {
+  contracts: NonNullable<TChain['contracts']> & {
+    /** ENSIP-19 reverse registrar for the chain */
+    ensL2ReverseRegistrar: ChainContract
+  }
+}
+
+export type EnsDeployment = {
+  /** Addresses for every ENS contract, plus multicall3 if the chain does not already define it */
+  contracts: Record<SupportedContract, ChainContract> & {
+    multicall3?: ChainContract
+  }
+  /** ENS subgraph URL for the deployment */
+  subgraphUrl?: string
+}
+
+export type ChainWithEnsDeployment<
+  TChain extends Chain,
+  TDeployment extends EnsDeployment,
+> = Assign<
+  TChain,
+  {
+    contracts: Prettify<
+      Assign<NonNullable<TChain['contracts']>, TDeployment['contracts']>
+    >
+  } & (TDeployment['subgraphUrl'] extends string
+    ? { subgraphs: { ens: { url: TDeployment['subgraphUrl'] } } }
+    : {})
+>
+
 export type ChainWithBaseContracts = Assign<
   Omit<Chain, 'contracts'>,
   {
@@ -219,7 +252,9 @@ export type ChainWithBaseContracts = Assign<
 >
 
 export type CheckedChainWithEns<TChain extends Chain> =
-  TChain['id'] extends SupportedChain
+  TChain extends ChainWithEns
+    ? TChain
+    : TChain['id'] extends SupportedChain
     ? TChain['contracts'] extends BaseChainContracts
       ? TChain & {
           contracts: Prettify<(typeof addresses)[TChain['id']]>
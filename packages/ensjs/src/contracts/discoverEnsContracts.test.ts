@@ -0,0 +1,83 @@
+import { createPublicClient, getAddress, http } from 'viem'
+import { describe, expect, it, vi } from 'vitest'
+import { deploymentAddresses, localhost } from '../test/addTestContracts.js'
+import { discoverEnsContracts } from './discoverEnsContracts.js'
+
+const baseClient = createPublicClient({
+  chain: {
+    ...localhost,
+    contracts: {
+      ensRegistry: localhost.contracts.ensRegistry,
+      ensUniversalResolver: localhost.contracts.ensUniversalResolver,
+      multicall3: localhost.contracts.multicall3,
+    },
+  },
+  transport: http('http://localhost:8545'),
+})
+
+const remainingContracts = {
+  ensBulkRenewal: localhost.contracts.ensBulkRenewal,
+  ensDnsRegistrar: localhost.contracts.ensDnsRegistrar,
+  ensDnssecImpl: localhost.contracts.ensDnssecImpl,
+  ensReverseRegistrar: localhost.contracts.ensReverseRegistrar,
+}
+
+describe('discoverEnsContracts', () => {
+  it('should discover contracts from the eth node', async () => {
+    const chain = await discoverEnsContracts(baseClient, {
+      contracts: remainingContracts,
+    })
+    expect(chain.contracts.ensBaseRegistrarImplementation.address).toBe(
+      getAddress(deploymentAddresses.BaseRegistrarImplementation),
+    )
+    expect(chain.contracts.ensEthRegistrarController.address).toBe(
+      getAddress(deploymentAddresses.ETHRegistrarController),
+    )
+    expect(chain.contracts.ensNameWrapper.address).toBe(
+      getAddress(deploymentAddresses.NameWrapper),
+    )
+    expect(chain.contracts.ensPublicResolver.address).toBe(
+      getAddress(deploymentAddresses.PublicResolver),
+    )
+    expect(chain.contracts.ensRegistry).toEqual(localhost.contracts.ensRegistry)
+  })
+  it('should allow discovered contracts to be overridden', async () => {
+    const chain = await discoverEnsContracts(baseClient, {
+      contracts: {
+        ...remainingContracts,
+        ensPublicResolver: {
+          address: deploymentAddresses.LegacyPublicResolver,
+        },
+      },
+    })
+    expect(chain.contracts.ensPublicResolver.address).toBe(
+      deploymentAddresses.LegacyPublicResolver,
+    )
+  })
+  it('should throw when contracts are missing', async () => {
+    await expect(discoverEnsContracts(baseClient)).rejects
+      .toThrowErrorMatchingInlineSnapshot(`
+      [MissingEnsContractsError: Missing ENS contracts for chain: 1337
+
+      - Missing contracts: ensBulkRenewal, ensDnsRegistrar, ensDnssecImpl, ensPublicResolver, ensReverseRegistrar
+
+      Version: @ensdomains/ensjs@1.0.0-mock.0]
+    `)
+  })
+  it('should call onMismatch when a discovered contract differs from the built-in address', async () => {
+    const onMismatch = vi.fn()
+    const mainnetIdClient = createPublicClient({
+      chain: { ...baseClient.chain, id: 1 },
+      transport: http('http://localhost:8545'),
+    })
+    await discoverEnsContracts(mainnetIdClient, {
+      contracts: remainingContracts,
+      onMismatch,
+    })
+    expect(onMismatch).toHaveBeenCalledWith({
+      contract: 'ensEthRegistrarController',
+      address: getAddress(deploymentAddresses.ETHRegistrarController),
+      defaultAddress: expect.any(String),
+    })
+  })
+})
@@ -0,0 +1,245 @@
+import {
+  getAddress,
+  isAddressEqual,
+  type Address,
+  type Client,
+  type Hex,
+  type Transport,
+} from 'viem'
+import { multicall, readContract } from 'viem/actions'
+import { EMPTY_ADDRESS } from '../utils/consts.js'
+import { namehash } from '../utils/normalise.js'
+import { addEnsContracts } from './addEnsContracts.js'
+import {
+  addresses,
+  subgraphs,
+  supportedChains,
+  type ChainWithBaseContracts,
+  type ChainWithEns,
+  type EnsDeployment,
+  type SupportedChain,
+  type SupportedContract,
+} from './consts.js'
+import { ethRegistrarControllerNameWrapperSnippet } from './ethRegistrarController.js'
+import { getChainContractAddress } from './getChainContractAddress.js'
+import { publicResolverInterfaceImplementerSnippet } from './publicResolver.js'
+import { registryOwnerSnippet, registryResolverSnippet } from './registry.js'
+import { reverseRegistrarDefaultResolverSnippet } from './reverseRegistrar.js'
+
+const ETH_REGISTRAR_CONTROLLER_INTERFACE_ID = '0x612e8c09'
+const NAME_WRAPPER_INTERFACE_ID = '0x019a38fb'
+
+type DiscoveredContract = Extract<
+  SupportedContract,
+  | 'ensBaseRegistrarImplementation'
+  | 'ensEthRegistrarController'
+  | 'ensNameWrapper'
+  | 'ensPublicResolver'
+>
+
+export type DiscoveredContractMismatch = {
+  /** Contract that was discovered */
+  contract: DiscoveredContract
+  /** Discovered address of the contract */
+  address: Address
+  /** Built-in address of the contract */
+  defaultAddress: Address
+}
+
+export type DiscoverEnsContractsParameters = {
+  /** Addresses for contracts that can't be discovered, or to override discovered contracts with */
+  contracts?: Partial<EnsDeployment['contracts']>
+  /** ENS subgraph URL for the deployment */
+  subgraphUrl?: string
+  /** Interface IDs to look up on the `eth` resolver */
+  interfaceIds?: {
+    /** Interface ID for the ETH registrar controller (default: `0x612e8c09`) */
+    ensEthRegistrarController?: Hex
+    /** Interface ID for the name wrapper (default: `0x019a38fb`) */
+    ensNameWrapper?: Hex
+  }
+  /** Callback for discovered contracts that differ from the built-in addresses for supported chains */
+  onMismatch?: (mismatch: DiscoveredContractMismatch) => void
+}
+
+export type DiscoverEnsContractsReturnType<
+  TChain extends ChainWithBaseContracts,
+> = ChainWithEns<TChain>
+
+const getDefaultContracts = (chainId: number) => {
+  if (!supportedChains.includes(chainId as SupportedChain)) return {}
+  return addresses[chainId as SupportedChain]
+}
+
+/**
+ * Discovers ENS contract addresses for a chain, starting from the registry and universal resolver.
+ * The public resolver is discovered as the default resolver of the reverse registrar, if the reverse registrar is known.
+ * Contracts that can't be discovered from the registry are taken from the built-in addresses for supported chains,
+ * and otherwise need to be specified.
+ * @param client - A viem {@link Client} with `ensRegistry`, `ensUniversalResolver` and `multicall3` contracts
+ * @param parameters - {@link DiscoverEnsContractsParameters}
+ * @returns Chain with ENS contracts added. {@link DiscoverEnsContractsReturnType}
+ *
+ * @example
+ * import { createPublicClient, defineChain, http } from 'viem'
+ * import { createEnsPublicClient, discoverEnsContracts } from '@ensdomains/ensjs'
+ *
+ * const client = createPublicClient({
+ *   chain: defineChain({
+ *     ...,
+ *     contracts: {
+ *       ensRegistry: { address: '0x...' },
+ *       ensUniversalResolver: { address: '0x...' },
+ *       multicall3: { address: '0x...' },
+ *     },
+ *   }),
+ *   transport: http(),
+ * })
+ * const chain = await discoverEnsContracts(client, {
+ *   contracts: {
+ *     ensBulkRenewal: { address: '0x...' },
+ *     ensDnsRegistrar: { address: '0x...' },
+ *     ensDnssecImpl: { address: '0x...' },
+ *     ensReverseRegistrar: { address: '0x...' },
+ *   },
+ * })
+ * const ensClient = createEnsPublicClient({ chain, transport: http() })
+ */
+export const discoverEnsContracts = async <
+  TChain extends ChainWithBaseContracts,
+>(
+  client: Client<Transport, TChain>,
+  {
+    contracts: contractOverrides = {},
+    subgraphUrl,
+    interfaceIds: {
+      ensEthRegistrarController:
+        ethRegistrarControllerInterfaceId = ETH_REGISTRAR_CONTROLLER_INTERFACE_ID,
+      ensNameWrapper: nameWrapperInterfaceId = NAME_WRAPPER_INTERFACE_ID,
+    } = {},
+    onMismatch,
+  }: DiscoverEnsContractsParameters = {},
+): Promise<DiscoverEnsContractsReturnType<TChain>> => {
+  const ethNode = namehash('eth')
+  const ensRegistry = getChainContractAddress({
+    client,
+    contract: 'ensRegistry',
+  })
+
+  const defaultContracts = getDefaultContracts(client.chain.id) as Partial<
+    Record<SupportedContract, { address: Address }>
+  >
+  const ensReverseRegistrar = (
+    contractOverrides.ensReverseRegistrar ??
+    (
+      client.chain.contracts as Partial<
+        Record<SupportedContract, { address: Address }>
+      >
+    )?.ensReverseRegistrar ??
+    defaultContracts.ensReverseRegistrar
+  )?.address
+
+  const [ensBaseRegistrarImplementation, ethResolver] = await multicall(
+    client,
+    {
+      allowFailure: false,
+      contracts: [
+        {
+          address: ensRegistry,
+          abi: registryOwnerSnippet,
+          functionName: 'owner',
+          args: [ethNode],
+        },
+        {
+          address: ensRegistry,
+          abi: registryResolverSnippet,
+          functionName: 'resolver',
+          args: [ethNode],
+        },
+      ],
+    },
+  )
+
+  const [
+    [ensEthRegistrarController, implementedNameWrapper],
+    ensPublicResolver,
+  ] = await Promise.all([
+    ethResolver === EMPTY_ADDRESS
+      ? ([EMPTY_ADDRESS, EMPTY_ADDRESS] as const)
+      : multicall(client, {
+          allowFailure: false,
+          contracts: [
+            ethRegistrarControllerInterfaceId,
+            nameWrapperInterfaceId,
+          ].map(
+            (interfaceId) =>
+              ({
+                address: ethResolver,
+                abi: publicResolverInterfaceImplementerSnippet,
+                functionName: 'interfaceImplementer',
+                args: [ethNode, interfaceId],
+              } as const),
+          ),
+        }),
+    // the eth resolver isn't necessarily the public resolver, so the default resolver for new names is used
+    ensReverseRegistrar
+      ? readContract(client, {
+          address: ensReverseRegistrar,
+          abi: reverseRegistrarDefaultResolverSnippet,
+          functionName: 'defaultResolver',
+        })
+      : EMPTY_ADDRESS,
+  ])
+
+  // fall back to the controller's wrapper if no implementer is set
+  const ensNameWrapper =
+    implementedNameWrapper === EMPTY_ADDRESS &&
+    ensEthRegistrarController !== EMPTY_ADDRESS
+      ? await readContract(client, {
+          address: ensEthRegistrarController,
+          abi: ethRegistrarControllerNameWrapperSnippet,
+          functionName: 'nameWrapper',
+        })
+      : implementedNameWrapper
+
+  const discovered = Object.fromEntries(
+    Object.entries({
+      ensBaseRegistrarImplementation,
+      ensEthRegistrarController,
+      ensNameWrapper,
+      ensPublicResolver,
+    } as Record<DiscoveredContract, Address>)
+      .filter(([, address]) => address !== EMPTY_ADDRESS)
+      .map(([contract, address]) => [
+        contract,
+        { address: getAddress(address) },
+      ]),
+  ) as Partial<Record<DiscoveredContract, { address: Address }>>
+
+  for (const [contract, { address }] of Object.entries(discovered)) {
+    const defaultAddress =
+      defaultContracts[contract as DiscoveredContract]?.address
+    if (defaultAddress && !isAddressEqual(defaultAddress, address))
+      onMismatch?.({
+        contract: contract as DiscoveredContract,
+        address,
+        defaultAddress,
+      })
+  }
+
+  const defaultSubgraphUrl = supportedChains.includes(
+    client.chain.id as SupportedChain,
+  )
+    ? subgraphs[client.chain.id as SupportedChain].ens.url
+    : undefined
+
+  return addEnsContracts(client.chain, {
+    contracts: {
+      ...defaultContracts,
+      ...client.chain.contracts,
+      ...discovered,
+      ...contractOverrides,
+    } as EnsDeployment['contracts'],
+    subgraphUrl: subgraphUrl ?? defaultSubgraphUrl,
+  }) as unknown as DiscoverEnsContractsReturnType<TChain>
+}
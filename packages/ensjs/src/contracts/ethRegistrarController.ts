@@ -143,6 +143,51 @@ export const ethRegistrarControllerCommitmentsSnippet = [
   },
 ] as const
 
+export const ethRegistrarControllerMinCommitmentAgeSnippet = [
+  {
+    inputs: [],
+    name: 'minCommitmentAge',
+    outputs: [
+      {
+        name: '',
+        type: 'uint256',
+      },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+] as const
+
+export const ethRegistrarControllerMaxCommitmentAgeSnippet = [
+  {
+    inputs: [],
+    name: 'maxCommitmentAge',
+    outputs: [
+      {
+        name: '',
+        type: 'uint256',
+      },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+] as const
+
+export const ethRegistrarControllerNameWrapperSnippet = [
+  {
+    inputs: [],
+    name: 'nameWrapper',
+    outputs: [
+      {
+        name: '',
+        type: 'address',
+      },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+] as const
+
 export const ethRegistrarControllerRegisterSnippet = [
   ...ethRegistrarControllerErrors,
   {
@@ -1,11 +1,15 @@
 export {
+  baseRegistrarApproveSnippet,
   baseRegistrarAvailableSnippet,
+  baseRegistrarGetApprovedSnippet,
   baseRegistrarGracePeriodSnippet,
+  baseRegistrarIsApprovedForAllSnippet,
   baseRegistrarNameExpiresSnippet,
   baseRegistrarOwnerOfSnippet,
   baseRegistrarReclaimSnippet,
   baseRegistrarSafeTransferFromSnippet,
   baseRegistrarSafeTransferFromWithDataSnippet,
+  baseRegistrarSetApprovalForAllSnippet,
 } from './baseRegistrar.js'
 export {
   bulkRenewalRenewAllSnippet,
@@ -17,9 +21,12 @@ export {
   supportedChains,
   supportedContracts,
   type ChainWithEns,
+  type ChainWithEnsDeployment,
+  type ChainWithL2ReverseRegistrar,
   type CheckedChainWithEns,
   type ClientWithAccount,
   type ClientWithEns,
+  type EnsDeployment,
   type SupportedChain,
   type SupportedContract,
 } from './consts.js'
@@ -32,26 +39,55 @@ export {
   dnssecImplAnchorsSnippet,
   dnssecImplVerifyRrSetSnippet,
 } from './dnssecImpl.js'
+export {
+  erc1155BalanceOfSnippet,
+  erc1155IsApprovedForAllSnippet,
+  erc1155SafeTransferFromSnippet,
+  erc1155SetApprovalForAllSnippet,
+  erc1155UriSnippet,
+} from './erc1155.js'
 export { erc165SupportsInterfaceSnippet } from './erc165.js'
+export {
+  erc721ApproveSnippet,
+  erc721GetApprovedSnippet,
+  erc721IsApprovedForAllSnippet,
+  erc721OwnerOfSnippet,
+  erc721SafeTransferFromSnippet,
+  erc721SafeTransferFromWithDataSnippet,
+  erc721SetApprovalForAllSnippet,
+  erc721TokenUriSnippet,
+} from './erc721.js'
 export {
   ethRegistrarControllerCommitSnippet,
   ethRegistrarControllerCommitmentsSnippet,
   ethRegistrarControllerErrors,
+  ethRegistrarControllerMaxCommitmentAgeSnippet,
+  ethRegistrarControllerMinCommitmentAgeSnippet,
+  ethRegistrarControllerNameWrapperSnippet,
   ethRegistrarControllerRegisterSnippet,
   ethRegistrarControllerRenewSnippet,
   ethRegistrarControllerRentPriceSnippet,
 } from './ethRegistrarController.js'
 export { getChainContractAddress } from './getChainContractAddress.js'
 export {
+  l2ReverseRegistrarSetNameForAddrSnippet,
+  l2ReverseRegistrarSetNameSnippet,
+} from './l2ReverseRegistrar.js'
+export {
+  multicallGetBlockNumberSnippet,
   multicallGetCurrentBlockTimestampSnippet,
   multicallTryAggregateSnippet,
 } from './multicall.js'
 export {
+  nameWrapperApproveSnippet,
   nameWrapperErrors,
+  nameWrapperGetApprovedSnippet,
   nameWrapperGetDataSnippet,
+  nameWrapperIsApprovedForAllSnippet,
   nameWrapperNamesSnippet,
   nameWrapperOwnerOfSnippet,
   nameWrapperSafeTransferFromSnippet,
+  nameWrapperSetApprovalForAllSnippet,
   nameWrapperSetChildFusesSnippet,
   nameWrapperSetFusesSnippet,
   nameWrapperSetRecordSnippet,
@@ -64,18 +100,31 @@ export {
 } from './nameWrapper.js'
 export {
   publicResolverAbiSnippet,
+  publicResolverApproveSnippet,
   publicResolverClearRecordsSnippet,
   publicResolverContenthashSnippet,
+  publicResolverDnsRecordSnippet,
+  publicResolverInterfaceImplementerSnippet,
+  publicResolverIsApprovedForAllSnippet,
+  publicResolverIsApprovedForSnippet,
   publicResolverMultiAddrSnippet,
   publicResolverMulticallSnippet,
+  publicResolverPubkeySnippet,
   publicResolverSetAbiSnippet,
   publicResolverSetAddrSnippet,
+  publicResolverSetApprovalForAllSnippet,
   publicResolverSetContenthashSnippet,
+  publicResolverSetDnsRecordsSnippet,
+  publicResolverSetInterfaceSnippet,
+  publicResolverSetPubkeySnippet,
   publicResolverSetTextSnippet,
+  publicResolverSetZonehashSnippet,
   publicResolverSingleAddrSnippet,
   publicResolverTextSnippet,
+  publicResolverZonehashSnippet,
 } from './publicResolver.js'
 export {
+  registryIsApprovedForAllSnippet,
   registryOwnerSnippet,
   registryResolverSnippet,
   registrySetApprovalForAllSnippet,
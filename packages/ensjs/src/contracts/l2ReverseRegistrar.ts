@@ -0,0 +1,43 @@
+export const l2ReverseRegistrarSetNameForAddrSnippet = [
+  {
+    inputs: [
+      {
+        name: 'addr',
+        type: 'address',
+      },
+      {
+        name: 'name',
+        type: 'string',
+      },
+    ],
+    name: 'setNameForAddr',
+    outputs: [
+      {
+        name: '',
+        type: 'bytes32',
+      },
+    ],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+] as const
+
+export const l2ReverseRegistrarSetNameSnippet = [
+  {
+    inputs: [
+      {
+        name: 'name',
+        type: 'string',
+      },
+    ],
+    name: 'setName',
+    outputs: [
+      {
+        name: '',
+        type: 'bytes32',
+      },
+    ],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+] as const
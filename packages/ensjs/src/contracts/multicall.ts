@@ -42,6 +42,21 @@ export const multicallTryAggregateSnippet = [
   },
 ] as const
 
+export const multicallGetBlockNumberSnippet = [
+  {
+    inputs: [],
+    name: 'getBlockNumber',
+    outputs: [
+      {
+        name: 'blockNumber',
+        type: 'uint256',
+      },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+] as const
+
 export const multicallGetCurrentBlockTimestampSnippet = [
   {
     inputs: [],
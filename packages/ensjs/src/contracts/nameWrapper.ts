@@ -1,4 +1,8 @@
-import { erc1155SafeTransferFromSnippet } from './erc1155.js'
+import {
+  erc1155IsApprovedForAllSnippet,
+  erc1155SafeTransferFromSnippet,
+  erc1155SetApprovalForAllSnippet,
+} from './erc1155.js'
 import { erc721OwnerOfSnippet } from './erc721.js'
 import { registrySetResolverSnippet } from './registry.js'
 
@@ -387,3 +391,54 @@ export const nameWrapperSetResolverSnippet = [
   ...nameWrapperErrors,
   ...registrySetResolverSnippet,
 ] as const
+
+export const nameWrapperIsApprovedForAllSnippet = [
+  ...nameWrapperErrors,
+  ...erc1155IsApprovedForAllSnippet,
+] as const
+
+export const nameWrapperSetApprovalForAllSnippet = [
+  ...nameWrapperErrors,
+  ...erc1155SetApprovalForAllSnippet,
+] as const
+
+export const nameWrapperGetApprovedSnippet = [
+  ...nameWrapperErrors,
+  {
+    inputs: [
+      {
+        name: 'id',
+        type: 'uint256',
+      },
+    ],
+    name: 'getApproved',
+    outputs: [
+      {
+        name: 'operator',
+        type: 'address',
+      },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+] as const
+
+export const nameWrapperApproveSnippet = [
+  ...nameWrapperErrors,
+  {
+    inputs: [
+      {
+        name: 'to',
+        type: 'address',
+      },
+      {
+        name: 'tokenId',
+        type: 'uint256',
+      },
+    ],
+    name: 'approve',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+] as const
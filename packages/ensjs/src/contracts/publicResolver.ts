@@ -239,3 +239,277 @@ export const publicResolverMulticallSnippet = [
     type: 'function',
   },
 ] as const
+
+export const publicResolverInterfaceImplementerSnippet = [
+  {
+    inputs: [
+      {
+        name: 'node',
+        type: 'bytes32',
+      },
+      {
+        name: 'interfaceID',
+        type: 'bytes4',
+      },
+    ],
+    name: 'interfaceImplementer',
+    outputs: [
+      {
+        name: '',
+        type: 'address',
+      },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+] as const
+
+export const publicResolverPubkeySnippet = [
+  {
+    inputs: [
+      {
+        name: 'node',
+        type: 'bytes32',
+      },
+    ],
+    name: 'pubkey',
+    outputs: [
+      {
+        name: 'x',
+        type: 'bytes32',
+      },
+      {
+        name: 'y',
+        type: 'bytes32',
+      },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+] as const
+
+export const publicResolverSetPubkeySnippet = [
+  {
+    inputs: [
+      {
+        name: 'node',
+        type: 'bytes32',
+      },
+      {
+        name: 'x',
+        type: 'bytes32',
+      },
+      {
+        name: 'y',
+        type: 'bytes32',
+      },
+    ],
+    name: 'setPubkey',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+] as const
+
+export const publicResolverSetInterfaceSnippet = [
+  {
+    inputs: [
+      {
+        name: 'node',
+        type: 'bytes32',
+      },
+      {
+        name: 'interfaceID',
+        type: 'bytes4',
+      },
+      {
+        name: 'implementer',
+        type: 'address',
+      },
+    ],
+    name: 'setInterface',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+] as const
+
+export const publicResolverDnsRecordSnippet = [
+  {
+    inputs: [
+      {
+        name: 'node',
+        type: 'bytes32',
+      },
+      {
+        name: 'name',
+        type: 'bytes32',
+      },
+      {
+        name: 'resource',
+        type: 'uint16',
+      },
+    ],
+    name: 'dnsRecord',
+    outputs: [
+      {
+        name: '',
+        type: 'bytes',
+      },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+] as const
+
+export const publicResolverSetDnsRecordsSnippet = [
+  {
+    inputs: [
+      {
+        name: 'node',
+        type: 'bytes32',
+      },
+      {
+        name: 'data',
+        type: 'bytes',
+      },
+    ],
+    name: 'setDNSRecords',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+] as const
+
+export const publicResolverZonehashSnippet = [
+  {
+    inputs: [
+      {
+        name: 'node',
+        type: 'bytes32',
+      },
+    ],
+    name: 'zonehash',
+    outputs: [
+      {
+        name: '',
+        type: 'bytes',
+      },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+] as const
+
+export const publicResolverSetZonehashSnippet = [
+  {
+    inputs: [
+      {
+        name: 'node',
+        type: 'bytes32',
+      },
+      {
+        name: 'hash',
+        type: 'bytes',
+      },
+    ],
+    name: 'setZonehash',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+] as const
+
+export const publicResolverApproveSnippet = [
+  {
+    inputs: [
+      {
+        name: 'node',
+        type: 'bytes32',
+      },
+      {
+        name: 'delegate',
+        type: 'address',
+      },
+      {
+        name: 'approved',
+        type: 'bool',
+      },
+    ],
+    name: 'approve',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+] as const
+
+export const publicResolverIsApprovedForSnippet = [
+  {
+    inputs: [
+      {
+        name: 'owner',
+        type: 'address',
+      },
+      {
+        name: 'node',
+        type: 'bytes32',
+      },
+      {
+        name: 'delegate',
+        type: 'address',
+      },
+    ],
+    name: 'isApprovedFor',
+    outputs: [
+      {
+        name: '',
+        type: 'bool',
+      },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+] as const
+
+export const publicResolverSetApprovalForAllSnippet = [
+  {
+    inputs: [
+      {
+        name: 'operator',
+        type: 'address',
+      },
+      {
+        name: 'approved',
+        type: 'bool',
+      },
+    ],
+    name: 'setApprovalForAll',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+] as const
+
+export const publicResolverIsApprovedForAllSnippet = [
+  {
+    inputs: [
+      {
+        name: 'account',
+        type: 'address',
+      },
+      {
+        name: 'operator',
+        type: 'address',
+      },
+    ],
+    name: 'isApprovedForAll',
+    outputs: [
+      {
+        name: '',
+        type: 'bool',
+      },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+] as const
@@ -180,3 +180,27 @@ export const registrySetRecordSnippet = [
     type: 'function',
   },
 ] as const
+
+export const registryIsApprovedForAllSnippet = [
+  {
+    inputs: [
+      {
+        name: 'owner',
+        type: 'address',
+      },
+      {
+        name: 'operator',
+        type: 'address',
+      },
+    ],
+    name: 'isApprovedForAll',
+    outputs: [
+      {
+        name: '',
+        type: 'bool',
+      },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+] as const
@@ -49,3 +49,18 @@ export const reverseRegistrarSetNameSnippet = [
     type: 'function',
   },
 ] as const
+
+export const reverseRegistrarDefaultResolverSnippet = [
+  {
+    inputs: [],
+    name: 'defaultResolver',
+    outputs: [
+      {
+        name: '',
+        type: 'address',
+      },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+] as const
@@ -13,6 +13,11 @@ export {
   type GetDnsOwnerParameters,
   type GetDnsOwnerReturnType,
 } from './functions/dns/getDnsOwner.js'
+export {
+  default as getDnsRecord,
+  type GetDnsRecordParameters,
+  type GetDnsRecordReturnType,
+} from './functions/dns/getDnsRecord.js'
 export {
   default as importDnsName,
   type ImportDnsNameDataParameters,
@@ -20,4 +25,18 @@ export {
   type ImportDnsNameParameters,
   type ImportDnsNameReturnType,
 } from './functions/dns/importDnsName.js'
+export {
+  default as setDnsRecords,
+  type SetDnsRecordsDataParameters,
+  type SetDnsRecordsDataReturnType,
+  type SetDnsRecordsParameters,
+  type SetDnsRecordsReturnType,
+} from './functions/dns/setDnsRecords.js'
 export type { Endpoint } from './functions/dns/types.js'
+export {
+  decodeDnsRecords,
+  encodeDnsRecords,
+  parseZone,
+  type ParseZoneParameters,
+  type ParseZoneReturnType,
+} from './utils/dns/zone.js'
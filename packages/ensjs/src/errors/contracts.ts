@@ -32,3 +32,36 @@ export class NoChainError extends BaseError {
     super('No chain provided')
   }
 }
+
+export class MissingEnsContractsError extends BaseError {
+  chainId: number
+
+  missingContracts: readonly string[]
+
+  override name = 'MissingEnsContractsError'
+
+  constructor({
+    chainId,
+    missingContracts,
+  }: {
+    chainId: number
+    missingContracts: readonly string[]
+  }) {
+    super(`Missing ENS contracts for chain: ${chainId}`, {
+      metaMessages: [`- Missing contracts: ${missingContracts.join(', ')}`],
+    })
+    this.chainId = chainId
+    this.missingContracts = missingContracts
+  }
+}
+
+export class NoSubgraphUrlError extends BaseError {
+  chainId: number
+
+  override name = 'NoSubgraphUrlError'
+
+  constructor({ chainId }: { chainId: number }) {
+    super(`No subgraph URL configured for chain: ${chainId}`)
+    this.chainId = chainId
+  }
+}
@@ -97,3 +97,30 @@ export class DnsNewerRecordTypeAvailableError extends BaseError {
     this.dnsInception = dnsInception
   }
 }
+
+export class DnsInvalidZoneRecordError extends BaseError {
+  record: string
+
+  reason: string
+
+  override name = 'DnsInvalidZoneRecordError'
+
+  constructor({ record, reason }: { record: string; reason: string }) {
+    super(`Invalid zone record: ${record}`, {
+      metaMessages: [`- Reason: ${reason}`],
+    })
+    this.record = record
+    this.reason = reason
+  }
+}
+
+export class DnsUnsupportedRecordTypeError extends BaseError {
+  type: string
+
+  override name = 'DnsUnsupportedRecordTypeError'
+
+  constructor({ type }: { type: string }) {
+    super(`Unsupported DNS record type: ${type}`)
+    this.type = type
+  }
+}
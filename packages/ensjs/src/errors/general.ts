@@ -90,3 +90,16 @@ export class InvalidContractTypeError extends BaseError {
     this.supportedTypes = supportedContractTypes
   }
 }
+
+export class InvalidConcurrencyError extends BaseError {
+  concurrency: number
+
+  override name = 'InvalidConcurrencyError'
+
+  constructor({ concurrency }: { concurrency: number }) {
+    super(`Invalid concurrency: ${concurrency}`, {
+      details: 'Concurrency must be an integer of at least 1',
+    })
+    this.concurrency = concurrency
+  }
+}
@@ -1,3 +1,4 @@
+import type { CoinInput } from '../types.js'
 import { BaseError } from './base.js'
 
 export class CoinFormatterNotFoundError extends BaseError {
@@ -22,6 +23,37 @@ export class FunctionNotBatchableError extends BaseError {
   }
 }
 
+export class RecordResolutionError extends BaseError {
+  recordType: string
+
+  key: CoinInput
+
+  override name = 'RecordResolutionError'
+
+  constructor({
+    recordType,
+    key,
+    reason,
+  }: {
+    recordType: string
+    key: CoinInput
+    reason: string
+  }) {
+    super(`Failed to resolve ${recordType} record`, {
+      metaMessages: [
+        `- Key: ${
+          typeof key === 'object'
+            ? `chain ${'chainId' in key ? key.chainId : key.id}`
+            : key
+        }`,
+      ],
+      details: `Reverted with ${reason}`,
+    })
+    this.recordType = recordType
+    this.key = key
+  }
+}
+
 export class NoRecordsSpecifiedError extends BaseError {
   override name = 'NoRecordsSpecifiedError'
 
@@ -29,3 +61,123 @@ export class NoRecordsSpecifiedError extends BaseError {
     super('No records specified')
   }
 }
+
+export class InvalidAvatarUriError extends BaseError {
+  uri: string
+
+  override name = 'InvalidAvatarUriError'
+
+  constructor({ uri, details }: { uri: string; details?: string }) {
+    super(`Invalid avatar URI: ${uri}`, {
+      details,
+    })
+    this.uri = uri
+  }
+}
+
+export class AvatarNftChainMismatchError extends BaseError {
+  chainId: number
+
+  clientChainId: number
+
+  override name = 'AvatarNftChainMismatchError'
+
+  constructor({
+    chainId,
+    clientChainId,
+  }: {
+    chainId: number
+    clientChainId: number
+  }) {
+    super(
+      `Avatar NFT is on chain ${chainId}, but client is on chain ${clientChainId}`,
+    )
+    this.chainId = chainId
+    this.clientChainId = clientChainId
+  }
+}
+
+export class AvatarNftNotOwnedError extends BaseError {
+  owner: string | undefined
+
+  contractAddress: string
+
+  tokenId: bigint
+
+  override name = 'AvatarNftNotOwnedError'
+
+  constructor({
+    owner,
+    contractAddress,
+    tokenId,
+  }: {
+    owner: string | undefined
+    contractAddress: string
+    tokenId: bigint
+  }) {
+    super('Avatar NFT is not owned by the name', {
+      metaMessages: [
+        `- Owner: ${owner ?? 'none'}`,
+        `- Contract: ${contractAddress}`,
+        `- Token ID: ${tokenId}`,
+      ],
+    })
+    this.owner = owner
+    this.contractAddress = contractAddress
+    this.tokenId = tokenId
+  }
+}
+
+export class UnsupportedReverseCoinTypeError extends BaseError {
+  coinType: number
+
+  override name = 'UnsupportedReverseCoinTypeError'
+
+  constructor({ coinType }: { coinType: number }) {
+    super(`Primary names are not supported for coin type ${coinType}`, {
+      details: 'Only EVM coin types can be used for reverse resolution',
+    })
+    this.coinType = coinType
+  }
+}
+
+export class NameContractNotFoundError extends BaseError {
+  override name = 'NameContractNotFoundError'
+
+  constructor({ name, details }: { name: string; details: string }) {
+    super('No contract found for name', {
+      metaMessages: [`- Supplied name: ${name}`],
+      details,
+    })
+  }
+}
+
+export class InvalidContractAbiError extends BaseError {
+  override name = 'InvalidContractAbiError'
+
+  constructor({ name, details }: { name: string; details: string }) {
+    super('Invalid ABI record for name', {
+      metaMessages: [`- Supplied name: ${name}`],
+      details,
+    })
+  }
+}
+
+export class AbiUriNotFetchedError extends BaseError {
+  uri: string
+
+  override name = 'AbiUriNotFetchedError'
+
+  constructor({ uri, cause }: { uri: string; cause?: Error }) {
+    super(
+      `ABI record is a URI that could not be fetched: ${uri}`,
+      cause
+        ? { cause }
+        : {
+            details:
+              'Provide an `abiFetcher` to fetch ABIs for URI type ABI records',
+          },
+    )
+    this.uri = uri
+  }
+}
@@ -0,0 +1,240 @@
+import type { Address, Hex } from 'viem'
+import { BaseError } from './base.js'
+
+export class RegistrationNameNotAvailableError extends BaseError {
+  override name = 'RegistrationNameNotAvailableError'
+
+  constructor({ name }: { name: string }) {
+    super(`Name is not available for registration: ${name}`, {
+      details: 'Check the availability of the name with `getAvailable`',
+    })
+  }
+}
+
+export class CommitmentNotFoundError extends BaseError {
+  commitment: Hex
+
+  override name = 'CommitmentNotFoundError'
+
+  constructor({ commitment }: { commitment: Hex }) {
+    super('Commitment not found', {
+      metaMessages: [`- Commitment: ${commitment}`],
+      details: 'The commitment must be sent with `commitName` first',
+    })
+    this.commitment = commitment
+  }
+}
+
+export class CommitmentTooNewError extends BaseError {
+  commitment: Hex
+
+  secondsRemaining?: number
+
+  override name = 'CommitmentTooNewError'
+
+  constructor({
+    commitment,
+    secondsRemaining,
+  }: {
+    commitment: Hex
+    secondsRemaining?: number
+  }) {
+    super('Commitment is too new to register', {
+      metaMessages: [`- Commitment: ${commitment}`],
+      details:
+        secondsRemaining === undefined
+          ? 'Wait for the minimum commitment age to pass before registering, the remaining time can be checked with `getCommitment`'
+          : `Wait ${secondsRemaining} seconds before registering`,
+    })
+    this.commitment = commitment
+    this.secondsRemaining = secondsRemaining
+  }
+}
+
+export class CommitmentTooOldError extends BaseError {
+  commitment: Hex
+
+  override name = 'CommitmentTooOldError'
+
+  constructor({ commitment }: { commitment: Hex }) {
+    super('Commitment is too old to register', {
+      metaMessages: [`- Commitment: ${commitment}`],
+      details:
+        'The maximum commitment age has passed, a new commitment must be made',
+    })
+    this.commitment = commitment
+  }
+}
+
+export class UnexpiredCommitmentExistsError extends BaseError {
+  commitment: Hex
+
+  override name = 'UnexpiredCommitmentExistsError'
+
+  constructor({ commitment }: { commitment: Hex }) {
+    super('Commitment already exists and has not expired', {
+      metaMessages: [`- Commitment: ${commitment}`],
+      details:
+        'Register with the existing commitment, or use a new secret to make a new commitment',
+    })
+    this.commitment = commitment
+  }
+}
+
+export class DurationTooShortError extends BaseError {
+  duration: bigint
+
+  override name = 'DurationTooShortError'
+
+  constructor({ duration }: { duration: bigint }) {
+    super(`Registration duration is too short: ${duration}`, {
+      details:
+        'Names must be registered for at least 28 days (2419200 seconds)',
+    })
+    this.duration = duration
+  }
+}
+
+export class InsufficientValueError extends BaseError {
+  override name = 'InsufficientValueError'
+
+  constructor() {
+    super('Insufficient value sent for registration or renewal', {
+      details:
+        'Get the current price with `getPrice`, and add a buffer for price fluctuations',
+    })
+  }
+}
+
+export class UnauthorisedError extends BaseError {
+  node: Hex
+
+  address: Address
+
+  override name = 'UnauthorisedError'
+
+  constructor({ node, address }: { node: Hex; address: Address }) {
+    super(`${address} is not authorised to perform this operation`, {
+      metaMessages: [`- Node: ${node}`],
+      details:
+        'The account must be the owner of the name or an approved operator, check with `getNamePermissions`',
+    })
+    this.node = node
+    this.address = address
+  }
+}
+
+export class OperationProhibitedError extends BaseError {
+  node: Hex
+
+  override name = 'OperationProhibitedError'
+
+  constructor({ node }: { node: Hex }) {
+    super('Operation is prohibited by the fuses of the name', {
+      metaMessages: [`- Node: ${node}`],
+      details:
+        'A burned fuse, or the name being expired, prevents this operation, check the fuses with `getWrapperData`',
+    })
+    this.node = node
+  }
+}
+
+export class NameNotWrappedError extends BaseError {
+  override name = 'NameNotWrappedError'
+
+  constructor() {
+    super('Name is not wrapped', {
+      details: 'Wrap the name with `wrapName` first, or use the registry',
+    })
+  }
+}
+
+export class SetRecordsNotAuthorisedError extends BaseError {
+  account: Address
+
+  override name = 'SetRecordsNotAuthorisedError'
+
+  constructor({
+    name,
+    account,
+    resolverAddress,
+  }: {
+    name: string
+    account: Address
+    resolverAddress: Address
+  }) {
+    super(`Set records error: ${account} is not authorised for ${name}`, {
+      metaMessages: [`- Resolver address: ${resolverAddress}`],
+      details:
+        'The account must be the owner of the name, or be approved by the owner on the resolver',
+    })
+    this.account = account
+  }
+}
+
+export class ContractRevertedError extends BaseError {
+  errorName: string
+
+  args: readonly unknown[]
+
+  override name = 'ContractRevertedError'
+
+  constructor({
+    errorName,
+    args = [],
+  }: {
+    errorName: string
+    args?: readonly unknown[]
+  }) {
+    super(`Contract reverted with ${errorName}`, {
+      metaMessages: args.length
+        ? [`- Arguments: ${args.map((arg) => String(arg)).join(', ')}`]
+        : undefined,
+    })
+    this.errorName = errorName
+    this.args = args
+  }
+}
+
+export class TransactionRevertedError extends BaseError {
+  hash: Hex
+
+  action: string
+
+  override name = 'TransactionRevertedError'
+
+  constructor({ hash, action }: { hash: Hex; action: string }) {
+    super(`Transaction for ${action} reverted`, {
+      metaMessages: [`- Transaction hash: ${hash}`],
+      details:
+        'The transaction was mined but reverted, check the transaction for the revert reason',
+    })
+    this.hash = hash
+    this.action = action
+  }
+}
+
+export class EnsureNamePlanError extends BaseError {
+  action: string
+
+  reason: string
+
+  override name = 'EnsureNamePlanError'
+
+  constructor({
+    name,
+    action,
+    reason,
+  }: {
+    name: string
+    action: string
+    reason: string
+  }) {
+    super(`Cannot plan ${action} for ${name}: ${reason}`, {
+      details:
+        'The desired state cannot be reached from the current state of the name, check the current state with `getOwner` and `getWrapperData`',
+    })
+    this.action = action
+    this.reason = reason
+  }
+}
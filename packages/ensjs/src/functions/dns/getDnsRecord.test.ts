@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest'
+import { publicClient } from '../../test/addTestContracts.js'
+import getDnsRecord from './getDnsRecord.js'
+
+describe('getDnsRecord', () => {
+  it('should return null for a non-existent name', async () => {
+    const result = await getDnsRecord(publicClient, {
+      name: 'test123123cool.eth',
+      resource: 'A',
+    })
+    expect(result).toBeNull()
+  })
+  it('should return null for a name with no DNS records', async () => {
+    const result = await getDnsRecord(publicClient, {
+      name: 'with-profile.eth',
+      resource: 'A',
+    })
+    expect(result).toBeNull()
+  })
+  it('should throw for an unknown resource type', () => {
+    expect(() =>
+      getDnsRecord.encode(publicClient, {
+        name: 'with-profile.eth',
+        resource: 'NOTATYPE',
+      }),
+    ).toThrowErrorMatchingInlineSnapshot(`
+      [DnsUnsupportedRecordTypeError: Unsupported DNS record type: NOTATYPE
+
+      Version: @ensdomains/ensjs@1.0.0-mock.0]
+    `)
+  })
+})
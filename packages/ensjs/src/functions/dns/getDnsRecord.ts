@@ -0,0 +1,136 @@
+import type * as packet from 'dns-packet'
+import { name as dnsName } from 'dns-packet'
+import { toType } from 'dns-packet/types.js'
+import {
+  decodeFunctionResult,
+  encodeFunctionData,
+  keccak256,
+  type BaseError,
+  type Hex,
+} from 'viem'
+import type { ClientWithEns } from '../../contracts/consts.js'
+import { publicResolverDnsRecordSnippet } from '../../contracts/publicResolver.js'
+import { DnsUnsupportedRecordTypeError } from '../../errors/dns.js'
+import type {
+  BlockParameters,
+  GenericPassthrough,
+  TransactionRequestWithPassthrough,
+} from '../../types.js'
+import { decodeDnsRecords } from '../../utils/dns/zone.js'
+import {
+  generateFunction,
+  type GeneratedFunction,
+} from '../../utils/generateFunction.js'
+import { namehash } from '../../utils/normalise.js'
+import universalWrapper from '../public/universalWrapper.js'
+
+export type GetDnsRecordParameters = BlockParameters & {
+  /** Name to get DNS record for */
+  name: string
+  /** DNS owner name of the record (default: `name`) */
+  recordName?: string
+  /** DNS resource type, as a string (e.g. `A`) or number (e.g. `1`) */
+  resource: string | number
+  /** Whether or not to throw decoding errors */
+  strict?: boolean
+  /** Batch gateway URLs to use for resolving CCIP-read requests. */
+  gatewayUrls?: string[]
+}
+
+export type GetDnsRecordReturnType = packet.Answer[] | null
+
+const encode = (
+  client: ClientWithEns,
+  {
+    name,
+    recordName = name,
+    resource,
+    gatewayUrls,
+  }: Omit<GetDnsRecordParameters, 'strict'>,
+): TransactionRequestWithPassthrough => {
+  const resourceType =
+    typeof resource === 'number' ? resource : toType(resource.toUpperCase())
+  if (!resourceType)
+    throw new DnsUnsupportedRecordTypeError({ type: String(resource) })
+  return universalWrapper.encode(client, {
+    name,
+    data: encodeFunctionData({
+      abi: publicResolverDnsRecordSnippet,
+      functionName: 'dnsRecord',
+      args: [
+        namehash(name),
+        keccak256(dnsName.encode(recordName.toLowerCase())),
+        resourceType,
+      ],
+    }),
+    gatewayUrls,
+  })
+}
+
+const decode = async (
+  client: ClientWithEns,
+  data: Hex | BaseError,
+  passthrough: GenericPassthrough,
+  {
+    strict,
+    gatewayUrls,
+  }: Pick<GetDnsRecordParameters, 'strict' | 'gatewayUrls'>,
+): Promise<GetDnsRecordReturnType> => {
+  const urData = await universalWrapper.decode(client, data, passthrough, {
+    strict,
+    gatewayUrls,
+  })
+  if (!urData || urData.data === '0x') return null
+
+  try {
+    const response = decodeFunctionResult({
+      abi: publicResolverDnsRecordSnippet,
+      functionName: 'dnsRecord',
+      data: urData.data,
+    })
+
+    if (response === '0x') return null
+
+    return decodeDnsRecords(response)
+  } catch (error) {
+    if (strict) throw error
+    return null
+  }
+}
+
+type BatchableFunctionObject = GeneratedFunction<typeof encode, typeof decode>
+
+/**
+ * Gets a DNS record set for a name, stored on its resolver.
+ * @param client - {@link ClientWithEns}
+ * @param parameters - {@link GetDnsRecordParameters}
+ * @returns Array of DNS records, or `null` if not found. {@link GetDnsRecordReturnType}
+ *
+ * @example
+ * import { createPublicClient, http } from 'viem'
+ * import { mainnet } from 'viem/chains'
+ * import { addEnsContracts } from '@ensdomains/ensjs'
+ * import { getDnsRecord } from '@ensdomains/ensjs/dns'
+ *
+ * const client = createPublicClient({
+ *   chain: addEnsContracts(mainnet),
+ *   transport: http(),
+ * })
+ * const result = await getDnsRecord(client, {
+ *   name: 'example.eth',
+ *   recordName: 'www.example.eth',
+ *   resource: 'A',
+ * })
+ * // [{ name: 'www.example.eth', type: 'A', class: 'IN', ttl: 3600, data: '1.2.3.4', flush: false }]
+ */
+const getDnsRecord = generateFunction({
+  name: 'getDnsRecord',
+  encode,
+  decode,
+}) as ((
+  client: ClientWithEns,
+  { name, recordName, resource, strict, gatewayUrls }: GetDnsRecordParameters,
+) => Promise<GetDnsRecordReturnType>) &
+  BatchableFunctionObject
+
+export default getDnsRecord
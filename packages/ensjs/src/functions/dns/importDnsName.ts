@@ -7,7 +7,6 @@ import {
   type SendTransactionParameters,
   type Transport,
 } from 'viem'
-import { sendTransaction } from 'viem/actions'
 import type { ChainWithEns, ClientWithAccount } from '../../contracts/consts.js'
 import {
   dnsRegistrarProveAndClaimSnippet,
@@ -21,6 +20,7 @@ import type {
   WriteTransactionParameters,
 } from '../../types.js'
 import { packetToBytes } from '../../utils/hexEncodedName.js'
+import { sendTransaction } from '../../utils/sendTransaction.js'
 import type { GetDnsImportDataReturnType } from './getDnsImportData.js'
 
 type BaseImportDnsNameDataParameters = {
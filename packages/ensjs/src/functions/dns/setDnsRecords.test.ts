@@ -0,0 +1,59 @@
+import type { Address, Hex } from 'viem'
+import { afterEach, beforeAll, beforeEach, expect, it } from 'vitest'
+import {
+  publicClient,
+  testClient,
+  waitForTransaction,
+  walletClient,
+} from '../../test/addTestContracts.js'
+import getResolver from '../public/getResolver.js'
+import getDnsRecord from './getDnsRecord.js'
+import setDnsRecords from './setDnsRecords.js'
+
+let snapshot: Hex
+let accounts: Address[]
+
+beforeAll(async () => {
+  accounts = await walletClient.getAddresses()
+})
+
+beforeEach(async () => {
+  snapshot = await testClient.snapshot()
+})
+
+afterEach(async () => {
+  await testClient.revert({ id: snapshot })
+})
+
+it('should allow DNS records to be set from zone text', async () => {
+  const tx = await setDnsRecords(walletClient, {
+    name: 'test123.eth',
+    zone: `
+      @    300 IN A     1.2.3.4
+      @    300 IN A     5.6.7.8
+      www  300 IN CNAME @
+    `,
+    resolverAddress: (await getResolver(publicClient, {
+      name: 'test123.eth',
+    }))!,
+    account: accounts[1],
+  })
+  expect(tx).toBeTruthy()
+  const receipt = await waitForTransaction(tx)
+  expect(receipt.status).toBe('success')
+
+  const aRecords = await getDnsRecord(publicClient, {
+    name: 'test123.eth',
+    resource: 'A',
+  })
+  expect(aRecords?.map((record) => record.data)).toEqual(['1.2.3.4', '5.6.7.8'])
+
+  const cnameRecords = await getDnsRecord(publicClient, {
+    name: 'test123.eth',
+    recordName: 'www.test123.eth',
+    resource: 'CNAME',
+  })
+  expect(cnameRecords).toMatchObject([
+    { name: 'www.test123.eth', type: 'CNAME', data: 'test123.eth' },
+  ])
+})
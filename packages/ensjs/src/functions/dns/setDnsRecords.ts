@@ -0,0 +1,117 @@
+import {
+  encodeFunctionData,
+  type Account,
+  type Address,
+  type Hash,
+  type SendTransactionParameters,
+  type Transport,
+} from 'viem'
+import type { ChainWithEns, ClientWithAccount } from '../../contracts/consts.js'
+import { publicResolverSetDnsRecordsSnippet } from '../../contracts/publicResolver.js'
+import type {
+  Prettify,
+  SimpleTransactionRequest,
+  WriteTransactionParameters,
+} from '../../types.js'
+import { encodeDnsRecords, parseZone } from '../../utils/dns/zone.js'
+import { namehash } from '../../utils/normalise.js'
+import { sendTransaction } from '../../utils/sendTransaction.js'
+
+export type SetDnsRecordsDataParameters = {
+  /** Name to set DNS records for, also used as the zone origin */
+  name: string
+  /** BIND-style zone text containing the records to set */
+  zone: string
+  /** TTL to use for records without one (default: `3600`) */
+  ttl?: number
+  /** Resolver address to set DNS records on */
+  resolverAddress: Address
+}
+
+export type SetDnsRecordsDataReturnType = SimpleTransactionRequest
+
+export type SetDnsRecordsParameters<
+  TChain extends ChainWithEns,
+  TAccount extends Account | undefined,
+  TChainOverride extends ChainWithEns | undefined,
+> = Prettify<
+  SetDnsRecordsDataParameters &
+    WriteTransactionParameters<TChain, TAccount, TChainOverride>
+>
+
+export type SetDnsRecordsReturnType = Hash
+
+export const makeFunctionData = <
+  TChain extends ChainWithEns,
+  TAccount extends Account | undefined,
+>(
+  _wallet: ClientWithAccount<Transport, TChain, TAccount>,
+  { name, zone, ttl, resolverAddress }: SetDnsRecordsDataParameters,
+): SetDnsRecordsDataReturnType => {
+  const records = parseZone({ zone, origin: name, ttl })
+  return {
+    to: resolverAddress,
+    data: encodeFunctionData({
+      abi: publicResolverSetDnsRecordsSnippet,
+      functionName: 'setDNSRecords',
+      args: [namehash(name), encodeDnsRecords(records)],
+    }),
+  }
+}
+
+/**
+ * Sets DNS records for a name on a resolver, from BIND-style zone text.
+ * @param wallet - {@link ClientWithAccount}
+ * @param parameters - {@link SetDnsRecordsParameters}
+ * @returns Transaction hash. {@link SetDnsRecordsReturnType}
+ *
+ * @example
+ * import { createWalletClient, custom } from 'viem'
+ * import { mainnet } from 'viem/chains'
+ * import { addEnsContracts } from '@ensdomains/ensjs'
+ * import { setDnsRecords } from '@ensdomains/ensjs/dns'
+ *
+ * const wallet = createWalletClient({
+ *   chain: addEnsContracts(mainnet),
+ *   transport: custom(window.ethereum),
+ * })
+ * const hash = await setDnsRecords(wallet, {
+ *   name: 'example.eth',
+ *   zone: `
+ *     @    3600 IN A     1.2.3.4
+ *     www  3600 IN CNAME @
+ *   `,
+ *   resolverAddress: '0x4976fb03C32e5B8cfe2b6cCB31c09Ba78EBaBa41',
+ * })
+ * // 0x...
+ */
+async function setDnsRecords<
+  TChain extends ChainWithEns,
+  TAccount extends Account | undefined,
+  TChainOverride extends ChainWithEns | undefined = ChainWithEns,
+>(
+  wallet: ClientWithAccount<Transport, TChain, TAccount>,
+  {
+    name,
+    zone,
+    ttl,
+    resolverAddress,
+    ...txArgs
+  }: SetDnsRecordsParameters<TChain, TAccount, TChainOverride>,
+): Promise<SetDnsRecordsReturnType> {
+  const data = makeFunctionData(wallet, {
+    name,
+    zone,
+    ttl,
+    resolverAddress,
+  })
+  const writeArgs = {
+    ...data,
+    ...txArgs,
+  } as SendTransactionParameters<TChain, TAccount, TChainOverride>
+  return sendTransaction(wallet, writeArgs)
+}
+
+setDnsRecords.makeFunctionData = makeFunctionData
+
+export default setDnsRecords
@@ -13,19 +13,23 @@ import {
   publicResolverSingleAddrSnippet,
 } from '../../contracts/publicResolver.js'
 import type {
+  CoinInput,
   DecodedAddr,
   Prettify,
   SimpleTransactionRequest,
 } from '../../types.js'
 import { EMPTY_ADDRESS } from '../../utils/consts.js'
 import { generateFunction } from '../../utils/generateFunction.js'
-import { getCoderFromCoin } from '../../utils/normaliseCoinId.js'
+import {
+  getChainIdFromCoinType,
+  getCoderFromCoin,
+} from '../../utils/normaliseCoinId.js'
 
 export type InternalGetAddrParameters = {
   /** Name to get the address record for */
   name: string
-  /** Coin to get the address record for, can be either symbol (string) or coinId (number) (default: `60`) */
-  coin?: string | number
+  /** Coin to get the address record for, can be either symbol (string), coinId (number), or EVM chain (default: `60`) */
+  coin?: CoinInput
   /** Optionally return raw bytes value of address record (default: false) */
   bypassFormat?: boolean
   /** Whether or not to throw decoding errors */
@@ -56,7 +60,10 @@ const encode = (
       data: encodeFunctionData({
         abi: publicResolverMultiAddrSnippet,
         functionName: 'addr',
-        args: [namehash(name), BigInt(coin)],
+        args: [
+          namehash(name),
+          BigInt(typeof coin === 'object' ? coder.coinType : coin),
+        ],
       }),
     }
   }
@@ -109,7 +116,13 @@ const decode = async (
       return null
     }
 
-    return { id: coder.coinType, name: coder.name, value: decodedAddr }
+    const chainId = getChainIdFromCoinType(coder.coinType)
+    return {
+      id: coder.coinType,
+      name: coder.name,
+      value: decodedAddr,
+      ...(chainId !== undefined ? { chainId } : {}),
+    }
   } catch (error) {
     if (strict) throw error
     return null
@@ -0,0 +1,56 @@
+import type { ClientWithEns } from '../../contracts/consts.js'
+import { resolveAvatarUri, type AvatarGateways } from '../../utils/avatar.js'
+import type { BlockParameters } from '../../types.js'
+import getRecords from './getRecords.js'
+
+export type InternalGetImageParameters = BlockParameters & {
+  /** Name to get image for */
+  name: string
+  /** Gateways to use for IPFS, IPNS, and Arweave URIs */
+  gateways?: AvatarGateways
+  /** Whether or not to throw resolution errors */
+  strict?: boolean
+  /** Batch gateway URLs to use for resolving CCIP-read requests. */
+  gatewayUrls?: string[]
+}
+
+export type InternalGetImageReturnType = string | null
+
+// shared ENSIP-12 pipeline for image text records (`avatar`, `header`)
+const _getImage = async (
+  client: ClientWithEns,
+  {
+    name,
+    key,
+    gateways,
+    strict,
+    gatewayUrls,
+    blockNumber,
+    blockTag,
+  }: InternalGetImageParameters & { key: 'avatar' | 'header' },
+): Promise<InternalGetImageReturnType> => {
+  try {
+    const { texts, coins } = await getRecords(client, {
+      name,
+      texts: [key],
+      coins: [60],
+      gatewayUrls,
+      blockNumber,
+      blockTag,
+    })
+    const uri = texts.find((text) => text.key === key)?.value
+    if (!uri) return null
+    return await resolveAvatarUri(client, {
+      uri,
+      owner: coins.find((coin) => coin.id === 60)?.value,
+      gateways,
+      blockNumber,
+      blockTag,
+    })
+  } catch (error) {
+    if (strict) throw error
+    return null
+  }
+}
+
+export default _getImage
@@ -0,0 +1,43 @@
+import { encodeFunctionResult } from 'viem'
+import { expect, it } from 'vitest'
+import type { ClientWithEns } from '../../contracts/consts.js'
+import { publicResolverInterfaceImplementerSnippet } from '../../contracts/publicResolver.js'
+import { EMPTY_ADDRESS } from '../../utils/consts.js'
+import _getInterfaceImplementer from './_getInterfaceImplementer.js'
+
+it('returns null for an empty implementer', async () => {
+  const result = await _getInterfaceImplementer.decode(
+    {} as ClientWithEns,
+    encodeFunctionResult({
+      abi: publicResolverInterfaceImplementerSnippet,
+      functionName: 'interfaceImplementer',
+      result: EMPTY_ADDRESS,
+    }),
+    { strict: false },
+  )
+  expect(result).toBeNull()
+})
+
+it('does not propagate error when strict is false', async () => {
+  const result = await _getInterfaceImplementer.decode(
+    {} as ClientWithEns,
+    '0x1234',
+    { strict: false },
+  )
+  expect(result).toBeNull()
+})
+
+it('propagates error when strict is true', async () => {
+  await expect(
+    _getInterfaceImplementer.decode({} as ClientWithEns, '0x1234', {
+      strict: true,
+    }),
+  ).rejects.toThrowErrorMatchingInlineSnapshot(`
+    [AbiDecodingDataSizeTooSmallError: Data size of 2 bytes is too small for given parameters.
+
+    Params: (address)
+    Data:   0x1234 (2 bytes)
+
+    Version: viem@2.9.2]
+  `)
+})
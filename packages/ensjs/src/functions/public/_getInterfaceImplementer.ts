@@ -0,0 +1,67 @@
+import {
+  decodeFunctionResult,
+  encodeFunctionData,
+  type Address,
+  type Hex,
+} from 'viem'
+import type { ClientWithEns } from '../../contracts/consts.js'
+import { publicResolverInterfaceImplementerSnippet } from '../../contracts/publicResolver.js'
+import type { SimpleTransactionRequest } from '../../types.js'
+import { EMPTY_ADDRESS } from '../../utils/consts.js'
+import { generateFunction } from '../../utils/generateFunction.js'
+import { namehash } from '../../utils/normalise.js'
+
+export type InternalGetInterfaceImplementerParameters = {
+  /** Name to get interface implementer for */
+  name: string
+  /** EIP-165 interface ID to get the implementer of */
+  interfaceId: Hex
+  /** Whether or not to throw decoding errors */
+  strict?: boolean
+}
+
+export type InternalGetInterfaceImplementerReturnType = Address | null
+
+const encode = (
+  _client: ClientWithEns,
+  {
+    name,
+    interfaceId,
+  }: Omit<InternalGetInterfaceImplementerParameters, 'strict'>,
+): SimpleTransactionRequest => {
+  return {
+    to: EMPTY_ADDRESS,
+    data: encodeFunctionData({
+      abi: publicResolverInterfaceImplementerSnippet,
+      functionName: 'interfaceImplementer',
+      args: [namehash(name), interfaceId],
+    }),
+  }
+}
+
+const decode = async (
+  _client: ClientWithEns,
+  data: Hex,
+  { strict }: Pick<InternalGetInterfaceImplementerParameters, 'strict'>,
+): Promise<InternalGetInterfaceImplementerReturnType> => {
+  if (data === '0x') return null
+
+  try {
+    const response = decodeFunctionResult({
+      abi: publicResolverInterfaceImplementerSnippet,
+      functionName: 'interfaceImplementer',
+      data,
+    })
+
+    if (response === EMPTY_ADDRESS) return null
+
+    return response
+  } catch (error) {
+    if (strict) throw error
+    return null
+  }
+}
+
+const _getInterfaceImplementer = generateFunction({ encode, decode })
+
+export default _getInterfaceImplementer
@@ -0,0 +1,51 @@
+import { encodeFunctionResult, padHex } from 'viem'
+import { expect, it } from 'vitest'
+import type { ClientWithEns } from '../../contracts/consts.js'
+import { publicResolverPubkeySnippet } from '../../contracts/publicResolver.js'
+import _getPubkey from './_getPubkey.js'
+
+it('returns null for an empty pubkey', async () => {
+  const result = await _getPubkey.decode(
+    {} as ClientWithEns,
+    encodeFunctionResult({
+      abi: publicResolverPubkeySnippet,
+      functionName: 'pubkey',
+      result: [padHex('0x'), padHex('0x')],
+    }),
+    { strict: false },
+  )
+  expect(result).toBeNull()
+})
+
+it('returns the pubkey coordinates', async () => {
+  const result = await _getPubkey.decode(
+    {} as ClientWithEns,
+    encodeFunctionResult({
+      abi: publicResolverPubkeySnippet,
+      functionName: 'pubkey',
+      result: [padHex('0x01'), padHex('0x02')],
+    }),
+    { strict: false },
+  )
+  expect(result).toEqual({ x: padHex('0x01'), y: padHex('0x02') })
+})
+
+it('does not propagate error when strict is false', async () => {
+  const result = await _getPubkey.decode({} as ClientWithEns, '0x1234', {
+    strict: false,
+  })
+  expect(result).toBeNull()
+})
+
+it('propagates error when strict is true', async () => {
+  await expect(
+    _getPubkey.decode({} as ClientWithEns, '0x1234', { strict: true }),
+  ).rejects.toThrowErrorMatchingInlineSnapshot(`
+    [AbiDecodingDataSizeTooSmallError: Data size of 2 bytes is too small for given parameters.
+
+    Params: (bytes32 x, bytes32 y)
+    Data:   0x1234 (2 bytes)
+
+    Version: viem@2.9.2]
+  `)
+})
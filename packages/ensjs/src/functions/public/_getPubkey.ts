@@ -0,0 +1,62 @@
+import {
+  decodeFunctionResult,
+  encodeFunctionData,
+  hexToBigInt,
+  type Hex,
+} from 'viem'
+import type { ClientWithEns } from '../../contracts/consts.js'
+import { publicResolverPubkeySnippet } from '../../contracts/publicResolver.js'
+import type { DecodedPubkey, SimpleTransactionRequest } from '../../types.js'
+import { EMPTY_ADDRESS } from '../../utils/consts.js'
+import { generateFunction } from '../../utils/generateFunction.js'
+import { namehash } from '../../utils/normalise.js'
+
+export type InternalGetPubkeyParameters = {
+  /** Name to get pubkey record for */
+  name: string
+  /** Whether or not to throw decoding errors */
+  strict?: boolean
+}
+
+export type InternalGetPubkeyReturnType = DecodedPubkey | null
+
+const encode = (
+  _client: ClientWithEns,
+  { name }: Omit<InternalGetPubkeyParameters, 'strict'>,
+): SimpleTransactionRequest => {
+  return {
+    to: EMPTY_ADDRESS,
+    data: encodeFunctionData({
+      abi: publicResolverPubkeySnippet,
+      functionName: 'pubkey',
+      args: [namehash(name)],
+    }),
+  }
+}
+
+const decode = async (
+  _client: ClientWithEns,
+  data: Hex,
+  { strict }: Pick<InternalGetPubkeyParameters, 'strict'>,
+): Promise<InternalGetPubkeyReturnType> => {
+  if (data === '0x') return null
+
+  try {
+    const [x, y] = decodeFunctionResult({
+      abi: publicResolverPubkeySnippet,
+      functionName: 'pubkey',
+      data,
+    })
+
+    if (hexToBigInt(x) === 0n && hexToBigInt(y) === 0n) return null
+
+    return { x, y }
+  } catch (error) {
+    if (strict) throw error
+    return null
+  }
+}
+
+const _getPubkey = generateFunction({ encode, decode })
+
+export default _getPubkey
@@ -0,0 +1,59 @@
+import { decodeFunctionResult, encodeFunctionData, type Hex } from 'viem'
+import type { ClientWithEns } from '../../contracts/consts.js'
+import { publicResolverZonehashSnippet } from '../../contracts/publicResolver.js'
+import type { Prettify, SimpleTransactionRequest } from '../../types.js'
+import { EMPTY_ADDRESS } from '../../utils/consts.js'
+import {
+  decodeContentHash,
+  type DecodedContentHash,
+} from '../../utils/contentHash.js'
+import { generateFunction } from '../../utils/generateFunction.js'
+import { namehash } from '../../utils/normalise.js'
+
+export type InternalGetZonehashParameters = {
+  /** Name to get zonehash record for */
+  name: string
+  /** Whether or not to throw decoding errors */
+  strict?: boolean
+}
+
+export type InternalGetZonehashReturnType = Prettify<DecodedContentHash | null>
+
+const encode = (
+  _client: ClientWithEns,
+  { name }: Omit<InternalGetZonehashParameters, 'strict'>,
+): SimpleTransactionRequest => {
+  return {
+    to: EMPTY_ADDRESS,
+    data: encodeFunctionData({
+      abi: publicResolverZonehashSnippet,
+      functionName: 'zonehash',
+      args: [namehash(name)],
+    }),
+  }
+}
+
+const decode = async (
+  _client: ClientWithEns,
+  data: Hex,
+  { strict }: Pick<InternalGetZonehashParameters, 'strict'>,
+): Promise<InternalGetZonehashReturnType> => {
+  if (data === '0x') return null
+
+  try {
+    const response = decodeFunctionResult({
+      abi: publicResolverZonehashSnippet,
+      functionName: 'zonehash',
+      data,
+    })
+
+    return decodeContentHash(response)
+  } catch (error) {
+    if (strict) throw error
+    return null
+  }
+}
+
+const _getZonehash = generateFunction({ encode, decode })
+
+export default _getZonehash
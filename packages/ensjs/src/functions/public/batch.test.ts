@@ -28,6 +28,7 @@ describe('batch', () => {
       [
         "Hello2",
         {
+          "chainId": 1,
           "id": 60,
           "name": "eth",
           "value": "0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC",
@@ -52,6 +53,44 @@ describe('batch', () => {
       ]
     `)
   })
+  it('should return the block number the batch was read at', async () => {
+    const blockNumber = await publicClient.getBlockNumber()
+    const result = await batch(
+      publicClient,
+      getText.batch({ name: 'with-profile.eth', key: 'description' }),
+    )
+    expect(result.blockNumber).toBe(blockNumber)
+  })
+  it('should batch calls at a specified block', async () => {
+    const result = await batch(
+      publicClient,
+      { blockNumber: 1n },
+      getText.batch({ name: 'with-profile.eth', key: 'description' }),
+    )
+    expect(result).toEqual([null])
+    expect(result.blockNumber).toBe(1n)
+  })
+  it('should split large batches into chunks read at the same block', async () => {
+    const blockNumber = await publicClient.getBlockNumber()
+    const result = await batch(
+      publicClient,
+      { maxGasPerChunk: 1 },
+      getText.batch({ name: 'with-profile.eth', key: 'description' }),
+      getAddressRecord.batch({ name: 'with-profile.eth' }),
+    )
+    expect(result).toMatchInlineSnapshot(`
+      [
+        "Hello2",
+        {
+          "chainId": 1,
+          "id": 60,
+          "name": "eth",
+          "value": "0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC",
+        },
+      ]
+    `)
+    expect(result.blockNumber).toBe(blockNumber)
+  })
   it('should batch ccip', async () => {
     const result = await batch(
       mainnetPublicClient,
@@ -1,7 +1,10 @@
-import type { Hex } from 'viem'
+import { decodeFunctionResult, encodeFunctionData, type Hex } from 'viem'
 import type { ClientWithEns } from '../../contracts/consts.js'
+import { getChainContractAddress } from '../../contracts/getChainContractAddress.js'
+import { multicallGetBlockNumberSnippet } from '../../contracts/multicall.js'
 import { FunctionNotBatchableError } from '../../errors/public.js'
 import type {
+  BlockParameters,
   SimpleTransactionRequest,
   TransactionRequestWithPassthrough,
 } from '../../types.js'
@@ -10,7 +13,14 @@ import {
   type BatchFunctionResult,
   type GeneratedFunction,
 } from '../../utils/generateFunction.js'
-import multicallWrapper from './multicallWrapper.js'
+import {
+  chunkTransactions,
+  mapWithConcurrency,
+  type MulticallChunkParameters,
+} from '../../utils/multicallChunks.js'
+import multicallWrapper, {
+  getChunkBlockParameters,
+} from './multicallWrapper.js'
 
 type ExtractResult<TFunction extends BatchFunctionResult> = TFunction extends {
   decode: (...args: any[]) => Promise<infer U>
@@ -20,22 +30,50 @@ type ExtractResult<TFunction extends BatchFunctionResult> = TFunction extends {
 
 export type BatchParameters = BatchFunctionResult[]
 
+export type BatchOptions = BlockParameters & MulticallChunkParameters
+
 export type BatchReturnType<TFunctions extends BatchFunctionResult[]> = {
   [TFunctionName in keyof TFunctions]: ExtractResult<TFunctions[TFunctionName]>
+} & {
+  /** Block number the batch was read at */
+  readonly blockNumber: bigint
 }
 
+// batch options can optionally be passed before the batched functions
+const splitArgs = (args: (BatchFunctionResult | BatchOptions)[]) => {
+  const [first, ...rest] = args
+  if (first && !('args' in first))
+    return { options: first, items: rest as BatchFunctionResult[] }
+  return { options: {}, items: args as BatchFunctionResult[] }
+}
+
+const encodeItems = (
+  client: ClientWithEns,
+  items: BatchFunctionResult[],
+): SimpleTransactionRequest[] =>
+  items.map(({ args: itemArgs, encode: encodeRef }, i: number) => {
+    if (!encodeRef) throw new FunctionNotBatchableError({ functionIndex: i })
+    return encodeRef(client, ...itemArgs)
+  })
+
 const encode = (
   client: ClientWithEns,
-  ...items: BatchFunctionResult[]
+  ...args: (BatchFunctionResult | BatchOptions)[]
 ): TransactionRequestWithPassthrough => {
-  const rawDataArr: SimpleTransactionRequest[] = items.map(
-    ({ args, encode: encodeRef }, i: number) => {
-      if (!encodeRef) throw new FunctionNotBatchableError({ functionIndex: i })
-      return encodeRef(client, ...args)
-    },
-  )
+  const { items } = splitArgs(args)
+  const rawDataArr = encodeItems(client, items)
+  // block number is read last so results can be tied to the block they were read at
   const response = multicallWrapper.encode(client, {
-    transactions: rawDataArr,
+    transactions: [
+      ...rawDataArr,
+      {
+        to: getChainContractAddress({ client, contract: 'multicall3' }),
+        data: encodeFunctionData({
+          abi: multicallGetBlockNumberSnippet,
+          functionName: 'getBlockNumber',
+        }),
+      },
+    ],
   })
   return { ...response, passthrough: rawDataArr }
 }
@@ -44,13 +82,25 @@ const decode = async <I extends BatchFunctionResult[]>(
   client: ClientWithEns,
   data: Hex,
   passthrough: TransactionRequestWithPassthrough[],
-  ...items: I
+  ...args: (I[number] | BatchOptions)[]
 ): Promise<BatchReturnType<I>> => {
-  const response = await multicallWrapper.decode(client, data, passthrough)
+  const { options, items } = splitArgs(args)
+  const response = await multicallWrapper.decode(
+    client,
+    data,
+    passthrough,
+    options,
+  )
   if (!response) throw new Error('No response from multicall')
 
-  return Promise.all(
-    response.map((ret, i: number) => {
+  const blockNumber = decodeFunctionResult({
+    abi: multicallGetBlockNumberSnippet,
+    functionName: 'getBlockNumber',
+    data: response.at(-1)!.returnData,
+  })
+
+  const results = await Promise.all(
+    response.slice(0, -1).map((ret, i: number) => {
       if (passthrough[i].passthrough) {
         return items[i].decode(
           client,
@@ -61,7 +111,11 @@ const decode = async <I extends BatchFunctionResult[]>(
       }
       return items[i].decode(client, ret.returnData, ...items[i].args)
     }),
-  ) as Promise<BatchReturnType<I>>
+  )
+  // non-enumerable so that the result can still be treated as a plain array
+  return Object.defineProperty(results, 'blockNumber', {
+    value: blockNumber,
+  }) as unknown as BatchReturnType<I>
 }
 
 type BatchableFunctionObject = GeneratedFunction<typeof encode, typeof decode>
@@ -69,8 +123,8 @@ type BatchableFunctionObject = GeneratedFunction<typeof encode, typeof decode>
 /**
  * Batches multiple read functions into a single call.
  * @param client - {@link ClientWithEns}
- * @param ...parameters - Array of {@link BatchFunctionResult} objects
- * @returns Array of return values from each function
+ * @param ...parameters - Optional {@link BatchOptions}, followed by an array of {@link BatchFunctionResult} objects
+ * @returns Array of return values from each function, with the `blockNumber` the batch was read at
  *
  * @example
  * import { createPublicClient, http } from 'viem'
@@ -88,14 +142,63 @@ type BatchableFunctionObject = GeneratedFunction<typeof encode, typeof decode>
  *   getAddressRecord.batch({ name: 'ens.eth', coin: 'ETH' }),
  * )
  * // ['ensdomains', { id: 60, name: 'ETH', value: '0xFe89cc7aBB2C4183683ab71653C4cdc9B02D44b7 }]
+ *
+ * @example
+ * const result = await batch(
+ *   client,
+ *   { blockNumber: 19000000n },
+ *   getTextRecord.batch({ name: 'ens.eth', key: 'com.twitter' }),
+ * )
+ * // result.blockNumber === 19000000n
  */
-const batch = generateFunction({
+const batchSingle = generateFunction({
+  name: 'batch',
   encode,
   decode,
-}) as (<I extends BatchFunctionResult[]>(
-  client: ClientWithEns,
-  ...args: I
-) => Promise<BatchReturnType<I>>) &
-  BatchableFunctionObject
+})
+
+// items that don't fit into a single multicall are split into chunks, which are read at the same block
+const batch = Object.assign(
+  async (
+    client: ClientWithEns,
+    ...args: (BatchFunctionResult | BatchOptions)[]
+  ) => {
+    const { options, items } = splitArgs(args)
+    const { concurrency = 4, ...chunkOptions }: BatchOptions = options
+    const chunks = chunkTransactions(
+      encodeItems(client, items).map((transaction, index) => ({
+        ...transaction,
+        index,
+      })),
+      chunkOptions,
+    )
+    if (chunks.length <= 1) return batchSingle(client, ...args)
+    const blockParameters = await getChunkBlockParameters(client, options)
+    const results = await mapWithConcurrency(chunks, concurrency, (chunk) =>
+      batchSingle(
+        client,
+        { ...options, ...blockParameters },
+        ...chunk.map(({ index }) => items[index]),
+      ),
+    )
+    return Object.defineProperty(results.flat(), 'blockNumber', {
+      value: blockParameters.blockNumber,
+    })
+  },
+  {
+    encode,
+    decode,
+    batch: batchSingle.batch,
+  },
+) as {
+  <I extends BatchFunctionResult[]>(client: ClientWithEns, ...args: I): Promise<
+    BatchReturnType<I>
+  >
+  <I extends BatchFunctionResult[]>(
+    client: ClientWithEns,
+    options: BatchOptions,
+    ...args: I
+  ): Promise<BatchReturnType<I>>
+} & BatchableFunctionObject
 
 export default batch
@@ -40,6 +40,7 @@ describe('CCIP', () => {
               "value": "1A1zP1eP5QGefi2DMPTfTL5SLmv7DivfNa",
             },
             {
+              "chainId": 1,
               "id": 60,
               "name": "eth",
               "value": "0xd8dA6BF26964aF9D7eEd9e03E53415D37aA96045",
@@ -90,6 +91,7 @@ describe('CCIP', () => {
             "value": "1A1zP1eP5QGefi2DMPTfTL5SLmv7DivfNa",
           },
           {
+            "chainId": 1,
             "id": 60,
             "name": "eth",
             "value": "0xd8dA6BF26964aF9D7eEd9e03E53415D37aA96045",
@@ -124,6 +126,7 @@ describe('CCIP', () => {
         {
           "coins": [
             {
+              "chainId": 1,
               "id": 60,
               "name": "eth",
               "value": "0x3A8C8D374AD15fE43E6239F6C694bff9Ee4CBbbf",
@@ -147,6 +150,7 @@ describe('CCIP', () => {
       expect(result).toMatchInlineSnapshot(`
       [
         {
+          "chainId": 1,
           "id": 60,
           "name": "eth",
           "value": "0xd8dA6BF26964aF9D7eEd9e03E53415D37aA96045",
@@ -169,6 +173,7 @@ describe('CCIP', () => {
         [
           [
             {
+              "chainId": 1,
               "id": 60,
               "name": "eth",
               "value": "0xd8dA6BF26964aF9D7eEd9e03E53415D37aA96045",
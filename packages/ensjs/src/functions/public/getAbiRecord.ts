@@ -1,6 +1,7 @@
 import type { BaseError, Hex } from 'viem'
 import type { ClientWithEns } from '../../contracts/consts.js'
 import type {
+  BlockParameters,
   GenericPassthrough,
   Prettify,
   SimpleTransactionRequest,
@@ -16,10 +17,11 @@ import _getAbi, {
 import universalWrapper from './universalWrapper.js'
 
 export type GetAbiRecordParameters = Prettify<
-  InternalGetAbiParameters & {
-    /** Batch gateway URLs to use for resolving CCIP-read requests. */
-    gatewayUrls?: string[]
-  }
+  InternalGetAbiParameters &
+    BlockParameters & {
+      /** Batch gateway URLs to use for resolving CCIP-read requests. */
+      gatewayUrls?: string[]
+    }
 >
 
 export type GetAbiRecordReturnType = Prettify<InternalGetAbiReturnType>
@@ -78,7 +80,11 @@ type BatchableFunctionObject = GeneratedFunction<typeof encode, typeof decode>
  * const result = await getAbiRecord(client, { name: 'ens.eth' })
  * // TODO: real example
  */
-const getAbiRecord = generateFunction({ encode, decode }) as ((
+const getAbiRecord = generateFunction({
+  name: 'getAbiRecord',
+  encode,
+  decode,
+}) as ((
   client: ClientWithEns,
   { name, strict, gatewayUrls, supportedContentTypes }: GetAbiRecordParameters,
 ) => Promise<GetAbiRecordReturnType>) &
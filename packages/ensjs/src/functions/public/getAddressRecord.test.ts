@@ -18,6 +18,7 @@ describe('getAddressRecord()', () => {
     })
     expect(result).toMatchInlineSnapshot(`
       {
+        "chainId": 1,
         "id": 60,
         "name": "eth",
         "value": "0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC",
@@ -63,6 +64,33 @@ describe('getAddressRecord()', () => {
       }
     `)
   })
+  it('should return the ETH record for a mainnet chain object', async () => {
+    const result = await getAddressRecord(publicClient, {
+      name: 'with-profile.eth',
+      coin: mainnet,
+    })
+    expect(result?.id).toBe(60)
+    expect(result?.chainId).toBe(1)
+  })
+  it('should return null for an empty EVM chain record', async () => {
+    const result = await getAddressRecord(publicClient, {
+      name: 'with-profile.eth',
+      coin: { chainId: 10 },
+    })
+    expect(result).toBeNull()
+  })
+  it('should fall back to the default EVM address for an empty EVM chain record', async () => {
+    const ethRecord = await getAddressRecord(publicClient, {
+      name: 'with-profile.eth',
+    })
+    const result = await getAddressRecord(publicClient, {
+      name: 'with-profile.eth',
+      coin: { chainId: 10 },
+      evmFallback: true,
+    })
+    expect(result?.chainId).toBe(10)
+    expect(result?.value).toBe(ethRecord!.value)
+  })
   it('should return null for a non-existent coin', async () => {
     const result = await getAddressRecord(publicClient, {
       name: 'with-profile.eth',
@@ -76,6 +104,7 @@ describe('getAddressRecord()', () => {
     })
     expect(result).toMatchInlineSnapshot(`
       {
+        "chainId": 1,
         "id": 60,
         "name": "eth",
         "value": "0xde9ba5F62D6047C4a9cCF24455AA733cCC5B8F41",
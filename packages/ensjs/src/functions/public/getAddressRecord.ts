@@ -1,14 +1,34 @@
-import type { BaseError, Hex } from 'viem'
+import {
+  decodeFunctionResult,
+  encodeFunctionData,
+  toHex,
+  type BaseError,
+  type Hex,
+} from 'viem'
 import type { ClientWithEns } from '../../contracts/consts.js'
+import { getChainContractAddress } from '../../contracts/getChainContractAddress.js'
+import {
+  universalResolverResolveArraySnippet,
+  universalResolverResolveArrayWithGatewaysSnippet,
+} from '../../contracts/universalResolver.js'
 import type {
+  BlockParameters,
   GenericPassthrough,
   Prettify,
-  SimpleTransactionRequest,
+  TransactionRequestWithPassthrough,
 } from '../../types.js'
+import { checkSafeUniversalResolverData } from '../../utils/checkSafeUniversalResolverData.js'
+import {
+  DEFAULT_EVM_COIN_TYPE,
+  getChainIdFromCoinType,
+  getCoderFromCoin,
+  isEvmFallbackCoinType,
+} from '../../utils/normaliseCoinId.js'
 import {
   generateFunction,
   type GeneratedFunction,
 } from '../../utils/generateFunction.js'
+import { packetToBytes } from '../../utils/hexEncodedName.js'
 import _getAddr, {
   type InternalGetAddrParameters,
   type InternalGetAddrReturnType,
@@ -16,28 +36,117 @@ import _getAddr, {
 import universalWrapper from './universalWrapper.js'
 
 export type GetAddressRecordParameters = Prettify<
-  InternalGetAddrParameters & {
-    /** Batch gateway URLs to use for resolving CCIP-read requests. */
-    gatewayUrls?: string[]
-  }
+  InternalGetAddrParameters &
+    BlockParameters & {
+      /** Whether to fall back to the default EVM address record when an EVM chain record is empty (default: `false`) */
+      evmFallback?: boolean
+      /** Batch gateway URLs to use for resolving CCIP-read requests. */
+      gatewayUrls?: string[]
+    }
 >
 
 export type GetAddressRecordReturnType = Prettify<InternalGetAddrReturnType>
 
+const usesEvmFallback = ({
+  coin,
+  evmFallback,
+}: Pick<GetAddressRecordParameters, 'coin' | 'evmFallback'>) =>
+  !!evmFallback && isEvmFallbackCoinType(getCoderFromCoin(coin ?? 60).coinType)
+
 const encode = (
   client: ClientWithEns,
   {
     name,
     coin,
+    evmFallback,
     gatewayUrls,
   }: Omit<GetAddressRecordParameters, 'strict' | 'bypassFormat'>,
-): SimpleTransactionRequest => {
+): TransactionRequestWithPassthrough => {
   const prData = _getAddr.encode(client, { name, coin })
-  return universalWrapper.encode(client, {
-    name,
-    data: prData.data,
+  if (!usesEvmFallback({ coin, evmFallback }))
+    return universalWrapper.encode(client, {
+      name,
+      data: prData.data,
+      gatewayUrls,
+    })
+
+  // the default EVM address is resolved in the same call, so it can be used when the chain record is empty
+  const to = getChainContractAddress({
+    client,
+    contract: 'ensUniversalResolver',
+  })
+  const args = [
+    toHex(packetToBytes(name)),
+    [
+      prData.data,
+      _getAddr.encode(client, { name, coin: DEFAULT_EVM_COIN_TYPE }).data,
+    ],
+  ] as const
+  return {
+    to,
+    ...(gatewayUrls
+      ? {
+          data: encodeFunctionData({
+            abi: universalResolverResolveArrayWithGatewaysSnippet,
+            functionName: 'resolve',
+            args: [...args, gatewayUrls] as const,
+          }),
+          passthrough: { args: [...args, gatewayUrls], address: to },
+        }
+      : {
+          data: encodeFunctionData({
+            abi: universalResolverResolveArraySnippet,
+            functionName: 'resolve',
+            args,
+          }),
+          passthrough: { args, address: to },
+        }),
+  }
+}
+
+const decodeWithEvmFallback = async (
+  client: ClientWithEns,
+  data: Hex | BaseError,
+  passthrough: GenericPassthrough,
+  {
+    coin,
+    strict,
     gatewayUrls,
+  }: Pick<GetAddressRecordParameters, 'coin' | 'strict' | 'gatewayUrls'>,
+): Promise<GetAddressRecordReturnType> => {
+  const isSafe = checkSafeUniversalResolverData(data, {
+    strict,
+    abi: gatewayUrls
+      ? universalResolverResolveArrayWithGatewaysSnippet
+      : universalResolverResolveArraySnippet,
+    args: passthrough.args,
+    functionName: 'resolve',
+    address: passthrough.address,
+  })
+  if (!isSafe) return null
+
+  const [[record, fallbackRecord]] = decodeFunctionResult({
+    abi: universalResolverResolveArraySnippet,
+    functionName: 'resolve',
+    data: data as Hex,
+  })
+  const result = record.success
+    ? await _getAddr.decode(client, record.returnData, { coin, strict })
+    : null
+  if (result || !fallbackRecord.success) return result
+
+  const fallback = await _getAddr.decode(client, fallbackRecord.returnData, {
+    coin: DEFAULT_EVM_COIN_TYPE,
+    strict,
   })
+  if (!fallback) return null
+  const coder = getCoderFromCoin(coin ?? 60)
+  return {
+    id: coder.coinType,
+    name: coder.name,
+    value: fallback.value,
+    chainId: getChainIdFromCoinType(coder.coinType),
+  }
 }
 
 const decode = async (
@@ -47,9 +156,20 @@ const decode = async (
   {
     coin,
     strict,
+    evmFallback,
     gatewayUrls,
-  }: Pick<GetAddressRecordParameters, 'coin' | 'strict' | 'gatewayUrls'>,
+  }: Pick<
+    GetAddressRecordParameters,
+    'coin' | 'strict' | 'evmFallback' | 'gatewayUrls'
+  >,
 ): Promise<GetAddressRecordReturnType> => {
+  if (usesEvmFallback({ coin, evmFallback }))
+    return decodeWithEvmFallback(client, data, passthrough, {
+      coin,
+      strict,
+      gatewayUrls,
+    })
+
   const urData = await universalWrapper.decode(client, data, passthrough, {
     strict,
     gatewayUrls,
@@ -77,11 +197,22 @@ type BatchableFunctionObject = GeneratedFunction<typeof encode, typeof decode>
  *   transport: http(),
  * })
  * const result = await getAddressRecord(client, { name: 'ens.eth', coin: 'ETH' })
- * // { id: 60, name: 'ETH , value: '0xFe89cc7aBB2C4183683ab71653C4cdc9B02D44b7' }
+ * // { id: 60, name: 'ETH , value: '0xFe89cc7aBB2C4183683ab71653C4cdc9B02D44b7', chainId: 1 }
  */
-const getAddressRecord = generateFunction({ encode, decode }) as ((
+const getAddressRecord = generateFunction({
+  name: 'getAddressRecord',
+  encode,
+  decode,
+}) as ((
   client: ClientWithEns,
-  { name, coin, bypassFormat, strict, gatewayUrls }: GetAddressRecordParameters,
+  {
+    name,
+    coin,
+    bypassFormat,
+    strict,
+    evmFallback,
+    gatewayUrls,
+  }: GetAddressRecordParameters,
 ) => Promise<GetAddressRecordReturnType>) &
   BatchableFunctionObject
 
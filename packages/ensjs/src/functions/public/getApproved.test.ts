@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest'
+import { publicClient } from '../../test/addTestContracts.js'
+import getApproved from './getApproved.js'
+
+describe('getApproved()', () => {
+  it('should return null for a wrapped name with no approval', async () => {
+    const result = await getApproved(publicClient, {
+      name: 'wrapped.eth',
+      contract: 'nameWrapper',
+    })
+    expect(result).toBeNull()
+  })
+  it('should return null for an unwrapped name with no approval', async () => {
+    const result = await getApproved(publicClient, {
+      name: 'test123.eth',
+      contract: 'registrar',
+    })
+    expect(result).toBeNull()
+  })
+  it('should throw an error for a non eth-2ld name on the registrar', async () => {
+    await expect(
+      getApproved(publicClient, {
+        name: 'test.wrapped-with-subnames.eth',
+        contract: 'registrar',
+      }),
+    ).rejects.toThrow('Unsupported name type: eth-subname')
+  })
+})
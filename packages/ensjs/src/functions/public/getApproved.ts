@@ -0,0 +1,152 @@
+import {
+  BaseError,
+  decodeFunctionResult,
+  encodeFunctionData,
+  getContractError,
+  labelhash,
+  type Address,
+  type Hex,
+} from 'viem'
+import { baseRegistrarGetApprovedSnippet } from '../../contracts/baseRegistrar.js'
+import type { ClientWithEns } from '../../contracts/consts.js'
+import { getChainContractAddress } from '../../contracts/getChainContractAddress.js'
+import { nameWrapperGetApprovedSnippet } from '../../contracts/nameWrapper.js'
+import {
+  InvalidContractTypeError,
+  UnsupportedNameTypeError,
+} from '../../errors/general.js'
+import type {
+  BlockParameters,
+  GenericPassthrough,
+  TransactionRequestWithPassthrough,
+} from '../../types.js'
+import { EMPTY_ADDRESS } from '../../utils/consts.js'
+import {
+  generateFunction,
+  type GeneratedFunction,
+} from '../../utils/generateFunction.js'
+import { getNameType } from '../../utils/getNameType.js'
+import { namehash } from '../../utils/normalise.js'
+
+export type GetApprovedParameters = BlockParameters & {
+  /** Name to get approved address for */
+  name: string
+  /** Contract to get approved address from */
+  contract: 'registrar' | 'nameWrapper'
+}
+
+export type GetApprovedReturnType = Address | null
+
+const encode = (
+  client: ClientWithEns,
+  { name, contract }: GetApprovedParameters,
+): TransactionRequestWithPassthrough => {
+  switch (contract) {
+    case 'registrar': {
+      const nameType = getNameType(name)
+      if (nameType !== 'eth-2ld')
+        throw new UnsupportedNameTypeError({
+          nameType,
+          supportedNameTypes: ['eth-2ld'],
+          details: 'Only eth-2ld names have approvals on the registrar',
+        })
+      const address = getChainContractAddress({
+        client,
+        contract: 'ensBaseRegistrarImplementation',
+      })
+      const args = [BigInt(labelhash(name.split('.')[0]))] as const
+      return {
+        to: address,
+        data: encodeFunctionData({
+          abi: baseRegistrarGetApprovedSnippet,
+          functionName: 'getApproved',
+          args,
+        }),
+        passthrough: { address, args },
+      }
+    }
+    case 'nameWrapper': {
+      const address = getChainContractAddress({
+        client,
+        contract: 'ensNameWrapper',
+      })
+      const args = [BigInt(namehash(name))] as const
+      return {
+        to: address,
+        data: encodeFunctionData({
+          abi: nameWrapperGetApprovedSnippet,
+          functionName: 'getApproved',
+          args,
+        }),
+        passthrough: { address, args },
+      }
+    }
+    default:
+      throw new InvalidContractTypeError({
+        contractType: contract,
+        supportedContractTypes: ['registrar', 'nameWrapper'],
+      })
+  }
+}
+
+const decode = async (
+  _client: ClientWithEns,
+  data: Hex | BaseError,
+  passthrough: GenericPassthrough,
+  { contract }: GetApprovedParameters,
+): Promise<GetApprovedReturnType> => {
+  const abi =
+    contract === 'nameWrapper'
+      ? nameWrapperGetApprovedSnippet
+      : baseRegistrarGetApprovedSnippet
+  if (typeof data === 'object')
+    throw getContractError(data, {
+      abi,
+      functionName: 'getApproved',
+      args: passthrough.args,
+      address: passthrough.address,
+    }) as BaseError
+  const approved = decodeFunctionResult({
+    abi,
+    functionName: 'getApproved',
+    data,
+  })
+  if (approved === EMPTY_ADDRESS) return null
+  return approved
+}
+
+type BatchableFunctionObject = GeneratedFunction<typeof encode, typeof decode>
+
+/**
+ * Gets the address approved to manage a single name on the registrar or NameWrapper
+ * @param client - {@link ClientWithEns}
+ * @param parameters - {@link GetApprovedParameters}
+ * @returns Approved address, or `null` if no address is approved. {@link GetApprovedReturnType}
+ *
+ * @example
+ * import { createPublicClient, http } from 'viem'
+ * import { mainnet } from 'viem/chains'
+ * import { addEnsContracts } from '@ensdomains/ensjs'
+ * import { getApproved } from '@ensdomains/ensjs/public'
+ *
+ * const client = createPublicClient({
+ *   chain: addEnsContracts(mainnet),
+ *   transport: http(),
+ * })
+ * const result = await getApproved(client, {
+ *   name: 'ens.eth',
+ *   contract: 'nameWrapper',
+ * })
+ * // null
+ */
+const getApproved = generateFunction({
+  name: 'getApproved',
+  encode,
+  decode,
+}) as ((
+  client: ClientWithEns,
+  { name, contract }: GetApprovedParameters,
+) => Promise<GetApprovedReturnType>) &
+  BatchableFunctionObject
+
+export default getApproved
@@ -0,0 +1,39 @@
+import type { Address } from 'viem'
+import { beforeAll, describe, expect, it } from 'vitest'
+import { publicClient, walletClient } from '../../test/addTestContracts.js'
+import getApprovedForAll from './getApprovedForAll.js'
+
+let accounts: Address[]
+
+beforeAll(async () => {
+  accounts = await walletClient.getAddresses()
+})
+
+describe('getApprovedForAll()', () => {
+  it.each(['registry', 'registrar', 'nameWrapper'] as const)(
+    'should return false for an unapproved operator on the %s',
+    async (contract) => {
+      const result = await getApprovedForAll(publicClient, {
+        contract,
+        owner: accounts[1],
+        operator: accounts[2],
+      })
+      expect(result).toBe(false)
+    },
+  )
+  it('should throw an error for an unknown contract', async () => {
+    await expect(
+      getApprovedForAll(publicClient, {
+        contract: 'invalid' as any,
+        owner: accounts[1],
+        operator: accounts[2],
+      }),
+    ).rejects.toThrowErrorMatchingInlineSnapshot(`
+      [InvalidContractTypeError: Invalid contract type: invalid
+
+      - Supported contract types: registry, registrar, nameWrapper
+
+      Version: @ensdomains/ensjs@1.0.0-mock.0]
+    `)
+  })
+})
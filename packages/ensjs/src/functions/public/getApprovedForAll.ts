@@ -0,0 +1,124 @@
+import {
+  BaseError,
+  decodeFunctionResult,
+  encodeFunctionData,
+  type Address,
+  type Hex,
+} from 'viem'
+import { baseRegistrarIsApprovedForAllSnippet } from '../../contracts/baseRegistrar.js'
+import type { ClientWithEns } from '../../contracts/consts.js'
+import { getChainContractAddress } from '../../contracts/getChainContractAddress.js'
+import { nameWrapperIsApprovedForAllSnippet } from '../../contracts/nameWrapper.js'
+import { registryIsApprovedForAllSnippet } from '../../contracts/registry.js'
+import { InvalidContractTypeError } from '../../errors/general.js'
+import type { BlockParameters, SimpleTransactionRequest } from '../../types.js'
+import {
+  generateFunction,
+  type GeneratedFunction,
+} from '../../utils/generateFunction.js'
+
+export type GetApprovedForAllParameters = BlockParameters & {
+  /** Contract to check approval on */
+  contract: 'registry' | 'registrar' | 'nameWrapper'
+  /** Address that granted the approval */
+  owner: Address
+  /** Address to check approval for */
+  operator: Address
+}
+
+export type GetApprovedForAllReturnType = boolean
+
+const encode = (
+  client: ClientWithEns,
+  { contract, owner, operator }: GetApprovedForAllParameters,
+): SimpleTransactionRequest => {
+  const args = [owner, operator] as const
+  const functionName = 'isApprovedForAll'
+  switch (contract) {
+    case 'registry':
+      return {
+        to: getChainContractAddress({ client, contract: 'ensRegistry' }),
+        data: encodeFunctionData({
+          abi: registryIsApprovedForAllSnippet,
+          functionName,
+          args,
+        }),
+      }
+    case 'registrar':
+      return {
+        to: getChainContractAddress({
+          client,
+          contract: 'ensBaseRegistrarImplementation',
+        }),
+        data: encodeFunctionData({
+          abi: baseRegistrarIsApprovedForAllSnippet,
+          functionName,
+          args,
+        }),
+      }
+    case 'nameWrapper':
+      return {
+        to: getChainContractAddress({ client, contract: 'ensNameWrapper' }),
+        data: encodeFunctionData({
+          abi: nameWrapperIsApprovedForAllSnippet,
+          functionName,
+          args,
+        }),
+      }
+    default:
+      throw new InvalidContractTypeError({
+        contractType: contract,
+        supportedContractTypes: ['registry', 'registrar', 'nameWrapper'],
+      })
+  }
+}
+
+const decode = async (
+  _client: ClientWithEns,
+  data: Hex | BaseError,
+): Promise<GetApprovedForAllReturnType> => {
+  if (typeof data === 'object') throw data
+  // all contracts share the same isApprovedForAll signature
+  return decodeFunctionResult({
+    abi: registryIsApprovedForAllSnippet,
+    functionName: 'isApprovedForAll',
+    data,
+  })
+}
+
+type BatchableFunctionObject = GeneratedFunction<typeof encode, typeof decode>
+
+/**
+ * Gets whether an operator is approved to manage all names of an owner on a contract
+ * @param client - {@link ClientWithEns}
+ * @param parameters - {@link GetApprovedForAllParameters}
+ * @returns Approval as boolean. {@link GetApprovedForAllReturnType}
+ *
+ * @example
+ * import { createPublicClient, http } from 'viem'
+ * import { mainnet } from 'viem/chains'
+ * import { addEnsContracts } from '@ensdomains/ensjs'
+ * import { getApprovedForAll } from '@ensdomains/ensjs/public'
+ *
+ * const client = createPublicClient({
+ *   chain: addEnsContracts(mainnet),
+ *   transport: http(),
+ * })
+ * const result = await getApprovedForAll(client, {
+ *   contract: 'nameWrapper',
+ *   owner: '0xb8c2C29ee19D8307cb7255e1Cd9CbDE883A267d5',
+ *   operator: '0x983110309620D911731Ac0932219af06091b6744',
+ * })
+ * // false
+ */
+const getApprovedForAll = generateFunction({
+  name: 'getApprovedForAll',
+  encode,
+  decode,
+}) as ((
+  client: ClientWithEns,
+  { contract, owner, operator }: GetApprovedForAllParameters,
+) => Promise<GetApprovedForAllReturnType>) &
+  BatchableFunctionObject
+
+export default getApprovedForAll
@@ -9,14 +9,14 @@ import { baseRegistrarAvailableSnippet } from '../../contracts/baseRegistrar.js'
 import type { ClientWithEns } from '../../contracts/consts.js'
 import { getChainContractAddress } from '../../contracts/getChainContractAddress.js'
 import { UnsupportedNameTypeError } from '../../errors/general.js'
-import type { SimpleTransactionRequest } from '../../types.js'
+import type { BlockParameters, SimpleTransactionRequest } from '../../types.js'
 import {
   generateFunction,
   type GeneratedFunction,
 } from '../../utils/generateFunction.js'
 import { getNameType } from '../../utils/getNameType.js'
 
-export type GetAvailableParameters = {
+export type GetAvailableParameters = BlockParameters & {
   /** Name to check availability for, only compatible for eth 2ld */
   name: string
 }
@@ -83,7 +83,11 @@ type BatchableFunctionObject = GeneratedFunction<typeof encode, typeof decode>
  * const result = await getAvailable(client, { name: 'ens.eth' })
  * // false
  */
-const getAvailable = generateFunction({ encode, decode }) as ((
+const getAvailable = generateFunction({
+  name: 'getAvailable',
+  encode,
+  decode,
+}) as ((
   client: ClientWithEns,
   { name }: GetAvailableParameters,
 ) => Promise<GetAvailableReturnType>) &
@@ -0,0 +1,61 @@
+import type { Address, Hex } from 'viem'
+import { afterEach, beforeAll, beforeEach, expect, it } from 'vitest'
+import {
+  publicClient,
+  testClient,
+  waitForTransaction,
+  walletClient,
+} from '../../test/addTestContracts.js'
+import setTextRecord from '../wallet/setTextRecord.js'
+import getAvatar from './getAvatar.js'
+import getResolver from './getResolver.js'
+
+let snapshot: Hex
+let accounts: Address[]
+
+beforeAll(async () => {
+  accounts = await walletClient.getAddresses()
+})
+
+beforeEach(async () => {
+  snapshot = await testClient.snapshot()
+})
+
+afterEach(async () => {
+  await testClient.revert({ id: snapshot })
+})
+
+const setAvatar = async (value: string) => {
+  const tx = await setTextRecord(walletClient, {
+    name: 'test123.eth',
+    key: 'avatar',
+    value,
+    resolverAddress: (await getResolver(publicClient, {
+      name: 'test123.eth',
+    }))!,
+    account: accounts[1],
+  })
+  await waitForTransaction(tx)
+}
+
+it('should return the gateway uri for an ipfs avatar', async () => {
+  await setAvatar('ipfs://QmdmQXB2mzChmMeKY47C43LxUdg1NDJ5MWcKMKxDu7RgQm')
+  const result = await getAvatar(publicClient, {
+    name: 'test123.eth',
+    gateways: { ipfs: 'https://gateway.example' },
+  })
+  expect(result).toBe(
+    'https://gateway.example/ipfs/QmdmQXB2mzChmMeKY47C43LxUdg1NDJ5MWcKMKxDu7RgQm',
+  )
+})
+it('should return null for an nft that is not owned by the name', async () => {
+  await setAvatar(
+    `eip155:${publicClient.chain.id}/erc721:${publicClient.chain.contracts.ensBaseRegistrarImplementation.address}/1`,
+  )
+  const result = await getAvatar(publicClient, { name: 'test123.eth' })
+  expect(result).toBeNull()
+})
+it('should return null for a name without an avatar', async () => {
+  const result = await getAvatar(publicClient, { name: 'test123.eth' })
+  expect(result).toBeNull()
+})
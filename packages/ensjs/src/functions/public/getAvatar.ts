@@ -0,0 +1,38 @@
+import type { ClientWithEns } from '../../contracts/consts.js'
+import type { Prettify } from '../../types.js'
+import _getImage, {
+  type InternalGetImageParameters,
+  type InternalGetImageReturnType,
+} from './_getImage.js'
+
+export type GetAvatarParameters = Prettify<InternalGetImageParameters>
+
+export type GetAvatarReturnType = InternalGetImageReturnType
+
+/**
+ * Gets the resolved avatar image URI for a name, as specified by ENSIP-12.
+ * NFT avatars are verified to be owned by the name's ETH address.
+ * @param client - {@link ClientWithEns}
+ * @param parameters - {@link GetAvatarParameters}
+ * @returns Fetchable image URI, or `null` if not found or invalid. {@link GetAvatarReturnType}
+ *
+ * @example
+ * import { createPublicClient, http } from 'viem'
+ * import { mainnet } from 'viem/chains'
+ * import { addEnsContracts } from '@ensdomains/ensjs'
+ * import { getAvatar } from '@ensdomains/ensjs/public'
+ *
+ * const client = createPublicClient({
+ *   chain: addEnsContracts(mainnet),
+ *   transport: http(),
+ * })
+ * const result = await getAvatar(client, { name: 'ens.eth' })
+ * // https://ipfs.io/ipfs/...
+ */
+const getAvatar = (
+  client: ClientWithEns,
+  parameters: GetAvatarParameters,
+): Promise<GetAvatarReturnType> =>
+  _getImage(client, { ...parameters, key: 'avatar' })
+
+export default getAvatar
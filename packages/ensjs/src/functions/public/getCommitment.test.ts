@@ -0,0 +1,71 @@
+import type { Address, Hex } from 'viem'
+import { afterEach, beforeAll, beforeEach, describe, expect, it } from 'vitest'
+import {
+  publicClient,
+  testClient,
+  waitForTransaction,
+  walletClient,
+} from '../../test/addTestContracts.js'
+import {
+  makeCommitment,
+  type RegistrationParameters,
+} from '../../utils/registerHelpers.js'
+import commitName from '../wallet/commitName.js'
+import getCommitment from './getCommitment.js'
+
+let snapshot: Hex
+let accounts: Address[]
+let params: RegistrationParameters
+
+beforeAll(async () => {
+  accounts = await walletClient.getAddresses()
+  params = {
+    name: 'cool-swag.eth',
+    duration: 31536000,
+    owner: accounts[1],
+    secret: `0x${'a'.repeat(64)}`,
+  }
+})
+
+beforeEach(async () => {
+  snapshot = await testClient.snapshot()
+  const tx = await commitName(walletClient, { ...params, account: accounts[1] })
+  await waitForTransaction(tx)
+})
+
+afterEach(async () => {
+  await testClient.revert({ id: snapshot })
+})
+
+describe('getCommitment()', () => {
+  it('should return null for a commitment that does not exist', async () => {
+    const result = await getCommitment(publicClient, {
+      commitment: `0x${'b'.repeat(64)}`,
+    })
+    expect(result).toBeNull()
+  })
+  it('should return tooNew for a new commitment', async () => {
+    const result = await getCommitment(publicClient, params)
+    expect(result!.status).toBe('tooNew')
+    expect(result!.isValid).toBe(false)
+    expect(result!.secondsRemaining).toBe(60)
+  })
+  it('should return valid for a commitment after the minimum age', async () => {
+    await testClient.increaseTime({ seconds: 61 })
+    await testClient.mine({ blocks: 1 })
+    const result = await getCommitment(publicClient, {
+      commitment: makeCommitment(params),
+    })
+    expect(result!.status).toBe('valid')
+    expect(result!.isValid).toBe(true)
+    expect(result!.secondsRemaining).toBeGreaterThan(0)
+  })
+  it('should return expired for a commitment after the maximum age', async () => {
+    await testClient.increaseTime({ seconds: 86401 })
+    await testClient.mine({ blocks: 1 })
+    const result = await getCommitment(publicClient, params)
+    expect(result!.status).toBe('expired')
+    expect(result!.isValid).toBe(false)
+    expect(result!.secondsRemaining).toBe(0)
+  })
+})
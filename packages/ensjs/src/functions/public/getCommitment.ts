@@ -0,0 +1,188 @@
+import {
+  BaseError,
+  decodeFunctionResult,
+  encodeFunctionData,
+  type Hex,
+} from 'viem'
+import type { ClientWithEns } from '../../contracts/consts.js'
+import {
+  ethRegistrarControllerCommitmentsSnippet,
+  ethRegistrarControllerMaxCommitmentAgeSnippet,
+  ethRegistrarControllerMinCommitmentAgeSnippet,
+} from '../../contracts/ethRegistrarController.js'
+import { getChainContractAddress } from '../../contracts/getChainContractAddress.js'
+import { multicallGetCurrentBlockTimestampSnippet } from '../../contracts/multicall.js'
+import type {
+  BlockParameters,
+  DateWithValue,
+  Prettify,
+  SimpleTransactionRequest,
+} from '../../types.js'
+import {
+  generateFunction,
+  type GeneratedFunction,
+} from '../../utils/generateFunction.js'
+import { makeSafeSecondsDate } from '../../utils/makeSafeSecondsDate.js'
+import {
+  makeCommitment,
+  type RegistrationParameters,
+} from '../../utils/registerHelpers.js'
+import multicallWrapper from './multicallWrapper.js'
+
+export type GetCommitmentParameters = Prettify<
+  BlockParameters &
+    (
+      | {
+          /** Commitment hash to get status for */
+          commitment: Hex
+        }
+      | (RegistrationParameters & {
+          commitment?: never
+        })
+    )
+>
+
+export type GetCommitmentReturnType = {
+  /** Block timestamp of the commitment */
+  timestamp: DateWithValue<bigint>
+  /** Status of the commitment */
+  status: 'tooNew' | 'valid' | 'expired'
+  /** Whether the commitment is currently valid to register with */
+  isValid: boolean
+  /** Seconds remaining until the commitment becomes valid, or until it expires if already valid */
+  secondsRemaining: number
+} | null
+
+const getCommitmentHash = (params: GetCommitmentParameters) =>
+  params.commitment ?? makeCommitment(params as RegistrationParameters)
+
+const encode = (
+  client: ClientWithEns,
+  params: GetCommitmentParameters,
+): SimpleTransactionRequest => {
+  const controllerAddress = getChainContractAddress({
+    client,
+    contract: 'ensEthRegistrarController',
+  })
+  return multicallWrapper.encode(client, {
+    transactions: [
+      {
+        to: controllerAddress,
+        data: encodeFunctionData({
+          abi: ethRegistrarControllerCommitmentsSnippet,
+          functionName: 'commitments',
+          args: [getCommitmentHash(params)],
+        }),
+      },
+      {
+        to: controllerAddress,
+        data: encodeFunctionData({
+          abi: ethRegistrarControllerMinCommitmentAgeSnippet,
+          functionName: 'minCommitmentAge',
+        }),
+      },
+      {
+        to: controllerAddress,
+        data: encodeFunctionData({
+          abi: ethRegistrarControllerMaxCommitmentAgeSnippet,
+          functionName: 'maxCommitmentAge',
+        }),
+      },
+      {
+        to: getChainContractAddress({ client, contract: 'multicall3' }),
+        data: encodeFunctionData({
+          abi: multicallGetCurrentBlockTimestampSnippet,
+          functionName: 'getCurrentBlockTimestamp',
+        }),
+      },
+    ],
+  })
+}
+
+const decode = async (
+  client: ClientWithEns,
+  data: Hex | BaseError,
+): Promise<GetCommitmentReturnType> => {
+  if (typeof data === 'object') throw data
+  const [timestampResult, minAgeResult, maxAgeResult, blockTimestampResult] =
+    await multicallWrapper.decode(client, data, [])
+
+  const timestamp = decodeFunctionResult({
+    abi: ethRegistrarControllerCommitmentsSnippet,
+    functionName: 'commitments',
+    data: timestampResult.returnData,
+  })
+  if (timestamp === 0n) return null
+
+  const minAge = decodeFunctionResult({
+    abi: ethRegistrarControllerMinCommitmentAgeSnippet,
+    functionName: 'minCommitmentAge',
+    data: minAgeResult.returnData,
+  })
+  const maxAge = decodeFunctionResult({
+    abi: ethRegistrarControllerMaxCommitmentAgeSnippet,
+    functionName: 'maxCommitmentAge',
+    data: maxAgeResult.returnData,
+  })
+  const blockTimestamp = decodeFunctionResult({
+    abi: multicallGetCurrentBlockTimestampSnippet,
+    functionName: 'getCurrentBlockTimestamp',
+    data: blockTimestampResult.returnData,
+  })
+
+  // matches the controller, which is valid from the minimum age up to (but not including) the maximum age
+  let status: NonNullable<GetCommitmentReturnType>['status'] = 'valid'
+  let secondsRemaining = timestamp + maxAge - blockTimestamp
+  if (blockTimestamp < timestamp + minAge) {
+    status = 'tooNew'
+    secondsRemaining = timestamp + minAge - blockTimestamp
+  } else if (blockTimestamp >= timestamp + maxAge) {
+    status = 'expired'
+    secondsRemaining = 0n
+  }
+
+  return {
+    timestamp: {
+      date: makeSafeSecondsDate(timestamp),
+      value: timestamp,
+    },
+    status,
+    isValid: status === 'valid',
+    secondsRemaining: Number(secondsRemaining),
+  }
+}
+
+type BatchableFunctionObject = GeneratedFunction<typeof encode, typeof decode>
+
+/**
+ * Gets the status of a registration commitment
+ * @param client - {@link ClientWithEns}
+ * @param parameters - {@link GetCommitmentParameters}
+ * @returns Commitment status, or `null` if the commitment doesn't exist. {@link GetCommitmentReturnType}
+ *
+ * @example
+ * import { createPublicClient, http } from 'viem'
+ * import { mainnet } from 'viem/chains'
+ * import { addEnsContracts } from '@ensdomains/ensjs'
+ * import { getCommitment } from '@ensdomains/ensjs/public'
+ *
+ * const client = createPublicClient({
+ *   chain: addEnsContracts(mainnet),
+ *   transport: http(),
+ * })
+ * const result = await getCommitment(client, {
+ *   commitment: '0x6e1b2cfd4bc0b14ca5cbcf6466e8b5ebdd9b7c4d46e3aebb4b0a5e3e1c1e5b4f',
+ * })
+ * // { timestamp: { date: Date, value: 1700000000n }, status: 'valid', isValid: true, secondsRemaining: 86340 }
+ */
+const getCommitment = generateFunction({
+  name: 'getCommitment',
+  encode,
+  decode,
+}) as ((
+  client: ClientWithEns,
+  params: GetCommitmentParameters,
+) => Promise<GetCommitmentReturnType>) &
+  BatchableFunctionObject
+
+export default getCommitment
@@ -1,6 +1,7 @@
 import type { BaseError, Hex } from 'viem'
 import type { ClientWithEns } from '../../contracts/consts.js'
 import type {
+  BlockParameters,
   GenericPassthrough,
   Prettify,
   TransactionRequestWithPassthrough,
@@ -16,10 +17,11 @@ import _getContentHash, {
 import universalWrapper from './universalWrapper.js'
 
 export type GetContentHashRecordParameters = Prettify<
-  InternalGetContentHashParameters & {
-    /** Batch gateway URLs to use for resolving CCIP-read requests. */
-    gatewayUrls?: string[]
-  }
+  InternalGetContentHashParameters &
+    BlockParameters & {
+      /** Batch gateway URLs to use for resolving CCIP-read requests. */
+      gatewayUrls?: string[]
+    }
 >
 
 export type GetContentHashRecordReturnType =
@@ -75,7 +77,11 @@ type BatchableFunctionObject = GeneratedFunction<typeof encode, typeof decode>
  * const result = await getContentHashRecord(client, { name: 'ens.eth' })
  * // { protocolType: 'ipfs', decoded: 'k51qzi5uqu5djdczd6zw0grmo23j2vkj9uzvujencg15s5rlkq0ss4ivll8wqw' }
  */
-const getContentHashRecord = generateFunction({ encode, decode }) as ((
+const getContentHashRecord = generateFunction({
+  name: 'getContentHashRecord',
+  encode,
+  decode,
+}) as ((
   client: ClientWithEns,
   { name, strict, gatewayUrls }: GetContentHashRecordParameters,
 ) => Promise<GetContentHashRecordReturnType>) &
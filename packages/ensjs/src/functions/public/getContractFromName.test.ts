@@ -0,0 +1,94 @@
+import { stringToHex, type Address, type Hex } from 'viem'
+import { afterEach, beforeAll, beforeEach, describe, expect, it } from 'vitest'
+import {
+  AbiUriNotFetchedError,
+  InvalidContractAbiError,
+  NameContractNotFoundError,
+} from '../../errors/public.js'
+import {
+  publicClient,
+  testClient,
+  waitForTransaction,
+  walletClient,
+} from '../../test/addTestContracts.js'
+import setAbiRecord from '../wallet/setAbiRecord.js'
+import getAddressRecord from './getAddressRecord.js'
+import getContractFromName from './getContractFromName.js'
+import getResolver from './getResolver.js'
+
+let snapshot: Hex
+let accounts: Address[]
+
+beforeAll(async () => {
+  accounts = await walletClient.getAddresses()
+})
+
+beforeEach(async () => {
+  snapshot = await testClient.snapshot()
+})
+
+afterEach(async () => {
+  await testClient.revert({ id: snapshot })
+})
+
+const fetchedAbi = [
+  {
+    type: 'function',
+    name: 'totalSupply',
+    stateMutability: 'view',
+    inputs: [],
+    outputs: [{ type: 'uint256' }],
+  },
+] as const
+
+describe('getContractFromName()', () => {
+  it('should return a contract instance for a name with an ABI record', async () => {
+    const address = await getAddressRecord(publicClient, {
+      name: 'with-type-1-abi.eth',
+    })
+    const contract = await getContractFromName(publicClient, {
+      name: 'with-type-1-abi.eth',
+    })
+    expect(contract.address).toBe(address!.value)
+    expect(contract.abi).toHaveLength(2)
+  })
+  it('should throw an error for a URI ABI record without an abiFetcher', async () => {
+    await expect(
+      getContractFromName(publicClient, { name: 'with-type-8-abi.eth' }),
+    ).rejects.toThrow(AbiUriNotFetchedError)
+  })
+  it('should use abiFetcher for a URI ABI record', async () => {
+    const contract = await getContractFromName<typeof fetchedAbi>(
+      publicClient,
+      {
+        name: 'with-type-8-abi.eth',
+        abiFetcher: async (uri) => {
+          expect(uri).toBe('https://example.com')
+          return fetchedAbi
+        },
+      },
+    )
+    expect(contract.abi).toEqual(fetchedAbi)
+    expect(contract.read.totalSupply).toBeTypeOf('function')
+  })
+  it('should throw an error for a malformed ABI record', async () => {
+    const tx = await setAbiRecord(walletClient, {
+      name: 'with-type-1-abi.eth',
+      encodedAbi: { contentType: 1, encodedData: stringToHex('{"malformed"') },
+      resolverAddress: (await getResolver(publicClient, {
+        name: 'with-type-1-abi.eth',
+      }))!,
+      account: accounts[1],
+    })
+    await waitForTransaction(tx)
+
+    await expect(
+      getContractFromName(publicClient, { name: 'with-type-1-abi.eth' }),
+    ).rejects.toThrow(InvalidContractAbiError)
+  })
+  it('should throw an error for a name without an ABI record', async () => {
+    await expect(
+      getContractFromName(publicClient, { name: 'test123.eth' }),
+    ).rejects.toThrow(NameContractNotFoundError)
+  })
+})
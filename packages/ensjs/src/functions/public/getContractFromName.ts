@@ -0,0 +1,151 @@
+import {
+  getContract,
+  type Abi,
+  type Address,
+  type GetContractReturnType,
+} from 'viem'
+import type { ClientWithEns } from '../../contracts/consts.js'
+import {
+  AbiUriNotFetchedError,
+  InvalidContractAbiError,
+  NameContractNotFoundError,
+  RecordResolutionError,
+} from '../../errors/public.js'
+import type { BlockParameters } from '../../types.js'
+import getRecords from './getRecords.js'
+
+export type GetContractFromNameParameters = BlockParameters & {
+  /** Name to get contract for */
+  name: string
+  /** Function to fetch the ABI for URI type ABI records */
+  abiFetcher?: (uri: string) => Promise<unknown>
+  /** Batch gateway URLs to use for resolving CCIP-read requests. */
+  gatewayUrls?: string[]
+}
+
+export type GetContractFromNameReturnType<TAbi extends Abi = Abi> =
+  GetContractReturnType<TAbi, ClientWithEns, Address>
+
+const abiItemTypes = [
+  'function',
+  'event',
+  'error',
+  'constructor',
+  'fallback',
+  'receive',
+]
+
+const validateAbi = (name: string, abi: unknown): Abi => {
+  if (!Array.isArray(abi))
+    throw new InvalidContractAbiError({
+      name,
+      details: 'ABI must be an array',
+    })
+  const invalidIndex = abi.findIndex(
+    (item) =>
+      !item ||
+      typeof item !== 'object' ||
+      !abiItemTypes.includes((item as { type?: unknown }).type as string),
+  )
+  if (invalidIndex !== -1)
+    throw new InvalidContractAbiError({
+      name,
+      details: `ABI item at index ${invalidIndex} is not a valid ABI item`,
+    })
+  return abi as Abi
+}
+
+const fetchAbi = async (
+  uri: string,
+  abiFetcher: GetContractFromNameParameters['abiFetcher'],
+) => {
+  if (!abiFetcher) throw new AbiUriNotFetchedError({ uri })
+  try {
+    return await abiFetcher(uri)
+  } catch (error) {
+    throw new AbiUriNotFetchedError({ uri, cause: error as Error })
+  }
+}
+
+/**
+ * Gets a contract instance for a name, using its ETH address and ABI records
+ * @param client - {@link ClientWithEns}
+ * @param parameters - {@link GetContractFromNameParameters}
+ * @returns Contract instance. {@link GetContractFromNameReturnType}
+ *
+ * @example
+ * import { createPublicClient, http } from 'viem'
+ * import { mainnet } from 'viem/chains'
+ * import { addEnsContracts } from '@ensdomains/ensjs'
+ * import { getContractFromName } from '@ensdomains/ensjs/public'
+ *
+ * const client = createPublicClient({
+ *   chain: addEnsContracts(mainnet),
+ *   transport: http(),
+ * })
+ * const contract = await getContractFromName(client, { name: 'contract.eth' })
+ * const result = await contract.read.totalSupply()
+ */
+const getContractFromName = async <TAbi extends Abi = Abi>(
+  client: ClientWithEns,
+  {
+    name,
+    abiFetcher,
+    gatewayUrls,
+    blockNumber,
+    blockTag,
+  }: GetContractFromNameParameters,
+): Promise<GetContractFromNameReturnType<TAbi>> => {
+  // address and ABI are resolved in a single call, with details so that ABI decoding errors are surfaced
+  const {
+    coins,
+    abi: abiRecord,
+    details,
+  } = await getRecords(client, {
+    name,
+    coins: [60],
+    abi: true,
+    gatewayUrls,
+    blockNumber,
+    blockTag,
+    detailed: true,
+  })
+
+  const address = coins[0]?.value as Address | undefined
+  if (!address)
+    throw new NameContractNotFoundError({
+      name,
+      details: 'Name has no ETH address record',
+    })
+  const abiError = details.find(({ type }) => type === 'abi')?.error
+  if (abiError && !(abiError instanceof RecordResolutionError))
+    throw new InvalidContractAbiError({
+      name,
+      details: `ABI record could not be decoded: ${abiError.message}`,
+    })
+  if (!abiRecord)
+    throw new NameContractNotFoundError({
+      name,
+      details: 'Name has no ABI record',
+    })
+  if (!abiRecord.decoded)
+    throw new InvalidContractAbiError({
+      name,
+      details: `ABI record content type ${abiRecord.contentType} could not be decoded`,
+    })
+
+  const abi = validateAbi(
+    name,
+    abiRecord.contentType === 8
+      ? await fetchAbi(abiRecord.abi as string, abiFetcher)
+      : abiRecord.abi,
+  )
+
+  return getContract({
+    address,
+    abi: abi as TAbi,
+    client,
+  })
+}
+
+export default getContractFromName
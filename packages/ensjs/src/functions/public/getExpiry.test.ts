@@ -46,4 +46,59 @@ describe('getExpiry', () => {
       expect(true).toBeTruthy()
     }
   })
+  it('should not return the effective expiry by default', async () => {
+    const result = await getExpiry(publicClient, { name: 'wrapped.eth' })
+    expect(result).not.toHaveProperty('effective')
+  })
+  it('should get the effective expiry for a wrapped eth 2ld', async () => {
+    const result = await getExpiry(publicClient, {
+      name: 'wrapped.eth',
+      effective: true,
+    })
+    expect(result).toBeTruthy()
+    if (result) {
+      const { expiry, gracePeriod, effective } = result
+      expect(effective.expiry.value).toBe(expiry.value + BigInt(gracePeriod))
+      expect(effective.boundedBy).toBe('wrapped.eth')
+      expect(effective.status).toBe('active')
+      expect(effective.parentCannotControl).toBe(true)
+      expect(effective.canOwnerExtend).toBe(true)
+    }
+  })
+  it('should get the effective expiry bounded by the parent for a wrapped subname', async () => {
+    const parentResult = await getExpiry(publicClient, {
+      name: 'wrapped-with-expiring-subnames.eth',
+      contract: 'nameWrapper',
+    })
+    const result = await getExpiry(publicClient, {
+      name: 'pcc.wrapped-with-expiring-subnames.eth',
+      effective: true,
+    })
+    expect(result).toBeTruthy()
+    if (result) {
+      const { effective } = result
+      expect(effective.expiry.value).toBe(parentResult!.expiry.value)
+      expect(effective.boundedBy).toBe('wrapped-with-expiring-subnames.eth')
+      expect(effective.status).toBe('active')
+      expect(effective.parentCannotControl).toBe(true)
+      expect(effective.canOwnerExtend).toBe(false)
+    }
+  })
+  it('should get the effective expiry for an expired wrapped subname', async () => {
+    const result = await getExpiry(publicClient, {
+      name: 'test.wrapped-with-expiring-subnames.eth',
+      effective: true,
+    })
+    expect(result).toBeTruthy()
+    if (result) {
+      const { expiry, effective } = result
+      expect(effective.expiry.value).toBe(expiry.value)
+      expect(effective.boundedBy).toBe(
+        'test.wrapped-with-expiring-subnames.eth',
+      )
+      expect(effective.status).toBe('expired')
+      expect(effective.parentCannotControl).toBe(false)
+      expect(effective.canOwnerExtend).toBe(false)
+    }
+  })
 })
@@ -14,6 +14,7 @@ import { getChainContractAddress } from '../../contracts/getChainContractAddress
 import { multicallGetCurrentBlockTimestampSnippet } from '../../contracts/multicall.js'
 import { nameWrapperGetDataSnippet } from '../../contracts/nameWrapper.js'
 import type {
+  BlockParameters,
   DateWithValue,
   Prettify,
   SimpleTransactionRequest,
@@ -22,6 +23,8 @@ import {
   generateFunction,
   type GeneratedFunction,
 } from '../../utils/generateFunction.js'
+import { EMPTY_ADDRESS } from '../../utils/consts.js'
+import { ParentFuses } from '../../utils/fuses.js'
 import { makeSafeSecondsDate } from '../../utils/makeSafeSecondsDate.js'
 import { namehash } from '../../utils/normalise.js'
 import { checkIsDotEth } from '../../utils/validation.js'
@@ -30,21 +33,50 @@ import multicallWrapper from './multicallWrapper.js'
 type ContractOption = 'registrar' | 'nameWrapper'
 type ExpiryStatus = 'active' | 'expired' | 'gracePeriod'
 
-export type GetExpiryParameters = Prettify<{
-  /** Name to get expiry for */
-  name: string
-  /** Optional specific contract to use to get expiry */
-  contract?: ContractOption
-}>
+export type GetExpiryParameters<
+  TEffective extends boolean | undefined = boolean | undefined,
+> = Prettify<
+  BlockParameters & {
+    /** Name to get expiry for */
+    name: string
+    /** Optional specific contract to use to get expiry */
+    contract?: ContractOption
+    /** Whether to also get the effective expiry, as bounded by the NameWrapper expiry of the name's ancestors */
+    effective?: TEffective
+  }
+>
 
-export type GetExpiryReturnType = Prettify<{
-  /** Expiry value */
+export type EffectiveExpiry = {
+  /** Effective NameWrapper expiry value, including the grace period for eth 2ld names */
   expiry: DateWithValue<bigint>
-  /** Grace period value (in seconds) */
-  gracePeriod: number
-  /** Status of name */
-  status: ExpiryStatus
-} | null>
+  /** Name that bounds the effective expiry, either the name itself or one of its ancestors */
+  boundedBy: string
+  /** Status of the effective expiry */
+  status: Exclude<ExpiryStatus, 'gracePeriod'>
+  /** Whether PARENT_CANNOT_CONTROL is burned, names without it keep their owner after expiry */
+  parentCannotControl: boolean
+  /** Whether the owner of the name can extend the expiry themselves, up to the expiry of its parent */
+  canOwnerExtend: boolean
+}
+
+type WithEffectiveResult = {
+  /** Effective expiry data */
+  effective: EffectiveExpiry
+}
+
+export type GetExpiryReturnType<
+  TEffective extends boolean | undefined = undefined,
+> = Prettify<
+  | ({
+      /** Expiry value */
+      expiry: DateWithValue<bigint>
+      /** Grace period value (in seconds) */
+      gracePeriod: number
+      /** Status of name */
+      status: ExpiryStatus
+    } & (TEffective extends true ? WithEffectiveResult : {}))
+  | null
+>
 
 const getContractToUse = (
   contract: ContractOption | undefined,
@@ -57,9 +89,13 @@ const getContractToUse = (
   return 'nameWrapper'
 }
 
+// the name itself and all its ancestors, excluding the tld
+const getExpiryAncestors = (labels: string[]) =>
+  labels.slice(0, -1).map((_, i) => labels.slice(i).join('.'))
+
 const encode = (
   client: ClientWithEns,
-  { name, contract }: GetExpiryParameters,
+  { name, contract, effective }: GetExpiryParameters,
 ): SimpleTransactionRequest => {
   const labels = name.split('.')
 
@@ -106,14 +142,129 @@ const encode = (
     })
   }
 
+  if (effective) {
+    const nameWrapperAddress = getChainContractAddress({
+      client,
+      contract: 'ensNameWrapper',
+    })
+    for (const ancestor of getExpiryAncestors(labels))
+      calls.push({
+        to: nameWrapperAddress,
+        data: encodeFunctionData({
+          abi: nameWrapperGetDataSnippet,
+          functionName: 'getData',
+          args: [BigInt(namehash(ancestor))],
+        }),
+      })
+    // an eth 2ld's NameWrapper expiry is always its registrar expiry plus the grace period
+    if (labels[labels.length - 1] === 'eth' && labels.length > 1) {
+      const baseRegistrarImplementationAddress = getChainContractAddress({
+        client,
+        contract: 'ensBaseRegistrarImplementation',
+      })
+      calls.push({
+        to: baseRegistrarImplementationAddress,
+        data: encodeFunctionData({
+          abi: baseRegistrarNameExpiresSnippet,
+          functionName: 'nameExpires',
+          args: [BigInt(labelhash(labels[labels.length - 2]))],
+        }),
+      })
+      calls.push({
+        to: baseRegistrarImplementationAddress,
+        data: encodeFunctionData({
+          abi: baseRegistrarGracePeriodSnippet,
+          functionName: 'GRACE_PERIOD',
+        }),
+      })
+    }
+  }
+
   return multicallWrapper.encode(client, { transactions: calls })
 }
 
-const decode = async (
+const getEffectiveExpiry = ({
+  labels,
+  blockTimestamp,
+  results,
+}: {
+  labels: string[]
+  blockTimestamp: bigint
+  results: Hex[]
+}): EffectiveExpiry => {
+  const ancestors = getExpiryAncestors(labels)
+  const wrapperData = ancestors.map((_, i) =>
+    decodeFunctionResult({
+      abi: nameWrapperGetDataSnippet,
+      functionName: 'getData',
+      data: results[i],
+    }),
+  )
+  const isDotEth = labels[labels.length - 1] === 'eth'
+  if (isDotEth) {
+    const registrarExpiry = decodeFunctionResult({
+      abi: baseRegistrarNameExpiresSnippet,
+      functionName: 'nameExpires',
+      data: results[ancestors.length],
+    })
+    const gracePeriod = decodeFunctionResult({
+      abi: baseRegistrarGracePeriodSnippet,
+      functionName: 'GRACE_PERIOD',
+      data: results[ancestors.length + 1],
+    })
+    const [owner, fuses] = wrapperData[ancestors.length - 1]
+    wrapperData[ancestors.length - 1] = [
+      owner,
+      fuses,
+      registrarExpiry + gracePeriod,
+    ]
+  }
+
+  let expiry = wrapperData[0][2]
+  let boundedBy = ancestors[0]
+  for (let i = 1; i < ancestors.length; i += 1) {
+    const [ancestorOwner, , ancestorExpiry] = wrapperData[i]
+    // unwrapped ancestors don't bound the expiry, apart from the eth 2ld
+    const isWrapped =
+      ancestorOwner !== EMPTY_ADDRESS ||
+      ancestorExpiry !== 0n ||
+      (isDotEth && i === ancestors.length - 1)
+    // ancestors take precedence when equal, since child expiries are capped at their parent's
+    if (isWrapped && ancestorExpiry <= expiry) {
+      expiry = ancestorExpiry
+      boundedBy = ancestors[i]
+    }
+  }
+
+  const [owner, fuses, ownExpiry] = wrapperData[0]
+  const isEth2ld = isDotEth && labels.length === 2
+  const status = blockTimestamp > expiry ? 'expired' : 'active'
+  // fuses are cleared once a name has expired, but the owner is only cleared if PARENT_CANNOT_CONTROL was burned
+  const parentCannotControl =
+    isEth2ld ||
+    !!(BigInt(fuses) & ParentFuses.PARENT_CANNOT_CONTROL) ||
+    (owner === EMPTY_ADDRESS && ownExpiry !== 0n && blockTimestamp > ownExpiry)
+  const canOwnerExtend =
+    isEth2ld ||
+    (status === 'active' && !!(BigInt(fuses) & ParentFuses.CAN_EXTEND_EXPIRY))
+
+  return {
+    expiry: {
+      date: makeSafeSecondsDate(expiry),
+      value: expiry,
+    },
+    boundedBy,
+    status,
+    parentCannotControl,
+    canOwnerExtend,
+  }
+}
+
+const decode = async <TEffective extends boolean | undefined = undefined>(
   client: ClientWithEns,
   data: Hex | BaseError,
-  { name, contract }: GetExpiryParameters,
-): Promise<GetExpiryReturnType> => {
+  { name, contract, effective }: GetExpiryParameters<TEffective>,
+): Promise<GetExpiryReturnType<TEffective>> => {
   if (typeof data === 'object') throw data
   const labels = name.split('.')
   const result = await multicallWrapper.decode(client, data, [])
@@ -167,10 +318,24 @@ const decode = async (
     },
     gracePeriod: Number(gracePeriod),
     status,
-  }
+    ...(effective
+      ? {
+          effective: getEffectiveExpiry({
+            labels,
+            blockTimestamp,
+            results: result
+              .slice(contractToUse === 'nameWrapper' ? 2 : 3)
+              .map(({ returnData }) => returnData),
+          }),
+        }
+      : {}),
+  } as GetExpiryReturnType<TEffective>
 }
 
-type BatchableFunctionObject = GeneratedFunction<typeof encode, typeof decode>
+type BatchableFunctionObject = GeneratedFunction<
+  typeof encode,
+  typeof decode<any>
+>
 
 /**
  * Gets the expiry for a name
@@ -191,10 +356,12 @@ type BatchableFunctionObject = GeneratedFunction<typeof encode, typeof decode>
  * const result = await getExpiry(client, { name: 'ens.eth' })
  * // { expiry: { date: Date, value: 1913933217n }, gracePeriod: 7776000, status: 'active' }
  */
-const getExpiry = generateFunction({ encode, decode }) as ((
+const getExpiry = generateFunction({ name: 'getExpiry', encode, decode }) as (<
+  TEffective extends boolean | undefined = undefined,
+>(
   client: ClientWithEns,
-  { name, contract }: GetExpiryParameters,
-) => Promise<GetExpiryReturnType>) &
+  { name, contract, effective }: GetExpiryParameters<TEffective>,
+) => Promise<GetExpiryReturnType<TEffective>>) &
   BatchableFunctionObject
 
 export default getExpiry
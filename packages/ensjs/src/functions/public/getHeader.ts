@@ -0,0 +1,38 @@
+import type { ClientWithEns } from '../../contracts/consts.js'
+import type { Prettify } from '../../types.js'
+import _getImage, {
+  type InternalGetImageParameters,
+  type InternalGetImageReturnType,
+} from './_getImage.js'
+
+export type GetHeaderParameters = Prettify<InternalGetImageParameters>
+
+export type GetHeaderReturnType = InternalGetImageReturnType
+
+/**
+ * Gets the resolved header image URI for a name, as specified by ENSIP-12.
+ * NFT headers are verified to be owned by the name's ETH address.
+ * @param client - {@link ClientWithEns}
+ * @param parameters - {@link GetHeaderParameters}
+ * @returns Fetchable image URI, or `null` if not found or invalid. {@link GetHeaderReturnType}
+ *
+ * @example
+ * import { createPublicClient, http } from 'viem'
+ * import { mainnet } from 'viem/chains'
+ * import { addEnsContracts } from '@ensdomains/ensjs'
+ * import { getHeader } from '@ensdomains/ensjs/public'
+ *
+ * const client = createPublicClient({
+ *   chain: addEnsContracts(mainnet),
+ *   transport: http(),
+ * })
+ * const result = await getHeader(client, { name: 'ens.eth' })
+ * // https://ipfs.io/ipfs/...
+ */
+const getHeader = (
+  client: ClientWithEns,
+  parameters: GetHeaderParameters,
+): Promise<GetHeaderReturnType> =>
+  _getImage(client, { ...parameters, key: 'header' })
+
+export default getHeader
@@ -0,0 +1,24 @@
+import { getAddress } from 'viem'
+import { describe, expect, it } from 'vitest'
+import {
+  deploymentAddresses,
+  publicClient,
+} from '../../test/addTestContracts.js'
+import getInterfaceImplementer from './getInterfaceImplementer.js'
+
+describe('getInterfaceImplementer', () => {
+  it('should return the implementer for an interface', async () => {
+    const result = await getInterfaceImplementer(publicClient, {
+      name: 'eth',
+      interfaceId: '0x612e8c09',
+    })
+    expect(result).toBe(getAddress(deploymentAddresses.ETHRegistrarController))
+  })
+  it('should return null for a name with no implementer', async () => {
+    const result = await getInterfaceImplementer(publicClient, {
+      name: 'with-profile.eth',
+      interfaceId: '0x612e8c09',
+    })
+    expect(result).toBeNull()
+  })
+})
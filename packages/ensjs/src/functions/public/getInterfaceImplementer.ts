@@ -0,0 +1,97 @@
+import type { BaseError, Hex } from 'viem'
+import type { ClientWithEns } from '../../contracts/consts.js'
+import type {
+  BlockParameters,
+  GenericPassthrough,
+  Prettify,
+  TransactionRequestWithPassthrough,
+} from '../../types.js'
+import {
+  generateFunction,
+  type GeneratedFunction,
+} from '../../utils/generateFunction.js'
+import _getInterfaceImplementer, {
+  type InternalGetInterfaceImplementerParameters,
+  type InternalGetInterfaceImplementerReturnType,
+} from './_getInterfaceImplementer.js'
+import universalWrapper from './universalWrapper.js'
+
+export type GetInterfaceImplementerParameters = Prettify<
+  InternalGetInterfaceImplementerParameters &
+    BlockParameters & {
+      /** Batch gateway URLs to use for resolving CCIP-read requests. */
+      gatewayUrls?: string[]
+    }
+>
+
+export type GetInterfaceImplementerReturnType =
+  Prettify<InternalGetInterfaceImplementerReturnType>
+
+const encode = (
+  client: ClientWithEns,
+  {
+    name,
+    interfaceId,
+    gatewayUrls,
+  }: Omit<GetInterfaceImplementerParameters, 'strict'>,
+): TransactionRequestWithPassthrough => {
+  const prData = _getInterfaceImplementer.encode(client, { name, interfaceId })
+  return universalWrapper.encode(client, {
+    name,
+    data: prData.data,
+    gatewayUrls,
+  })
+}
+
+const decode = async (
+  client: ClientWithEns,
+  data: Hex | BaseError,
+  passthrough: GenericPassthrough,
+  {
+    strict,
+    gatewayUrls,
+  }: Pick<GetInterfaceImplementerParameters, 'strict' | 'gatewayUrls'>,
+): Promise<GetInterfaceImplementerReturnType> => {
+  const urData = await universalWrapper.decode(client, data, passthrough, {
+    strict,
+    gatewayUrls,
+  })
+  if (!urData) return null
+  return _getInterfaceImplementer.decode(client, urData.data, { strict })
+}
+
+type BatchableFunctionObject = GeneratedFunction<typeof encode, typeof decode>
+
+/**
+ * Gets the implementer address of an EIP-165 interface for a name
+ * @param client - {@link ClientWithEns}
+ * @param parameters - {@link GetInterfaceImplementerParameters}
+ * @returns Implementer address, or `null` if not found. {@link GetInterfaceImplementerReturnType}
+ *
+ * @example
+ * import { createPublicClient, http } from 'viem'
+ * import { mainnet } from 'viem/chains'
+ * import { addEnsContracts } from '@ensdomains/ensjs'
+ * import { getInterfaceImplementer } from '@ensdomains/ensjs/public'
+ *
+ * const client = createPublicClient({
+ *   chain: addEnsContracts(mainnet),
+ *   transport: http(),
+ * })
+ * const result = await getInterfaceImplementer(client, {
+ *   name: 'eth',
+ *   interfaceId: '0x612e8c09',
+ * })
+ * // 0x253553366Da8546fC250F225fe3d25d0C782303b
+ */
+const getInterfaceImplementer = generateFunction({
+  name: 'getInterfaceImplementer',
+  encode,
+  decode,
+}) as ((
+  client: ClientWithEns,
+  { name, interfaceId, strict, gatewayUrls }: GetInterfaceImplementerParameters,
+) => Promise<GetInterfaceImplementerReturnType>) &
+  BatchableFunctionObject
+
+export default getInterfaceImplementer
@@ -1,4 +1,4 @@
-import { RawContractError, type Address, type Hex } from 'viem'
+import { RawContractError, toHex, type Address, type Hex } from 'viem'
 import { afterEach, beforeAll, beforeEach, describe, expect, it } from 'vitest'
 import type { ClientWithEns } from '../../contracts/consts.js'
 import {
@@ -10,6 +10,7 @@ import {
 } from '../../test/addTestContracts.js'
 import createSubname from '../wallet/createSubname.js'
 import setAddressRecord from '../wallet/setAddressRecord.js'
+import { packetToBytes } from '../../utils/hexEncodedName.js'
 import setPrimaryName from '../wallet/setPrimaryName.js'
 import getName from './getName.js'
 
@@ -151,4 +152,28 @@ describe('getName', () => {
 
     expect(result).toBeNull()
   })
+  it('should use the coin type reverse namespace for other chains', () => {
+    const { passthrough } = getName.encode(publicClient, {
+      address: accounts[1],
+      coin: { chainId: 10 },
+    })
+    expect(passthrough.args[0]).toBe(
+      toHex(
+        packetToBytes(
+          `${accounts[1].toLowerCase().substring(2)}.8000000a.reverse`,
+        ),
+      ),
+    )
+  })
+  it('should throw for a non-EVM coin type', () => {
+    expect(() =>
+      getName.encode(publicClient, { address: accounts[1], coin: 0 }),
+    ).toThrowErrorMatchingInlineSnapshot(`
+      [UnsupportedReverseCoinTypeError: Primary names are not supported for coin type 0
+
+      Details: Only EVM coin types can be used for reverse resolution
+
+      Version: @ensdomains/ensjs@1.0.0-mock.0]
+    `)
+  })
 })
@@ -13,7 +13,10 @@ import {
   universalResolverReverseSnippet,
   universalResolverReverseWithGatewaysSnippet,
 } from '../../contracts/universalResolver.js'
+import { UnsupportedReverseCoinTypeError } from '../../errors/public.js'
 import type {
+  BlockParameters,
+  EvmChainInput,
   GenericPassthrough,
   TransactionRequestWithPassthrough,
 } from '../../types.js'
@@ -24,10 +27,17 @@ import {
 } from '../../utils/generateFunction.js'
 import { packetToBytes } from '../../utils/hexEncodedName.js'
 import { normalise } from '../../utils/normalise.js'
+import {
+  getChainIdFromCoinType,
+  getCoderFromCoin,
+} from '../../utils/normaliseCoinId.js'
+import getAddressRecord from './getAddressRecord.js'
 
-export type GetNameParameters = {
+export type GetNameParameters = BlockParameters & {
   /** Address to get name for */
   address: Address
+  /** EVM coin type or chain to get the primary name for, as specified by ENSIP-19 (default: `60`) */
+  coin?: number | EvmChainInput
   /** Whether or not to allow mismatched forward resolution */
   allowMismatch?: boolean
   /** Whether or not to throw decoding errors */
@@ -47,11 +57,27 @@ export type GetNameReturnType = {
   resolverAddress: Address
 }
 
+const getReverseCoinType = (coin: GetNameParameters['coin'] = 60) => {
+  const { coinType } = getCoderFromCoin(coin)
+  if (getChainIdFromCoinType(coinType) === undefined)
+    throw new UnsupportedReverseCoinTypeError({ coinType })
+  return coinType
+}
+
 const encode = (
   client: ClientWithEns,
-  { address, gatewayUrls }: Omit<GetNameParameters, 'allowMismatch' | 'strict'>,
+  {
+    address,
+    coin,
+    gatewayUrls,
+  }: Omit<GetNameParameters, 'allowMismatch' | 'strict'>,
 ): TransactionRequestWithPassthrough => {
-  const reverseNode = `${address.toLowerCase().substring(2)}.addr.reverse`
+  const coinType = getReverseCoinType(coin)
+  // mainnet uses the `addr.reverse` namespace, other chains use their hex coin type
+  const reverseNamespace = coinType === 60 ? 'addr' : coinType.toString(16)
+  const reverseNode = `${address
+    .toLowerCase()
+    .substring(2)}.${reverseNamespace}.reverse`
   const to = getChainContractAddress({
     client,
     contract: 'ensUniversalResolver',
@@ -60,7 +86,7 @@ const encode = (
 
   return {
     to,
-    ...(gatewayUrls?.length
+    ...(gatewayUrls
       ? {
           data: encodeFunctionData({
             abi: universalResolverReverseWithGatewaysSnippet,
@@ -87,10 +113,18 @@ const encode = (
 }
 
 const decode = async (
-  _client: ClientWithEns,
+  client: ClientWithEns,
   data: Hex | BaseError,
   passthrough: GenericPassthrough,
-  { address, allowMismatch, strict, gatewayUrls }: GetNameParameters,
+  {
+    address,
+    coin,
+    allowMismatch,
+    strict,
+    gatewayUrls,
+    blockNumber,
+    blockTag,
+  }: GetNameParameters,
 ): Promise<GetNameReturnType | null> => {
   const isSafe = checkSafeUniversalResolverData(data, {
     strict,
@@ -115,9 +149,24 @@ const decode = async (
       data,
     })
     if (!unnormalisedName) return null
-    const match = getAddress(forwardResolvedAddress) === getAddress(address)
-    if (!match && !allowMismatch) return null
     const normalisedName = normalise(unnormalisedName)
+    const coinType = getReverseCoinType(coin)
+    // the universal resolver only verifies the ETH address, so other coin types are verified separately
+    const forwardAddress =
+      coinType === 60
+        ? forwardResolvedAddress
+        : (
+            await getAddressRecord(client, {
+              name: normalisedName,
+              coin: coinType,
+              gatewayUrls,
+              blockNumber,
+              blockTag,
+            })
+          )?.value
+    const match =
+      !!forwardAddress && getAddress(forwardAddress) === getAddress(address)
+    if (!match && !allowMismatch) return null
     return {
       name: normalisedName,
       match,
@@ -150,10 +199,18 @@ type BatchableFunctionObject = GeneratedFunction<typeof encode, typeof decode>
  * })
  * const result = await getName(client, { address: '0xb8c2C29ee19D8307cb7255e1Cd9CbDE883A267d5' })
  * // { name: 'nick.eth', match: true, reverseResolverAddress: '0xa2c122be93b0074270ebee7f6b7292c7deb45047', resolverAddress: '0x4976fb03c32e5b8cfe2b6ccb31c09ba78ebaba41' }
+ *
+ * @example
+ * import { base } from 'viem/chains'
+ *
+ * const result = await getName(client, {
+ *   address: '0xb8c2C29ee19D8307cb7255e1Cd9CbDE883A267d5',
+ *   coin: base,
+ * })
  */
-const getName = generateFunction({ encode, decode }) as ((
+const getName = generateFunction({ name: 'getName', encode, decode }) as ((
   client: ClientWithEns,
-  { address, allowMismatch, strict }: GetNameParameters,
+  { address, coin, allowMismatch, strict, gatewayUrls }: GetNameParameters,
 ) => Promise<GetNameReturnType>) &
   BatchableFunctionObject
 
@@ -0,0 +1,95 @@
+import type { Address } from 'viem'
+import { beforeAll, describe, expect, it } from 'vitest'
+import { publicClient, walletClient } from '../../test/addTestContracts.js'
+import getNamePermissions from './getNamePermissions.js'
+
+let accounts: Address[]
+
+beforeAll(async () => {
+  accounts = await walletClient.getAddresses()
+})
+
+describe('getNamePermissions()', () => {
+  it('should allow the owner of an unwrapped name', async () => {
+    const result = await getNamePermissions(publicClient, {
+      name: 'test123.eth',
+      account: accounts[1],
+    })
+    expect(result).toMatchObject({
+      ownershipLevel: 'registrar',
+      isOwner: true,
+      isRegistrant: true,
+      isParentOwner: false,
+    })
+    expect(result.permissions.setResolver.allowed).toBe(true)
+    expect(result.permissions.transferName.allowed).toBe(true)
+    expect(result.permissions.createSubname.allowed).toBe(true)
+    expect(result.permissions.wrapName.allowed).toBe(true)
+    expect(result.permissions.unwrapName).toEqual({
+      allowed: false,
+      reasons: ['Name is not wrapped'],
+    })
+    expect(result.permissions.deleteSubname).toMatchObject({
+      allowed: false,
+      reasons: expect.arrayContaining(['Name is not a subname']),
+    })
+  })
+  it('should deny an account that does not own the name', async () => {
+    const result = await getNamePermissions(publicClient, {
+      name: 'test123.eth',
+      account: accounts[2],
+    })
+    expect(result.isOwner).toBe(false)
+    expect(result.permissions.setResolver).toEqual({
+      allowed: false,
+      reasons: ['Account is not the owner or an approved operator of the name'],
+    })
+  })
+  it('should allow the owner of a wrapped name', async () => {
+    const result = await getNamePermissions(publicClient, {
+      name: 'wrapped.eth',
+      account: accounts[1],
+    })
+    expect(result).toMatchObject({
+      ownershipLevel: 'nameWrapper',
+      isOwner: true,
+    })
+    expect(result.permissions.setResolver.allowed).toBe(true)
+    expect(result.permissions.unwrapName.allowed).toBe(true)
+    expect(result.permissions.setFuses.allowed).toBe(true)
+    expect(result.permissions.wrapName).toMatchObject({
+      allowed: false,
+      reasons: ['Name is already wrapped'],
+    })
+    expect(result.permissions.setChildFuses).toMatchObject({
+      allowed: false,
+      reasons: expect.arrayContaining(['Parent name is not wrapped']),
+    })
+  })
+  it('should allow the parent owner of a wrapped subname', async () => {
+    const result = await getNamePermissions(publicClient, {
+      name: 'test.wrapped-with-subnames.eth',
+      account: accounts[1],
+    })
+    expect(result).toMatchObject({
+      ownershipLevel: 'nameWrapper',
+      isOwner: false,
+      isParentOwner: true,
+    })
+    expect(result.permissions.transferName.allowed).toBe(true)
+    expect(result.permissions.deleteSubname.allowed).toBe(true)
+    expect(result.permissions.setChildFuses.allowed).toBe(true)
+    expect(result.permissions.setResolver.allowed).toBe(false)
+  })
+  it('should deny the parent owner when PARENT_CANNOT_CONTROL is burned', async () => {
+    const result = await getNamePermissions(publicClient, {
+      name: 'pcc.wrapped-with-expiring-subnames.eth',
+      account: accounts[1],
+    })
+    expect(result.isParentOwner).toBe(true)
+    expect(result.permissions.setChildFuses).toEqual({
+      allowed: false,
+      reasons: ['PARENT_CANNOT_CONTROL fuse has been burned'],
+    })
+  })
+})
@@ -0,0 +1,387 @@
+import {
+  decodeFunctionResult,
+  encodeFunctionData,
+  isAddressEqual,
+  labelhash,
+  type Address,
+  type Hex,
+} from 'viem'
+import {
+  baseRegistrarGetApprovedSnippet,
+  baseRegistrarIsApprovedForAllSnippet,
+} from '../../contracts/baseRegistrar.js'
+import type { ClientWithEns } from '../../contracts/consts.js'
+import { getChainContractAddress } from '../../contracts/getChainContractAddress.js'
+import { nameWrapperIsApprovedForAllSnippet } from '../../contracts/nameWrapper.js'
+import { registryIsApprovedForAllSnippet } from '../../contracts/registry.js'
+import type { BlockParameters, Prettify } from '../../types.js'
+import { EMPTY_ADDRESS } from '../../utils/consts.js'
+import type { ChildFuses } from '../../utils/fuses.js'
+import { getNameType } from '../../utils/getNameType.js'
+import batch from './batch.js'
+import getExpiry, { type GetExpiryReturnType } from './getExpiry.js'
+import getOwner, { type GetOwnerReturnType } from './getOwner.js'
+import getWrapperData, {
+  type GetWrapperDataReturnType,
+} from './getWrapperData.js'
+import multicallWrapper from './multicallWrapper.js'
+
+export type GetNamePermissionsParameters = Prettify<
+  BlockParameters & {
+    /** Name to get permissions for */
+    name: string
+    /** Account to get permissions for */
+    account: Address
+  }
+>
+
+export type NamePermission = {
+  /** Whether the account can perform the operation */
+  allowed: boolean
+  /** Reasons the operation is not allowed, empty if allowed */
+  reasons: string[]
+}
+
+export type NamePermissionOperation =
+  | 'setResolver'
+  | 'transferName'
+  | 'createSubname'
+  | 'deleteSubname'
+  | 'wrapName'
+  | 'unwrapName'
+  | 'setFuses'
+  | 'setChildFuses'
+
+export type GetNamePermissionsReturnType = {
+  /** Ownership level of the name, or `null` if the name has no owner */
+  ownershipLevel: 'registry' | 'registrar' | 'nameWrapper' | null
+  /** Whether the account is the owner of the name, or an approved operator of the owner */
+  isOwner: boolean
+  /** Whether the account is the registrant of the name, or approved by the registrant (eth 2ld only) */
+  isRegistrant: boolean
+  /** Whether the account is the owner of the parent name, or an approved operator of the parent owner */
+  isParentOwner: boolean
+  /** Permission for each operation, by wallet function name */
+  permissions: Record<NamePermissionOperation, NamePermission>
+}
+
+type ApprovalCheck = {
+  to: Address
+  data: Hex
+  check: (data: Hex) => boolean
+}
+
+type Requirement = [requirement: boolean, reason: string]
+
+const checkPermission = (requirements: Requirement[]): NamePermission => {
+  const reasons = requirements
+    .filter(([requirement]) => !requirement)
+    .map(([, reason]) => reason)
+  return { allowed: reasons.length === 0, reasons }
+}
+
+// an operation that can be done either as the owner or as the parent owner
+const eitherPermission = (
+  ownerPermission: NamePermission,
+  parentPermission: NamePermission,
+): NamePermission => {
+  if (ownerPermission.allowed) return ownerPermission
+  if (parentPermission.allowed) return parentPermission
+  return {
+    allowed: false,
+    reasons: [
+      ...new Set([...ownerPermission.reasons, ...parentPermission.reasons]),
+    ],
+  }
+}
+
+const getControllerAddress = (ownership: GetOwnerReturnType | null) => {
+  if (!ownership?.owner || ownership.owner === EMPTY_ADDRESS) return null
+  return ownership.owner
+}
+
+/**
+ * Gets the operations an account is allowed to perform on a name, based on ownership, fuses, expiry, and approvals
+ * @param client - {@link ClientWithEns}
+ * @param parameters - {@link GetNamePermissionsParameters}
+ * @returns Permissions object. {@link GetNamePermissionsReturnType}
+ *
+ * @example
+ * import { createPublicClient, http } from 'viem'
+ * import { mainnet } from 'viem/chains'
+ * import { addEnsContracts } from '@ensdomains/ensjs'
+ * import { getNamePermissions } from '@ensdomains/ensjs/public'
+ *
+ * const client = createPublicClient({
+ *   chain: addEnsContracts(mainnet),
+ *   transport: http(),
+ * })
+ * const result = await getNamePermissions(client, {
+ *   name: 'ens.eth',
+ *   account: '0xb8c2C29ee19D8307cb7255e1Cd9CbDE883A267d5',
+ * })
+ * // { ownershipLevel: 'registrar', isOwner: false, isRegistrant: false, isParentOwner: false, permissions: { setResolver: { allowed: false, reasons: ['Account is not the owner or an approved operator of the name'] }, ... } }
+ */
+const getNamePermissions = async (
+  client: ClientWithEns,
+  { name, account, blockNumber, blockTag }: GetNamePermissionsParameters,
+): Promise<GetNamePermissionsReturnType> => {
+  const labels = name.split('.')
+  const nameType = getNameType(name)
+  const isEth2ld = nameType === 'eth-2ld'
+  const isSubname = labels.length > 1 && !isEth2ld
+  const parentName = labels.length > 1 ? labels.slice(1).join('.') : null
+
+  const result = await batch(
+    client,
+    { blockNumber, blockTag },
+    getOwner.batch({ name }),
+    getWrapperData.batch({ name }),
+    getExpiry.batch({ name }),
+    ...(parentName
+      ? [
+          getOwner.batch({ name: parentName }),
+          getWrapperData.batch({ name: parentName }),
+        ]
+      : []),
+  )
+  const [ownership, wrapperData, expiry, parentOwnership, parentWrapperData] =
+    result as [
+      GetOwnerReturnType,
+      GetWrapperDataReturnType,
+      GetExpiryReturnType,
+      GetOwnerReturnType?,
+      GetWrapperDataReturnType?,
+    ]
+
+  const isWrapped = ownership?.ownershipLevel === 'nameWrapper' && !!wrapperData
+  const isParentWrapped =
+    parentOwnership?.ownershipLevel === 'nameWrapper' && !!parentWrapperData
+  const controller = getControllerAddress(ownership)
+  const registrant = ownership?.registrant ?? null
+  const parentController = getControllerAddress(parentOwnership ?? null)
+
+  const registryAddress = getChainContractAddress({
+    client,
+    contract: 'ensRegistry',
+  })
+  const nameWrapperAddress = getChainContractAddress({
+    client,
+    contract: 'ensNameWrapper',
+  })
+  const baseRegistrarAddress = getChainContractAddress({
+    client,
+    contract: 'ensBaseRegistrarImplementation',
+  })
+
+  const decodeBool = (data: Hex) =>
+    decodeFunctionResult({
+      abi: registryIsApprovedForAllSnippet,
+      functionName: 'isApprovedForAll',
+      data,
+    })
+  const getOperatorCheck = (
+    contract: 'registry' | 'nameWrapper' | 'registrar',
+    owner: Address,
+  ): ApprovalCheck => {
+    const abi = {
+      registry: registryIsApprovedForAllSnippet,
+      nameWrapper: nameWrapperIsApprovedForAllSnippet,
+      registrar: baseRegistrarIsApprovedForAllSnippet,
+    }[contract]
+    return {
+      to: {
+        registry: registryAddress,
+        nameWrapper: nameWrapperAddress,
+        registrar: baseRegistrarAddress,
+      }[contract],
+      data: encodeFunctionData({
+        abi,
+        functionName: 'isApprovedForAll',
+        args: [owner, account],
+      }),
+      check: decodeBool,
+    }
+  }
+
+  const ownerChecks: ApprovalCheck[] = []
+  const registrantChecks: ApprovalCheck[] = []
+  const parentChecks: ApprovalCheck[] = []
+  if (controller && !isAddressEqual(controller, account))
+    ownerChecks.push(
+      getOperatorCheck(isWrapped ? 'nameWrapper' : 'registry', controller),
+    )
+  if (registrant && !isAddressEqual(registrant, account)) {
+    registrantChecks.push(getOperatorCheck('registrar', registrant))
+    registrantChecks.push({
+      to: baseRegistrarAddress,
+      data: encodeFunctionData({
+        abi: baseRegistrarGetApprovedSnippet,
+        functionName: 'getApproved',
+        args: [BigInt(labelhash(labels[0]))],
+      }),
+      check: (data) =>
+        isAddressEqual(
+          decodeFunctionResult({
+            abi: baseRegistrarGetApprovedSnippet,
+            functionName: 'getApproved',
+            data,
+          }),
+          account,
+        ),
+    })
+  }
+  if (parentController && !isAddressEqual(parentController, account))
+    parentChecks.push(
+      getOperatorCheck(
+        isParentWrapped ? 'nameWrapper' : 'registry',
+        parentController,
+      ),
+    )
+
+  const checks = [...ownerChecks, ...registrantChecks, ...parentChecks]
+  // approvals are keyed by the owners, so are read after them, at the same block
+  const checkResults =
+    checks.length > 0
+      ? await multicallWrapper(client, {
+          transactions: checks.map(({ to, data }) => ({ to, data })),
+          blockNumber: result.blockNumber,
+        })
+      : null
+  // missing results are treated the same as failed checks
+  const isApproved = (check: ApprovalCheck) => {
+    const checkResult = checkResults?.[checks.indexOf(check)]
+    return (
+      !!checkResult?.success &&
+      checkResult.returnData !== '0x' &&
+      check.check(checkResult.returnData)
+    )
+  }
+
+  const isOwner =
+    !!controller &&
+    (isAddressEqual(controller, account) || ownerChecks.some(isApproved))
+  const isRegistrant =
+    !!registrant &&
+    (isAddressEqual(registrant, account) || registrantChecks.some(isApproved))
+  const isParentOwner =
+    !!parentController &&
+    (isAddressEqual(parentController, account) || parentChecks.some(isApproved))
+
+  const fuses = wrapperData?.fuses
+  const childFuses = fuses?.child
+  const parentCannotControl = !!fuses?.parent.PARENT_CANNOT_CONTROL
+  const isInGracePeriod = isWrapped && expiry?.status === 'gracePeriod'
+
+  const hasOwner: Requirement = [
+    !!controller || !!registrant,
+    'Name has no owner',
+  ]
+  const ownerRequirement: Requirement = [
+    isOwner,
+    'Account is not the owner or an approved operator of the name',
+  ]
+  const parentOwnerRequirement: Requirement = [
+    isParentOwner,
+    'Account is not the owner or an approved operator of the parent name',
+  ]
+  const wrappedRequirement: Requirement = [isWrapped, 'Name is not wrapped']
+  const gracePeriodRequirement: Requirement = [
+    !isInGracePeriod,
+    'Name is in its grace period',
+  ]
+  const parentControlRequirement: Requirement = [
+    !parentCannotControl,
+    'PARENT_CANNOT_CONTROL fuse has been burned',
+  ]
+  const subnameRequirement: Requirement = [isSubname, 'Name is not a subname']
+
+  const wrappedOwnerPermission = (...requirements: Requirement[]) =>
+    isWrapped
+      ? checkPermission([
+          hasOwner,
+          ownerRequirement,
+          gracePeriodRequirement,
+          ...requirements,
+        ])
+      : checkPermission([wrappedRequirement])
+  const unwrappedOwnerPermission = () =>
+    checkPermission([hasOwner, ownerRequirement])
+  const parentPermission = () =>
+    checkPermission([
+      subnameRequirement,
+      parentOwnerRequirement,
+      ...(isParentWrapped ? [parentControlRequirement] : []),
+    ])
+  const fuseRequirement = (fuse: keyof ChildFuses): Requirement => [
+    !childFuses?.[fuse],
+    `${fuse} fuse has been burned`,
+  ]
+
+  const getTransferPermission = () => {
+    if (isWrapped)
+      return eitherPermission(
+        wrappedOwnerPermission(fuseRequirement('CANNOT_TRANSFER')),
+        parentPermission(),
+      )
+    if (isEth2ld)
+      return checkPermission([
+        hasOwner,
+        [
+          isOwner || isRegistrant,
+          'Account is not the owner or registrant of the name',
+        ],
+      ])
+    return eitherPermission(unwrappedOwnerPermission(), parentPermission())
+  }
+
+  const permissions: Record<NamePermissionOperation, NamePermission> = {
+    setResolver: isWrapped
+      ? wrappedOwnerPermission(fuseRequirement('CANNOT_SET_RESOLVER'))
+      : unwrappedOwnerPermission(),
+    transferName: getTransferPermission(),
+    createSubname: isWrapped
+      ? wrappedOwnerPermission(fuseRequirement('CANNOT_CREATE_SUBDOMAIN'))
+      : unwrappedOwnerPermission(),
+    // deleting as the owner of a wrapped name also unwraps it
+    deleteSubname: eitherPermission(
+      checkPermission([
+        subnameRequirement,
+        hasOwner,
+        ownerRequirement,
+        fuseRequirement('CANNOT_UNWRAP'),
+      ]),
+      parentPermission(),
+    ),
+    wrapName: checkPermission([
+      hasOwner,
+      [!isWrapped, 'Name is already wrapped'],
+      isEth2ld
+        ? [isRegistrant, 'Account is not the registrant of the name']
+        : ownerRequirement,
+    ]),
+    unwrapName: wrappedOwnerPermission(fuseRequirement('CANNOT_UNWRAP')),
+    // fuses can only be burned once the parent has given up control
+    setFuses: wrappedOwnerPermission(
+      [parentCannotControl, 'PARENT_CANNOT_CONTROL fuse has not been burned'],
+      fuseRequirement('CANNOT_BURN_FUSES'),
+    ),
+    setChildFuses: checkPermission([
+      wrappedRequirement,
+      subnameRequirement,
+      [isParentWrapped, 'Parent name is not wrapped'],
+      parentOwnerRequirement,
+      parentControlRequirement,
+    ]),
+  }
+
+  return {
+    ownershipLevel: ownership?.ownershipLevel ?? null,
+    isOwner,
+    isRegistrant,
+    isParentOwner,
+    permissions,
+  }
+}
+
+export default getNamePermissions
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest'
+import { publicClient } from '../../test/addTestContracts.js'
+import getNameStatus from './getNameStatus.js'
+
+describe('getNameStatus()', () => {
+  it('should return invalid for a name that is not normalisable', async () => {
+    const result = await getNameStatus(publicClient, { name: 'test..eth' })
+    expect(result.status).toBe('invalid')
+    if (result.status === 'invalid') expect(result.reason).toBeTruthy()
+  })
+  it('should return notEth2ld for a subname', async () => {
+    const result = await getNameStatus(publicClient, {
+      name: 'test.with-subnames.eth',
+    })
+    expect(result).toMatchObject({
+      status: 'notEth2ld',
+      nameType: 'eth-subname',
+    })
+  })
+  it('should return tooShort for a short label', async () => {
+    const result = await getNameStatus(publicClient, { name: 'ab.eth' })
+    expect(result.status).toBe('tooShort')
+  })
+  it('should return available for a name that has never been registered', async () => {
+    const result = await getNameStatus(publicClient, {
+      name: 'available-name.eth',
+    })
+    expect(result).toMatchObject({
+      status: 'available',
+      name: 'available-name.eth',
+      previousExpiry: null,
+      price: { premium: 0n },
+    })
+  })
+  it('should return registered for a registered name', async () => {
+    const result = await getNameStatus(publicClient, {
+      name: 'test123.eth',
+      duration: 86400,
+    })
+    expect(result).toMatchObject({
+      status: 'registered',
+      name: 'test123.eth',
+      price: { base: 8561643835626n, premium: 0n },
+    })
+    if (result.status === 'registered')
+      expect(result.expiry.value).toBeTypeOf('bigint')
+  })
+  it('should normalise the name', async () => {
+    const result = await getNameStatus(publicClient, { name: 'TEST123.eth' })
+    expect(result).toMatchObject({ status: 'registered', name: 'test123.eth' })
+  })
+})
@@ -0,0 +1,173 @@
+import type { ClientWithEns } from '../../contracts/consts.js'
+import type {
+  BlockParameters,
+  DateWithValue,
+  NameType,
+  Prettify,
+} from '../../types.js'
+import { MINIMUM_DOT_ETH_CHARS } from '../../utils/consts.js'
+import { getNameType } from '../../utils/getNameType.js'
+import { parseInput, validateName } from '../../utils/validation.js'
+import batch from './batch.js'
+import getAvailable from './getAvailable.js'
+import getExpiry from './getExpiry.js'
+import getPrice, { type GetPriceReturnType } from './getPrice.js'
+
+export type GetNameStatusParameters = Prettify<
+  BlockParameters & {
+    /** Name to get status for */
+    name: string
+    /** Duration in seconds to get price for, defaults to 1 year */
+    duration?: bigint | number
+  }
+>
+
+type ExpiryData = {
+  /** Expiry value */
+  expiry: DateWithValue<bigint>
+  /** Grace period value (in seconds) */
+  gracePeriod: number
+}
+
+export type NameStatus =
+  | {
+      /** Name is not normalisable */
+      status: 'invalid'
+      /** Reason the name is invalid */
+      reason: string
+    }
+  | {
+      /** Name is not an eth 2ld, so can't be registered */
+      status: 'notEth2ld'
+      /** Normalised name */
+      name: string
+      /** Type of the name */
+      nameType: NameType
+      reason: string
+    }
+  | {
+      /** Label is shorter than the minimum length for eth 2ld names */
+      status: 'tooShort'
+      name: string
+      reason: string
+    }
+  | {
+      /** Name can be registered */
+      status: 'available'
+      name: string
+      /** Price for the given duration */
+      price: GetPriceReturnType
+      /** Previous expiry data, or `null` if the name has never been registered */
+      previousExpiry: ExpiryData | null
+    }
+  | {
+      /** Name can be registered, but has a temporary premium */
+      status: 'premium'
+      name: string
+      price: GetPriceReturnType
+      previousExpiry: ExpiryData | null
+    }
+  | {
+      /** Name can't be registered, but has no expiry, so isn't known to be registered */
+      status: 'unavailable'
+      name: string
+      /** Price for the given duration */
+      price: GetPriceReturnType
+    }
+  | ({
+      /** Name is registered and active */
+      status: 'registered'
+      name: string
+      /** Price to renew for the given duration */
+      price: GetPriceReturnType
+    } & ExpiryData)
+  | ({
+      /** Name is expired but within the grace period, so can only be renewed */
+      status: 'gracePeriod'
+      name: string
+      price: GetPriceReturnType
+    } & ExpiryData)
+
+export type GetNameStatusReturnType = Prettify<NameStatus>
+
+const getReason = (error: unknown) =>
+  (error as { shortMessage?: string }).shortMessage ?? (error as Error).message
+
+/**
+ * Gets the registration status of a name, including normalisation, length, expiry, and price checks
+ * @param client - {@link ClientWithEns}
+ * @param parameters - {@link GetNameStatusParameters}
+ * @returns Name status object. {@link GetNameStatusReturnType}
+ *
+ * @example
+ * import { createPublicClient, http } from 'viem'
+ * import { mainnet } from 'viem/chains'
+ * import { addEnsContracts } from '@ensdomains/ensjs'
+ * import { getNameStatus } from '@ensdomains/ensjs/public'
+ *
+ * const client = createPublicClient({
+ *   chain: addEnsContracts(mainnet),
+ *   transport: http(),
+ * })
+ * const result = await getNameStatus(client, { name: 'ens.eth' })
+ * // { status: 'registered', name: 'ens.eth', expiry: { date: Date, value: 1913933217n }, gracePeriod: 7776000, price: { base: 352828971668930335n, premium: 0n } }
+ */
+const getNameStatus = async (
+  client: ClientWithEns,
+  { name, duration = 31536000, blockNumber, blockTag }: GetNameStatusParameters,
+): Promise<GetNameStatusReturnType> => {
+  let normalisedName: string
+  try {
+    normalisedName = validateName(name)
+  } catch (error) {
+    return { status: 'invalid', reason: getReason(error) }
+  }
+
+  const nameType = getNameType(normalisedName)
+  if (nameType !== 'eth-2ld')
+    return {
+      status: 'notEth2ld',
+      name: normalisedName,
+      nameType,
+      reason: 'Only eth-2ld names can be registered',
+    }
+
+  if (parseInput(normalisedName).isShort)
+    return {
+      status: 'tooShort',
+      name: normalisedName,
+      reason: `Label must be at least ${MINIMUM_DOT_ETH_CHARS} characters`,
+    }
+
+  const [available, expiryResult, price] = await batch(
+    client,
+    { blockNumber, blockTag },
+    getAvailable.batch({ name: normalisedName }),
+    getExpiry.batch({ name: normalisedName }),
+    getPrice.batch({ nameOrNames: normalisedName, duration }),
+  )
+  const expiry = expiryResult
+    ? { expiry: expiryResult.expiry, gracePeriod: expiryResult.gracePeriod }
+    : null
+
+  if (available)
+    return {
+      status: price.premium > 0n ? 'premium' : 'available',
+      name: normalisedName,
+      price,
+      previousExpiry: expiry,
+    }
+
+  // registered names have an expiry, so a name without one isn't reported as registered
+  if (!expiry) return { status: 'unavailable', name: normalisedName, price }
+
+  return {
+    status:
+      expiryResult?.status === 'gracePeriod' ? 'gracePeriod' : 'registered',
+    name: normalisedName,
+    price,
+    ...expiry,
+  }
+}
+
+export default getNameStatus
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest'
+import {
+  deploymentAddresses,
+  publicClient,
+} from '../../test/addTestContracts.js'
+import getNames from './getNames.js'
+
+describe('getNames', () => {
+  it('should get primary names for multiple addresses', async () => {
+    const result = await getNames(publicClient, {
+      addresses: [
+        '0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC',
+        '0x8c5be1e5ebec7d5bd14f71427d1e84f3dd0314c0',
+      ],
+    })
+    expect(Object.fromEntries(result)).toMatchInlineSnapshot(`
+      {
+        "0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC": {
+          "error": null,
+          "result": {
+            "match": true,
+            "name": "with-profile.eth",
+            "resolverAddress": "${deploymentAddresses.LegacyPublicResolver}",
+            "reverseResolverAddress": "${deploymentAddresses.PublicResolver}",
+          },
+        },
+        "0x8c5be1E5EBEC7D5BD14F71427d1E84F3Dd0314C0": {
+          "error": null,
+          "result": null,
+        },
+      }
+    `)
+  })
+  it('should dedupe addresses', async () => {
+    const result = await getNames(publicClient, {
+      addresses: [
+        '0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC',
+        '0x3c44cdddb6a900fa2b585dd299e03d12fa4293bc',
+      ],
+    })
+    expect([...result.keys()]).toEqual([
+      '0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC',
+    ])
+  })
+  it('should return an empty map for no addresses', async () => {
+    const result = await getNames(publicClient, { addresses: [] })
+    expect(result.size).toBe(0)
+  })
+})
@@ -0,0 +1,109 @@
+import { RawContractError, getAddress, type Address } from 'viem'
+import type { ClientWithEns } from '../../contracts/consts.js'
+import type { GenericPassthrough } from '../../types.js'
+import type { MulticallChunkParameters } from '../../utils/multicallChunks.js'
+import getName, {
+  type GetNameParameters,
+  type GetNameReturnType,
+} from './getName.js'
+import multicallWrapper from './multicallWrapper.js'
+
+export type GetNamesParameters = Omit<GetNameParameters, 'address' | 'strict'> &
+  MulticallChunkParameters & {
+    /** Addresses to get names for, duplicates are only resolved once */
+    addresses: Address[]
+  }
+
+export type GetNamesResult =
+  | {
+      /** Name data object, or `null` if no primary name is set */
+      result: GetNameReturnType | null
+      error: null
+    }
+  | {
+      result: null
+      /** Error encountered while resolving the name for the address */
+      error: Error
+    }
+
+export type GetNamesReturnType = Map<Address, GetNamesResult>
+
+/**
+ * Gets the primary names for multiple addresses
+ * @param client - {@link ClientWithEns}
+ * @param parameters - {@link GetNamesParameters}
+ * @returns Map of checksummed address to result or error. {@link GetNamesReturnType}
+ *
+ * @example
+ * import { createPublicClient, http } from 'viem'
+ * import { mainnet } from 'viem/chains'
+ * import { addEnsContracts } from '@ensdomains/ensjs'
+ * import { getNames } from '@ensdomains/ensjs/public'
+ *
+ * const client = createPublicClient({
+ *   chain: addEnsContracts(mainnet),
+ *   transport: http(),
+ * })
+ * const result = await getNames(client, {
+ *   addresses: [
+ *     '0xb8c2C29ee19D8307cb7255e1Cd9CbDE883A267d5',
+ *     '0x983110309620D911731Ac0932219af06091b6744',
+ *   ],
+ * })
+ * // Map { '0xb8c2C29ee19D8307cb7255e1Cd9CbDE883A267d5' => { result: { name: 'nick.eth', match: true, ... }, error: null }, ... }
+ */
+const getNames = async (
+  client: ClientWithEns,
+  {
+    addresses,
+    coin,
+    allowMismatch,
+    gatewayUrls,
+    blockNumber,
+    blockTag,
+    ...chunkParameters
+  }: GetNamesParameters,
+): Promise<GetNamesReturnType> => {
+  const uniqueAddresses = [...new Set(addresses.map((a) => getAddress(a)))]
+  if (uniqueAddresses.length === 0) return new Map()
+
+  const transactions = uniqueAddresses.map((address) =>
+    getName.encode(client, { address, coin, gatewayUrls }),
+  )
+  // CCIP-read is handled per call by multicallWrapper
+  const results = await multicallWrapper(client, {
+    transactions,
+    blockNumber,
+    blockTag,
+    ...chunkParameters,
+  })
+
+  const entries = await Promise.all(
+    uniqueAddresses.map(
+      async (address, i): Promise<[Address, GetNamesResult]> => {
+        const { success, returnData } = results![i]
+        try {
+          const result = await getName.decode(
+            client,
+            success ? returnData : new RawContractError({ data: returnData }),
+            transactions[i].passthrough as GenericPassthrough,
+            {
+              address,
+              coin,
+              allowMismatch,
+              gatewayUrls,
+              blockNumber,
+              blockTag,
+            },
+          )
+          return [address, { result, error: null }]
+        } catch (error) {
+          return [address, { result: null, error: error as Error }]
+        }
+      },
+    ),
+  )
+  return new Map(entries)
+}
+
+export default getNames
@@ -1,7 +1,7 @@
 import { BaseError, decodeAbiParameters, type Address, type Hex } from 'viem'
 import type { ClientWithEns } from '../../contracts/consts.js'
 import { getChainContractAddress } from '../../contracts/getChainContractAddress.js'
-import type { SimpleTransactionRequest } from '../../types.js'
+import type { BlockParameters, SimpleTransactionRequest } from '../../types.js'
 import { EMPTY_ADDRESS } from '../../utils/consts.js'
 import { generateFunction } from '../../utils/generateFunction.js'
 import { namehash as makeNamehash } from '../../utils/normalise.js'
@@ -14,7 +14,7 @@ import multicallWrapper from './multicallWrapper.js'
 
 export type GetOwnerParameters<
   TContract extends OwnerContract | undefined = undefined,
-> = {
+> = BlockParameters & {
   /** Name to get owner for */
   name: string
   /** Optional specific contract to get ownership value from */
@@ -260,7 +260,7 @@ type BatchableFunctionObject = {
  * const result = await getOwner(client, { name: 'ens.eth' })
  * // { owner: '0xb6E040C9ECAaE172a89bD561c5F73e1C48d28cd9', registrant: '0xb6E040C9ECAaE172a89bD561c5F73e1C48d28cd9', ownershipLevel: 'registrar }
  */
-const getOwner = generateFunction({ encode, decode }) as (<
+const getOwner = generateFunction({ name: 'getOwner', encode, decode }) as (<
   TContract extends OwnerContract | undefined = undefined,
 >(
   client: ClientWithEns,
@@ -1,5 +1,8 @@
 import { describe, expect, it } from 'vitest'
-import { publicClient } from '../../test/addTestContracts.js'
+import { publicClient, testClient } from '../../test/addTestContracts.js'
+import { GRACE_PERIOD_SECONDS } from '../../utils/consts.js'
+import { getPremiumPrice } from '../../utils/premium.js'
+import getExpiry from './getExpiry.js'
 import getPrice from './getPrice.js'
 
 const yearCost = BigInt('8561643835626')
@@ -31,6 +34,15 @@ describe('getPrice', () => {
     }
   })
 
+  it('should sum the prices of an array of names split across calls', async () => {
+    const result = await getPrice(publicClient, {
+      nameOrNames: Array.from({ length: 120 }, () => 'test123.eth'),
+      duration: 86400,
+    })
+    expect(result.base).toBe(yearCost * 120n)
+    expect(result.premium).toBe(0n)
+  })
+
   it('should allow labels as inputs', async () => {
     const result = await getPrice(publicClient, {
       nameOrNames: 'test123',
@@ -43,4 +55,29 @@ describe('getPrice', () => {
       expect(premium).toBe(0n)
     }
   })
+
+  it('should return a premium matching the premium price curve', async () => {
+    const snapshot = await testClient.snapshot()
+    const expiryResult = await getExpiry(publicClient, { name: 'expired.eth' })
+    const timestamp =
+      expiryResult!.expiry.value + BigInt(GRACE_PERIOD_SECONDS) + 129600n
+    await testClient.setNextBlockTimestamp({ timestamp })
+    await testClient.mine({ blocks: 1 })
+
+    const result = await getPrice(publicClient, {
+      nameOrNames: 'expired.eth',
+      duration: 86400,
+    })
+    await testClient.revert({ id: snapshot })
+
+    // the test environment uses a fixed ETH/USD price of 1600
+    expect(result.premium).toBeGreaterThan(0n)
+    expect(result.premium).toBe(
+      getPremiumPrice({
+        expiry: expiryResult!.expiry.value,
+        timestamp,
+        ethUsdPrice: 160000000000n,
+      }),
+    )
+  })
 })
@@ -9,15 +9,22 @@ import type { ClientWithEns } from '../../contracts/consts.js'
 import { ethRegistrarControllerRentPriceSnippet } from '../../contracts/ethRegistrarController.js'
 import { getChainContractAddress } from '../../contracts/getChainContractAddress.js'
 import { UnsupportedNameTypeError } from '../../errors/general.js'
-import type { SimpleTransactionRequest } from '../../types.js'
+import type { BlockParameters, SimpleTransactionRequest } from '../../types.js'
 import {
   generateFunction,
+  getBlockParameters,
   type GeneratedFunction,
 } from '../../utils/generateFunction.js'
 import { getNameType } from '../../utils/getNameType.js'
-import multicallWrapper from './multicallWrapper.js'
+import {
+  chunkTransactions,
+  type ChunkableTransactionRequest,
+} from '../../utils/multicallChunks.js'
+import multicallWrapper, {
+  type MulticallWrapperReturnType,
+} from './multicallWrapper.js'
 
-export type GetPriceParameters = {
+export type GetPriceParameters = BlockParameters & {
   /** Name, or array of names, to get price for */
   nameOrNames: string | string[]
   /** Duration in seconds to get price for */
@@ -31,50 +38,80 @@ export type GetPriceReturnType = {
   premium: bigint
 }
 
+// the bulk renewal contract prices every name in a single call, so large arrays are split across calls
+const NAMES_PER_BULK_PRICE_CALL = 50
+const ESTIMATED_GAS_PER_NAME = 50_000
+
+const getLabels = (nameOrNames: string | string[]) =>
+  (Array.isArray(nameOrNames) ? nameOrNames : [nameOrNames]).map((name) => {
+    const labels = name.split('.')
+    const nameType = getNameType(name)
+    if (nameType !== 'eth-2ld' && nameType !== 'tld')
+      throw new UnsupportedNameTypeError({
+        nameType,
+        supportedNameTypes: ['eth-2ld', 'tld'],
+        details: 'Currently only the price of eth-2ld names can be fetched',
+      })
+    return labels[0]
+  })
+
+const getBulkPriceTransactions = (
+  client: ClientWithEns,
+  { names, duration }: { names: string[]; duration: bigint | number },
+): ChunkableTransactionRequest[] => {
+  const bulkRenewalAddress = getChainContractAddress({
+    client,
+    contract: 'ensBulkRenewal',
+  })
+  const chunks = Array.from(
+    { length: Math.ceil(names.length / NAMES_PER_BULK_PRICE_CALL) },
+    (_, i) =>
+      names.slice(
+        i * NAMES_PER_BULK_PRICE_CALL,
+        (i + 1) * NAMES_PER_BULK_PRICE_CALL,
+      ),
+  )
+  // each chunk is priced for the duration, and with no duration to get the premium
+  return chunks.flatMap((chunk) =>
+    [BigInt(duration), 0n].map((chunkDuration) => ({
+      to: bulkRenewalAddress,
+      data: encodeFunctionData({
+        abi: bulkRenewalRentPriceSnippet,
+        functionName: 'rentPrice',
+        args: [chunk, chunkDuration],
+      }),
+      executionGas: chunk.length * ESTIMATED_GAS_PER_NAME,
+    })),
+  )
+}
+
+const decodeBulkPriceResults = (
+  results: MulticallWrapperReturnType,
+): GetPriceReturnType =>
+  results.reduce(
+    (total, { returnData }, i) => {
+      const value = decodeFunctionResult({
+        abi: bulkRenewalRentPriceSnippet,
+        functionName: 'rentPrice',
+        data: returnData,
+      })
+      // results alternate between the full price and the premium for each chunk
+      if (i % 2 === 0) return { ...total, base: total.base + value }
+      return { base: total.base - value, premium: total.premium + value }
+    },
+    { base: 0n, premium: 0n },
+  )
+
 const encode = (
   client: ClientWithEns,
   { nameOrNames, duration }: GetPriceParameters,
 ): SimpleTransactionRequest => {
-  const names = (Array.isArray(nameOrNames) ? nameOrNames : [nameOrNames]).map(
-    (name) => {
-      const labels = name.split('.')
-      const nameType = getNameType(name)
-      if (nameType !== 'eth-2ld' && nameType !== 'tld')
-        throw new UnsupportedNameTypeError({
-          nameType,
-          supportedNameTypes: ['eth-2ld', 'tld'],
-          details: 'Currently only the price of eth-2ld names can be fetched',
-        })
-      return labels[0]
-    },
-  )
+  const names = getLabels(nameOrNames)
 
-  if (names.length > 1) {
-    const bulkRenewalAddress = getChainContractAddress({
-      client,
-      contract: 'ensBulkRenewal',
-    })
+  if (names.length > 1)
     return multicallWrapper.encode(client, {
-      transactions: [
-        {
-          to: bulkRenewalAddress,
-          data: encodeFunctionData({
-            abi: bulkRenewalRentPriceSnippet,
-            functionName: 'rentPrice',
-            args: [names, BigInt(duration)],
-          }),
-        },
-        {
-          to: bulkRenewalAddress,
-          data: encodeFunctionData({
-            abi: bulkRenewalRentPriceSnippet,
-            functionName: 'rentPrice',
-            args: [names, 0n],
-          }),
-        },
-      ],
+      transactions: getBulkPriceTransactions(client, { names, duration }),
     })
-  }
   return {
     to: getChainContractAddress({
       client,
@@ -95,21 +132,10 @@ const decode = async (
 ): Promise<GetPriceReturnType> => {
   if (typeof data === 'object') throw data
   const isBulkRenewal = Array.isArray(nameOrNames) && nameOrNames.length > 1
-  if (isBulkRenewal) {
-    const result = await multicallWrapper.decode(client, data, [])
-    const price = decodeFunctionResult({
-      abi: bulkRenewalRentPriceSnippet,
-      functionName: 'rentPrice',
-      data: result[0].returnData,
-    })
-    const premium = decodeFunctionResult({
-      abi: bulkRenewalRentPriceSnippet,
-      functionName: 'rentPrice',
-      data: result[1].returnData,
-    })
-    const base = price - premium
-    return { base, premium }
-  }
+  if (isBulkRenewal)
+    return decodeBulkPriceResults(
+      await multicallWrapper.decode(client, data, []),
+    )
 
   return decodeFunctionResult({
     abi: ethRegistrarControllerRentPriceSnippet,
@@ -139,7 +165,31 @@ type BatchableFunctionObject = GeneratedFunction<typeof encode, typeof decode>
  * const result = await getPrice(client, { nameOrNames: 'ens.eth', duration: 31536000 })
  * // { base: 352828971668930335n, premium: 0n }
  */
-const getPrice = generateFunction({ encode, decode }) as ((
+const getPriceSingle = generateFunction({ name: 'getPrice', encode, decode })
+
+// bulk prices that don't fit into a single multicall are split into chunks, which are read at the same block
+const getPrice = Object.assign(
+  async (client: ClientWithEns, parameters: GetPriceParameters) => {
+    const names = getLabels(parameters.nameOrNames)
+    if (names.length <= 1) return getPriceSingle(client, parameters)
+    const transactions = getBulkPriceTransactions(client, {
+      names,
+      duration: parameters.duration,
+    })
+    if (chunkTransactions(transactions).length <= 1)
+      return getPriceSingle(client, parameters)
+    const results = await multicallWrapper(client, {
+      ...getBlockParameters(parameters),
+      transactions,
+    })
+    return decodeBulkPriceResults(results!)
+  },
+  {
+    encode,
+    decode,
+    batch: getPriceSingle.batch,
+  },
+) as ((
   client: ClientWithEns,
   { nameOrNames, duration }: GetPriceParameters,
 ) => Promise<GetPriceReturnType>) &
@@ -0,0 +1,18 @@
+import { describe, expect, it } from 'vitest'
+import { publicClient } from '../../test/addTestContracts.js'
+import getPubkeyRecord from './getPubkeyRecord.js'
+
+describe('getPubkeyRecord', () => {
+  it('should return null for a non-existent name', async () => {
+    const result = await getPubkeyRecord(publicClient, {
+      name: 'test123123cool.eth',
+    })
+    expect(result).toBeNull()
+  })
+  it('should return null for a name with no pubkey record', async () => {
+    const result = await getPubkeyRecord(publicClient, {
+      name: 'with-profile.eth',
+    })
+    expect(result).toBeNull()
+  })
+})
@@ -0,0 +1,89 @@
+import type { BaseError, Hex } from 'viem'
+import type { ClientWithEns } from '../../contracts/consts.js'
+import type {
+  BlockParameters,
+  GenericPassthrough,
+  Prettify,
+  TransactionRequestWithPassthrough,
+} from '../../types.js'
+import {
+  generateFunction,
+  type GeneratedFunction,
+} from '../../utils/generateFunction.js'
+import _getPubkey, {
+  type InternalGetPubkeyParameters,
+  type InternalGetPubkeyReturnType,
+} from './_getPubkey.js'
+import universalWrapper from './universalWrapper.js'
+
+export type GetPubkeyRecordParameters = Prettify<
+  InternalGetPubkeyParameters &
+    BlockParameters & {
+      /** Batch gateway URLs to use for resolving CCIP-read requests. */
+      gatewayUrls?: string[]
+    }
+>
+
+export type GetPubkeyRecordReturnType = Prettify<InternalGetPubkeyReturnType>
+
+const encode = (
+  client: ClientWithEns,
+  { name, gatewayUrls }: Omit<GetPubkeyRecordParameters, 'strict'>,
+): TransactionRequestWithPassthrough => {
+  const prData = _getPubkey.encode(client, { name })
+  return universalWrapper.encode(client, {
+    name,
+    data: prData.data,
+    gatewayUrls,
+  })
+}
+
+const decode = async (
+  client: ClientWithEns,
+  data: Hex | BaseError,
+  passthrough: GenericPassthrough,
+  {
+    strict,
+    gatewayUrls,
+  }: Pick<GetPubkeyRecordParameters, 'strict' | 'gatewayUrls'>,
+): Promise<GetPubkeyRecordReturnType> => {
+  const urData = await universalWrapper.decode(client, data, passthrough, {
+    strict,
+    gatewayUrls,
+  })
+  if (!urData) return null
+  return _getPubkey.decode(client, urData.data, { strict })
+}
+
+type BatchableFunctionObject = GeneratedFunction<typeof encode, typeof decode>
+
+/**
+ * Gets the ECDSA SECP256k1 public key record for a name
+ * @param client - {@link ClientWithEns}
+ * @param parameters - {@link GetPubkeyRecordParameters}
+ * @returns Pubkey object, or `null` if not found. {@link GetPubkeyRecordReturnType}
+ *
+ * @example
+ * import { createPublicClient, http } from 'viem'
+ * import { mainnet } from 'viem/chains'
+ * import { addEnsContracts } from '@ensdomains/ensjs'
+ * import { getPubkeyRecord } from '@ensdomains/ensjs/public'
+ *
+ * const client = createPublicClient({
+ *   chain: addEnsContracts(mainnet),
+ *   transport: http(),
+ * })
+ * const result = await getPubkeyRecord(client, { name: 'ens.eth' })
+ * // { x: '0x...', y: '0x...' }
+ */
+const getPubkeyRecord = generateFunction({
+  name: 'getPubkeyRecord',
+  encode,
+  decode,
+}) as ((
+  client: ClientWithEns,
+  { name, strict, gatewayUrls }: GetPubkeyRecordParameters,
+) => Promise<GetPubkeyRecordReturnType>) &
+  BatchableFunctionObject
+
+export default getPubkeyRecord
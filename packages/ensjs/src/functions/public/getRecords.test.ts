@@ -1,6 +1,17 @@
-import { RawContractError, createPublicClient, http } from 'viem'
+import {
+  RawContractError,
+  createPublicClient,
+  encodeAbiParameters,
+  encodeFunctionResult,
+  getAddress,
+  http,
+  stringToHex,
+} from 'viem'
 import { mainnet } from 'viem/chains'
 import { describe, expect, it } from 'vitest'
+import { publicResolverAbiSnippet } from '../../contracts/publicResolver.js'
+import { universalResolverResolveArraySnippet } from '../../contracts/universalResolver.js'
+import { RecordResolutionError } from '../../errors/public.js'
 import { addEnsContracts } from '../../index.js'
 import {
   deploymentAddresses,
@@ -24,6 +35,7 @@ describe('getRecords()', () => {
       {
         "coins": [
           {
+            "chainId": 1,
             "id": 60,
             "name": "eth",
             "value": "0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC",
@@ -63,6 +75,7 @@ describe('getRecords()', () => {
     {
       "coins": [
         {
+          "chainId": 1,
           "id": 60,
           "name": "eth",
           "value": "0x70997970C51812dc3A010C7d01b50e0d17dc79C8",
@@ -83,6 +96,7 @@ describe('getRecords()', () => {
       {
         "coins": [
           {
+            "chainId": 1,
             "id": 60,
             "name": "eth",
             "value": "0x8c4Eb6988A199DAbcae0Ce31052b3f3aC591787e",
@@ -94,6 +108,19 @@ describe('getRecords()', () => {
     `)
   })
 
+  it('works with interfaces', async () => {
+    const result = await getRecords(publicClient, {
+      name: 'eth',
+      interfaces: ['0x612e8c09', '0x01ffc9a7'],
+    })
+    expect(result.interfaces).toEqual([
+      {
+        id: '0x612e8c09',
+        implementer: getAddress(deploymentAddresses.ETHRegistrarController),
+      },
+    ])
+  })
+
   it('returns null results when known resolver error', async () => {
     await expect(
       getRecords.decode(
@@ -149,4 +176,126 @@ describe('getRecords()', () => {
       Version: viem@2.9.2]
     `)
   })
+
+  it('returns the status of each record when detailed is true', async () => {
+    const parameters = {
+      name: 'test.eth',
+      texts: ['description', 'url'],
+      coins: [60, 0],
+      detailed: true,
+    } as const
+    const { encode, decode } = getRecords.batch(parameters)
+    const { passthrough } = encode(mainnetPublicClient, parameters)
+    const data = encodeFunctionResult({
+      abi: universalResolverResolveArraySnippet,
+      functionName: 'resolve',
+      result: [
+        [
+          {
+            success: true,
+            returnData: encodeAbiParameters([{ type: 'string' }], ['Hello']),
+          },
+          {
+            success: true,
+            returnData: encodeAbiParameters([{ type: 'string' }], ['']),
+          },
+          { success: false, returnData: '0x7199966d' }, // ResolverNotFound()
+          {
+            success: true,
+            returnData: encodeAbiParameters([{ type: 'bytes' }], ['0x1234']),
+          },
+        ],
+        '0x1234567890123456789012345678901234567890',
+      ],
+    })
+    const result = await decode(
+      mainnetPublicClient,
+      data,
+      passthrough,
+      parameters,
+    )
+    expect(result.texts).toEqual([{ key: 'description', value: 'Hello' }])
+    expect(result.coins).toEqual([])
+    expect(
+      result.details.map(({ type, key, status }) => ({ type, key, status })),
+    ).toEqual([
+      { type: 'text', key: 'description', status: 'ok' },
+      { type: 'text', key: 'url', status: 'empty' },
+      { type: 'coin', key: 60, status: 'error' },
+      { type: 'coin', key: 0, status: 'error' },
+    ])
+    expect(result.details[2].error).toBeInstanceOf(RecordResolutionError)
+    expect(result.details[2].error?.message).toContain('ResolverNotFound')
+  })
+
+  it('returns an error for a malformed abi when detailed is true', async () => {
+    const parameters = {
+      name: 'test.eth',
+      abi: true,
+      detailed: true,
+    } as const
+    const { encode, decode } = getRecords.batch(parameters)
+    const { passthrough } = encode(mainnetPublicClient, parameters)
+    const data = encodeFunctionResult({
+      abi: universalResolverResolveArraySnippet,
+      functionName: 'resolve',
+      result: [
+        [
+          {
+            success: true,
+            returnData: encodeFunctionResult({
+              abi: publicResolverAbiSnippet,
+              functionName: 'ABI',
+              result: [1n, stringToHex('{"malformed"')],
+            }),
+          },
+        ],
+        '0x1234567890123456789012345678901234567890',
+      ],
+    })
+    const result = await decode(
+      mainnetPublicClient,
+      data,
+      passthrough,
+      parameters,
+    )
+    expect(result.abi).toBeNull()
+    expect(result.details).toEqual([
+      {
+        type: 'abi',
+        key: 'abi',
+        status: 'error',
+        error: expect.any(SyntaxError),
+      },
+    ])
+  })
+
+  it('returns errors for every record when detailed is true and known resolver error', async () => {
+    const parameters = {
+      name: 'test.eth',
+      coins: [60],
+      detailed: true,
+    } as const
+    const { decode } = getRecords.batch(parameters)
+    const result = await decode(
+      mainnetPublicClient,
+      new RawContractError({
+        data: '0x7199966d', // ResolverNotFound()
+      }),
+      {
+        calls: [
+          { type: 'coin', key: 60, call: { to: '0x1234', data: '0x5678' } },
+        ],
+      },
+      parameters,
+    )
+    expect(result.details).toEqual([
+      {
+        type: 'coin',
+        key: 60,
+        status: 'error',
+        error: expect.any(RawContractError),
+      },
+    ])
+  })
 })
@@ -1,6 +1,7 @@
 import {
   BaseError,
   decodeAbiParameters,
+  decodeErrorResult,
   decodeFunctionResult,
   encodeFunctionData,
   hexToBigInt,
@@ -11,11 +12,16 @@ import {
 import type { ClientWithEns } from '../../contracts/consts.js'
 import { getChainContractAddress } from '../../contracts/getChainContractAddress.js'
 import {
+  universalResolverErrors,
   universalResolverResolveArraySnippet,
   universalResolverResolveArrayWithGatewaysSnippet,
 } from '../../contracts/universalResolver.js'
+import { RecordResolutionError } from '../../errors/public.js'
 import type {
+  BlockParameters,
+  CoinInput,
   DecodedAddr,
+  DecodedInterface,
   DecodedText,
   Prettify,
   SimpleTransactionRequest,
@@ -25,23 +31,31 @@ import { checkSafeUniversalResolverData } from '../../utils/checkSafeUniversalRe
 import { EMPTY_ADDRESS } from '../../utils/consts.js'
 import { generateFunction } from '../../utils/generateFunction.js'
 import { packetToBytes } from '../../utils/hexEncodedName.js'
+import {
+  DEFAULT_EVM_COIN_TYPE,
+  getChainIdFromCoinType,
+  getCoderFromCoin,
+  isEvmFallbackCoinType,
+} from '../../utils/normaliseCoinId.js'
 import _getAbi, { type InternalGetAbiReturnType } from './_getAbi.js'
 import _getAddr from './_getAddr.js'
 import _getContentHash, {
   type InternalGetContentHashReturnType,
 } from './_getContentHash.js'
+import _getInterfaceImplementer from './_getInterfaceImplementer.js'
+import _getPubkey, { type InternalGetPubkeyReturnType } from './_getPubkey.js'
 import _getText from './_getText.js'
 import multicallWrapper from './multicallWrapper.js'
 
 export type GetRecordsParameters<
   TTexts extends readonly string[] | undefined = readonly string[],
-  TCoins extends readonly (string | number)[] | undefined = readonly (
-    | string
-    | number
-  )[],
+  TCoins extends readonly CoinInput[] | undefined = readonly CoinInput[],
   TContentHash extends boolean | undefined = true,
   TAbi extends boolean | undefined = true,
-> = {
+  TPubkey extends boolean | undefined = true,
+  TInterfaces extends readonly Hex[] | undefined = readonly Hex[],
+  TDetailed extends boolean | undefined = boolean | undefined,
+> = BlockParameters & {
   /** Name to get records for */
   name: string
   /** Text record key array */
@@ -52,6 +66,12 @@ export type GetRecordsParameters<
   contentHash?: TContentHash
   /** If true, will fetch ABI */
   abi?: TAbi
+  /** If true, will fetch ECDSA SECP256k1 public key */
+  pubkey?: TPubkey
+  /** Array of EIP-165 interface IDs to fetch implementers for */
+  interfaces?: TInterfaces
+  /** If true, empty EVM chain coin records will fall back to the default EVM address record */
+  evmFallback?: boolean
   /** Optional specific resolver address, for fallback or for all results */
   resolver?: {
     /** Resolver address */
@@ -61,6 +81,8 @@ export type GetRecordsParameters<
   }
   /** Batch gateway URLs to use for resolving CCIP-read requests. */
   gatewayUrls?: string[]
+  /** If true, will include the status of each requested record, and the error for any that failed */
+  detailed?: TDetailed
 }
 
 type WithContentHashResult = {
@@ -73,6 +95,16 @@ type WithAbiResult = {
   abi: InternalGetAbiReturnType
 }
 
+type WithPubkeyResult = {
+  /** Retrieved ECDSA SECP256k1 public key record for name */
+  pubkey: InternalGetPubkeyReturnType
+}
+
+type WithInterfacesResult = {
+  /** Retrieved interface implementer records for name */
+  interfaces: DecodedInterface[]
+}
+
 type WithTextsResult = {
   /** Retrieved text records for name */
   texts: DecodedText[]
@@ -83,19 +115,47 @@ type WithCoinsResult = {
   coins: DecodedAddr[]
 }
 
+export type RecordStatus = 'ok' | 'empty' | 'error'
+
+export type RecordDetail = {
+  /** Record type */
+  type: 'text' | 'coin' | 'contentHash' | 'abi' | 'pubkey' | 'interface'
+  /** Requested record key, as passed in the parameters */
+  key: string | CoinInput
+} & (
+  | {
+      /** `ok` if the record was found, or `empty` if it is not set */
+      status: 'ok' | 'empty'
+      error?: never
+    }
+  | {
+      status: 'error'
+      /** Error encountered while resolving or decoding the record */
+      error: Error
+    }
+)
+
+type WithDetailsResult = {
+  /** Status of each requested record, in the order they were requested */
+  details: RecordDetail[]
+}
+
 export type GetRecordsReturnType<
   TTexts extends readonly string[] | undefined = readonly string[],
-  TCoins extends readonly (string | number)[] | undefined = readonly (
-    | string
-    | number
-  )[],
+  TCoins extends readonly CoinInput[] | undefined = readonly CoinInput[],
   TContentHash extends boolean | undefined = true,
   TAbi extends boolean | undefined = true,
+  TPubkey extends boolean | undefined = true,
+  TInterfaces extends readonly Hex[] | undefined = readonly Hex[],
+  TDetailed extends boolean | undefined = undefined,
 > = Prettify<
   (TContentHash extends true ? WithContentHashResult : {}) &
     (TAbi extends true ? WithAbiResult : {}) &
+    (TPubkey extends true ? WithPubkeyResult : {}) &
+    (TInterfaces extends readonly Hex[] ? WithInterfacesResult : {}) &
     (TTexts extends readonly string[] ? WithTextsResult : {}) &
-    (TCoins extends readonly (string | number)[] ? WithCoinsResult : {}) & {
+    (TCoins extends readonly CoinInput[] ? WithCoinsResult : {}) &
+    (TDetailed extends true ? WithDetailsResult : {}) & {
       /** Resolver address used for fetch */
       resolverAddress: Address
     }
@@ -108,10 +168,15 @@ type CallObj =
       type: 'text'
     }
   | {
-      key: string | number
+      key: CoinInput
       call: SimpleTransactionRequest
       type: 'coin'
     }
+  | {
+      key: typeof DEFAULT_EVM_COIN_TYPE
+      call: SimpleTransactionRequest
+      type: 'evmFallback'
+    }
   | {
       key: 'contentHash'
       call: SimpleTransactionRequest
@@ -122,6 +187,16 @@ type CallObj =
       call: SimpleTransactionRequest
       type: 'abi'
     }
+  | {
+      key: 'pubkey'
+      call: SimpleTransactionRequest
+      type: 'pubkey'
+    }
+  | {
+      key: Hex
+      call: SimpleTransactionRequest
+      type: 'interface'
+    }
 
 type EncodeReturnType = Required<
   TransactionRequestWithPassthrough<{
@@ -139,9 +214,19 @@ const createCalls = (
     coins,
     abi,
     contentHash,
+    pubkey,
+    interfaces,
+    evmFallback,
   }: Pick<
     GetRecordsParameters,
-    'name' | 'texts' | 'coins' | 'abi' | 'contentHash'
+    | 'name'
+    | 'texts'
+    | 'coins'
+    | 'abi'
+    | 'contentHash'
+    | 'pubkey'
+    | 'interfaces'
+    | 'evmFallback'
   >,
 ) => [
   ...(texts ?? []).map(
@@ -174,6 +259,33 @@ const createCalls = (
         { key: 'abi', call: _getAbi.encode(client, { name }), type: 'abi' },
       ] as const)
     : []),
+  ...(pubkey
+    ? ([
+        {
+          key: 'pubkey',
+          call: _getPubkey.encode(client, { name }),
+          type: 'pubkey',
+        },
+      ] as const)
+    : []),
+  ...(interfaces ?? []).map(
+    (interfaceId) =>
+      ({
+        key: interfaceId,
+        call: _getInterfaceImplementer.encode(client, { name, interfaceId }),
+        type: 'interface',
+      } as const),
+  ),
+  ...(evmFallback &&
+  coins?.some((coin) => isEvmFallbackCoinType(getCoderFromCoin(coin).coinType))
+    ? ([
+        {
+          key: DEFAULT_EVM_COIN_TYPE,
+          call: _getAddr.encode(client, { name, coin: DEFAULT_EVM_COIN_TYPE }),
+          type: 'evmFallback',
+        },
+      ] as const)
+    : []),
 ]
 
 const encode = (
@@ -185,6 +297,9 @@ const encode = (
     coins,
     contentHash,
     abi,
+    pubkey,
+    interfaces,
+    evmFallback,
     gatewayUrls,
   }: GetRecordsParameters,
 ): EncodeReturnType => {
@@ -194,6 +309,9 @@ const encode = (
     coins,
     contentHash,
     abi,
+    pubkey,
+    interfaces,
+    evmFallback,
   })
 
   if (resolver?.address && !resolver.fallbackOnly) {
@@ -250,27 +368,44 @@ const encode = (
 
 const createEmptyResult = <
   TTexts extends readonly string[] | undefined,
-  TCoins extends readonly (string | number)[] | undefined,
+  TCoins extends readonly CoinInput[] | undefined,
   TContentHash extends boolean | undefined,
   TAbi extends boolean | undefined,
+  TPubkey extends boolean | undefined,
+  TInterfaces extends readonly Hex[] | undefined,
 >({
   texts,
   coins,
   abi,
   contentHash,
+  pubkey,
+  interfaces,
 }: Pick<
-  GetRecordsParameters<TTexts, TCoins, TContentHash, TAbi>,
-  'texts' | 'coins' | 'abi' | 'contentHash'
+  GetRecordsParameters<
+    TTexts,
+    TCoins,
+    TContentHash,
+    TAbi,
+    TPubkey,
+    TInterfaces
+  >,
+  'texts' | 'coins' | 'abi' | 'contentHash' | 'pubkey' | 'interfaces'
 >) => ({
   ...(texts ? { texts: [] as DecodedText[] } : {}),
   ...(coins ? { coins: [] as DecodedAddr[] } : {}),
   ...(contentHash ? { contentHash: null } : {}),
   ...(abi ? { abi: null } : {}),
+  ...(pubkey ? { pubkey: null } : {}),
+  ...(interfaces ? { interfaces: [] as DecodedInterface[] } : {}),
 })
 
 const decodeRecord = async (
   client: ClientWithEns,
-  { item, call }: { item: Hex; call: CallObj },
+  {
+    item,
+    call,
+    strict = false,
+  }: { item: Hex; call: CallObj; strict?: boolean },
 ) => {
   const { key, type } = call
   const baseItem = { key, type }
@@ -289,35 +424,83 @@ const decodeRecord = async (
   }
   if (type === 'text') {
     const decodedFromAbi = await _getText.decode(client, item, {
-      strict: false,
+      strict,
     })
     return { ...baseItem, value: decodedFromAbi }
   }
-  if (type === 'coin') {
+  if (type === 'coin' || type === 'evmFallback') {
     const decodedFromAbi = await _getAddr.decode(client, item, {
       coin: key,
-      strict: false,
+      strict,
     })
     return { ...baseItem, value: decodedFromAbi }
   }
   if (type === 'contentHash') {
     const decodedFromAbi = await _getContentHash.decode(client, item, {
-      strict: false,
+      strict,
+    })
+    return { ...baseItem, value: decodedFromAbi }
+  }
+  if (type === 'interface') {
+    const decodedFromAbi = await _getInterfaceImplementer.decode(client, item, {
+      strict,
+    })
+    return { ...baseItem, value: decodedFromAbi }
+  }
+  if (type === 'pubkey') {
+    const decodedFromAbi = await _getPubkey.decode(client, item, {
+      strict,
     })
     return { ...baseItem, value: decodedFromAbi }
   }
   // abi
   const decodedFromAbi = await _getAbi.decode(client, item, {
-    strict: false,
+    strict,
   })
   return { ...baseItem, value: decodedFromAbi }
 }
 
+// fills empty EVM chain coin records with the default EVM address record (ENSIP-19)
+const withEvmFallback = (
+  record: Awaited<ReturnType<typeof decodeRecord>>,
+  fallback: DecodedAddr,
+) => {
+  if (record.type !== 'coin' || record.value) return record
+  const coder = getCoderFromCoin(record.key as CoinInput)
+  if (!isEvmFallbackCoinType(coder.coinType)) return record
+  return {
+    ...record,
+    value: {
+      id: coder.coinType,
+      name: coder.name,
+      value: fallback.value,
+      chainId: getChainIdFromCoinType(coder.coinType),
+    } as DecodedAddr,
+  }
+}
+
+// all records are included while decoding, and narrowed to the requested records when returned
+type InternalGetRecordsReturnType = GetRecordsReturnType<
+  readonly string[],
+  readonly CoinInput[],
+  true,
+  true,
+  true,
+  readonly Hex[],
+  boolean
+> &
+  Partial<WithDetailsResult>
+
 const createRecordResult = (
-  prev: GetRecordsReturnType,
+  prev: InternalGetRecordsReturnType,
   curr: Awaited<ReturnType<typeof decodeRecord>>,
 ) => {
-  if (curr.type === 'text' || curr.type === 'coin') {
+  if (curr.type === 'evmFallback') return prev
+  if (
+    curr.type === 'text' ||
+    curr.type === 'coin' ||
+    curr.type === 'interface'
+  ) {
     if (!curr.value) {
       return prev
     }
@@ -343,18 +526,69 @@ const createRecordResult = (
       contentHash: curr.value as InternalGetContentHashReturnType,
     }
   }
+  if (curr.type === 'interface') {
+    return {
+      ...prev,
+      interfaces: [
+        ...(prev.interfaces || []),
+        { id: curr.key, implementer: curr.value } as DecodedInterface,
+      ],
+    }
+  }
+  if (curr.type === 'pubkey') {
+    return { ...prev, pubkey: curr.value as InternalGetPubkeyReturnType }
+  }
   // abi
   return { ...prev, abi: curr.value as InternalGetAbiReturnType }
 }
 
+const getRecordError = (call: CallObj, data: Hex) => {
+  let reason: string = data
+  try {
+    reason = decodeErrorResult({ abi: universalResolverErrors, data }).errorName
+  } catch {}
+  return new RecordResolutionError({
+    recordType: call.type,
+    key: call.key,
+    reason,
+  })
+}
+
+const createRecordDetails = ({
+  calls,
+  decodedCalls,
+  decodedRecords,
+  errors,
+}: {
+  calls: CallObj[]
+  decodedCalls: CallObj[]
+  decodedRecords: Awaited<ReturnType<typeof decodeRecord>>[]
+  errors: Map<CallObj, Error>
+}): RecordDetail[] => {
+  const values = new Map(
+    decodedCalls.map((call, i) => [call, decodedRecords[i].value]),
+  )
+  return calls
+    .filter((call) => call.type !== 'evmFallback')
+    .map((call) => {
+      const base = { type: call.type, key: call.key } as Pick<
+        RecordDetail,
+        'type' | 'key'
+      >
+      const error = errors.get(call)
+      if (error) return { ...base, status: 'error', error }
+      return { ...base, status: values.get(call) ? 'ok' : 'empty' }
+    })
+}
+
 const decode = async <
   const TTexts extends readonly string[] | undefined = readonly string[],
-  const TCoins extends readonly (string | number)[] | undefined = readonly (
-    | string
-    | number
-  )[],
+  const TCoins extends readonly CoinInput[] | undefined = readonly CoinInput[],
   const TContentHash extends boolean | undefined = undefined,
   const TAbi extends boolean | undefined = undefined,
+  const TPubkey extends boolean | undefined = undefined,
+  const TInterfaces extends readonly Hex[] | undefined = undefined,
+  const TDetailed extends boolean | undefined = undefined,
 >(
   client: ClientWithEns,
   data: Hex | BaseError,
@@ -365,23 +599,63 @@ const decode = async <
     coins,
     contentHash,
     abi,
+    pubkey,
+    interfaces,
     gatewayUrls,
-  }: GetRecordsParameters<TTexts, TCoins, TContentHash, TAbi>,
-): Promise<GetRecordsReturnType<TTexts, TCoins, TContentHash, TAbi>> => {
+    detailed,
+    blockNumber,
+    blockTag,
+  }: GetRecordsParameters<
+    TTexts,
+    TCoins,
+    TContentHash,
+    TAbi,
+    TPubkey,
+    TInterfaces,
+    TDetailed
+  >,
+): Promise<
+  GetRecordsReturnType<
+    TTexts,
+    TCoins,
+    TContentHash,
+    TAbi,
+    TPubkey,
+    TInterfaces,
+    TDetailed
+  >
+> => {
   const { calls } = passthrough
+  const requestedCalls = calls.filter((c) => c) as CallObj[]
+  const errors = new Map<CallObj, Error>()
   let recordData: (Hex | null)[] = []
   let resolverAddress: Address
 
-  const emptyResult = createEmptyResult({ texts, coins, contentHash, abi })
+  const emptyResult = createEmptyResult({
+    texts,
+    coins,
+    contentHash,
+    abi,
+    pubkey,
+    interfaces,
+  })
 
   if (resolver?.address && !resolver.fallbackOnly) {
     const result = await multicallWrapper.decode(
       client,
       data,
       passthrough.calls.filter((c) => c).map((c) => c!.call),
+      { blockNumber, blockTag },
     )
     resolverAddress = resolver.address
-    recordData = result.map((r) => r.returnData)
+    recordData = result.map((r, i) => {
+      if (!r.success)
+        errors.set(
+          requestedCalls[i],
+          getRecordError(requestedCalls[i], r.returnData),
+        )
+      return r.returnData
+    })
   } else {
     const isSafe = checkSafeUniversalResolverData(data, {
       strict: false,
@@ -396,8 +670,29 @@ const decode = async <
     if (!isSafe)
       return {
         ...emptyResult,
+        ...(detailed
+          ? {
+              details: createRecordDetails({
+                calls: requestedCalls,
+                decodedCalls: [],
+                decodedRecords: [],
+                // known universal resolver errors apply to every record
+                errors: new Map(
+                  requestedCalls.map((call) => [call, data as BaseError]),
+                ),
+              }),
+            }
+          : {}),
         resolverAddress: EMPTY_ADDRESS,
-      } as GetRecordsReturnType<TTexts, TCoins, TContentHash, TAbi>
+      } as GetRecordsReturnType<
+        TTexts,
+        TCoins,
+        TContentHash,
+        TAbi,
+        TPubkey,
+        TInterfaces,
+        TDetailed
+      >
 
     const result = decodeFunctionResult({
       abi: universalResolverResolveArraySnippet,
@@ -407,6 +702,7 @@ const decode = async <
     ;[, resolverAddress] = result
     recordData = result[0].map((item, i) => {
       if (!item.success) {
+        errors.set(calls[i]!, getRecordError(calls[i]!, item.returnData))
         calls[i] = null
         return null
       }
@@ -418,17 +714,51 @@ const decode = async <
   const filteredRecordData = recordData.filter((x) => x) as Hex[]
 
   const decodedRecords = await Promise.all(
-    filteredRecordData.map(async (item, i) =>
-      decodeRecord(client, { item, call: filteredCalls[i] }),
-    ),
+    filteredRecordData.map(async (item, i) => {
+      const call = filteredCalls[i]
+      if (!detailed || errors.has(call))
+        return decodeRecord(client, { item, call })
+      // decoding errors are only surfaced in detailed mode
+      try {
+        return await decodeRecord(client, { item, call, strict: true })
+      } catch (error) {
+        errors.set(call, error as Error)
+        return { key: call.key, type: call.type, value: null }
+      }
+    }),
   )
 
-  const records = decodedRecords.reduce(createRecordResult, {
+  const evmFallbackRecord = decodedRecords.find(
+    (record) => record.type === 'evmFallback',
+  )?.value as DecodedAddr | null | undefined
+
+  const mappedRecords = decodedRecords.map((record) =>
+    evmFallbackRecord ? withEvmFallback(record, evmFallbackRecord) : record,
+  )
+  const records = mappedRecords.reduce(createRecordResult, {
     ...emptyResult,
+    ...(detailed
+      ? {
+          details: createRecordDetails({
+            calls: requestedCalls,
+            decodedCalls: filteredCalls,
+            decodedRecords: mappedRecords,
+            errors,
+          }),
+        }
+      : {}),
     resolverAddress,
-  } as GetRecordsReturnType)
+  } as InternalGetRecordsReturnType)
 
-  return records as GetRecordsReturnType<TTexts, TCoins, TContentHash, TAbi>
+  return records as GetRecordsReturnType<
+    TTexts,
+    TCoins,
+    TContentHash,
+    TAbi,
+    TPubkey,
+    TInterfaces,
+    TDetailed
+  >
 }
 
 type EncoderFunction = typeof encode
@@ -439,15 +769,44 @@ type BatchableFunctionObject = {
   decode: DecoderFunction
   batch: <
     const TTexts extends readonly string[] | undefined = undefined,
-    const TCoins extends readonly (string | number)[] | undefined = undefined,
+    const TCoins extends readonly CoinInput[] | undefined = undefined,
     const TContentHash extends boolean | undefined = undefined,
     const TAbi extends boolean | undefined = undefined,
+    const TPubkey extends boolean | undefined = undefined,
+    const TInterfaces extends readonly Hex[] | undefined = undefined,
+    const TDetailed extends boolean | undefined = undefined,
   >(
-    args: GetRecordsParameters<TTexts, TCoins, TContentHash, TAbi>,
+    args: GetRecordsParameters<
+      TTexts,
+      TCoins,
+      TContentHash,
+      TAbi,
+      TPubkey,
+      TInterfaces,
+      TDetailed
+    >,
   ) => {
-    args: [GetRecordsParameters<TTexts, TCoins, TContentHash, TAbi>]
+    args: [
+      GetRecordsParameters<
+        TTexts,
+        TCoins,
+        TContentHash,
+        TAbi,
+        TPubkey,
+        TInterfaces,
+        TDetailed
+      >,
+    ]
     encode: EncoderFunction
-    decode: typeof decode<TTexts, TCoins, TContentHash, TAbi>
+    decode: typeof decode<
+      TTexts,
+      TCoins,
+      TContentHash,
+      TAbi,
+      TPubkey,
+      TInterfaces,
+      TDetailed
+    >
   }
 }
 
@@ -477,11 +836,18 @@ type BatchableFunctionObject = {
  * })
  * // { texts: [{ key: 'com.twitter', value: 'ensdomains' }, { key: 'com.github', value: 'ensdomains' }], coins: [{ id: 60, name: 'ETH', value: '0xFe89cc7aBB2C4183683ab71653C4cdc9B02D44b7' }], contentHash: { protocolType: 'ipns', decoded: 'k51qzi5uqu5djdczd6zw0grmo23j2vkj9uzvujencg15s5rlkq0ss4ivll8wqw' } }
  */
-const getRecords = generateFunction({ encode, decode }) as (<
+const getRecords = generateFunction({
+  name: 'getRecords',
+  encode,
+  decode,
+}) as (<
   const TTexts extends readonly string[] | undefined = undefined,
-  const TCoins extends readonly (string | number)[] | undefined = undefined,
+  const TCoins extends readonly CoinInput[] | undefined = undefined,
   const TContentHash extends boolean | undefined = undefined,
   const TAbi extends boolean | undefined = undefined,
+  const TPubkey extends boolean | undefined = undefined,
+  const TInterfaces extends readonly Hex[] | undefined = undefined,
+  const TDetailed extends boolean | undefined = undefined,
 >(
   client: ClientWithEns,
   {
@@ -490,10 +856,32 @@ const getRecords = generateFunction({ encode, decode }) as (<
     coins,
     contentHash,
     abi,
+    pubkey,
+    interfaces,
+    evmFallback,
     resolver,
     gatewayUrls,
-  }: GetRecordsParameters<TTexts, TCoins, TContentHash, TAbi>,
-) => Promise<GetRecordsReturnType<TTexts, TCoins, TContentHash, TAbi>>) &
+    detailed,
+  }: GetRecordsParameters<
+    TTexts,
+    TCoins,
+    TContentHash,
+    TAbi,
+    TPubkey,
+    TInterfaces,
+    TDetailed
+  >,
+) => Promise<
+  GetRecordsReturnType<
+    TTexts,
+    TCoins,
+    TContentHash,
+    TAbi,
+    TPubkey,
+    TInterfaces,
+    TDetailed
+  >
+>) &
   BatchableFunctionObject
 
 export default getRecords
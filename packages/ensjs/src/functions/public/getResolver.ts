@@ -11,6 +11,7 @@ import type { ClientWithEns } from '../../contracts/consts.js'
 import { getChainContractAddress } from '../../contracts/getChainContractAddress.js'
 import { universalResolverFindResolverSnippet } from '../../contracts/universalResolver.js'
 import type {
+  BlockParameters,
   GenericPassthrough,
   TransactionRequestWithPassthrough,
 } from '../../types.js'
@@ -21,7 +22,7 @@ import {
 } from '../../utils/generateFunction.js'
 import { packetToBytes } from '../../utils/hexEncodedName.js'
 
-export type GetResolverParameters = {
+export type GetResolverParameters = BlockParameters & {
   /** Name to get resolver for */
   name: string
 }
@@ -92,7 +93,11 @@ type BatchableFunctionObject = GeneratedFunction<typeof encode, typeof decode>
  * const result = await getResolver(client, { name: 'ens.eth' })
  * // 0x4976fb03C32e5B8cfe2b6cCB31c09Ba78EBaBa41
  */
-const getResolver = generateFunction({ encode, decode }) as ((
+const getResolver = generateFunction({
+  name: 'getResolver',
+  encode,
+  decode,
+}) as ((
   client: ClientWithEns,
   { name }: GetResolverParameters,
 ) => Promise<GetResolverReturnType>) &
@@ -0,0 +1,25 @@
+import type { Address } from 'viem'
+import { beforeAll, describe, expect, it } from 'vitest'
+import { publicClient, walletClient } from '../../test/addTestContracts.js'
+import getResolver from './getResolver.js'
+import getResolverApprovals from './getResolverApprovals.js'
+
+let accounts: Address[]
+
+beforeAll(async () => {
+  accounts = await walletClient.getAddresses()
+})
+
+describe('getResolverApprovals()', () => {
+  it('should return no approvals for an unapproved delegate', async () => {
+    const result = await getResolverApprovals(publicClient, {
+      name: 'test123.eth',
+      resolverAddress: (await getResolver(publicClient, {
+        name: 'test123.eth',
+      }))!,
+      owner: accounts[1],
+      delegate: accounts[2],
+    })
+    expect(result).toEqual({ approvedForName: false, approvedForAll: false })
+  })
+})
@@ -0,0 +1,128 @@
+import {
+  BaseError,
+  decodeFunctionResult,
+  encodeFunctionData,
+  type Address,
+  type Hex,
+} from 'viem'
+import type { ClientWithEns } from '../../contracts/consts.js'
+import {
+  publicResolverIsApprovedForAllSnippet,
+  publicResolverIsApprovedForSnippet,
+} from '../../contracts/publicResolver.js'
+import type { BlockParameters, SimpleTransactionRequest } from '../../types.js'
+import {
+  generateFunction,
+  type GeneratedFunction,
+} from '../../utils/generateFunction.js'
+import { namehash } from '../../utils/normalise.js'
+import multicallWrapper from './multicallWrapper.js'
+
+export type GetResolverApprovalsParameters = BlockParameters & {
+  /** Name to check approvals for */
+  name: string
+  /** Resolver address to check approvals on */
+  resolverAddress: Address
+  /** Address that granted the approvals (the owner of the name) */
+  owner: Address
+  /** Address to check approvals for */
+  delegate: Address
+}
+
+export type GetResolverApprovalsReturnType = {
+  /** Whether the delegate is approved to set records for the name only */
+  approvedForName: boolean
+  /** Whether the delegate is approved to set records for all names of the owner */
+  approvedForAll: boolean
+}
+
+const encode = (
+  client: ClientWithEns,
+  { name, resolverAddress, owner, delegate }: GetResolverApprovalsParameters,
+): SimpleTransactionRequest => {
+  return multicallWrapper.encode(client, {
+    transactions: [
+      {
+        to: resolverAddress,
+        data: encodeFunctionData({
+          abi: publicResolverIsApprovedForSnippet,
+          functionName: 'isApprovedFor',
+          args: [owner, namehash(name), delegate],
+        }),
+      },
+      {
+        to: resolverAddress,
+        data: encodeFunctionData({
+          abi: publicResolverIsApprovedForAllSnippet,
+          functionName: 'isApprovedForAll',
+          args: [owner, delegate],
+        }),
+      },
+    ],
+  })
+}
+
+const decode = async (
+  client: ClientWithEns,
+  data: Hex | BaseError,
+): Promise<GetResolverApprovalsReturnType> => {
+  if (typeof data === 'object') throw data
+  const [approvedForNameResult, approvedForAllResult] =
+    await multicallWrapper.decode(client, data, [])
+
+  // resolvers without delegation support will revert, which is the same as no approval
+  return {
+    approvedForName:
+      approvedForNameResult.success &&
+      decodeFunctionResult({
+        abi: publicResolverIsApprovedForSnippet,
+        functionName: 'isApprovedFor',
+        data: approvedForNameResult.returnData,
+      }),
+    approvedForAll:
+      approvedForAllResult.success &&
+      decodeFunctionResult({
+        abi: publicResolverIsApprovedForAllSnippet,
+        functionName: 'isApprovedForAll',
+        data: approvedForAllResult.returnData,
+      }),
+  }
+}
+
+type BatchableFunctionObject = GeneratedFunction<typeof encode, typeof decode>
+
+/**
+ * Gets the record delegation approvals for an address on a resolver
+ * @param client - {@link ClientWithEns}
+ * @param parameters - {@link GetResolverApprovalsParameters}
+ * @returns Approvals object. {@link GetResolverApprovalsReturnType}
+ *
+ * @example
+ * import { createPublicClient, http } from 'viem'
+ * import { mainnet } from 'viem/chains'
+ * import { addEnsContracts } from '@ensdomains/ensjs'
+ * import { getResolverApprovals } from '@ensdomains/ensjs/public'
+ *
+ * const client = createPublicClient({
+ *   chain: addEnsContracts(mainnet),
+ *   transport: http(),
+ * })
+ * const result = await getResolverApprovals(client, {
+ *   name: 'ens.eth',
+ *   resolverAddress: '0x231b0Ee14048e9dCcD1d247744d114a4EB5E8E63',
+ *   owner: '0xb8c2C29ee19D8307cb7255e1Cd9CbDE883A267d5',
+ *   delegate: '0x983110309620D911731Ac0932219af06091b6744',
+ * })
+ * // { approvedForName: false, approvedForAll: false }
+ */
+const getResolverApprovals = generateFunction({
+  name: 'getResolverApprovals',
+  encode,
+  decode,
+}) as ((
+  client: ClientWithEns,
+  { name, resolverAddress, owner, delegate }: GetResolverApprovalsParameters,
+) => Promise<GetResolverApprovalsReturnType>) &
+  BatchableFunctionObject
+
+export default getResolverApprovals
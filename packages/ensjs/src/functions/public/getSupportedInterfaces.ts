@@ -8,6 +8,7 @@ import {
 import type { ClientWithEns } from '../../contracts/consts.js'
 import { erc165SupportsInterfaceSnippet } from '../../contracts/erc165.js'
 import type {
+  BlockParameters,
   SimpleTransactionRequest,
   TransactionRequestWithPassthrough,
 } from '../../types.js'
@@ -16,7 +17,7 @@ import multicallWrapper from './multicallWrapper.js'
 
 export type GetSupportedInterfacesParameters<
   TInterfaces extends readonly Hex[],
-> = {
+> = BlockParameters & {
   address: Address
   interfaces: TInterfaces
 }
@@ -103,9 +104,11 @@ type BatchableFunctionObject = {
  * })
  * // [true, false]
  */
-const getSupportedInterfaces = generateFunction({ encode, decode }) as (<
-  const TInterfaces extends readonly Hex[],
->(
+const getSupportedInterfaces = generateFunction({
+  name: 'getSupportedInterfaces',
+  encode,
+  decode,
+}) as (<const TInterfaces extends readonly Hex[]>(
   client: ClientWithEns,
   { address, interfaces }: GetSupportedInterfacesParameters<TInterfaces>,
 ) => Promise<GetSupportedInterfacesReturnType<TInterfaces>>) &
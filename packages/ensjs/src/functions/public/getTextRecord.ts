@@ -1,6 +1,7 @@
 import type { BaseError, Hex } from 'viem'
 import type { ClientWithEns } from '../../contracts/consts.js'
 import type {
+  BlockParameters,
   GenericPassthrough,
   Prettify,
   SimpleTransactionRequest,
@@ -16,10 +17,11 @@ import _getText, {
 import universalWrapper from './universalWrapper.js'
 
 export type GetTextRecordParameters = Prettify<
-  InternalGetTextParameters & {
-    /** Batch gateway URLs to use for resolving CCIP-read requests. */
-    gatewayUrls?: string[]
-  }
+  InternalGetTextParameters &
+    BlockParameters & {
+      /** Batch gateway URLs to use for resolving CCIP-read requests. */
+      gatewayUrls?: string[]
+    }
 >
 
 export type GetTextRecordReturnType = Prettify<InternalGetTextReturnType>
@@ -74,7 +76,11 @@ type BatchableFunctionObject = GeneratedFunction<typeof encode, typeof decode>
  * const result = await getTextRecord(client, { name: 'ens.eth', key: 'com.twitter' })
  * // ensdomains
  */
-const getTextRecord = generateFunction({ encode, decode }) as ((
+const getTextRecord = generateFunction({
+  name: 'getTextRecord',
+  encode,
+  decode,
+}) as ((
   client: ClientWithEns,
   { name, key, strict, gatewayUrls }: GetTextRecordParameters,
 ) => Promise<GetTextRecordReturnType>) &
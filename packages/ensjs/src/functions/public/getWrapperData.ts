@@ -10,6 +10,7 @@ import type { ClientWithEns } from '../../contracts/consts.js'
 import { getChainContractAddress } from '../../contracts/getChainContractAddress.js'
 import { nameWrapperGetDataSnippet } from '../../contracts/nameWrapper.js'
 import type {
+  BlockParameters,
   DateWithValue,
   GenericPassthrough,
   Prettify,
@@ -24,7 +25,7 @@ import {
 import { makeSafeSecondsDate } from '../../utils/makeSafeSecondsDate.js'
 import { namehash } from '../../utils/normalise.js'
 
-export type GetWrapperDataParameters = {
+export type GetWrapperDataParameters = BlockParameters & {
   /** Name to get wrapper data for */
   name: string
 }
@@ -120,7 +121,11 @@ type BatchableFunctionObject = GeneratedFunction<typeof encode, typeof decode>
  * })
  * const result = await getWrapperData(client, { name: 'ilikelasagna.eth' })
  */
-const getWrapperData = generateFunction({ encode, decode }) as ((
+const getWrapperData = generateFunction({
+  name: 'getWrapperData',
+  encode,
+  decode,
+}) as ((
   client: ClientWithEns,
   { name }: GetWrapperDataParameters,
 ) => Promise<GetWrapperDataReturnType>) &
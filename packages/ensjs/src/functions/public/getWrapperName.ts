@@ -10,6 +10,7 @@ import type { ClientWithEns } from '../../contracts/consts.js'
 import { getChainContractAddress } from '../../contracts/getChainContractAddress.js'
 import { nameWrapperNamesSnippet } from '../../contracts/nameWrapper.js'
 import type {
+  BlockParameters,
   GenericPassthrough,
   TransactionRequestWithPassthrough,
 } from '../../types.js'
@@ -20,7 +21,7 @@ import {
 import { bytesToPacket } from '../../utils/hexEncodedName.js'
 import { namehash } from '../../utils/normalise.js'
 
-export type GetWrapperNameParameters = {
+export type GetWrapperNameParameters = BlockParameters & {
   /** Name with unknown labels, e.g. "[4ca938ec1b323ca71c4fb47a712abb68cce1cabf39ea4d6789e42fbc1f95459b].eth" */
   name: string
 }
@@ -89,7 +90,11 @@ type BatchableFunctionObject = GeneratedFunction<typeof encode, typeof decode>
  * const result = await getWrapperName(client, { name: '[4ca938ec1b323ca71c4fb47a712abb68cce1cabf39ea4d6789e42fbc1f95459b].eth' })
  * // wrapped.eth
  */
-const getWrapperName = generateFunction({ encode, decode }) as ((
+const getWrapperName = generateFunction({
+  name: 'getWrapperName',
+  encode,
+  decode,
+}) as ((
   client: ClientWithEns,
   { name }: GetWrapperNameParameters,
 ) => Promise<GetWrapperNameReturnType>) &
@@ -0,0 +1,18 @@
+import { describe, expect, it } from 'vitest'
+import { publicClient } from '../../test/addTestContracts.js'
+import getZonehashRecord from './getZonehashRecord.js'
+
+describe('getZonehashRecord', () => {
+  it('should return null for a non-existent name', async () => {
+    const result = await getZonehashRecord(publicClient, {
+      name: 'test123123cool.eth',
+    })
+    expect(result).toBeNull()
+  })
+  it('should return null for a name with no zonehash record', async () => {
+    const result = await getZonehashRecord(publicClient, {
+      name: 'with-profile.eth',
+    })
+    expect(result).toBeNull()
+  })
+})
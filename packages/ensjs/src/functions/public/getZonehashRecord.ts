@@ -0,0 +1,90 @@
+import type { BaseError, Hex } from 'viem'
+import type { ClientWithEns } from '../../contracts/consts.js'
+import type {
+  BlockParameters,
+  GenericPassthrough,
+  Prettify,
+  TransactionRequestWithPassthrough,
+} from '../../types.js'
+import {
+  generateFunction,
+  type GeneratedFunction,
+} from '../../utils/generateFunction.js'
+import _getZonehash, {
+  type InternalGetZonehashParameters,
+  type InternalGetZonehashReturnType,
+} from './_getZonehash.js'
+import universalWrapper from './universalWrapper.js'
+
+export type GetZonehashRecordParameters = Prettify<
+  InternalGetZonehashParameters &
+    BlockParameters & {
+      /** Batch gateway URLs to use for resolving CCIP-read requests. */
+      gatewayUrls?: string[]
+    }
+>
+
+export type GetZonehashRecordReturnType =
+  Prettify<InternalGetZonehashReturnType>
+
+const encode = (
+  client: ClientWithEns,
+  { name, gatewayUrls }: Omit<GetZonehashRecordParameters, 'strict'>,
+): TransactionRequestWithPassthrough => {
+  const prData = _getZonehash.encode(client, { name })
+  return universalWrapper.encode(client, {
+    name,
+    data: prData.data,
+    gatewayUrls,
+  })
+}
+
+const decode = async (
+  client: ClientWithEns,
+  data: Hex | BaseError,
+  passthrough: GenericPassthrough,
+  {
+    strict,
+    gatewayUrls,
+  }: Pick<GetZonehashRecordParameters, 'strict' | 'gatewayUrls'>,
+): Promise<GetZonehashRecordReturnType> => {
+  const urData = await universalWrapper.decode(client, data, passthrough, {
+    strict,
+    gatewayUrls,
+  })
+  if (!urData) return null
+  return _getZonehash.decode(client, urData.data, { strict })
+}
+
+type BatchableFunctionObject = GeneratedFunction<typeof encode, typeof decode>
+
+/**
+ * Gets the zonehash record for a name
+ * @param client - {@link ClientWithEns}
+ * @param parameters - {@link GetZonehashRecordParameters}
+ * @returns Zonehash object, or `null` if not found. {@link GetZonehashRecordReturnType}
+ *
+ * @example
+ * import { createPublicClient, http } from 'viem'
+ * import { mainnet } from 'viem/chains'
+ * import { addEnsContracts } from '@ensdomains/ensjs'
+ * import { getZonehashRecord } from '@ensdomains/ensjs/public'
+ *
+ * const client = createPublicClient({
+ *   chain: addEnsContracts(mainnet),
+ *   transport: http(),
+ * })
+ * const result = await getZonehashRecord(client, { name: 'example.eth' })
+ * // { protocolType: 'ipns', decoded: 'k51qzi5uqu5djdczd6zw0grmo23j2vkj9uzvujencg15s5rlkq0ss4ivll8wqw' }
+ */
+const getZonehashRecord = generateFunction({
+  name: 'getZonehashRecord',
+  encode,
+  decode,
+}) as ((
+  client: ClientWithEns,
+  { name, strict, gatewayUrls }: GetZonehashRecordParameters,
+) => Promise<GetZonehashRecordReturnType>) &
+  BatchableFunctionObject
+
+export default getZonehashRecord
@@ -6,19 +6,31 @@ import {
   offchainLookup,
   type Hex,
 } from 'viem'
+import { getBlock, getBlockNumber } from 'viem/actions'
 import type { ClientWithEns } from '../../contracts/consts.js'
 import { getChainContractAddress } from '../../contracts/getChainContractAddress.js'
 import { multicallTryAggregateSnippet } from '../../contracts/multicall.js'
 import type {
+  BlockParameters,
   SimpleTransactionRequest,
   TransactionRequestWithPassthrough,
 } from '../../types.js'
-import { generateFunction } from '../../utils/generateFunction.js'
+import {
+  generateFunction,
+  getBlockParameters,
+} from '../../utils/generateFunction.js'
+import {
+  chunkTransactions,
+  mapWithConcurrency,
+  type ChunkableTransactionRequest,
+  type MulticallChunkParameters,
+} from '../../utils/multicallChunks.js'
 
-export type MulticallWrapperParameters = {
-  transactions: SimpleTransactionRequest[]
-  requireSuccess?: boolean
-}
+export type MulticallWrapperParameters = BlockParameters &
+  MulticallChunkParameters & {
+    transactions: ChunkableTransactionRequest[]
+    requireSuccess?: boolean
+  }
 
 export type MulticallWrapperReturnType = {
   success: boolean
@@ -46,6 +58,7 @@ const decode = async (
   client: ClientWithEns,
   data: Hex | BaseError,
   transactions: TransactionRequestWithPassthrough[],
+  blockParameters: BlockParameters = {},
 ): Promise<MulticallWrapperReturnType> => {
   if (typeof data === 'object') {
     throw getContractError(data, {
@@ -68,7 +81,9 @@ const decode = async (
       // OffchainLookup(address,string[],bytes,bytes4,bytes)
       if (!success && returnData.startsWith('0x556f1830')) {
         try {
+          // the callback is read at the same block as the multicall
           const newData = await offchainLookup(client, {
+            ...getBlockParameters(blockParameters),
             to: transactions[i].to!,
             data: returnData,
           })
@@ -83,6 +98,67 @@ const decode = async (
   return ccipChecked
 }
 
-const multicallWrapper = generateFunction({ encode, decode })
+// the transactions are passed through so that offchain lookups can be sent to the right contract
+const multicallWrapperSingle = generateFunction({
+  encode: (
+    client: ClientWithEns,
+    parameters: MulticallWrapperParameters,
+  ): TransactionRequestWithPassthrough => ({
+    ...encode(client, parameters),
+    passthrough: parameters.transactions,
+  }),
+  decode,
+})
+
+/**
+ * Gets the block to read chunks at, so that results from all chunks are consistent
+ * @param client - {@link ClientWithEns}
+ * @param parameters - {@link BlockParameters}
+ * @returns Block parameters to use for every chunk
+ */
+export const getChunkBlockParameters = async (
+  client: ClientWithEns,
+  parameters: BlockParameters,
+): Promise<{ blockNumber: bigint }> => {
+  const { blockNumber, blockTag } = getBlockParameters(parameters)
+  if (blockNumber !== undefined) return { blockNumber }
+  // tags are resolved to a block number, so that every chunk reads the same block
+  if (blockTag !== undefined) {
+    const block = await getBlock(client, { blockTag })
+    // pending blocks have no number, so are read at the latest block
+    if (block.number !== null) return { blockNumber: block.number }
+  }
+  return {
+    blockNumber: await getBlockNumber(client, { cacheTime: 0 }),
+  }
+}
+
+// calls that don't fit into a single multicall are split into chunks, which are read at the same block
+const multicallWrapper = Object.assign(
+  async (
+    client: ClientWithEns,
+    { concurrency = 4, ...parameters }: MulticallWrapperParameters,
+  ) => {
+    const chunks = chunkTransactions(parameters.transactions, parameters)
+    if (chunks.length <= 1) return multicallWrapperSingle(client, parameters)
+    const blockParameters = await getChunkBlockParameters(client, parameters)
+    const results = await mapWithConcurrency(
+      chunks,
+      concurrency,
+      (transactions) =>
+        multicallWrapperSingle(client, {
+          ...parameters,
+          ...blockParameters,
+          transactions,
+        }),
+    )
+    return results.flat() as MulticallWrapperReturnType
+  },
+  {
+    encode,
+    decode,
+    batch: multicallWrapperSingle.batch,
+  },
+) as typeof multicallWrapperSingle
 
 export default multicallWrapper
@@ -15,6 +15,7 @@ import {
   universalResolverResolveWithGatewaysSnippet,
 } from '../../contracts/universalResolver.js'
 import type {
+  BlockParameters,
   GenericPassthrough,
   TransactionRequestWithPassthrough,
 } from '../../types.js'
@@ -23,7 +24,7 @@ import { generateFunction } from '../../utils/generateFunction.js'
 import { packetToBytes } from '../../utils/hexEncodedName.js'
 import { encodeLabelhash } from '../../utils/labels.js'
 
-export type UniversalWrapperParameters = {
+export type UniversalWrapperParameters = BlockParameters & {
   name: string
   data: Hex
   strict?: boolean
@@ -57,7 +58,7 @@ const encode = (
 
   return {
     to,
-    ...(gatewayUrls?.length
+    ...(gatewayUrls
       ? {
           data: encodeFunctionData({
             abi: universalResolverResolveWithGatewaysSnippet,
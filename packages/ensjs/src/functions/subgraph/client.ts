@@ -4,6 +4,7 @@ import { GraphQLClient } from 'graphql-request'
 import { parse, print, visit } from 'graphql/language/index.js'
 import traverse from 'traverse'
 import type { ClientWithEns } from '../../contracts/consts.js'
+import { NoSubgraphUrlError } from '../../errors/contracts.js'
 import { namehash } from '../../utils/normalise.js'
 
 const generateSelection = (selection: string): SelectionNode => ({
@@ -83,8 +84,11 @@ export const responseMiddleware: ResponseMiddleware = (response) => {
   })
 }
 
-export const createSubgraphClient = ({ client }: { client: ClientWithEns }) =>
-  new GraphQLClient(client.chain.subgraphs.ens.url, {
+export const createSubgraphClient = ({ client }: { client: ClientWithEns }) => {
+  if (!client.chain.subgraphs?.ens?.url)
+    throw new NoSubgraphUrlError({ chainId: client.chain.id })
+  return new GraphQLClient(client.chain.subgraphs.ens.url, {
     requestMiddleware,
     responseMiddleware,
   })
+}
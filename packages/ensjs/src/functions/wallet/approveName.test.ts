@@ -0,0 +1,70 @@
+import type { Address, Hex } from 'viem'
+import { afterEach, beforeAll, beforeEach, expect, it } from 'vitest'
+import {
+  publicClient,
+  testClient,
+  waitForTransaction,
+  walletClient,
+} from '../../test/addTestContracts.js'
+import getApproved from '../public/getApproved.js'
+import approveName from './approveName.js'
+
+let snapshot: Hex
+let accounts: Address[]
+
+beforeAll(async () => {
+  accounts = await walletClient.getAddresses()
+})
+
+beforeEach(async () => {
+  snapshot = await testClient.snapshot()
+})
+
+afterEach(async () => {
+  await testClient.revert({ id: snapshot })
+})
+
+it('should return an approve transaction to the registrar and succeed', async () => {
+  const tx = await approveName(walletClient, {
+    name: 'test123.eth',
+    contract: 'registrar',
+    approvedAddress: accounts[2],
+    account: accounts[1],
+  })
+  expect(tx).toBeTruthy()
+  const receipt = await waitForTransaction(tx)
+  expect(receipt.status).toBe('success')
+
+  const approved = await getApproved(publicClient, {
+    name: 'test123.eth',
+    contract: 'registrar',
+  })
+  expect(approved).toBe(accounts[2])
+})
+it('should return an approve transaction to the namewrapper and succeed', async () => {
+  const tx = await approveName(walletClient, {
+    name: 'wrapped.eth',
+    contract: 'nameWrapper',
+    approvedAddress: accounts[2],
+    account: accounts[1],
+  })
+  expect(tx).toBeTruthy()
+  const receipt = await waitForTransaction(tx)
+  expect(receipt.status).toBe('success')
+
+  const approved = await getApproved(publicClient, {
+    name: 'wrapped.eth',
+    contract: 'nameWrapper',
+  })
+  expect(approved).toBe(accounts[2])
+})
+it('should error if the name is not an eth 2ld on the registrar', async () => {
+  await expect(
+    approveName(walletClient, {
+      name: 'test.wrapped-with-subnames.eth',
+      contract: 'registrar',
+      approvedAddress: accounts[2],
+      account: accounts[1],
+    }),
+  ).rejects.toThrow('Unsupported name type: eth-subname')
+})
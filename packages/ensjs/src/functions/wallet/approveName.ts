@@ -0,0 +1,144 @@
+import {
+  encodeFunctionData,
+  labelhash,
+  type Account,
+  type Address,
+  type Hash,
+  type SendTransactionParameters,
+  type Transport,
+} from 'viem'
+import { baseRegistrarApproveSnippet } from '../../contracts/baseRegistrar.js'
+import type { ChainWithEns, ClientWithAccount } from '../../contracts/consts.js'
+import { getChainContractAddress } from '../../contracts/getChainContractAddress.js'
+import { nameWrapperApproveSnippet } from '../../contracts/nameWrapper.js'
+import {
+  InvalidContractTypeError,
+  UnsupportedNameTypeError,
+} from '../../errors/general.js'
+import type {
+  Prettify,
+  SimpleTransactionRequest,
+  WriteTransactionParameters,
+} from '../../types.js'
+import { getNameType } from '../../utils/getNameType.js'
+import { namehash } from '../../utils/normalise.js'
+import { sendTransaction } from '../../utils/sendTransaction.js'
+
+export type ApproveNameDataParameters = {
+  /** Name to set approval for */
+  name: string
+  /** Contract to set approval on */
+  contract: 'registrar' | 'nameWrapper'
+  /** Address to approve, or the zero address to revoke approval */
+  approvedAddress: Address
+}
+
+export type ApproveNameDataReturnType = SimpleTransactionRequest
+
+export type ApproveNameParameters<
+  TChain extends ChainWithEns,
+  TAccount extends Account | undefined,
+  TChainOverride extends ChainWithEns | undefined,
+> = Prettify<
+  ApproveNameDataParameters &
+    WriteTransactionParameters<TChain, TAccount, TChainOverride>
+>
+
+export type ApproveNameReturnType = Hash
+
+export const makeFunctionData = <
+  TChain extends ChainWithEns,
+  TAccount extends Account | undefined,
+>(
+  wallet: ClientWithAccount<Transport, TChain, TAccount>,
+  { name, contract, approvedAddress }: ApproveNameDataParameters,
+): ApproveNameDataReturnType => {
+  switch (contract) {
+    case 'registrar': {
+      const nameType = getNameType(name)
+      if (nameType !== 'eth-2ld')
+        throw new UnsupportedNameTypeError({
+          nameType,
+          supportedNameTypes: ['eth-2ld'],
+          details: 'Only eth-2ld names can be approved on the registrar',
+        })
+      return {
+        to: getChainContractAddress({
+          client: wallet,
+          contract: 'ensBaseRegistrarImplementation',
+        }),
+        data: encodeFunctionData({
+          abi: baseRegistrarApproveSnippet,
+          functionName: 'approve',
+          args: [approvedAddress, BigInt(labelhash(name.split('.')[0]))],
+        }),
+      }
+    }
+    case 'nameWrapper':
+      return {
+        to: getChainContractAddress({
+          client: wallet,
+          contract: 'ensNameWrapper',
+        }),
+        data: encodeFunctionData({
+          abi: nameWrapperApproveSnippet,
+          functionName: 'approve',
+          args: [approvedAddress, BigInt(namehash(name))],
+        }),
+      }
+    default:
+      throw new InvalidContractTypeError({
+        contractType: contract,
+        supportedContractTypes: ['registrar', 'nameWrapper'],
+      })
+  }
+}
+
+/**
+ * Approves an address to manage a single name on the registrar or NameWrapper.
+ * On the NameWrapper, the approved address can extend the expiry of subnames of the name.
+ * @param wallet - {@link ClientWithAccount}
+ * @param parameters - {@link ApproveNameParameters}
+ * @returns Transaction hash. {@link ApproveNameReturnType}
+ *
+ * @example
+ * import { createWalletClient, custom } from 'viem'
+ * import { mainnet } from 'viem/chains'
+ * import { addEnsContracts } from '@ensdomains/ensjs'
+ * import { approveName } from '@ensdomains/ensjs/wallet'
+ *
+ * const wallet = createWalletClient({
+ *   chain: addEnsContracts(mainnet),
+ *   transport: custom(window.ethereum),
+ * })
+ * const hash = await approveName(wallet, {
+ *   name: 'ens.eth',
+ *   contract: 'nameWrapper',
+ *   approvedAddress: '0x983110309620D911731Ac0932219af06091b6744',
+ * })
+ * // 0x...
+ */
+async function approveName<
+  TChain extends ChainWithEns,
+  TAccount extends Account | undefined,
+  TChainOverride extends ChainWithEns | undefined = ChainWithEns,
+>(
+  wallet: ClientWithAccount<Transport, TChain, TAccount>,
+  {
+    name,
+    contract,
+    approvedAddress,
+    ...txArgs
+  }: ApproveNameParameters<TChain, TAccount, TChainOverride>,
+): Promise<ApproveNameReturnType> {
+  const data = makeFunctionData(wallet, { name, contract, approvedAddress })
+  const writeArgs = {
+    ...data,
+    ...txArgs,
+  } as SendTransactionParameters<TChain, TAccount, TChainOverride>
+  return sendTransaction(wallet, writeArgs)
+}
+
+approveName.makeFunctionData = makeFunctionData
+
+export default approveName
@@ -5,7 +5,6 @@ import type {
   SendTransactionParameters,
   Transport,
 } from 'viem'
-import { sendTransaction } from 'viem/actions'
 import type { ChainWithEns, ClientWithAccount } from '../../contracts/consts.js'
 import type {
   Prettify,
@@ -14,6 +13,7 @@ import type {
 } from '../../types.js'
 import { encodeClearRecords } from '../../utils/encoders/encodeClearRecords.js'
 import { namehash } from '../../utils/normalise.js'
+import { sendTransaction } from '../../utils/sendTransaction.js'
 
 export type ClearRecordsDataParameters = {
   /** The name to clear records for */
@@ -0,0 +1,162 @@
+import type { Address, Hex } from 'viem'
+import { afterEach, beforeAll, beforeEach, expect, it } from 'vitest'
+import {
+  deploymentAddresses,
+  publicClient,
+  testClient,
+  walletClient,
+} from '../../test/addTestContracts.js'
+import getOwner from '../public/getOwner.js'
+import createRegistrationSession, {
+  type RegistrationSessionEvent,
+} from './createRegistrationSession.js'
+
+let snapshot: Hex
+let accounts: Address[]
+
+beforeAll(async () => {
+  accounts = await walletClient.getAddresses()
+})
+
+beforeEach(async () => {
+  snapshot = await testClient.snapshot()
+})
+
+afterEach(async () => {
+  await testClient.revert({ id: snapshot })
+})
+
+it('should commit and register a name', async () => {
+  const events: RegistrationSessionEvent['step'][] = []
+  const session = createRegistrationSession(walletClient, {
+    params: {
+      name: 'cool-swag.eth',
+      duration: 31536000,
+      owner: accounts[1],
+    },
+    account: accounts[1],
+    onProgress: ({ step }) => events.push(step),
+  })
+
+  await session.commit()
+  expect(session.state.status).toBe('committed')
+  expect(session.state.commitTimestamp).toBeGreaterThan(0)
+
+  await testClient.increaseTime({ seconds: 61 })
+  await testClient.mine({ blocks: 1 })
+
+  const hash = await session.run()
+  expect(hash).toBe(session.state.registerHash)
+  expect(session.state.status).toBe('registered')
+  expect(events).toEqual([
+    'commitSent',
+    'committed',
+    'registerSent',
+    'registered',
+  ])
+
+  const owner = await getOwner(publicClient, { name: 'cool-swag.eth' })
+  expect(owner!.owner).toBe(accounts[1])
+})
+it('should resume a serialized session', async () => {
+  const session = createRegistrationSession(walletClient, {
+    params: {
+      name: 'cool-swag.eth',
+      duration: 31536000,
+      owner: accounts[1],
+    },
+    account: accounts[1],
+  })
+  await session.commit()
+
+  await testClient.increaseTime({ seconds: 61 })
+  await testClient.mine({ blocks: 1 })
+
+  const resumed = createRegistrationSession(walletClient, {
+    state: session.serialize(),
+    account: accounts[1],
+  })
+  expect(resumed.state).toEqual(session.state)
+  await resumed.register()
+  expect(resumed.state.status).toBe('registered')
+})
+it('should error if registering before the commitment is valid', async () => {
+  const session = createRegistrationSession(walletClient, {
+    params: {
+      name: 'cool-swag.eth',
+      duration: 31536000,
+      owner: accounts[1],
+    },
+    account: accounts[1],
+  })
+  await session.commit()
+
+  await expect(session.register()).rejects.toThrow(
+    'Commitment is too new to register',
+  )
+})
+it('should error if the commitment is too old', async () => {
+  const session = createRegistrationSession(walletClient, {
+    params: {
+      name: 'cool-swag.eth',
+      duration: 31536000,
+      owner: accounts[1],
+    },
+    account: accounts[1],
+  })
+  await session.commit()
+
+  await testClient.increaseTime({ seconds: 86401 })
+  await testClient.mine({ blocks: 1 })
+
+  await expect(session.run()).rejects.toThrow(
+    'Commitment is too old to register',
+  )
+})
+it('should error if the name is not available', async () => {
+  const session = createRegistrationSession(walletClient, {
+    params: {
+      name: 'test123.eth',
+      duration: 31536000,
+      owner: accounts[1],
+    },
+    account: accounts[1],
+  })
+
+  await expect(session.run()).rejects.toThrow(
+    'Name is not available for registration: test123.eth',
+  )
+})
+it('should roll back to committed if the register transaction reverts', async () => {
+  const session = createRegistrationSession(walletClient, {
+    params: {
+      name: 'cool-swag.eth',
+      duration: 31536000,
+      owner: accounts[1],
+    },
+    account: accounts[1],
+  })
+  await session.commit()
+
+  // a call to an unknown function, with gas set so that it is sent despite reverting
+  const revertedHash = await walletClient.sendTransaction({
+    account: accounts[1],
+    to: deploymentAddresses.ETHRegistrarController,
+    data: '0xdeadbeef',
+    gas: 100000n,
+  })
+  const resumed = createRegistrationSession(walletClient, {
+    state: JSON.stringify({
+      ...session.state,
+      status: 'registerSent',
+      registerHash: revertedHash,
+    }),
+    account: accounts[1],
+  })
+
+  await expect(resumed.register()).rejects.toThrow(
+    'Transaction for register reverted',
+  )
+  expect(resumed.state.status).toBe('committed')
+  expect(resumed.state.registerHash).toBeUndefined()
+})
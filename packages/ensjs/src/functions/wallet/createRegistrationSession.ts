@@ -0,0 +1,287 @@
+import type { Account, Hash, Hex, Transport } from 'viem'
+import { waitForTransactionReceipt } from 'viem/actions'
+import type { ChainWithEns, ClientWithAccount } from '../../contracts/consts.js'
+import {
+  CommitmentNotFoundError,
+  CommitmentTooNewError,
+  CommitmentTooOldError,
+  RegistrationNameNotAvailableError,
+  TransactionRevertedError,
+} from '../../errors/wallet.js'
+import type { Prettify, WriteTransactionParameters } from '../../types.js'
+import {
+  makeCommitment,
+  randomSecret,
+  type RegistrationParameters,
+} from '../../utils/registerHelpers.js'
+import getAvailable from '../public/getAvailable.js'
+import getCommitment from '../public/getCommitment.js'
+import getPrice from '../public/getPrice.js'
+import commitName from './commitName.js'
+import registerName from './registerName.js'
+
+export type RegistrationSessionStatus =
+  | 'created'
+  | 'commitSent'
+  | 'committed'
+  | 'registerSent'
+  | 'registered'
+
+export type RegistrationSessionState = {
+  /** Registration parameters, including the secret */
+  params: RegistrationParameters
+  /** Current status of the session */
+  status: RegistrationSessionStatus
+  /** Hash of the commit transaction */
+  commitHash?: Hash
+  /** Block timestamp of the commitment (in seconds) */
+  commitTimestamp?: number
+  /** Hash of the register transaction */
+  registerHash?: Hash
+}
+
+export type RegistrationSessionEvent = {
+  /** Step that has been reached */
+  step: Exclude<RegistrationSessionStatus, 'created'> | 'waitingForCommitment'
+  /** Seconds remaining until the commitment is valid, for the `waitingForCommitment` step */
+  secondsRemaining?: number
+  /** State of the session, which can be persisted to resume from */
+  state: RegistrationSessionState
+}
+
+export type CreateRegistrationSessionParameters<
+  TChain extends ChainWithEns,
+  TAccount extends Account | undefined,
+  TChainOverride extends ChainWithEns | undefined,
+> = Prettify<
+  (
+    | {
+        /** Registration parameters, a secret is generated if not specified */
+        params: Prettify<
+          Omit<RegistrationParameters, 'secret'> & { secret?: Hex }
+        >
+        state?: never
+      }
+    | {
+        params?: never
+        /** Serialized state of a previous session to resume from */
+        state: string
+      }
+  ) &
+    Pick<
+      WriteTransactionParameters<TChain, TAccount, TChainOverride>,
+      'account'
+    > & {
+      /** Percentage to add to the price as a buffer for price fluctuations (default: 10) */
+      priceBufferPercentage?: number
+      /** Callback for progress events */
+      onProgress?: (event: RegistrationSessionEvent) => void
+    }
+>
+
+export type RegistrationSession = {
+  /** Current state of the session */
+  readonly state: RegistrationSessionState
+  /** Serializes the session state, to be resumed with `createRegistrationSession` */
+  serialize: () => string
+  /** Sends the commit transaction and waits for it to be confirmed */
+  commit: () => Promise<void>
+  /** Waits until the commitment is old enough to register */
+  waitForCommitment: () => Promise<void>
+  /** Sends the register transaction and waits for it to be confirmed */
+  register: () => Promise<Hash>
+  /** Runs all remaining steps of the registration */
+  run: () => Promise<Hash>
+}
+
+export type CreateRegistrationSessionReturnType = RegistrationSession
+
+/**
+ * Creates a resumable session for the commit-reveal registration of a name.
+ * @param wallet - {@link ClientWithAccount}
+ * @param parameters - {@link CreateRegistrationSessionParameters}
+ * @returns Registration session. {@link CreateRegistrationSessionReturnType}
+ *
+ * @example
+ * import { createWalletClient, custom } from 'viem'
+ * import { mainnet } from 'viem/chains'
+ * import { addEnsContracts } from '@ensdomains/ensjs'
+ * import { createRegistrationSession } from '@ensdomains/ensjs/wallet'
+ *
+ * const wallet = createWalletClient({
+ *   chain: addEnsContracts(mainnet),
+ *   transport: custom(window.ethereum),
+ * })
+ * const session = createRegistrationSession(wallet, {
+ *   params: {
+ *     name: 'example.eth',
+ *     owner: '0xFe89cc7aBB2C4183683ab71653C4cdc9B02D44b7',
+ *     duration: 31536000, // 1 year
+ *   },
+ *   onProgress: ({ state }) =>
+ *     localStorage.setItem('registration', JSON.stringify(state)),
+ * })
+ * const hash = await session.run()
+ * // 0x...
+ *
+ * // after a page reload
+ * const resumed = createRegistrationSession(wallet, {
+ *   state: localStorage.getItem('registration')!,
+ * })
+ * const resumedHash = await resumed.run()
+ */
+const createRegistrationSession = <
+  TChain extends ChainWithEns,
+  TAccount extends Account | undefined,
+  TChainOverride extends ChainWithEns | undefined = ChainWithEns,
+>(
+  wallet: ClientWithAccount<Transport, TChain, TAccount>,
+  {
+    params,
+    state: serializedState,
+    account,
+    priceBufferPercentage = 10,
+    onProgress,
+  }: CreateRegistrationSessionParameters<TChain, TAccount, TChainOverride>,
+): CreateRegistrationSessionReturnType => {
+  let state: RegistrationSessionState = serializedState
+    ? JSON.parse(serializedState)
+    : {
+        params: { ...params!, secret: params!.secret ?? randomSecret() },
+        status: 'created',
+      }
+
+  const client = wallet as ClientWithAccount<
+    Transport,
+    ChainWithEns,
+    Account | undefined
+  >
+  const txArgs = { account } as { account: Account }
+
+  const update = (
+    newState: Partial<RegistrationSessionState>,
+    event?: Omit<RegistrationSessionEvent, 'state'>,
+  ) => {
+    state = { ...state, ...newState }
+    if (event) onProgress?.({ ...event, state })
+  }
+
+  const checkAvailable = async () => {
+    const available = await getAvailable(client, { name: state.params.name })
+    if (!available)
+      throw new RegistrationNameNotAvailableError({ name: state.params.name })
+  }
+
+  const confirmCommit = async () => {
+    const hash = state.commitHash!
+    const receipt = await waitForTransactionReceipt(client, { hash })
+    // reverted transactions are rolled back, so that the session can be retried
+    if (receipt.status === 'reverted') {
+      update({ status: 'created', commitHash: undefined })
+      throw new TransactionRevertedError({ hash, action: 'commit' })
+    }
+    const commitment = makeCommitment(state.params)
+    const commitmentStatus = await getCommitment(client, { commitment })
+    if (!commitmentStatus) throw new CommitmentNotFoundError({ commitment })
+    update(
+      {
+        status: 'committed',
+        commitTimestamp: Number(commitmentStatus.timestamp.value),
+      },
+      { step: 'committed' },
+    )
+  }
+
+  const commit = async () => {
+    if (state.status === 'created') {
+      await checkAvailable()
+      const hash = await commitName(client, { ...state.params, ...txArgs })
+      update({ status: 'commitSent', commitHash: hash }, { step: 'commitSent' })
+    }
+    if (state.status === 'commitSent') await confirmCommit()
+  }
+
+  const waitForCommitment = async (): Promise<void> => {
+    const commitment = makeCommitment(state.params)
+    const commitmentStatus = await getCommitment(client, { commitment })
+    if (!commitmentStatus) throw new CommitmentNotFoundError({ commitment })
+    const { status, secondsRemaining } = commitmentStatus
+    if (status === 'expired') throw new CommitmentTooOldError({ commitment })
+    if (status === 'valid') return
+    update({}, { step: 'waitingForCommitment', secondsRemaining })
+    // block timestamps can lag behind, so wait at least one polling interval
+    await new Promise((resolve) => {
+      setTimeout(
+        resolve,
+        Math.max(secondsRemaining * 1000, wallet.pollingInterval),
+      )
+    })
+    return waitForCommitment()
+  }
+
+  const confirmRegister = async () => {
+    const hash = state.registerHash!
+    const receipt = await waitForTransactionReceipt(client, { hash })
+    if (receipt.status === 'reverted') {
+      update({ status: 'committed', registerHash: undefined })
+      throw new TransactionRevertedError({ hash, action: 'register' })
+    }
+    update({ status: 'registered' }, { step: 'registered' })
+    return hash
+  }
+
+  const register = async () => {
+    if (state.status === 'registered') return state.registerHash!
+    if (state.status === 'registerSent') return confirmRegister()
+
+    const commitment = makeCommitment(state.params)
+    const commitmentStatus = await getCommitment(client, { commitment })
+    if (!commitmentStatus) throw new CommitmentNotFoundError({ commitment })
+    if (commitmentStatus.status === 'tooNew')
+      throw new CommitmentTooNewError({
+        commitment,
+        secondsRemaining: commitmentStatus.secondsRemaining,
+      })
+    if (commitmentStatus.status === 'expired')
+      throw new CommitmentTooOldError({ commitment })
+
+    await checkAvailable()
+    const { base, premium } = await getPrice(client, {
+      nameOrNames: state.params.name,
+      duration: state.params.duration,
+    })
+    const value =
+      ((base + premium) * BigInt(100 + priceBufferPercentage)) / 100n
+
+    const hash = await registerName(client, {
+      ...state.params,
+      value,
+      ...txArgs,
+    })
+    update(
+      { status: 'registerSent', registerHash: hash },
+      { step: 'registerSent' },
+    )
+    return confirmRegister()
+  }
+
+  const run = async () => {
+    if (state.status === 'created' || state.status === 'commitSent')
+      await commit()
+    if (state.status === 'committed') await waitForCommitment()
+    return register()
+  }
+
+  return {
+    get state() {
+      return state
+    },
+    serialize: () => JSON.stringify(state),
+    commit,
+    waitForCommitment,
+    register,
+    run,
+  }
+}
+
+export default createRegistrationSession
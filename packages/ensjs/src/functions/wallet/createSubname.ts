@@ -6,7 +6,6 @@ import {
   type SendTransactionParameters,
   type Transport,
 } from 'viem'
-import { sendTransaction } from 'viem/actions'
 import type {
   ChainWithEns,
   ClientWithAccount,
@@ -32,6 +31,7 @@ import {
 } from '../../utils/fuses.js'
 import { getNameType } from '../../utils/getNameType.js'
 import { makeLabelNodeAndParent } from '../../utils/makeLabelNodeAndParent.js'
+import { sendTransaction } from '../../utils/sendTransaction.js'
 import {
   expiryToBigInt,
   wrappedLabelLengthCheck,
@@ -5,7 +5,6 @@ import {
   type SendTransactionParameters,
   type Transport,
 } from 'viem'
-import { sendTransaction } from 'viem/actions'
 import type { ChainWithEns, ClientWithAccount } from '../../contracts/consts.js'
 import { getChainContractAddress } from '../../contracts/getChainContractAddress.js'
 import {
@@ -29,6 +28,7 @@ import { EMPTY_ADDRESS } from '../../utils/consts.js'
 import { getNameType } from '../../utils/getNameType.js'
 import { makeLabelNodeAndParent } from '../../utils/makeLabelNodeAndParent.js'
 import { namehash } from '../../utils/normalise.js'
+import { sendTransaction } from '../../utils/sendTransaction.js'
 
 export type DeleteSubnameDataParameters = {
   /** Subname to delete */
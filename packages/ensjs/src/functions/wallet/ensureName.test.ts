@@ -0,0 +1,189 @@
+import type { Address, Hex } from 'viem'
+import { afterEach, beforeAll, beforeEach, expect, it } from 'vitest'
+import {
+  publicClient,
+  testClient,
+  waitForTransaction,
+  walletClient,
+} from '../../test/addTestContracts.js'
+import getName from '../public/getName.js'
+import getOwner from '../public/getOwner.js'
+import getResolver from '../public/getResolver.js'
+import getTextRecord from '../public/getTextRecord.js'
+import getWrapperData from '../public/getWrapperData.js'
+import ensureName, { type EnsureNameDesiredState } from './ensureName.js'
+import setFuses from './setFuses.js'
+
+let snapshot: Hex
+let accounts: Address[]
+
+beforeAll(async () => {
+  accounts = await walletClient.getAddresses()
+})
+
+beforeEach(async () => {
+  snapshot = await testClient.snapshot()
+})
+
+afterEach(async () => {
+  await testClient.revert({ id: snapshot })
+})
+
+it('should plan only the changed records in a dry run', async () => {
+  const { steps, hashes } = await ensureName(walletClient, {
+    name: 'test123.eth',
+    desired: {
+      records: { texts: [{ key: 'description', value: 'ensured' }] },
+    },
+    dryRun: true,
+    account: accounts[1],
+  })
+  expect(steps.map(({ action }) => action)).toEqual(['setRecords'])
+  expect(hashes).toEqual([])
+})
+
+it('should send the planned steps and plan nothing once the state is reached', async () => {
+  const desired: EnsureNameDesiredState = {
+    records: { texts: [{ key: 'description', value: 'ensured' }] },
+    fuses: { named: ['CANNOT_UNWRAP'] },
+  }
+  const { steps, hashes } = await ensureName(walletClient, {
+    name: 'test123.eth',
+    desired,
+    account: accounts[1],
+  })
+  expect(steps.map(({ action }) => action)).toEqual(['setRecords', 'wrapName'])
+  expect(hashes).toHaveLength(2)
+
+  const wrapperData = await getWrapperData(publicClient, {
+    name: 'test123.eth',
+  })
+  expect(wrapperData!.owner).toBe(accounts[1])
+  expect(wrapperData!.fuses.child.CANNOT_UNWRAP).toBe(true)
+  const text = await getTextRecord(publicClient, {
+    name: 'test123.eth',
+    key: 'description',
+  })
+  expect(text).toBe('ensured')
+
+  const { steps: nextSteps } = await ensureName(walletClient, {
+    name: 'test123.eth',
+    desired,
+    dryRun: true,
+    account: accounts[1],
+  })
+  expect(nextSteps).toEqual([])
+})
+
+it('should create a subname, set records, and transfer it last', async () => {
+  const { steps } = await ensureName(walletClient, {
+    name: 'ensure.wrapped.eth',
+    desired: {
+      owner: accounts[2],
+      records: { texts: [{ key: 'url', value: 'https://ens.domains' }] },
+    },
+    account: accounts[1],
+  })
+  expect(steps.map(({ action }) => action)).toEqual([
+    'createSubname',
+    'setRecords',
+    'transferName',
+  ])
+
+  const owner = await getOwner(publicClient, { name: 'ensure.wrapped.eth' })
+  expect(owner!.ownershipLevel).toBe('nameWrapper')
+  expect(owner!.owner).toBe(accounts[2])
+  const resolver = await getResolver(publicClient, {
+    name: 'ensure.wrapped.eth',
+  })
+  expect(resolver).toBeTruthy()
+})
+
+it('should unwrap a new subname of a wrapped name that should not be wrapped', async () => {
+  const { steps } = await ensureName(walletClient, {
+    name: 'unwrapped.wrapped.eth',
+    desired: { wrapped: false, owner: accounts[2] },
+    account: accounts[1],
+  })
+  expect(steps.map(({ action }) => action)).toEqual([
+    'createSubname',
+    'unwrapName',
+  ])
+
+  const owner = await getOwner(publicClient, { name: 'unwrapped.wrapped.eth' })
+  expect(owner!.ownershipLevel).toBe('registry')
+  expect(owner!.owner).toBe(accounts[2])
+})
+
+it('should set the ETH address of a name before setting it as the primary name', async () => {
+  const { steps } = await ensureName(walletClient, {
+    name: 'primary.wrapped.eth',
+    desired: { primaryName: true },
+    account: accounts[1],
+  })
+  expect(steps.map(({ action }) => action)).toEqual([
+    'createSubname',
+    'setRecords',
+    'setPrimaryName',
+  ])
+
+  const result = await getName(publicClient, { address: accounts[1] })
+  expect(result!.name).toBe('primary.wrapped.eth')
+  expect(result!.match).toBe(true)
+})
+
+it('should refuse to set the primary name if the ETH address is not the account', async () => {
+  await expect(
+    ensureName(walletClient, {
+      name: 'test123.eth',
+      desired: {
+        primaryName: true,
+        records: { coins: [{ coin: 'ETH', value: accounts[2] }] },
+      },
+      dryRun: true,
+      account: accounts[1],
+    }),
+  ).rejects.toThrow(
+    `Cannot plan setPrimaryName for test123.eth: the ETH address of test123.eth must be ${accounts[1]}`,
+  )
+})
+
+it('should refuse to transfer a name with CANNOT_TRANSFER burned', async () => {
+  const tx = await setFuses(walletClient, {
+    name: 'wrapped.eth',
+    fuses: { named: ['CANNOT_UNWRAP', 'CANNOT_TRANSFER'] },
+    account: accounts[1],
+  })
+  await waitForTransaction(tx)
+
+  await expect(
+    ensureName(walletClient, {
+      name: 'wrapped.eth',
+      desired: { owner: accounts[2] },
+      dryRun: true,
+      account: accounts[1],
+    }),
+  ).rejects.toThrow(
+    'Cannot plan transferName for wrapped.eth: CANNOT_TRANSFER is burned',
+  )
+})
+
+it('should refuse to burn fuses when CANNOT_BURN_FUSES is burned', async () => {
+  const tx = await setFuses(walletClient, {
+    name: 'wrapped.eth',
+    fuses: { named: ['CANNOT_UNWRAP', 'CANNOT_BURN_FUSES'] },
+    account: accounts[1],
+  })
+  await waitForTransaction(tx)
+
+  await expect(
+    ensureName(walletClient, {
+      name: 'wrapped.eth',
+      desired: { fuses: { named: ['CANNOT_UNWRAP', 'CANNOT_SET_TTL'] } },
+      dryRun: true,
+      account: accounts[1],
+    }),
+  ).rejects.toThrow(
+    'Cannot plan setFuses for wrapped.eth: CANNOT_BURN_FUSES is burned',
+  )
+})
@@ -0,0 +1,606 @@
+import {
+  bytesToHex,
+  isAddressEqual,
+  type Account,
+  type Address,
+  type Hash,
+  type Hex,
+  type SendTransactionParameters,
+  type Transport,
+} from 'viem'
+import { waitForTransactionReceipt } from 'viem/actions'
+import { parseAccount } from 'viem/utils'
+import type {
+  ChainWithEns,
+  ClientWithAccount,
+  ClientWithEns,
+} from '../../contracts/consts.js'
+import { getChainContractAddress } from '../../contracts/getChainContractAddress.js'
+import { UnsupportedNameTypeError } from '../../errors/general.js'
+import {
+  EnsureNamePlanError,
+  TransactionRevertedError,
+} from '../../errors/wallet.js'
+import type {
+  CoinInput,
+  Eth2ldName,
+  Prettify,
+  SimpleTransactionRequest,
+  WriteTransactionParameters,
+} from '../../types.js'
+import { EMPTY_ADDRESS } from '../../utils/consts.js'
+import { encodeContentHash } from '../../utils/contentHash.js'
+import {
+  ChildFuseKeys,
+  ChildFuses,
+  encodeFuses,
+  type EncodeChildFusesInputObject,
+} from '../../utils/fuses.js'
+import type { RecordOptions } from '../../utils/generateRecordCallArray.js'
+import { getNameType } from '../../utils/getNameType.js'
+import { getCoderFromCoin } from '../../utils/normaliseCoinId.js'
+import { withoutEnsReadCache } from '../../utils/readCache.js'
+import { sendTransaction } from '../../utils/sendTransaction.js'
+import getApprovedForAll from '../public/getApprovedForAll.js'
+import getName from '../public/getName.js'
+import getOwner from '../public/getOwner.js'
+import getRecords from '../public/getRecords.js'
+import getResolver from '../public/getResolver.js'
+import getWrapperData from '../public/getWrapperData.js'
+import createSubname from './createSubname.js'
+import setApprovalForAll from './setApprovalForAll.js'
+import setFuses from './setFuses.js'
+import setPrimaryName from './setPrimaryName.js'
+import setRecords from './setRecords.js'
+import setResolver from './setResolver.js'
+import transferName from './transferName.js'
+import unwrapName from './unwrapName.js'
+import wrapName from './wrapName.js'
+
+export type EnsureNameRecords = Pick<
+  RecordOptions,
+  'texts' | 'coins' | 'contentHash'
+>
+
+export type EnsureNameDesiredState = {
+  /** Owner of the name, the name is transferred to the owner last */
+  owner?: Address
+  /** Resolver address of the name */
+  resolverAddress?: Address
+  /** Records to set on the resolver, only records that differ from the current records are set */
+  records?: EnsureNameRecords
+  /** Whether the name should be wrapped, implied when fuses are specified */
+  wrapped?: boolean
+  /** Child fuses that should be burned */
+  fuses?: EncodeChildFusesInputObject
+  /** Whether the name should be the primary name of the account, which also sets its ETH address to the account */
+  primaryName?: boolean
+}
+
+export type EnsureNameAction =
+  | 'createSubname'
+  | 'setResolver'
+  | 'setRecords'
+  | 'setApprovalForAll'
+  | 'wrapName'
+  | 'unwrapName'
+  | 'setFuses'
+  | 'setPrimaryName'
+  | 'transferName'
+
+export type EnsureNameStep = {
+  /** Action the step performs */
+  action: EnsureNameAction
+  /** Readable description of the step */
+  description: string
+  /** Transaction for the step */
+  transaction: SimpleTransactionRequest
+}
+
+export type EnsureNameParameters<
+  TChain extends ChainWithEns,
+  TAccount extends Account | undefined,
+  TChainOverride extends ChainWithEns | undefined,
+> = Prettify<
+  {
+    /** Name to ensure the state of */
+    name: string
+    /** Desired state of the name, unspecified properties are left as they are */
+    desired: EnsureNameDesiredState
+    /** Only plan the steps, without sending any transactions */
+    dryRun?: boolean
+  } & Pick<
+    WriteTransactionParameters<TChain, TAccount, TChainOverride>,
+    'account'
+  >
+>
+
+export type EnsureNameReturnType = {
+  /** Steps to reach the desired state, in the order they are sent */
+  steps: EnsureNameStep[]
+  /** Transaction hashes of the sent steps, empty for a dry run */
+  hashes: Hash[]
+}
+
+const encodeCoinValue = (coin: CoinInput, value: string | null) =>
+  value ? bytesToHex(getCoderFromCoin(coin).decode(value)) : '0x'
+
+const encodeContentHashValue = (value: string | null | undefined): Hex =>
+  value ? encodeContentHash(value) : '0x'
+
+const getChangedRecords = async (
+  client: ClientWithEns,
+  {
+    name,
+    resolverAddress,
+    records: { texts = [], coins = [], contentHash },
+  }: { name: string; resolverAddress: Address; records: EnsureNameRecords },
+): Promise<EnsureNameRecords> => {
+  const current = await getRecords(client, {
+    name,
+    texts: texts.map(({ key }) => key),
+    coins: coins.map(({ coin }) => coin),
+    contentHash: true,
+    resolver: { address: resolverAddress },
+  })
+
+  const changedTexts = texts.filter(
+    ({ key, value }) =>
+      (current.texts.find((text) => text.key === key)?.value ?? '') !==
+      (value ?? ''),
+  )
+  const changedCoins = coins.filter(({ coin, value }) => {
+    const { coinType } = getCoderFromCoin(coin)
+    const currentCoin = current.coins.find(({ id }) => id === coinType)
+    return (
+      encodeCoinValue(coin, value) !==
+      encodeCoinValue(coinType, currentCoin?.value ?? null)
+    )
+  })
+  const currentContentHash = current.contentHash
+    ? `${current.contentHash.protocolType}://${current.contentHash.decoded}`
+    : null
+  const contentHashChanged =
+    contentHash !== undefined &&
+    encodeContentHashValue(contentHash) !==
+      encodeContentHashValue(currentContentHash)
+
+  return {
+    ...(changedTexts.length ? { texts: changedTexts } : {}),
+    ...(changedCoins.length ? { coins: changedCoins } : {}),
+    ...(contentHashChanged ? { contentHash } : {}),
+  }
+}
+
+const isEth2ldName = (name: string): name is Eth2ldName =>
+  getNameType(name) === 'eth-2ld'
+
+const describeFuses = (fuses: bigint) =>
+  ChildFuseKeys.filter((key) => (fuses & ChildFuses[key]) !== 0n).join(', ') ||
+  fuses.toString()
+
+/**
+ * Plans and sends the transactions needed to bring a name to a desired state.
+ * Only steps that change the current state are planned, and plans that are prevented by burned fuses are refused.
+ * @param wallet - {@link ClientWithAccount}
+ * @param parameters - {@link EnsureNameParameters}
+ * @returns Planned steps and sent transaction hashes. {@link EnsureNameReturnType}
+ *
+ * @example
+ * import { createWalletClient, custom } from 'viem'
+ * import { mainnet } from 'viem/chains'
+ * import { addEnsContracts } from '@ensdomains/ensjs'
+ * import { ensureName } from '@ensdomains/ensjs/wallet'
+ *
+ * const wallet = createWalletClient({
+ *   chain: addEnsContracts(mainnet),
+ *   transport: custom(window.ethereum),
+ * })
+ * const { steps } = await ensureName(wallet, {
+ *   name: 'ens.eth',
+ *   desired: {
+ *     records: { texts: [{ key: 'url', value: 'https://ens.domains' }] },
+ *     fuses: { named: ['CANNOT_UNWRAP', 'CANNOT_TRANSFER'] },
+ *   },
+ *   dryRun: true,
+ * })
+ * // [{ action: 'setRecords', ... }, { action: 'wrapName', ... }]
+ */
+async function ensureName<
+  TChain extends ChainWithEns,
+  TAccount extends Account | undefined,
+  TChainOverride extends ChainWithEns | undefined = ChainWithEns,
+>(
+  wallet: ClientWithAccount<Transport, TChain, TAccount>,
+  {
+    name,
+    desired,
+    dryRun = false,
+    account,
+  }: EnsureNameParameters<TChain, TAccount, TChainOverride>,
+): Promise<EnsureNameReturnType> {
+  const nameType = getNameType(name)
+  if (nameType === 'root' || nameType === 'tld')
+    throw new UnsupportedNameTypeError({
+      nameType,
+      supportedNameTypes: [
+        'eth-2ld',
+        'eth-subname',
+        'other-2ld',
+        'other-subname',
+      ],
+    })
+
+  // the plan is made from the latest state, rather than any cached reads
+  const client = {
+    ...withoutEnsReadCache(wallet),
+    account: parseAccount((account || wallet.account)!),
+  } as ClientWithAccount<Transport, ChainWithEns, Account>
+  const accountAddress = client.account.address
+  const nameWrapperAddress = getChainContractAddress({
+    client,
+    contract: 'ensNameWrapper',
+  })
+  const isEth2ld = nameType === 'eth-2ld'
+  const refuse = (action: EnsureNameAction | 'registerName', reason: string) =>
+    new EnsureNamePlanError({ name, action, reason })
+
+  const [ownership, wrapperData, currentResolver] = await Promise.all([
+    getOwner(client, { name }),
+    getWrapperData(client, { name }),
+    getResolver(client, { name }),
+  ])
+
+  // expired .eth names still have a registry owner, but no registrant
+  const exists =
+    !!ownership &&
+    (ownership.ownershipLevel !== 'registrar' || !!ownership.registrant)
+  if (!exists && isEth2ld)
+    throw refuse(
+      'registerName',
+      'name is not registered, register it with `registerName` first',
+    )
+
+  const parentName = name.split('.').slice(1).join('.')
+  const [parentOwnership, parentWrapperData] = exists
+    ? [null, null]
+    : await Promise.all([
+        getOwner(client, { name: parentName }),
+        getWrapperData(client, { name: parentName }),
+      ])
+  if (!exists && !parentOwnership)
+    throw refuse('createSubname', `parent name ${parentName} does not exist`)
+  const parentWrapped = parentOwnership?.ownershipLevel === 'nameWrapper'
+  if (
+    !exists &&
+    parentWrapped &&
+    parentWrapperData?.fuses.child.CANNOT_CREATE_SUBDOMAIN
+  )
+    throw refuse(
+      'createSubname',
+      `parent name ${parentName} has burned CANNOT_CREATE_SUBDOMAIN`,
+    )
+
+  const isWrapped = exists
+    ? ownership!.ownershipLevel === 'nameWrapper'
+    : parentWrapped
+  const currentFuses =
+    exists && isWrapped && wrapperData ? BigInt(wrapperData.fuses.value) : 0n
+  const isBurned = (fuse: keyof typeof ChildFuses) =>
+    (currentFuses & ChildFuses[fuse]) !== 0n
+
+  // owner of the registry record, and the registrant for unwrapped .eth 2LDs
+  let manager = exists ? ownership!.owner! : accountAddress
+  let registrant =
+    exists && ownership!.ownershipLevel === 'registrar'
+      ? ownership!.registrant!
+      : manager
+  const targetOwner = desired.owner ?? registrant
+
+  const publicResolverAddress = getChainContractAddress({
+    client,
+    contract: 'ensPublicResolver',
+  })
+  const resolverAddress =
+    desired.resolverAddress ??
+    (exists ? currentResolver : publicResolverAddress)
+
+  if (desired.wrapped === false && desired.fuses)
+    throw refuse('setFuses', 'fuses can only be burned on wrapped names')
+  const shouldWrap = desired.wrapped ?? (desired.fuses ? true : isWrapped)
+  const needsWrap = shouldWrap && !isWrapped
+  // subnames of wrapped names are created wrapped, so are unwrapped after creation
+  const needsUnwrap = !shouldWrap && isWrapped
+  if (needsUnwrap && isBurned('CANNOT_UNWRAP'))
+    throw refuse('unwrapName', 'CANNOT_UNWRAP is burned')
+
+  const desiredFuses = desired.fuses
+    ? BigInt(encodeFuses({ restriction: 'child', input: desired.fuses }))
+    : 0n
+  const missingFuses = desiredFuses & ~currentFuses
+  const finalFuses = currentFuses | missingFuses
+  // fuses are burned on creation for subnames of wrapped names, and on wrap for .eth 2LDs
+  const fusesOnCreate = !exists && parentWrapped && missingFuses !== 0n
+  const fusesOnWrap = needsWrap && isEth2ld && missingFuses !== 0n
+  const needsSetFuses = missingFuses !== 0n && !fusesOnCreate && !fusesOnWrap
+  if (missingFuses !== 0n) {
+    if (isBurned('CANNOT_BURN_FUSES'))
+      throw refuse('setFuses', 'CANNOT_BURN_FUSES is burned')
+    if (
+      (finalFuses & ~ChildFuses.CANNOT_UNWRAP) !== 0n &&
+      (finalFuses & ChildFuses.CANNOT_UNWRAP) === 0n
+    )
+      throw refuse(
+        'setFuses',
+        'CANNOT_UNWRAP must be burned to burn any other fuses',
+      )
+    if (fusesOnCreate && !parentWrapperData?.fuses.child.CANNOT_UNWRAP)
+      throw refuse(
+        'createSubname',
+        `parent name ${parentName} must burn CANNOT_UNWRAP before PARENT_CANNOT_CONTROL can be burned`,
+      )
+    if (
+      !fusesOnCreate &&
+      !isEth2ld &&
+      !(isWrapped && wrapperData?.fuses.parent.PARENT_CANNOT_CONTROL)
+    )
+      throw refuse(
+        'setFuses',
+        'PARENT_CANNOT_CONTROL must be burned by the parent owner first',
+      )
+  }
+
+  const needsResolver =
+    exists &&
+    !needsWrap &&
+    !!desired.resolverAddress &&
+    !(
+      currentResolver &&
+      isAddressEqual(currentResolver, desired.resolverAddress)
+    )
+  if (needsResolver && isWrapped && isBurned('CANNOT_SET_RESOLVER'))
+    throw refuse('setResolver', 'CANNOT_SET_RESOLVER is burned')
+
+  // primary names are only valid if they resolve to the account, so the ETH address is planned as a record
+  const desiredEthCoin = desired.records?.coins?.find(
+    ({ coin }) => getCoderFromCoin(coin).coinType === 60,
+  )
+  if (
+    desired.primaryName &&
+    desiredEthCoin &&
+    desiredEthCoin.value?.toLowerCase() !== accountAddress.toLowerCase()
+  )
+    throw refuse(
+      'setPrimaryName',
+      `the ETH address of ${name} must be ${accountAddress}`,
+    )
+  const desiredRecords: EnsureNameRecords | undefined =
+    desired.primaryName && !desiredEthCoin
+      ? {
+          ...desired.records,
+          coins: [
+            ...(desired.records?.coins ?? []),
+            { coin: 60, value: accountAddress },
+          ],
+        }
+      : desired.records
+
+  if (desiredRecords && !resolverAddress)
+    throw refuse('setRecords', 'name has no resolver')
+  const [changedRecords, primaryName, registryApproved] = await Promise.all([
+    desiredRecords
+      ? getChangedRecords(client, {
+          name,
+          resolverAddress: resolverAddress!,
+          records: desiredRecords,
+        })
+      : ({} as EnsureNameRecords),
+    desired.primaryName ? getName(client, { address: accountAddress }) : null,
+    needsWrap && !isEth2ld
+      ? getApprovedForAll(client, {
+          contract: 'registry',
+          owner: accountAddress,
+          operator: nameWrapperAddress,
+        })
+      : true,
+  ])
+  const needsRecords = Object.keys(changedRecords).length > 0
+  const needsPrimaryName = !!desired.primaryName && primaryName?.name !== name
+
+  const steps: EnsureNameStep[] = []
+
+  if (!exists) {
+    // the account keeps the name until every step that needs the owner is done
+    const owner =
+      needsRecords || needsWrap || needsUnwrap || needsSetFuses
+        ? accountAddress
+        : targetOwner
+    const subnameParameters = {
+      name,
+      owner,
+      resolverAddress: resolverAddress!,
+    }
+    steps.push({
+      action: 'createSubname',
+      description: `Create ${name} owned by ${owner}`,
+      transaction: createSubname.makeFunctionData(
+        client,
+        parentWrapped
+          ? {
+              ...subnameParameters,
+              contract: 'nameWrapper',
+              fuses: fusesOnCreate
+                ? {
+                    parent: { named: ['PARENT_CANNOT_CONTROL'] },
+                    child: { number: missingFuses },
+                  }
+                : undefined,
+            }
+          : { ...subnameParameters, contract: 'registry' },
+      ),
+    })
+    manager = owner
+    registrant = owner
+  }
+
+  if (needsResolver)
+    steps.push({
+      action: 'setResolver',
+      description: `Set the resolver of ${name} to ${desired.resolverAddress}`,
+      transaction: setResolver.makeFunctionData(client, {
+        name,
+        contract: isWrapped ? 'nameWrapper' : 'registry',
+        resolverAddress: desired.resolverAddress!,
+      }),
+    })
+
+  if (needsRecords)
+    steps.push({
+      action: 'setRecords',
+      description: `Set ${[
+        ...(changedRecords.texts?.map(({ key }) => `text ${key}`) ?? []),
+        ...(changedRecords.coins?.map(
+          ({ coin }) => `coin ${getCoderFromCoin(coin).name}`,
+        ) ?? []),
+        ...(changedRecords.contentHash !== undefined ? ['contenthash'] : []),
+      ].join(', ')} on the resolver of ${name}`,
+      transaction: setRecords.makeFunctionData(client, {
+        name,
+        resolverAddress: resolverAddress!,
+        ...changedRecords,
+      }),
+    })
+
+  if (needsWrap) {
+    if (!registryApproved)
+      steps.push({
+        action: 'setApprovalForAll',
+        description: `Approve the NameWrapper to manage registry names of ${accountAddress}`,
+        transaction: setApprovalForAll.makeFunctionData(client, {
+          contract: 'registry',
+          operator: nameWrapperAddress,
+          approved: true,
+        }),
+      })
+    const owner = needsSetFuses ? accountAddress : targetOwner
+    const wrapParameters = {
+      newOwnerAddress: owner,
+      resolverAddress: resolverAddress ?? EMPTY_ADDRESS,
+    }
+    steps.push({
+      action: 'wrapName',
+      description: `Wrap ${name} for ${owner}${
+        fusesOnWrap ? ` and burn ${describeFuses(missingFuses)}` : ''
+      }`,
+      transaction: isEth2ldName(name)
+        ? wrapName.makeFunctionData(client, {
+            ...wrapParameters,
+            name,
+            fuses: fusesOnWrap ? { number: missingFuses } : undefined,
+          })
+        : wrapName.makeFunctionData(client, { ...wrapParameters, name }),
+    })
+    manager = owner
+    registrant = owner
+  }
+
+  if (needsUnwrap) {
+    steps.push({
+      action: 'unwrapName',
+      description: `Unwrap ${name} for ${targetOwner}`,
+      transaction: isEth2ldName(name)
+        ? unwrapName.makeFunctionData(client, {
+            name,
+            newOwnerAddress: targetOwner,
+            newRegistrantAddress: targetOwner,
+          })
+        : unwrapName.makeFunctionData(client, {
+            name,
+            newOwnerAddress: targetOwner,
+          }),
+    })
+    manager = targetOwner
+    registrant = targetOwner
+  }
+
+  if (needsSetFuses)
+    steps.push({
+      action: 'setFuses',
+      description: `Burn ${describeFuses(missingFuses)} on ${name}`,
+      transaction: setFuses.makeFunctionData(client, {
+        name,
+        fuses: { number: missingFuses },
+      }),
+    })
+
+  if (needsPrimaryName)
+    steps.push({
+      action: 'setPrimaryName',
+      description: `Set ${name} as the primary name of ${accountAddress}`,
+      transaction: setPrimaryName.makeFunctionData(client, { name }),
+    })
+
+  const needsTransfer = (owner: Address) =>
+    !!desired.owner && !isAddressEqual(owner, desired.owner)
+  if (shouldWrap && needsTransfer(manager)) {
+    if ((finalFuses & ChildFuses.CANNOT_TRANSFER) !== 0n)
+      throw refuse(
+        'transferName',
+        isBurned('CANNOT_TRANSFER')
+          ? 'CANNOT_TRANSFER is burned'
+          : 'CANNOT_TRANSFER is burned before the name can be transferred',
+      )
+    steps.push({
+      action: 'transferName',
+      description: `Transfer ${name} to ${targetOwner} on the NameWrapper`,
+      transaction: transferName.makeFunctionData(client, {
+        name,
+        newOwnerAddress: targetOwner,
+        contract: 'nameWrapper',
+      }),
+    })
+  }
+  if (!shouldWrap && needsTransfer(manager))
+    steps.push({
+      action: 'transferName',
+      description: `Transfer ${name} to ${targetOwner} on the registry`,
+      transaction: transferName.makeFunctionData(client, {
+        name,
+        newOwnerAddress: targetOwner,
+        contract: 'registry',
+      }),
+    })
+  if (!shouldWrap && isEth2ld && needsTransfer(registrant))
+    steps.push({
+      action: 'transferName',
+      description: `Transfer ${name} to ${targetOwner} on the registrar`,
+      transaction: transferName.makeFunctionData(client, {
+        name,
+        newOwnerAddress: targetOwner,
+        contract: 'registrar',
+      }),
+    })
+
+  if (dryRun) return { steps, hashes: [] }
+
+  // each step depends on the previous one, so they are sent and confirmed in order
+  const sendSteps = async (
+    [step, ...remaining]: EnsureNameStep[],
+    hashes: Hash[],
+  ): Promise<Hash[]> => {
+    if (!step) return hashes
+    const hash = await sendTransaction(client, {
+      ...step.transaction,
+      account: client.account,
+    } as SendTransactionParameters<ChainWithEns, Account>)
+    const receipt = await waitForTransactionReceipt(client, { hash })
+    // later steps depend on this one, so none of them are sent
+    if (receipt.status === 'reverted')
+      throw new TransactionRevertedError({ hash, action: step.action })
+    return sendSteps(remaining, [...hashes, hash])
+  }
+
+  return { steps, hashes: await sendSteps(steps, []) }
+}
+
+export default ensureName
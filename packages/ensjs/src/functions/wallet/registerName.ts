@@ -5,7 +5,6 @@ import {
   type SendTransactionParameters,
   type Transport,
 } from 'viem'
-import { sendTransaction } from 'viem/actions'
 import type { ChainWithEns, ClientWithAccount } from '../../contracts/consts.js'
 import { ethRegistrarControllerRegisterSnippet } from '../../contracts/ethRegistrarController.js'
 import { getChainContractAddress } from '../../contracts/getChainContractAddress.js'
@@ -20,6 +19,7 @@ import {
   makeRegistrationTuple,
   type RegistrationParameters,
 } from '../../utils/registerHelpers.js'
+import { sendTransaction } from '../../utils/sendTransaction.js'
 import { wrappedLabelLengthCheck } from '../../utils/wrapper.js'
 
 export type RegisterNameDataParameters = RegistrationParameters & {
@@ -5,7 +5,6 @@ import {
   type SendTransactionParameters,
   type Transport,
 } from 'viem'
-import { sendTransaction } from 'viem/actions'
 import { bulkRenewalRenewAllSnippet } from '../../contracts/bulkRenewal.js'
 import type { ChainWithEns, ClientWithAccount } from '../../contracts/consts.js'
 import { ethRegistrarControllerRenewSnippet } from '../../contracts/ethRegistrarController.js'
@@ -17,6 +16,7 @@ import type {
   WriteTransactionParameters,
 } from '../../types.js'
 import { getNameType } from '../../utils/getNameType.js'
+import { sendTransaction } from '../../utils/sendTransaction.js'
 
 export type RenewNamesDataParameters = {
   /** Name or names to renew */
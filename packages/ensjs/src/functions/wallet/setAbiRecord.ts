@@ -5,7 +5,6 @@ import type {
   SendTransactionParameters,
   Transport,
 } from 'viem'
-import { sendTransaction } from 'viem/actions'
 import type { ChainWithEns, ClientWithAccount } from '../../contracts/consts.js'
 import type {
   Prettify,
@@ -18,6 +17,7 @@ import {
   type EncodeSetAbiParameters,
 } from '../../utils/encoders/encodeSetAbi.js'
 import { namehash } from '../../utils/normalise.js'
+import { sendTransaction } from '../../utils/sendTransaction.js'
 
 export type SetAbiRecordDataParameters = {
   /** Name to set ABI for */
@@ -7,6 +7,7 @@ import {
   walletClient,
 } from '../../test/addTestContracts.js'
 import getAddressRecord from '../public/getAddressRecord.js'
+import getRecords from '../public/getRecords.js'
 import getResolver from '../public/getResolver.js'
 import setAddressRecord from './setAddressRecord.js'
 
@@ -45,6 +46,7 @@ it('should allow an eth address record to be set', async () => {
   })
   expect(response).toMatchInlineSnapshot(`
     {
+      "chainId": 1,
       "id": 60,
       "name": "eth",
       "value": "0x42D63ae25990889E35F215bC95884039Ba354115",
@@ -120,3 +122,44 @@ it('should allow a multicoin record to be set to blank', async () => {
   })
   expect(response).toBeNull()
 })
+
+it('should allow a default EVM address record to be set and used as a fallback', async () => {
+  const tx = await setAddressRecord(walletClient, {
+    name: 'test123.eth',
+    coin: { chainId: 0 },
+    value: '0x42D63ae25990889E35F215bC95884039Ba354115',
+    resolverAddress: (await getResolver(publicClient, {
+      name: 'test123.eth',
+    }))!,
+    account: accounts[1],
+  })
+  expect(tx).toBeTruthy()
+  const receipt = await waitForTransaction(tx)
+  expect(receipt.status).toBe('success')
+
+  const withoutFallback = await getAddressRecord(publicClient, {
+    name: 'test123.eth',
+    coin: { chainId: 10 },
+  })
+  expect(withoutFallback).toBeNull()
+
+  const response = await getAddressRecord(publicClient, {
+    name: 'test123.eth',
+    coin: { chainId: 10 },
+    evmFallback: true,
+  })
+  expect(response).toMatchInlineSnapshot(`
+    {
+      "chainId": 10,
+      "id": 2147483658,
+      "name": "op",
+      "value": "0x42D63ae25990889E35F215bC95884039Ba354115",
+    }
+  `)
+  const records = await getRecords(publicClient, {
+    name: 'test123.eth',
+    coins: [{ chainId: 10 }],
+    evmFallback: true,
+  })
+  expect(records.coins).toEqual([response])
+})
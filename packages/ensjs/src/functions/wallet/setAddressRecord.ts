@@ -5,21 +5,22 @@ import type {
   SendTransactionParameters,
   Transport,
 } from 'viem'
-import { sendTransaction } from 'viem/actions'
 import type { ChainWithEns, ClientWithAccount } from '../../contracts/consts.js'
 import type {
+  CoinInput,
   Prettify,
   SimpleTransactionRequest,
   WriteTransactionParameters,
 } from '../../types.js'
 import { encodeSetAddr } from '../../utils/encoders/encodeSetAddr.js'
 import { namehash } from '../../utils/normalise.js'
+import { sendTransaction } from '../../utils/sendTransaction.js'
 
 export type SetAddressRecordDataParameters = {
   /** Name to set address record for */
   name: string
-  /** Coin ticker or ID to set */
-  coin: string | number
+  /** Coin ticker, ID, or EVM chain to set */
+  coin: CoinInput
   /** Value to set, null if deleting */
   value: Address | string | null
   /** Resolver address to set address record on */
@@ -0,0 +1,88 @@
+import type { Address, Hex } from 'viem'
+import { afterEach, beforeAll, beforeEach, expect, it } from 'vitest'
+import {
+  publicClient,
+  testClient,
+  waitForTransaction,
+  walletClient,
+} from '../../test/addTestContracts.js'
+import getApprovedForAll from '../public/getApprovedForAll.js'
+import setApprovalForAll from './setApprovalForAll.js'
+
+let snapshot: Hex
+let accounts: Address[]
+
+beforeAll(async () => {
+  accounts = await walletClient.getAddresses()
+})
+
+beforeEach(async () => {
+  snapshot = await testClient.snapshot()
+})
+
+afterEach(async () => {
+  await testClient.revert({ id: snapshot })
+})
+
+it.each(['registry', 'registrar', 'nameWrapper'] as const)(
+  'should return a setApprovalForAll transaction to the %s and succeed',
+  async (contract) => {
+    const tx = await setApprovalForAll(walletClient, {
+      contract,
+      operator: accounts[2],
+      approved: true,
+      account: accounts[1],
+    })
+    expect(tx).toBeTruthy()
+    const receipt = await waitForTransaction(tx)
+    expect(receipt.status).toBe('success')
+
+    const approved = await getApprovedForAll(publicClient, {
+      contract,
+      owner: accounts[1],
+      operator: accounts[2],
+    })
+    expect(approved).toBe(true)
+  },
+)
+it('should allow revoking an approval', async () => {
+  const approveTx = await setApprovalForAll(walletClient, {
+    contract: 'nameWrapper',
+    operator: accounts[2],
+    approved: true,
+    account: accounts[1],
+  })
+  await waitForTransaction(approveTx)
+
+  const tx = await setApprovalForAll(walletClient, {
+    contract: 'nameWrapper',
+    operator: accounts[2],
+    approved: false,
+    account: accounts[1],
+  })
+  const receipt = await waitForTransaction(tx)
+  expect(receipt.status).toBe('success')
+
+  const approved = await getApprovedForAll(publicClient, {
+    contract: 'nameWrapper',
+    owner: accounts[1],
+    operator: accounts[2],
+  })
+  expect(approved).toBe(false)
+})
+it('should error if unknown contract', async () => {
+  await expect(
+    setApprovalForAll(walletClient, {
+      contract: 'random' as any,
+      operator: accounts[2],
+      approved: true,
+      account: accounts[1],
+    }),
+  ).rejects.toThrowErrorMatchingInlineSnapshot(`
+    [InvalidContractTypeError: Invalid contract type: random
+
+    - Supported contract types: registry, registrar, nameWrapper
+
+    Version: @ensdomains/ensjs@1.0.0-mock.0]
+  `)
+})
@@ -0,0 +1,144 @@
+import {
+  encodeFunctionData,
+  type Account,
+  type Address,
+  type Hash,
+  type SendTransactionParameters,
+  type Transport,
+} from 'viem'
+import { baseRegistrarSetApprovalForAllSnippet } from '../../contracts/baseRegistrar.js'
+import type { ChainWithEns, ClientWithAccount } from '../../contracts/consts.js'
+import { getChainContractAddress } from '../../contracts/getChainContractAddress.js'
+import { nameWrapperSetApprovalForAllSnippet } from '../../contracts/nameWrapper.js'
+import { registrySetApprovalForAllSnippet } from '../../contracts/registry.js'
+import { InvalidContractTypeError } from '../../errors/general.js'
+import type {
+  Prettify,
+  SimpleTransactionRequest,
+  WriteTransactionParameters,
+} from '../../types.js'
+import { sendTransaction } from '../../utils/sendTransaction.js'
+
+export type SetApprovalForAllDataParameters = {
+  /** Contract to set approval on */
+  contract: 'registry' | 'registrar' | 'nameWrapper'
+  /** Address to grant or revoke approval for */
+  operator: Address
+  /** Whether to grant (`true`) or revoke (`false`) approval */
+  approved: boolean
+}
+
+export type SetApprovalForAllDataReturnType = SimpleTransactionRequest
+
+export type SetApprovalForAllParameters<
+  TChain extends ChainWithEns,
+  TAccount extends Account | undefined,
+  TChainOverride extends ChainWithEns | undefined,
+> = Prettify<
+  SetApprovalForAllDataParameters &
+    WriteTransactionParameters<TChain, TAccount, TChainOverride>
+>
+
+export type SetApprovalForAllReturnType = Hash
+
+export const makeFunctionData = <
+  TChain extends ChainWithEns,
+  TAccount extends Account | undefined,
+>(
+  wallet: ClientWithAccount<Transport, TChain, TAccount>,
+  { contract, operator, approved }: SetApprovalForAllDataParameters,
+): SetApprovalForAllDataReturnType => {
+  const args = [operator, approved] as const
+  const functionName = 'setApprovalForAll'
+  switch (contract) {
+    case 'registry':
+      return {
+        to: getChainContractAddress({
+          client: wallet,
+          contract: 'ensRegistry',
+        }),
+        data: encodeFunctionData({
+          abi: registrySetApprovalForAllSnippet,
+          functionName,
+          args,
+        }),
+      }
+    case 'registrar':
+      return {
+        to: getChainContractAddress({
+          client: wallet,
+          contract: 'ensBaseRegistrarImplementation',
+        }),
+        data: encodeFunctionData({
+          abi: baseRegistrarSetApprovalForAllSnippet,
+          functionName,
+          args,
+        }),
+      }
+    case 'nameWrapper':
+      return {
+        to: getChainContractAddress({
+          client: wallet,
+          contract: 'ensNameWrapper',
+        }),
+        data: encodeFunctionData({
+          abi: nameWrapperSetApprovalForAllSnippet,
+          functionName,
+          args,
+        }),
+      }
+    default:
+      throw new InvalidContractTypeError({
+        contractType: contract,
+        supportedContractTypes: ['registry', 'registrar', 'nameWrapper'],
+      })
+  }
+}
+
+/**
+ * Grants or revokes approval for an operator to manage all names of the account on a contract.
+ * @param wallet - {@link ClientWithAccount}
+ * @param parameters - {@link SetApprovalForAllParameters}
+ * @returns Transaction hash. {@link SetApprovalForAllReturnType}
+ *
+ * @example
+ * import { createWalletClient, custom } from 'viem'
+ * import { mainnet } from 'viem/chains'
+ * import { addEnsContracts } from '@ensdomains/ensjs'
+ * import { setApprovalForAll } from '@ensdomains/ensjs/wallet'
+ *
+ * const wallet = createWalletClient({
+ *   chain: addEnsContracts(mainnet),
+ *   transport: custom(window.ethereum),
+ * })
+ * const hash = await setApprovalForAll(wallet, {
+ *   contract: 'nameWrapper',
+ *   operator: '0x983110309620D911731Ac0932219af06091b6744',
+ *   approved: true,
+ * })
+ * // 0x...
+ */
+async function setApprovalForAll<
+  TChain extends ChainWithEns,
+  TAccount extends Account | undefined,
+  TChainOverride extends ChainWithEns | undefined = ChainWithEns,
+>(
+  wallet: ClientWithAccount<Transport, TChain, TAccount>,
+  {
+    contract,
+    operator,
+    approved,
+    ...txArgs
+  }: SetApprovalForAllParameters<TChain, TAccount, TChainOverride>,
+): Promise<SetApprovalForAllReturnType> {
+  const data = makeFunctionData(wallet, { contract, operator, approved })
+  const writeArgs = {
+    ...data,
+    ...txArgs,
+  } as SendTransactionParameters<TChain, TAccount, TChainOverride>
+  return sendTransaction(wallet, writeArgs)
+}
+
+setApprovalForAll.makeFunctionData = makeFunctionData
+
+export default setApprovalForAll
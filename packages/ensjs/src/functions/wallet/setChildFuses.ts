@@ -6,7 +6,6 @@ import {
   type SendTransactionParameters,
   type Transport,
 } from 'viem'
-import { sendTransaction } from 'viem/actions'
 import type { ChainWithEns, ClientWithAccount } from '../../contracts/consts.js'
 import { getChainContractAddress } from '../../contracts/getChainContractAddress.js'
 import { nameWrapperSetChildFusesSnippet } from '../../contracts/nameWrapper.js'
@@ -17,6 +16,7 @@ import type {
 } from '../../types.js'
 import { encodeFuses, type EncodeFusesInputObject } from '../../utils/fuses.js'
 import { namehash } from '../../utils/normalise.js'
+import { sendTransaction } from '../../utils/sendTransaction.js'
 
 export type SetChildFusesDataParameters = {
   /** Name to set child fuses for */
@@ -5,7 +5,6 @@ import {
   type SendTransactionParameters,
   type Transport,
 } from 'viem'
-import { sendTransaction } from 'viem/actions'
 import type { ChainWithEns, ClientWithAccount } from '../../contracts/consts.js'
 import { getChainContractAddress } from '../../contracts/getChainContractAddress.js'
 import { nameWrapperSetFusesSnippet } from '../../contracts/nameWrapper.js'
@@ -19,6 +18,7 @@ import {
   type EncodeChildFusesInputObject,
 } from '../../utils/fuses.js'
 import { namehash } from '../../utils/normalise.js'
+import { sendTransaction } from '../../utils/sendTransaction.js'
 
 export type SetFusesDataParameters = {
   /** Name to set fuses for */
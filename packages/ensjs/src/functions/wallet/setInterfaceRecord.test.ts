@@ -0,0 +1,81 @@
+import type { Address, Hex } from 'viem'
+import { afterEach, beforeAll, beforeEach, expect, it } from 'vitest'
+import {
+  publicClient,
+  testClient,
+  waitForTransaction,
+  walletClient,
+} from '../../test/addTestContracts.js'
+import getInterfaceImplementer from '../public/getInterfaceImplementer.js'
+import getResolver from '../public/getResolver.js'
+import setInterfaceRecord from './setInterfaceRecord.js'
+
+let snapshot: Hex
+let accounts: Address[]
+
+beforeAll(async () => {
+  accounts = await walletClient.getAddresses()
+})
+
+beforeEach(async () => {
+  snapshot = await testClient.snapshot()
+})
+
+afterEach(async () => {
+  await testClient.revert({ id: snapshot })
+})
+
+const interfaceId = '0x01ffc9a7'
+const implementer = '0x8e8Db5CcEF88cca9d624701Db544989C996E3216'
+
+it('should allow an interface implementer to be set', async () => {
+  const tx = await setInterfaceRecord(walletClient, {
+    name: 'test123.eth',
+    interfaceId,
+    implementer,
+    resolverAddress: (await getResolver(publicClient, {
+      name: 'test123.eth',
+    }))!,
+    account: accounts[1],
+  })
+  expect(tx).toBeTruthy()
+  const receipt = await waitForTransaction(tx)
+  expect(receipt.status).toBe('success')
+
+  const response = await getInterfaceImplementer(publicClient, {
+    name: 'test123.eth',
+    interfaceId,
+  })
+  expect(response).toBe(implementer)
+})
+
+it('should allow an interface implementer to be set to blank', async () => {
+  const resolverAddress = (await getResolver(publicClient, {
+    name: 'test123.eth',
+  }))!
+  const setTx = await setInterfaceRecord(walletClient, {
+    name: 'test123.eth',
+    interfaceId,
+    implementer,
+    resolverAddress,
+    account: accounts[1],
+  })
+  await waitForTransaction(setTx)
+
+  const tx = await setInterfaceRecord(walletClient, {
+    name: 'test123.eth',
+    interfaceId,
+    implementer: null,
+    resolverAddress,
+    account: accounts[1],
+  })
+  expect(tx).toBeTruthy()
+  const receipt = await waitForTransaction(tx)
+  expect(receipt.status).toBe('success')
+
+  const response = await getInterfaceImplementer(publicClient, {
+    name: 'test123.eth',
+    interfaceId,
+  })
+  expect(response).toBeNull()
+})
@@ -0,0 +1,118 @@
+import type {
+  Account,
+  Address,
+  Hash,
+  Hex,
+  SendTransactionParameters,
+  Transport,
+} from 'viem'
+import type { ChainWithEns, ClientWithAccount } from '../../contracts/consts.js'
+import type {
+  Prettify,
+  SimpleTransactionRequest,
+  WriteTransactionParameters,
+} from '../../types.js'
+import { encodeSetInterface } from '../../utils/encoders/encodeSetInterface.js'
+import { namehash } from '../../utils/normalise.js'
+import { sendTransaction } from '../../utils/sendTransaction.js'
+
+export type SetInterfaceRecordDataParameters = {
+  /** Name to set interface implementer for */
+  name: string
+  /** EIP-165 interface ID to set the implementer of */
+  interfaceId: Hex
+  /** Implementer address, or `null` to clear the record */
+  implementer: Address | null
+  /** Resolver address to set interface implementer on */
+  resolverAddress: Address
+}
+
+export type SetInterfaceRecordDataReturnType = SimpleTransactionRequest
+
+export type SetInterfaceRecordParameters<
+  TChain extends ChainWithEns,
+  TAccount extends Account | undefined,
+  TChainOverride extends ChainWithEns | undefined,
+> = Prettify<
+  SetInterfaceRecordDataParameters &
+    WriteTransactionParameters<TChain, TAccount, TChainOverride>
+>
+
+export type SetInterfaceRecordReturnType = Hash
+
+export const makeFunctionData = <
+  TChain extends ChainWithEns,
+  TAccount extends Account | undefined,
+>(
+  _wallet: ClientWithAccount<Transport, TChain, TAccount>,
+  {
+    name,
+    interfaceId,
+    implementer,
+    resolverAddress,
+  }: SetInterfaceRecordDataParameters,
+): SetInterfaceRecordDataReturnType => {
+  return {
+    to: resolverAddress,
+    data: encodeSetInterface({
+      namehash: namehash(name),
+      interfaceId,
+      implementer,
+    }),
+  }
+}
+
+/**
+ * Sets the implementer of an EIP-165 interface for a name on a resolver.
+ * @param wallet - {@link ClientWithAccount}
+ * @param parameters - {@link SetInterfaceRecordParameters}
+ * @returns Transaction hash. {@link SetInterfaceRecordReturnType}
+ *
+ * @example
+ * import { createWalletClient, custom } from 'viem'
+ * import { mainnet } from 'viem/chains'
+ * import { addEnsContracts } from '@ensdomains/ensjs'
+ * import { setInterfaceRecord } from '@ensdomains/ensjs/wallet'
+ *
+ * const wallet = createWalletClient({
+ *   chain: addEnsContracts(mainnet),
+ *   transport: custom(window.ethereum),
+ * })
+ * const hash = await setInterfaceRecord(wallet, {
+ *   name: 'ens.eth',
+ *   interfaceId: '0x01ffc9a7',
+ *   implementer: '0xb8c2C29ee19D8307cb7255e1Cd9CbDE883A267d5',
+ *   resolverAddress: '0x4976fb03C32e5B8cfe2b6cCB31c09Ba78EBaBa41',
+ * })
+ * // 0x...
+ */
+async function setInterfaceRecord<
+  TChain extends ChainWithEns,
+  TAccount extends Account | undefined,
+  TChainOverride extends ChainWithEns | undefined = ChainWithEns,
+>(
+  wallet: ClientWithAccount<Transport, TChain, TAccount>,
+  {
+    name,
+    interfaceId,
+    implementer,
+    resolverAddress,
+    ...txArgs
+  }: SetInterfaceRecordParameters<TChain, TAccount, TChainOverride>,
+): Promise<SetInterfaceRecordReturnType> {
+  const data = makeFunctionData(wallet, {
+    name,
+    interfaceId,
+    implementer,
+    resolverAddress,
+  })
+  const writeArgs = {
+    ...data,
+    ...txArgs,
+  } as SendTransactionParameters<TChain, TAccount, TChainOverride>
+  return sendTransaction(wallet, writeArgs)
+}
+
+setInterfaceRecord.makeFunctionData = makeFunctionData
+
+export default setInterfaceRecord
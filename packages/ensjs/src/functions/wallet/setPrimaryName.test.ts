@@ -1,6 +1,13 @@
-import type { Address, Hex } from 'viem'
+import {
+  createWalletClient,
+  decodeFunctionData,
+  http,
+  type Address,
+  type Hex,
+} from 'viem'
 import { afterEach, beforeAll, beforeEach, expect, it } from 'vitest'
 import { getChainContractAddress } from '../../contracts/getChainContractAddress.js'
+import { l2ReverseRegistrarSetNameForAddrSnippet } from '../../contracts/l2ReverseRegistrar.js'
 import { registrySetApprovalForAllSnippet } from '../../contracts/registry.js'
 import {
   publicClient,
@@ -70,3 +77,28 @@ it("should return a transaction for setting another address' name and succeed",
   })
   expect(resolvedName!.name).toBe('test123.eth')
 })
+
+it('should target the L2 reverse registrar when the chain has one', () => {
+  const l2ReverseRegistrar =
+    '0x0000000000D8e504002cC26E3Ec46D81971C1664' as const
+  const l2Chain = {
+    ...walletClient.chain,
+    contracts: { ensL2ReverseRegistrar: { address: l2ReverseRegistrar } },
+  }
+  const l2WalletClient = createWalletClient({
+    account: accounts[1],
+    chain: l2Chain,
+    transport: http(),
+  })
+  const data = setPrimaryName.makeFunctionData(l2WalletClient, {
+    name: 'test123.eth',
+    address: accounts[2],
+  })
+  expect(data.to).toBe(l2ReverseRegistrar)
+  expect(
+    decodeFunctionData({
+      abi: l2ReverseRegistrarSetNameForAddrSnippet,
+      data: data.data,
+    }).args,
+  ).toEqual([accounts[2], 'test123.eth'])
+})
@@ -2,14 +2,22 @@ import {
   encodeFunctionData,
   type Account,
   type Address,
+  type Client,
   type Hash,
   type SendTransactionParameters,
   type Transport,
 } from 'viem'
-import { sendTransaction } from 'viem/actions'
 import { parseAccount } from 'viem/utils'
-import type { ChainWithEns, ClientWithAccount } from '../../contracts/consts.js'
+import type {
+  ChainWithEns,
+  ChainWithL2ReverseRegistrar,
+  ClientWithAccount,
+} from '../../contracts/consts.js'
 import { getChainContractAddress } from '../../contracts/getChainContractAddress.js'
+import {
+  l2ReverseRegistrarSetNameForAddrSnippet,
+  l2ReverseRegistrarSetNameSnippet,
+} from '../../contracts/l2ReverseRegistrar.js'
 import {
   reverseRegistrarSetNameForAddrSnippet,
   reverseRegistrarSetNameSnippet,
@@ -19,13 +27,14 @@ import type {
   SimpleTransactionRequest,
   WriteTransactionParameters,
 } from '../../types.js'
+import { sendTransaction } from '../../utils/sendTransaction.js'
 
 type BaseSetPrimaryNameDataParameters = {
   /** The name to set as primary */
   name: string
   /** The address to set the primary name for */
   address?: Address
-  /** The resolver address to use */
+  /** The resolver address to use, ignored when using an L2 reverse registrar */
   resolverAddress?: Address
 }
 
@@ -45,7 +54,7 @@ export type SetPrimaryNameDataParameters = BaseSetPrimaryNameDataParameters &
 export type SetPrimaryNameDataReturnType = SimpleTransactionRequest
 
 export type SetPrimaryNameParameters<
-  TChain extends ChainWithEns,
+  TChain extends ChainWithEns | ChainWithL2ReverseRegistrar,
   TAccount extends Account | undefined,
   TChainOverride extends ChainWithEns | undefined,
 > = Prettify<
@@ -55,22 +64,65 @@ export type SetPrimaryNameParameters<
 
 export type SetPrimaryNameReturnType = Hash
 
+const hasL2ReverseRegistrar = (
+  chain: ChainWithEns | ChainWithL2ReverseRegistrar,
+): chain is ChainWithL2ReverseRegistrar =>
+  !!(chain as ChainWithL2ReverseRegistrar).contracts.ensL2ReverseRegistrar
+
+const makeL2FunctionData = (
+  wallet: Client<Transport, ChainWithL2ReverseRegistrar, Account>,
+  { name, address }: SetPrimaryNameDataParameters,
+): SetPrimaryNameDataReturnType => {
+  const reverseRegistrarAddress = getChainContractAddress({
+    client: wallet,
+    contract: 'ensL2ReverseRegistrar',
+  })
+  if (address) {
+    return {
+      to: reverseRegistrarAddress,
+      data: encodeFunctionData({
+        abi: l2ReverseRegistrarSetNameForAddrSnippet,
+        functionName: 'setNameForAddr',
+        args: [address, name],
+      }),
+    }
+  }
+
+  return {
+    to: reverseRegistrarAddress,
+    data: encodeFunctionData({
+      abi: l2ReverseRegistrarSetNameSnippet,
+      functionName: 'setName',
+      args: [name],
+    }),
+  }
+}
+
 export const makeFunctionData = <
-  TChain extends ChainWithEns,
+  TChain extends ChainWithEns | ChainWithL2ReverseRegistrar,
   TAccount extends Account,
 >(
-  wallet: ClientWithAccount<Transport, TChain, TAccount>,
-  {
+  wallet: Client<Transport, TChain, TAccount>,
+  parameters: SetPrimaryNameDataParameters,
+): SetPrimaryNameDataReturnType => {
+  // chains with an ENSIP-19 reverse registrar set primary names for their own coin type
+  if (hasL2ReverseRegistrar(wallet.chain))
+    return makeL2FunctionData(
+      wallet as Client<Transport, ChainWithL2ReverseRegistrar, Account>,
+      parameters,
+    )
+
+  const l1Wallet = wallet as ClientWithAccount<Transport, ChainWithEns, Account>
+  const {
     name,
     address,
     resolverAddress = getChainContractAddress({
-      client: wallet,
+      client: l1Wallet,
       contract: 'ensPublicResolver',
     }),
-  }: SetPrimaryNameDataParameters,
-): SetPrimaryNameDataReturnType => {
+  } = parameters
   const reverseRegistrarAddress = getChainContractAddress({
-    client: wallet,
+    client: l1Wallet,
     contract: 'ensReverseRegistrar',
   })
   if (address) {
@@ -81,10 +133,10 @@ export const makeFunctionData = <
         functionName: 'setNameForAddr',
         args: [
           address,
-          wallet.account.address,
+          l1Wallet.account.address,
           resolverAddress ||
             getChainContractAddress({
-              client: wallet,
+              client: l1Wallet,
               contract: 'ensPublicResolver',
             }),
           name,
@@ -123,13 +175,31 @@ export const makeFunctionData = <
  *   name: 'ens.eth',
  * })
  * // 0x...
+ *
+ * @example
+ * import { base } from 'viem/chains'
+ *
+ * // L2 primary names are set on the chain's ENSIP-19 reverse registrar
+ * const l2Wallet = createWalletClient({
+ *   chain: {
+ *     ...base,
+ *     contracts: {
+ *       ...base.contracts,
+ *       ensL2ReverseRegistrar: { address: '0x...' },
+ *     },
+ *   },
+ *   transport: custom(window.ethereum),
+ * })
+ * const l2Hash = await setPrimaryName(l2Wallet, {
+ *   name: 'ens.eth',
+ * })
  */
 async function setPrimaryName<
-  TChain extends ChainWithEns,
+  TChain extends ChainWithEns | ChainWithL2ReverseRegistrar,
   TAccount extends Account | undefined,
   TChainOverride extends ChainWithEns | undefined = ChainWithEns,
 >(
-  wallet: ClientWithAccount<Transport, TChain, TAccount>,
+  wallet: Client<Transport, TChain, TAccount>,
   {
     name,
     address,
@@ -141,7 +211,7 @@ async function setPrimaryName<
     {
       ...wallet,
       account: parseAccount((txArgs.account || wallet.account)!),
-    } as ClientWithAccount<Transport, TChain, Account>,
+    } as Client<Transport, TChain, Account>,
     { name, address, resolverAddress } as SetPrimaryNameDataParameters,
   )
   const writeArgs = {
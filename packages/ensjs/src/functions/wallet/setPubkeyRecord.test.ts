@@ -0,0 +1,78 @@
+import type { Address, Hex } from 'viem'
+import { afterEach, beforeAll, beforeEach, expect, it } from 'vitest'
+import {
+  publicClient,
+  testClient,
+  waitForTransaction,
+  walletClient,
+} from '../../test/addTestContracts.js'
+import getPubkeyRecord from '../public/getPubkeyRecord.js'
+import getResolver from '../public/getResolver.js'
+import setPubkeyRecord from './setPubkeyRecord.js'
+
+let snapshot: Hex
+let accounts: Address[]
+
+beforeAll(async () => {
+  accounts = await walletClient.getAddresses()
+})
+
+beforeEach(async () => {
+  snapshot = await testClient.snapshot()
+})
+
+afterEach(async () => {
+  await testClient.revert({ id: snapshot })
+})
+
+const pubkey = {
+  x: '0x1111111111111111111111111111111111111111111111111111111111111111',
+  y: '0x2222222222222222222222222222222222222222222222222222222222222222',
+} as const
+
+it('should allow a pubkey record to be set', async () => {
+  const tx = await setPubkeyRecord(walletClient, {
+    name: 'test123.eth',
+    pubkey,
+    resolverAddress: (await getResolver(publicClient, {
+      name: 'test123.eth',
+    }))!,
+    account: accounts[1],
+  })
+  expect(tx).toBeTruthy()
+  const receipt = await waitForTransaction(tx)
+  expect(receipt.status).toBe('success')
+
+  const response = await getPubkeyRecord(publicClient, {
+    name: 'test123.eth',
+  })
+  expect(response).toEqual(pubkey)
+})
+
+it('should allow a pubkey record to be set to blank', async () => {
+  const resolverAddress = (await getResolver(publicClient, {
+    name: 'test123.eth',
+  }))!
+  const setTx = await setPubkeyRecord(walletClient, {
+    name: 'test123.eth',
+    pubkey,
+    resolverAddress,
+    account: accounts[1],
+  })
+  await waitForTransaction(setTx)
+
+  const tx = await setPubkeyRecord(walletClient, {
+    name: 'test123.eth',
+    pubkey: null,
+    resolverAddress,
+    account: accounts[1],
+  })
+  expect(tx).toBeTruthy()
+  const receipt = await waitForTransaction(tx)
+  expect(receipt.status).toBe('success')
+
+  const response = await getPubkeyRecord(publicClient, {
+    name: 'test123.eth',
+  })
+  expect(response).toBeNull()
+})
@@ -0,0 +1,107 @@
+import type {
+  Account,
+  Address,
+  Hash,
+  SendTransactionParameters,
+  Transport,
+} from 'viem'
+import type { ChainWithEns, ClientWithAccount } from '../../contracts/consts.js'
+import type {
+  DecodedPubkey,
+  Prettify,
+  SimpleTransactionRequest,
+  WriteTransactionParameters,
+} from '../../types.js'
+import { encodeSetPubkey } from '../../utils/encoders/encodeSetPubkey.js'
+import { namehash } from '../../utils/normalise.js'
+import { sendTransaction } from '../../utils/sendTransaction.js'
+
+export type SetPubkeyRecordDataParameters = {
+  /** Name to set pubkey for */
+  name: string
+  /** Pubkey value, or `null` to clear the record */
+  pubkey: DecodedPubkey | null
+  /** Resolver address to set pubkey on */
+  resolverAddress: Address
+}
+
+export type SetPubkeyRecordDataReturnType = SimpleTransactionRequest
+
+export type SetPubkeyRecordParameters<
+  TChain extends ChainWithEns,
+  TAccount extends Account | undefined,
+  TChainOverride extends ChainWithEns | undefined,
+> = Prettify<
+  SetPubkeyRecordDataParameters &
+    WriteTransactionParameters<TChain, TAccount, TChainOverride>
+>
+
+export type SetPubkeyRecordReturnType = Hash
+
+export const makeFunctionData = <
+  TChain extends ChainWithEns,
+  TAccount extends Account | undefined,
+>(
+  _wallet: ClientWithAccount<Transport, TChain, TAccount>,
+  { name, pubkey, resolverAddress }: SetPubkeyRecordDataParameters,
+): SetPubkeyRecordDataReturnType => {
+  return {
+    to: resolverAddress,
+    data: encodeSetPubkey({ namehash: namehash(name), pubkey }),
+  }
+}
+
+/**
+ * Sets the ECDSA SECP256k1 public key record for a name on a resolver.
+ * @param wallet - {@link ClientWithAccount}
+ * @param parameters - {@link SetPubkeyRecordParameters}
+ * @returns Transaction hash. {@link SetPubkeyRecordReturnType}
+ *
+ * @example
+ * import { createWalletClient, custom } from 'viem'
+ * import { mainnet } from 'viem/chains'
+ * import { addEnsContracts } from '@ensdomains/ensjs'
+ * import { setPubkeyRecord } from '@ensdomains/ensjs/wallet'
+ *
+ * const wallet = createWalletClient({
+ *   chain: addEnsContracts(mainnet),
+ *   transport: custom(window.ethereum),
+ * })
+ * const hash = await setPubkeyRecord(wallet, {
+ *   name: 'ens.eth',
+ *   pubkey: {
+ *     x: '0x1111111111111111111111111111111111111111111111111111111111111111',
+ *     y: '0x2222222222222222222222222222222222222222222222222222222222222222',
+ *   },
+ *   resolverAddress: '0x4976fb03C32e5B8cfe2b6cCB31c09Ba78EBaBa41',
+ * })
+ * // 0x...
+ */
+async function setPubkeyRecord<
+  TChain extends ChainWithEns,
+  TAccount extends Account | undefined,
+  TChainOverride extends ChainWithEns | undefined = ChainWithEns,
+>(
+  wallet: ClientWithAccount<Transport, TChain, TAccount>,
+  {
+    name,
+    pubkey,
+    resolverAddress,
+    ...txArgs
+  }: SetPubkeyRecordParameters<TChain, TAccount, TChainOverride>,
+): Promise<SetPubkeyRecordReturnType> {
+  const data = makeFunctionData(wallet, {
+    name,
+    pubkey,
+    resolverAddress,
+  })
+  const writeArgs = {
+    ...data,
+    ...txArgs,
+  } as SendTransactionParameters<TChain, TAccount, TChainOverride>
+  return sendTransaction(wallet, writeArgs)
+}
+
+setPubkeyRecord.makeFunctionData = makeFunctionData
+
+export default setPubkeyRecord
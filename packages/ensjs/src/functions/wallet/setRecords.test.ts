@@ -10,6 +10,7 @@ import { encodeAbi } from '../../utils/encoders/encodeAbi.js'
 import getRecords from '../public/getRecords.js'
 import getResolver from '../public/getResolver.js'
 import setRecords from './setRecords.js'
+import setResolverApproval from './setResolverApproval.js'
 
 let snapshot: Hex
 let accounts: Address[]
@@ -198,3 +199,54 @@ it('should not wrap with multicall if only setting a single record', async () =>
   // 0x8b95dd71 is the function selector for setAddr(bytes32,uint256,bytes)
   expect(encodedData.data.startsWith('0x8b95dd71')).toBe(true)
 })
+it('should succeed with checkAuthorisation if the account owns the name', async () => {
+  const tx = await setRecords(walletClient, {
+    name: 'test123.eth',
+    resolverAddress: (await getResolver(publicClient, {
+      name: 'test123.eth',
+    }))!,
+    texts: [{ key: 'foo', value: 'bar' }],
+    checkAuthorisation: true,
+    account: accounts[1],
+  })
+  const receipt = await waitForTransaction(tx)
+  expect(receipt.status).toBe('success')
+})
+it('should error with checkAuthorisation if the account is not authorised', async () => {
+  await expect(
+    setRecords(walletClient, {
+      name: 'test123.eth',
+      resolverAddress: (await getResolver(publicClient, {
+        name: 'test123.eth',
+      }))!,
+      texts: [{ key: 'foo', value: 'bar' }],
+      checkAuthorisation: true,
+      account: accounts[2],
+    }),
+  ).rejects.toThrow(
+    `Set records error: ${accounts[2]} is not authorised for test123.eth`,
+  )
+})
+it('should succeed with checkAuthorisation if the account is an approved delegate', async () => {
+  const resolverAddress = (await getResolver(publicClient, {
+    name: 'test123.eth',
+  }))!
+  const approveTx = await setResolverApproval(walletClient, {
+    name: 'test123.eth',
+    resolverAddress,
+    delegate: accounts[2],
+    approved: true,
+    account: accounts[1],
+  })
+  await waitForTransaction(approveTx)
+
+  const tx = await setRecords(walletClient, {
+    name: 'test123.eth',
+    resolverAddress,
+    texts: [{ key: 'foo', value: 'bar' }],
+    checkAuthorisation: true,
+    account: accounts[2],
+  })
+  const receipt = await waitForTransaction(tx)
+  expect(receipt.status).toBe('success')
+})
@@ -1,15 +1,21 @@
 import {
   encodeFunctionData,
+  isAddressEqual,
   type Account,
   type Address,
   type Hash,
   type SendTransactionParameters,
   type Transport,
 } from 'viem'
-import { sendTransaction } from 'viem/actions'
-import type { ChainWithEns, ClientWithAccount } from '../../contracts/consts.js'
+import { parseAccount } from 'viem/utils'
+import type {
+  ChainWithEns,
+  ClientWithAccount,
+  ClientWithEns,
+} from '../../contracts/consts.js'
 import { publicResolverMulticallSnippet } from '../../contracts/publicResolver.js'
 import { NoRecordsSpecifiedError } from '../../errors/public.js'
+import { SetRecordsNotAuthorisedError } from '../../errors/wallet.js'
 import type {
   Prettify,
   SimpleTransactionRequest,
@@ -20,6 +26,11 @@ import {
   type RecordOptions,
 } from '../../utils/generateRecordCallArray.js'
 import { namehash } from '../../utils/normalise.js'
+import { withoutEnsReadCache } from '../../utils/readCache.js'
+import { sendTransaction } from '../../utils/sendTransaction.js'
+import batch from '../public/batch.js'
+import getOwner from '../public/getOwner.js'
+import getResolverApprovals from '../public/getResolverApprovals.js'
 
 export type SetRecordsDataParameters = {
   /** The name to set records for */
@@ -36,7 +47,10 @@ export type SetRecordsParameters<
   TChainOverride extends ChainWithEns | undefined,
 > = Prettify<
   SetRecordsDataParameters &
-    WriteTransactionParameters<TChain, TAccount, TChainOverride>
+    WriteTransactionParameters<TChain, TAccount, TChainOverride> & {
+      /** Whether to check that the account is authorised to set records for the name on the resolver before sending */
+      checkAuthorisation?: boolean
+    }
 >
 
 export type SetRecordsReturnType = Hash
@@ -68,6 +82,41 @@ export const makeFunctionData = <
   }
 }
 
+const checkIsAuthorised = async (
+  wallet: ClientWithEns,
+  {
+    name,
+    resolverAddress,
+    account,
+  }: Pick<SetRecordsDataParameters, 'name' | 'resolverAddress'> & {
+    account: Address
+  },
+): Promise<void> => {
+  // cached reads could be from before a recent ownership or approval change
+  const client = withoutEnsReadCache(wallet)
+  // the resolver authorises against the registry owner, or the NameWrapper owner if wrapped
+  const result = await batch(client, getOwner.batch({ name }))
+  const owner = result[0]?.owner
+  if (owner && isAddressEqual(owner, account)) return
+
+  // approvals are keyed by the owner, so are read after it, at the same block
+  if (owner) {
+    const { approvedForName, approvedForAll } = await getResolverApprovals(
+      client,
+      {
+        name,
+        resolverAddress,
+        owner,
+        delegate: account,
+        blockNumber: result.blockNumber,
+      },
+    )
+    if (approvedForName || approvedForAll) return
+  }
+
+  throw new SetRecordsNotAuthorisedError({ name, account, resolverAddress })
+}
+
 /**
  * Sets multiple records for a name on a resolver.
  * @param wallet - {@link ClientWithAccount}
@@ -111,9 +160,19 @@ async function setRecords<
     texts,
     coins,
     abi,
+    pubkey,
+    interfaces,
+    checkAuthorisation,
     ...txArgs
   }: SetRecordsParameters<TChain, TAccount, TChainOverride>,
 ): Promise<SetRecordsReturnType> {
+  if (checkAuthorisation)
+    await checkIsAuthorised(wallet, {
+      name,
+      resolverAddress,
+      account: parseAccount((txArgs.account || wallet.account)!).address,
+    })
+
   const data = makeFunctionData(wallet, {
     name,
     resolverAddress,
@@ -122,6 +181,8 @@ async function setRecords<
     texts,
     coins,
     abi,
+    pubkey,
+    interfaces,
   })
   const writeArgs = {
     ...data,
@@ -6,7 +6,6 @@ import {
   type SendTransactionParameters,
   type Transport,
 } from 'viem'
-import { sendTransaction } from 'viem/actions'
 import type { ChainWithEns, ClientWithAccount } from '../../contracts/consts.js'
 import { getChainContractAddress } from '../../contracts/getChainContractAddress.js'
 import { nameWrapperSetResolverSnippet } from '../../contracts/nameWrapper.js'
@@ -17,6 +16,7 @@ import type {
   WriteTransactionParameters,
 } from '../../types.js'
 import { namehash } from '../../utils/normalise.js'
+import { sendTransaction } from '../../utils/sendTransaction.js'
 
 export type SetResolverDataParameters = {
   /** Name to set resolver for */
@@ -0,0 +1,72 @@
+import type { Address, Hex } from 'viem'
+import { afterEach, beforeAll, beforeEach, expect, it } from 'vitest'
+import {
+  publicClient,
+  testClient,
+  waitForTransaction,
+  walletClient,
+} from '../../test/addTestContracts.js'
+import getResolver from '../public/getResolver.js'
+import getResolverApprovals from '../public/getResolverApprovals.js'
+import setResolverApproval from './setResolverApproval.js'
+
+let snapshot: Hex
+let accounts: Address[]
+
+beforeAll(async () => {
+  accounts = await walletClient.getAddresses()
+})
+
+beforeEach(async () => {
+  snapshot = await testClient.snapshot()
+})
+
+afterEach(async () => {
+  await testClient.revert({ id: snapshot })
+})
+
+it('should return an approve transaction for a single name and succeed', async () => {
+  const resolverAddress = (await getResolver(publicClient, {
+    name: 'test123.eth',
+  }))!
+  const tx = await setResolverApproval(walletClient, {
+    name: 'test123.eth',
+    resolverAddress,
+    delegate: accounts[2],
+    approved: true,
+    account: accounts[1],
+  })
+  expect(tx).toBeTruthy()
+  const receipt = await waitForTransaction(tx)
+  expect(receipt.status).toBe('success')
+
+  const approvals = await getResolverApprovals(publicClient, {
+    name: 'test123.eth',
+    resolverAddress,
+    owner: accounts[1],
+    delegate: accounts[2],
+  })
+  expect(approvals).toEqual({ approvedForName: true, approvedForAll: false })
+})
+it('should return a setApprovalForAll transaction when no name is specified and succeed', async () => {
+  const resolverAddress = (await getResolver(publicClient, {
+    name: 'test123.eth',
+  }))!
+  const tx = await setResolverApproval(walletClient, {
+    resolverAddress,
+    delegate: accounts[2],
+    approved: true,
+    account: accounts[1],
+  })
+  expect(tx).toBeTruthy()
+  const receipt = await waitForTransaction(tx)
+  expect(receipt.status).toBe('success')
+
+  const approvals = await getResolverApprovals(publicClient, {
+    name: 'test123.eth',
+    resolverAddress,
+    owner: accounts[1],
+    delegate: accounts[2],
+  })
+  expect(approvals).toEqual({ approvedForName: false, approvedForAll: true })
+})
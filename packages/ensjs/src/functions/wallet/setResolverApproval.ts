@@ -0,0 +1,130 @@
+import {
+  encodeFunctionData,
+  type Account,
+  type Address,
+  type Hash,
+  type SendTransactionParameters,
+  type Transport,
+} from 'viem'
+import type { ChainWithEns, ClientWithAccount } from '../../contracts/consts.js'
+import {
+  publicResolverApproveSnippet,
+  publicResolverSetApprovalForAllSnippet,
+} from '../../contracts/publicResolver.js'
+import type {
+  Prettify,
+  SimpleTransactionRequest,
+  WriteTransactionParameters,
+} from '../../types.js'
+import { namehash } from '../../utils/normalise.js'
+import { sendTransaction } from '../../utils/sendTransaction.js'
+
+export type SetResolverApprovalDataParameters = {
+  /** Resolver address to set approval on */
+  resolverAddress: Address
+  /** Name to set approval for, if not specified the approval applies to all names of the account */
+  name?: string
+  /** Address to grant or revoke approval for */
+  delegate: Address
+  /** Whether to grant (`true`) or revoke (`false`) approval */
+  approved: boolean
+}
+
+export type SetResolverApprovalDataReturnType = SimpleTransactionRequest
+
+export type SetResolverApprovalParameters<
+  TChain extends ChainWithEns,
+  TAccount extends Account | undefined,
+  TChainOverride extends ChainWithEns | undefined,
+> = Prettify<
+  SetResolverApprovalDataParameters &
+    WriteTransactionParameters<TChain, TAccount, TChainOverride>
+>
+
+export type SetResolverApprovalReturnType = Hash
+
+export const makeFunctionData = <
+  TChain extends ChainWithEns,
+  TAccount extends Account | undefined,
+>(
+  _wallet: ClientWithAccount<Transport, TChain, TAccount>,
+  {
+    resolverAddress,
+    name,
+    delegate,
+    approved,
+  }: SetResolverApprovalDataParameters,
+): SetResolverApprovalDataReturnType => {
+  if (name)
+    return {
+      to: resolverAddress,
+      data: encodeFunctionData({
+        abi: publicResolverApproveSnippet,
+        functionName: 'approve',
+        args: [namehash(name), delegate, approved],
+      }),
+    }
+  return {
+    to: resolverAddress,
+    data: encodeFunctionData({
+      abi: publicResolverSetApprovalForAllSnippet,
+      functionName: 'setApprovalForAll',
+      args: [delegate, approved],
+    }),
+  }
+}
+
+/**
+ * Grants or revokes approval for an address to set records on a resolver, for a single name or all names of the account.
+ * @param wallet - {@link ClientWithAccount}
+ * @param parameters - {@link SetResolverApprovalParameters}
+ * @returns Transaction hash. {@link SetResolverApprovalReturnType}
+ *
+ * @example
+ * import { createWalletClient, custom } from 'viem'
+ * import { mainnet } from 'viem/chains'
+ * import { addEnsContracts } from '@ensdomains/ensjs'
+ * import { setResolverApproval } from '@ensdomains/ensjs/wallet'
+ *
+ * const wallet = createWalletClient({
+ *   chain: addEnsContracts(mainnet),
+ *   transport: custom(window.ethereum),
+ * })
+ * const hash = await setResolverApproval(wallet, {
+ *   name: 'ens.eth',
+ *   resolverAddress: '0x231b0Ee14048e9dCcD1d247744d114a4EB5E8E63',
+ *   delegate: '0x983110309620D911731Ac0932219af06091b6744',
+ *   approved: true,
+ * })
+ * // 0x...
+ */
+async function setResolverApproval<
+  TChain extends ChainWithEns,
+  TAccount extends Account | undefined,
+  TChainOverride extends ChainWithEns | undefined = ChainWithEns,
+>(
+  wallet: ClientWithAccount<Transport, TChain, TAccount>,
+  {
+    resolverAddress,
+    name,
+    delegate,
+    approved,
+    ...txArgs
+  }: SetResolverApprovalParameters<TChain, TAccount, TChainOverride>,
+): Promise<SetResolverApprovalReturnType> {
+  const data = makeFunctionData(wallet, {
+    resolverAddress,
+    name,
+    delegate,
+    approved,
+  })
+  const writeArgs = {
+    ...data,
+    ...txArgs,
+  } as SendTransactionParameters<TChain, TAccount, TChainOverride>
+  return sendTransaction(wallet, writeArgs)
+}
+
+setResolverApproval.makeFunctionData = makeFunctionData
+
+export default setResolverApproval
@@ -0,0 +1,80 @@
+import type { Address, Hex } from 'viem'
+import { afterEach, beforeAll, beforeEach, expect, it } from 'vitest'
+import {
+  publicClient,
+  testClient,
+  waitForTransaction,
+  walletClient,
+} from '../../test/addTestContracts.js'
+import getResolver from '../public/getResolver.js'
+import getZonehashRecord from '../public/getZonehashRecord.js'
+import setZonehashRecord from './setZonehashRecord.js'
+
+let snapshot: Hex
+let accounts: Address[]
+
+beforeAll(async () => {
+  accounts = await walletClient.getAddresses()
+})
+
+beforeEach(async () => {
+  snapshot = await testClient.snapshot()
+})
+
+afterEach(async () => {
+  await testClient.revert({ id: snapshot })
+})
+
+it('should allow a zonehash record to be set', async () => {
+  const tx = await setZonehashRecord(walletClient, {
+    name: 'test123.eth',
+    zonehash:
+      'ipns://k51qzi5uqu5dgox2z23r6e99oqency055a6xt92xzmyvpz8mwz5ycjavm0u150',
+    resolverAddress: (await getResolver(publicClient, {
+      name: 'test123.eth',
+    }))!,
+    account: accounts[1],
+  })
+  expect(tx).toBeTruthy()
+  const receipt = await waitForTransaction(tx)
+  expect(receipt.status).toBe('success')
+
+  const response = await getZonehashRecord(publicClient, {
+    name: 'test123.eth',
+  })
+  expect(response).toMatchInlineSnapshot(`
+    {
+      "decoded": "k51qzi5uqu5dgox2z23r6e99oqency055a6xt92xzmyvpz8mwz5ycjavm0u150",
+      "protocolType": "ipns",
+    }
+  `)
+})
+
+it('should allow a zonehash record to be set to blank', async () => {
+  const resolverAddress = (await getResolver(publicClient, {
+    name: 'test123.eth',
+  }))!
+  const setTx = await setZonehashRecord(walletClient, {
+    name: 'test123.eth',
+    zonehash:
+      'ipns://k51qzi5uqu5dgox2z23r6e99oqency055a6xt92xzmyvpz8mwz5ycjavm0u150',
+    resolverAddress,
+    account: accounts[1],
+  })
+  await waitForTransaction(setTx)
+
+  const tx = await setZonehashRecord(walletClient, {
+    name: 'test123.eth',
+    zonehash: null,
+    resolverAddress,
+    account: accounts[1],
+  })
+  expect(tx).toBeTruthy()
+  const receipt = await waitForTransaction(tx)
+  expect(receipt.status).toBe('success')
+
+  const response = await getZonehashRecord(publicClient, {
+    name: 'test123.eth',
+  })
+  expect(response).toBeNull()
+})
@@ -0,0 +1,103 @@
+import type {
+  Account,
+  Address,
+  Hash,
+  SendTransactionParameters,
+  Transport,
+} from 'viem'
+import type { ChainWithEns, ClientWithAccount } from '../../contracts/consts.js'
+import type {
+  Prettify,
+  SimpleTransactionRequest,
+  WriteTransactionParameters,
+} from '../../types.js'
+import { encodeSetZonehash } from '../../utils/encoders/encodeSetZonehash.js'
+import { namehash } from '../../utils/normalise.js'
+import { sendTransaction } from '../../utils/sendTransaction.js'
+
+export type SetZonehashRecordDataParameters = {
+  /** Name to set zonehash for */
+  name: string
+  /** Zonehash value, or `null` to clear the record */
+  zonehash: string | null
+  /** Resolver address to set zonehash on */
+  resolverAddress: Address
+}
+
+export type SetZonehashRecordDataReturnType = SimpleTransactionRequest
+
+export type SetZonehashRecordParameters<
+  TChain extends ChainWithEns,
+  TAccount extends Account | undefined,
+  TChainOverride extends ChainWithEns | undefined,
+> = Prettify<
+  SetZonehashRecordDataParameters &
+    WriteTransactionParameters<TChain, TAccount, TChainOverride>
+>
+
+export type SetZonehashRecordReturnType = Hash
+
+export const makeFunctionData = <
+  TChain extends ChainWithEns,
+  TAccount extends Account | undefined,
+>(
+  _wallet: ClientWithAccount<Transport, TChain, TAccount>,
+  { name, zonehash, resolverAddress }: SetZonehashRecordDataParameters,
+): SetZonehashRecordDataReturnType => {
+  return {
+    to: resolverAddress,
+    data: encodeSetZonehash({ namehash: namehash(name), zonehash }),
+  }
+}
+
+/**
+ * Sets the zonehash record for a name on a resolver.
+ * @param wallet - {@link ClientWithAccount}
+ * @param parameters - {@link SetZonehashRecordParameters}
+ * @returns Transaction hash. {@link SetZonehashRecordReturnType}
+ *
+ * @example
+ * import { createWalletClient, custom } from 'viem'
+ * import { mainnet } from 'viem/chains'
+ * import { addEnsContracts } from '@ensdomains/ensjs'
+ * import { setZonehashRecord } from '@ensdomains/ensjs/wallet'
+ *
+ * const wallet = createWalletClient({
+ *   chain: addEnsContracts(mainnet),
+ *   transport: custom(window.ethereum),
+ * })
+ * const hash = await setZonehashRecord(wallet, {
+ *   name: 'ens.eth',
+ *   zonehash: 'ipns://k51qzi5uqu5djdczd6zw0grmo23j2vkj9uzvujencg15s5rlkq0ss4ivll8wqw',
+ *   resolverAddress: '0x4976fb03C32e5B8cfe2b6cCB31c09Ba78EBaBa41',
+ * })
+ * // 0x...
+ */
+async function setZonehashRecord<
+  TChain extends ChainWithEns,
+  TAccount extends Account | undefined,
+  TChainOverride extends ChainWithEns | undefined = ChainWithEns,
+>(
+  wallet: ClientWithAccount<Transport, TChain, TAccount>,
+  {
+    name,
+    zonehash,
+    resolverAddress,
+    ...txArgs
+  }: SetZonehashRecordParameters<TChain, TAccount, TChainOverride>,
+): Promise<SetZonehashRecordReturnType> {
+  const data = makeFunctionData(wallet, {
+    name,
+    zonehash,
+    resolverAddress,
+  })
+  const writeArgs = {
+    ...data,
+    ...txArgs,
+  } as SendTransactionParameters<TChain, TAccount, TChainOverride>
+  return sendTransaction(wallet, writeArgs)
+}
+
+setZonehashRecord.makeFunctionData = makeFunctionData
+
+export default setZonehashRecord
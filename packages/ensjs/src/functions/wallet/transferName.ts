@@ -7,7 +7,6 @@ import {
   type SendTransactionParameters,
   type Transport,
 } from 'viem'
-import { sendTransaction } from 'viem/actions'
 import { parseAccount } from 'viem/utils'
 import {
   baseRegistrarReclaimSnippet,
@@ -36,6 +35,7 @@ import type {
 import { getNameType } from '../../utils/getNameType.js'
 import { makeLabelNodeAndParent } from '../../utils/makeLabelNodeAndParent.js'
 import { namehash } from '../../utils/normalise.js'
+import { sendTransaction } from '../../utils/sendTransaction.js'
 
 type BaseTransferNameDataParameters = {
   /** Name to transfer */
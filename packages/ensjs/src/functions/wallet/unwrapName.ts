@@ -6,7 +6,6 @@ import {
   type SendTransactionParameters,
   type Transport,
 } from 'viem'
-import { sendTransaction } from 'viem/actions'
 import type { ChainWithEns, ClientWithAccount } from '../../contracts/consts.js'
 import { getChainContractAddress } from '../../contracts/getChainContractAddress.js'
 import {
@@ -26,6 +25,7 @@ import type {
 } from '../../types.js'
 import { getNameType } from '../../utils/getNameType.js'
 import { makeLabelNodeAndParent } from '../../utils/makeLabelNodeAndParent.js'
+import { sendTransaction } from '../../utils/sendTransaction.js'
 
 type BaseUnwrapNameDataParameters<TName extends string> = {
   /** The name to unwrap */
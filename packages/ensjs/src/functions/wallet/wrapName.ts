@@ -9,7 +9,6 @@ import {
   type SendTransactionParameters,
   type Transport,
 } from 'viem'
-import { sendTransaction } from 'viem/actions'
 import { parseAccount } from 'viem/utils'
 import { baseRegistrarSafeTransferFromWithDataSnippet } from '../../contracts/baseRegistrar.js'
 import type { ChainWithEns, ClientWithAccount } from '../../contracts/consts.js'
@@ -28,6 +27,7 @@ import {
   type EncodeChildFusesInputObject,
 } from '../../utils/fuses.js'
 import { packetToBytes } from '../../utils/hexEncodedName.js'
+import { sendTransaction } from '../../utils/sendTransaction.js'
 import { checkIsDotEth } from '../../utils/validation.js'
 import { wrappedLabelLengthCheck } from '../../utils/wrapper.js'
 
@@ -27,27 +27,49 @@ export {
 } from './clients/wallet.js'
 
 export { addEnsContracts } from './contracts/addEnsContracts.js'
+export {
+  discoverEnsContracts,
+  type DiscoveredContractMismatch,
+  type DiscoverEnsContractsParameters,
+  type DiscoverEnsContractsReturnType,
+} from './contracts/discoverEnsContracts.js'
 export { BaseError } from './errors/base.js'
-export { NoChainError, UnsupportedChainError } from './errors/contracts.js'
+export {
+  MissingEnsContractsError,
+  NoChainError,
+  NoSubgraphUrlError,
+  UnsupportedChainError,
+} from './errors/contracts.js'
 export {
   DnsDnssecVerificationFailedError,
   DnsDnssecWildcardExpansionError,
   DnsInvalidAddressChecksumError,
   DnsInvalidTxtRecordError,
+  DnsInvalidZoneRecordError,
   DnsNewerRecordTypeAvailableError,
   DnsNoTxtRecordError,
   DnsResponseStatusError,
+  DnsUnsupportedRecordTypeError,
 } from './errors/dns.js'
 export {
   AdditionalParameterSpecifiedError,
+  InvalidConcurrencyError,
   InvalidContractTypeError,
   RequiredParameterNotSpecifiedError,
   UnsupportedNameTypeError,
 } from './errors/general.js'
 export {
+  AbiUriNotFetchedError,
+  AvatarNftChainMismatchError,
+  AvatarNftNotOwnedError,
   CoinFormatterNotFoundError,
   FunctionNotBatchableError,
+  InvalidAvatarUriError,
+  InvalidContractAbiError,
+  NameContractNotFoundError,
   NoRecordsSpecifiedError,
+  RecordResolutionError,
+  UnsupportedReverseCoinTypeError,
 } from './errors/public.js'
 export {
   FilterKeyRequiredError,
@@ -71,3 +93,19 @@ export {
   UnknownContentTypeError,
   WrappedLabelTooLargeError,
 } from './errors/utils.js'
+export {
+  CommitmentNotFoundError,
+  CommitmentTooNewError,
+  CommitmentTooOldError,
+  ContractRevertedError,
+  DurationTooShortError,
+  EnsureNamePlanError,
+  InsufficientValueError,
+  NameNotWrappedError,
+  OperationProhibitedError,
+  RegistrationNameNotAvailableError,
+  SetRecordsNotAuthorisedError,
+  TransactionRevertedError,
+  UnauthorisedError,
+  UnexpiredCommitmentExistsError,
+} from './errors/wallet.js'
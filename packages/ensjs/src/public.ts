@@ -13,13 +13,29 @@ export {
   type InternalGetContentHashParameters,
   type InternalGetContentHashReturnType,
 } from './functions/public/_getContentHash.js'
+export {
+  default as _getInterfaceImplementer,
+  type InternalGetInterfaceImplementerParameters,
+  type InternalGetInterfaceImplementerReturnType,
+} from './functions/public/_getInterfaceImplementer.js'
+export {
+  default as _getPubkey,
+  type InternalGetPubkeyParameters,
+  type InternalGetPubkeyReturnType,
+} from './functions/public/_getPubkey.js'
 export {
   default as _getText,
   type InternalGetTextParameters,
   type InternalGetTextReturnType,
 } from './functions/public/_getText.js'
+export {
+  default as _getZonehash,
+  type InternalGetZonehashParameters,
+  type InternalGetZonehashReturnType,
+} from './functions/public/_getZonehash.js'
 export {
   default as batch,
+  type BatchOptions,
   type BatchParameters,
   type BatchReturnType,
 } from './functions/public/batch.js'
@@ -33,26 +49,81 @@ export {
   type GetAddressRecordParameters,
   type GetAddressRecordReturnType,
 } from './functions/public/getAddressRecord.js'
+export {
+  default as getApproved,
+  type GetApprovedParameters,
+  type GetApprovedReturnType,
+} from './functions/public/getApproved.js'
+export {
+  default as getApprovedForAll,
+  type GetApprovedForAllParameters,
+  type GetApprovedForAllReturnType,
+} from './functions/public/getApprovedForAll.js'
 export {
   default as getAvailable,
   type GetAvailableParameters,
   type GetAvailableReturnType,
 } from './functions/public/getAvailable.js'
+export {
+  default as getAvatar,
+  type GetAvatarParameters,
+  type GetAvatarReturnType,
+} from './functions/public/getAvatar.js'
+export {
+  default as getCommitment,
+  type GetCommitmentParameters,
+  type GetCommitmentReturnType,
+} from './functions/public/getCommitment.js'
 export {
   default as getContentHashRecord,
   type GetContentHashRecordParameters,
   type GetContentHashRecordReturnType,
 } from './functions/public/getContentHashRecord.js'
+export {
+  default as getContractFromName,
+  type GetContractFromNameParameters,
+  type GetContractFromNameReturnType,
+} from './functions/public/getContractFromName.js'
 export {
   default as getExpiry,
+  type EffectiveExpiry,
   type GetExpiryParameters,
   type GetExpiryReturnType,
 } from './functions/public/getExpiry.js'
+export {
+  default as getHeader,
+  type GetHeaderParameters,
+  type GetHeaderReturnType,
+} from './functions/public/getHeader.js'
+export {
+  default as getInterfaceImplementer,
+  type GetInterfaceImplementerParameters,
+  type GetInterfaceImplementerReturnType,
+} from './functions/public/getInterfaceImplementer.js'
 export {
   default as getName,
   type GetNameParameters,
   type GetNameReturnType,
 } from './functions/public/getName.js'
+export {
+  default as getNamePermissions,
+  type GetNamePermissionsParameters,
+  type GetNamePermissionsReturnType,
+  type NamePermission,
+  type NamePermissionOperation,
+} from './functions/public/getNamePermissions.js'
+export {
+  default as getNames,
+  type GetNamesParameters,
+  type GetNamesResult,
+  type GetNamesReturnType,
+} from './functions/public/getNames.js'
+export {
+  default as getNameStatus,
+  type GetNameStatusParameters,
+  type GetNameStatusReturnType,
+  type NameStatus,
+} from './functions/public/getNameStatus.js'
 export {
   default as getOwner,
   type GetOwnerParameters,
@@ -63,16 +134,28 @@ export {
   type GetPriceParameters,
   type GetPriceReturnType,
 } from './functions/public/getPrice.js'
+export {
+  default as getPubkeyRecord,
+  type GetPubkeyRecordParameters,
+  type GetPubkeyRecordReturnType,
+} from './functions/public/getPubkeyRecord.js'
 export {
   default as getRecords,
   type GetRecordsParameters,
   type GetRecordsReturnType,
+  type RecordDetail,
+  type RecordStatus,
 } from './functions/public/getRecords.js'
 export {
   default as getResolver,
   type GetResolverParameters,
   type GetResolverReturnType,
 } from './functions/public/getResolver.js'
+export {
+  default as getResolverApprovals,
+  type GetResolverApprovalsParameters,
+  type GetResolverApprovalsReturnType,
+} from './functions/public/getResolverApprovals.js'
 export {
   default as getSupportedInterfaces,
   type GetSupportedInterfacesParameters,
@@ -88,6 +171,11 @@ export {
   type GetWrapperDataParameters,
   type GetWrapperDataReturnType,
 } from './functions/public/getWrapperData.js'
+export {
+  default as getZonehashRecord,
+  type GetZonehashRecordParameters,
+  type GetZonehashRecordReturnType,
+} from './functions/public/getZonehashRecord.js'
 export {
   default as multicallWrapper,
   type MulticallWrapperParameters,
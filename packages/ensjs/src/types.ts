@@ -1,7 +1,10 @@
 import type {
   Account,
   Address,
+  BlockTag,
+  Chain,
   Client,
+  Hex,
   SendTransactionParameters,
   TransactionRequest,
 } from 'viem'
@@ -48,13 +51,16 @@ type AllowedWriteParameters =
   | 'account'
 
 export type WriteTransactionParameters<
-  TChain extends ChainWithEns,
+  TChain extends Chain,
   TAccount extends Account | undefined,
-  TChainOverride extends ChainWithEns | undefined = ChainWithEns,
+  TChainOverride extends Chain | undefined = ChainWithEns,
 > = Pick<
   SendTransactionParameters<TChain, TAccount, TChainOverride>,
   AllowedWriteParameters
->
+> & {
+  /** Simulates the transaction before sending, so that reverts are thrown as ensjs errors without sending */
+  simulate?: boolean
+}
 
 export type DateWithValue<T> = {
   date: Date
@@ -71,6 +77,8 @@ export type DecodedAddr = {
   id: number
   name: string
   value: string
+  /** EVM chain ID of the coin, only present for EVM coin types */
+  chainId?: number
 }
 
 export type DecodedText = {
@@ -78,8 +86,35 @@ export type DecodedText = {
   value: string
 }
 
+export type DecodedInterface = {
+  id: Hex
+  implementer: Address
+}
+
+export type DecodedPubkey = {
+  x: Hex
+  y: Hex
+}
+
 export type AnyDate = string | number | bigint | Date
 
+/**
+ * Block to read at. Single reads don't return the block they were read at,
+ * use `batch` for results with the `blockNumber` they were read at.
+ */
+export type BlockParameters = {
+  /** Block number to read at */
+  blockNumber?: bigint
+  /** Block tag to read at, ignored if `blockNumber` is specified (default: `'latest'`) */
+  blockTag?: BlockTag
+}
+
+/** EVM chain, as either a viem `Chain` object or a chain ID */
+export type EvmChainInput = { id: number } | { chainId: number }
+
+/** Coin symbol (string), coin type (number), or EVM chain (ENSIP-11) */
+export type CoinInput = string | number | EvmChainInput
+
 export type RootName = ''
 export type TldName = `${string}`
 export type EthTldName = `eth`
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest'
+import type { ClientWithEns } from '../contracts/consts.js'
+import { getGatewayUri, parseAvatarUri, resolveAvatarUri } from './avatar.js'
+
+describe('parseAvatarUri()', () => {
+  it('parses an erc721 uri', () => {
+    expect(
+      parseAvatarUri(
+        'eip155:1/erc721:0xb7f7f6c52f2e2fdb1963eab30438024864c313f6/2430',
+      ),
+    ).toEqual({
+      type: 'nft',
+      chainId: 1,
+      namespace: 'erc721',
+      contractAddress: '0xb7F7F6C52F2e2fdb1963Eab30438024864c313F6',
+      tokenId: 2430n,
+    })
+  })
+  it('parses an erc1155 uri', () => {
+    expect(
+      parseAvatarUri(
+        'eip155:5/ERC1155:0x495f947276749ce646f68ac8c248420045cb7b5e/8112',
+      ),
+    ).toMatchObject({ type: 'nft', chainId: 5, namespace: 'erc1155' })
+  })
+  it('parses a non-nft uri', () => {
+    expect(parseAvatarUri('ipfs://QmTest')).toEqual({
+      type: 'uri',
+      uri: 'ipfs://QmTest',
+    })
+  })
+  it('throws for an unsupported uri', () => {
+    expect(() => parseAvatarUri('ftp://example.com/avatar.png')).toThrow(
+      'Invalid avatar URI: ftp://example.com/avatar.png',
+    )
+  })
+})
+
+describe('getGatewayUri()', () => {
+  it.each([
+    ['ipfs://QmTest', 'https://ipfs.io/ipfs/QmTest'],
+    ['ipfs://ipfs/QmTest/1.png', 'https://ipfs.io/ipfs/QmTest/1.png'],
+    ['ipns://ens.eth', 'https://ipfs.io/ipns/ens.eth'],
+    ['ar://abc123', 'https://arweave.net/abc123'],
+    ['https://example.com/a.png', 'https://example.com/a.png'],
+    ['data:image/png;base64,AAAA', 'data:image/png;base64,AAAA'],
+  ])('resolves %s', (uri, expected) => {
+    expect(getGatewayUri(uri)).toBe(expected)
+  })
+  it('uses custom gateways', () => {
+    expect(
+      getGatewayUri('ipfs://QmTest', { ipfs: 'https://gateway.example/' }),
+    ).toBe('https://gateway.example/ipfs/QmTest')
+    expect(
+      getGatewayUri('ar://abc123', { arweave: 'https://ar.example' }),
+    ).toBe('https://ar.example/abc123')
+  })
+})
+
+describe('resolveAvatarUri()', () => {
+  const client = { chain: { id: 1 } } as ClientWithEns
+  it('resolves a non-nft uri without reading the chain', async () => {
+    await expect(
+      resolveAvatarUri(client, { uri: 'ipfs://QmTest' }),
+    ).resolves.toBe('https://ipfs.io/ipfs/QmTest')
+  })
+  it('throws for an nft on a different chain', async () => {
+    await expect(
+      resolveAvatarUri(client, {
+        uri: 'eip155:5/erc721:0xb7f7f6c52f2e2fdb1963eab30438024864c313f6/1',
+      }),
+    ).rejects.toThrowErrorMatchingInlineSnapshot(`
+      [AvatarNftChainMismatchError: Avatar NFT is on chain 5, but client is on chain 1
+
+      Version: @ensdomains/ensjs@1.0.0-mock.0]
+    `)
+  })
+})
@@ -0,0 +1,219 @@
+import { getAddress, isAddressEqual, toHex, type Address } from 'viem'
+import { readContract } from 'viem/actions'
+import type { ClientWithEns } from '../contracts/consts.js'
+import {
+  erc1155BalanceOfSnippet,
+  erc1155UriSnippet,
+} from '../contracts/erc1155.js'
+import {
+  erc721OwnerOfSnippet,
+  erc721TokenUriSnippet,
+} from '../contracts/erc721.js'
+import {
+  AvatarNftChainMismatchError,
+  AvatarNftNotOwnedError,
+  InvalidAvatarUriError,
+} from '../errors/public.js'
+import type { BlockParameters } from '../types.js'
+import { getBlockParameters } from './generateFunction.js'
+
+export type AvatarGateways = {
+  /** IPFS gateway URL, used for `ipfs://` and `ipns://` URIs (default: `https://ipfs.io`) */
+  ipfs?: string
+  /** Arweave gateway URL, used for `ar://` URIs (default: `https://arweave.net`) */
+  arweave?: string
+}
+
+export type ParsedAvatarUri =
+  | {
+      type: 'nft'
+      /** Chain ID of the NFT */
+      chainId: number
+      /** Token standard of the NFT */
+      namespace: 'erc721' | 'erc1155'
+      /** NFT contract address */
+      contractAddress: Address
+      /** NFT token ID */
+      tokenId: bigint
+    }
+  | {
+      type: 'uri'
+      /** URI of the image */
+      uri: string
+    }
+
+const nftUriRegex = /^eip155:(\d+)\/(erc721|erc1155):(0x[0-9a-f]{40})\/(\d+)$/i
+const uriRegex = /^(https?:\/\/|ipfs:\/\/|ipns:\/\/|ar:\/\/|data:)/i
+
+/**
+ * Parses an ENSIP-12 avatar URI
+ * @param uri - Avatar URI
+ * @returns Parsed avatar URI. {@link ParsedAvatarUri}
+ *
+ * @example
+ * import { parseAvatarUri } from '@ensdomains/ensjs/utils'
+ *
+ * const parsed = parseAvatarUri(
+ *   'eip155:1/erc721:0xb7F7F6C52F2e2fdb1963Eab30438024864c313F6/2430',
+ * )
+ * // { type: 'nft', chainId: 1, namespace: 'erc721', contractAddress: '0xb7F7F6C52F2e2fdb1963Eab30438024864c313F6', tokenId: 2430n }
+ */
+export const parseAvatarUri = (uri: string): ParsedAvatarUri => {
+  const nftMatch = uri.match(nftUriRegex)
+  if (nftMatch) {
+    const [, chainId, namespace, contractAddress, tokenId] = nftMatch
+    return {
+      type: 'nft',
+      chainId: Number(chainId),
+      namespace: namespace.toLowerCase() as 'erc721' | 'erc1155',
+      contractAddress: getAddress(contractAddress),
+      tokenId: BigInt(tokenId),
+    }
+  }
+  if (uriRegex.test(uri)) return { type: 'uri', uri }
+  throw new InvalidAvatarUriError({ uri })
+}
+
+/**
+ * Gets a fetchable URI from an IPFS, IPNS, Arweave, HTTP(S), or data URI
+ * @param uri - URI to resolve
+ * @param gateways - Gateways to use. {@link AvatarGateways}
+ * @returns Fetchable URI
+ *
+ * @example
+ * import { getGatewayUri } from '@ensdomains/ensjs/utils'
+ *
+ * const uri = getGatewayUri('ipfs://QmdmQXB2mzChmMeKY47C43LxUdg1NDJ5MWcKMKxDu7RgQm')
+ * // https://ipfs.io/ipfs/QmdmQXB2mzChmMeKY47C43LxUdg1NDJ5MWcKMKxDu7RgQm
+ */
+export const getGatewayUri = (
+  uri: string,
+  {
+    ipfs = 'https://ipfs.io',
+    arweave = 'https://arweave.net',
+  }: AvatarGateways = {},
+): string => {
+  const [, protocol, path] = uri.match(/^([a-z]+):\/\/(.*)$/i) ?? []
+  switch (protocol?.toLowerCase()) {
+    case 'ipfs':
+      return `${ipfs.replace(/\/$/, '')}/ipfs/${path.replace(/^ipfs\//, '')}`
+    case 'ipns':
+      return `${ipfs.replace(/\/$/, '')}/ipns/${path}`
+    case 'ar':
+      return `${arweave.replace(/\/$/, '')}/${path}`
+    case 'http':
+    case 'https':
+      return uri
+    default:
+      if (uri.startsWith('data:')) return uri
+      throw new InvalidAvatarUriError({ uri })
+  }
+}
+
+const fetchJson = async (uri: string): Promise<Record<string, unknown>> => {
+  if (uri.startsWith('data:')) {
+    const [header, data] = uri.slice(5).split(/,(.*)/s)
+    if (!header.endsWith(';base64')) return JSON.parse(decodeURIComponent(data))
+    return JSON.parse(
+      new TextDecoder().decode(
+        Uint8Array.from(atob(data), (char) => char.charCodeAt(0)),
+      ),
+    )
+  }
+  return fetch(uri).then((res) => res.json())
+}
+
+const getMetadataImage = (
+  metadataUri: string,
+  metadata: Record<string, unknown>,
+) => {
+  const image = metadata.image ?? metadata.image_url
+  if (typeof image === 'string') return image
+  if (typeof metadata.image_data === 'string')
+    return `data:image/svg+xml;utf8,${encodeURIComponent(metadata.image_data)}`
+  throw new InvalidAvatarUriError({
+    uri: metadataUri,
+    details: 'NFT metadata does not contain an image',
+  })
+}
+
+export type ResolveAvatarUriParameters = BlockParameters & {
+  /** Avatar URI to resolve */
+  uri: string
+  /** Address that must own the NFT, for NFT URIs */
+  owner?: string
+  /** Gateways to use. {@link AvatarGateways} */
+  gateways?: AvatarGateways
+}
+
+/**
+ * Resolves an ENSIP-12 avatar URI to a fetchable image URI.
+ * For NFT URIs, ownership of the NFT by `owner` is verified, and the image is taken from the token metadata.
+ * @param client - {@link ClientWithEns}
+ * @param parameters - {@link ResolveAvatarUriParameters}
+ * @returns Fetchable image URI
+ */
+export const resolveAvatarUri = async (
+  client: ClientWithEns,
+  { uri, owner, gateways, ...blockParameters }: ResolveAvatarUriParameters,
+): Promise<string> => {
+  const parsed = parseAvatarUri(uri)
+  if (parsed.type === 'uri') return getGatewayUri(parsed.uri, gateways)
+
+  const { chainId, namespace, contractAddress, tokenId } = parsed
+  if (chainId !== client.chain.id)
+    throw new AvatarNftChainMismatchError({
+      chainId,
+      clientChainId: client.chain.id,
+    })
+
+  const block = getBlockParameters(blockParameters)
+  const [isOwned, tokenUri] =
+    namespace === 'erc721'
+      ? await Promise.all([
+          readContract(client, {
+            ...block,
+            address: contractAddress,
+            abi: erc721OwnerOfSnippet,
+            functionName: 'ownerOf',
+            args: [tokenId],
+          }).then(
+            (nftOwner) => !!owner && isAddressEqual(nftOwner, owner as Address),
+          ),
+          readContract(client, {
+            ...block,
+            address: contractAddress,
+            abi: erc721TokenUriSnippet,
+            functionName: 'tokenURI',
+            args: [tokenId],
+          }),
+        ])
+      : await Promise.all([
+          owner
+            ? readContract(client, {
+                ...block,
+                address: contractAddress,
+                abi: erc1155BalanceOfSnippet,
+                functionName: 'balanceOf',
+                args: [owner as Address, tokenId],
+              }).then((balance) => balance > 0n)
+            : false,
+          readContract(client, {
+            ...block,
+            address: contractAddress,
+            abi: erc1155UriSnippet,
+            functionName: 'uri',
+            args: [tokenId],
+          }).then((tokenUri_) =>
+            // ERC-1155 metadata URIs substitute the hex token ID for `{id}`
+            tokenUri_.replace('{id}', toHex(tokenId, { size: 32 }).slice(2)),
+          ),
+        ])
+
+  if (!isOwned)
+    throw new AvatarNftNotOwnedError({ owner, contractAddress, tokenId })
+
+  const metadataUri = getGatewayUri(tokenUri, gateways)
+  const metadata = await fetchJson(metadataUri)
+  return getGatewayUri(getMetadataImage(metadataUri, metadata), gateways)
+}
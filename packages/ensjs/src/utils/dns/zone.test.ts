@@ -0,0 +1,222 @@
+import { describe, expect, it } from 'vitest'
+import { decodeDnsRecords, encodeDnsRecords, parseZone } from './zone.js'
+
+describe('parseZone', () => {
+  it('parses records with relative, absolute, and inherited owner names', () => {
+    const records = parseZone({
+      zone: `
+        $TTL 1h
+        @           IN  A      1.2.3.4 ; apex
+                        AAAA   ::1
+        www   300   IN  CNAME  @
+        mail.example.eth.  MX  10 mx.example.com.
+      `,
+      origin: 'example.eth',
+    })
+    expect(records).toEqual([
+      {
+        name: 'example.eth',
+        type: 'A',
+        class: 'IN',
+        ttl: 3600,
+        data: '1.2.3.4',
+      },
+      {
+        name: 'example.eth',
+        type: 'AAAA',
+        class: 'IN',
+        ttl: 3600,
+        data: '::1',
+      },
+      {
+        name: 'www.example.eth',
+        type: 'CNAME',
+        class: 'IN',
+        ttl: 300,
+        data: 'example.eth',
+      },
+      {
+        name: 'mail.example.eth',
+        type: 'MX',
+        class: 'IN',
+        ttl: 3600,
+        data: { preference: 10, exchange: 'mx.example.com' },
+      },
+    ])
+  })
+  it('parses multi-line records and quoted strings', () => {
+    const records = parseZone({
+      zone: `
+        $ORIGIN sub
+        @ IN SOA ns1 hostmaster (
+          2024010101 ; serial
+          1d 2h 4w 1h )
+        @ IN TXT "hello world" "with \\"quotes\\" and ; semicolon"
+      `,
+      origin: 'example.eth',
+    })
+    expect(records[0]).toEqual({
+      name: 'sub.example.eth',
+      type: 'SOA',
+      class: 'IN',
+      ttl: 3600,
+      data: {
+        mname: 'ns1.sub.example.eth',
+        rname: 'hostmaster.sub.example.eth',
+        serial: 2024010101,
+        refresh: 86400,
+        retry: 7200,
+        expire: 2419200,
+        minimum: 3600,
+      },
+    })
+    expect((records[1].data as Uint8Array[]).map((b) => b.toString())).toEqual([
+      'hello world',
+      'with "quotes" and ; semicolon',
+    ])
+  })
+  it('throws for unsupported record types', () => {
+    expect(() => parseZone({ zone: '@ IN HINFO a b', origin: 'example.eth' }))
+      .toThrowErrorMatchingInlineSnapshot(`
+        [DnsUnsupportedRecordTypeError: Unsupported DNS record type: HINFO
+
+        Version: @ensdomains/ensjs@1.0.0-mock.0]
+      `)
+  })
+  it('throws for records with the wrong number of values', () => {
+    expect(() => parseZone({ zone: '@ IN MX 10', origin: 'example.eth' }))
+      .toThrowErrorMatchingInlineSnapshot(`
+        [DnsInvalidZoneRecordError: Invalid zone record: @ IN MX 10
+
+        - Reason: Expected 2 value(s) for MX record, got 1
+
+        Version: @ensdomains/ensjs@1.0.0-mock.0]
+      `)
+  })
+  it('throws for integer fields with TTL units', () => {
+    expect(() => parseZone({ zone: '@ IN MX 1h mail.', origin: 'example.eth' }))
+      .toThrowErrorMatchingInlineSnapshot(`
+      [DnsInvalidZoneRecordError: Invalid zone record: @ IN MX 1h mail.
+
+      - Reason: Invalid integer: 1h
+
+      Version: @ensdomains/ensjs@1.0.0-mock.0]
+    `)
+  })
+  it('throws for integer fields that are out of range', () => {
+    expect(() =>
+      parseZone({
+        zone: '_sip._tcp IN SRV 10 5 65536 sip.example.com.',
+        origin: 'example.eth',
+      }),
+    ).toThrowErrorMatchingInlineSnapshot(`
+      [DnsInvalidZoneRecordError: Invalid zone record: _sip._tcp IN SRV 10 5 65536 sip.example.com.
+
+      - Reason: Integer out of range: 65536 does not fit in 16 bits
+
+      Version: @ensdomains/ensjs@1.0.0-mock.0]
+    `)
+    expect(() =>
+      parseZone({
+        zone: '@ IN CAA 256 issue "letsencrypt.org"',
+        origin: 'example.eth',
+      }),
+    ).toThrowErrorMatchingInlineSnapshot(`
+      [DnsInvalidZoneRecordError: Invalid zone record: @ IN CAA 256 issue "letsencrypt.org"
+
+      - Reason: Integer out of range: 256 does not fit in 8 bits
+
+      Version: @ensdomains/ensjs@1.0.0-mock.0]
+    `)
+  })
+  it('throws for invalid addresses', () => {
+    expect(() => parseZone({ zone: '@ IN A 999.1.1.1', origin: 'example.eth' }))
+      .toThrowErrorMatchingInlineSnapshot(`
+        [DnsInvalidZoneRecordError: Invalid zone record: @ IN A 999.1.1.1
+
+        - Reason: Invalid IPv4 address: 999.1.1.1
+
+        Version: @ensdomains/ensjs@1.0.0-mock.0]
+      `)
+    expect(() => parseZone({ zone: '@ IN A 1.2.3', origin: 'example.eth' }))
+      .toThrowErrorMatchingInlineSnapshot(`
+        [DnsInvalidZoneRecordError: Invalid zone record: @ IN A 1.2.3
+
+        - Reason: Invalid IPv4 address: 1.2.3
+
+        Version: @ensdomains/ensjs@1.0.0-mock.0]
+      `)
+    expect(() =>
+      parseZone({ zone: '@ IN AAAA 1::2::3', origin: 'example.eth' }),
+    ).toThrowErrorMatchingInlineSnapshot(`
+      [DnsInvalidZoneRecordError: Invalid zone record: @ IN AAAA 1::2::3
+
+      - Reason: Invalid IPv6 address: 1::2::3
+
+      Version: @ensdomains/ensjs@1.0.0-mock.0]
+    `)
+    expect(
+      parseZone({
+        zone: '@ IN AAAA ::ffff:1.2.3.4\n@ IN AAAA 2001:db8::1',
+        origin: 'example.eth',
+      }).map(({ data }) => data),
+    ).toEqual(['::ffff:1.2.3.4', '2001:db8::1'])
+  })
+  it('throws for TXT strings longer than 255 bytes', () => {
+    expect(() =>
+      parseZone({
+        zone: `@ IN TXT "${'a'.repeat(256)}"`,
+        origin: 'example.eth',
+      }),
+    ).toThrow('TXT string is 256 bytes, the maximum is 255')
+  })
+  it('throws for times that are out of range', () => {
+    expect(() => parseZone({ zone: '$TTL 99999999999', origin: 'example.eth' }))
+      .toThrowErrorMatchingInlineSnapshot(`
+        [DnsInvalidZoneRecordError: Invalid zone record: $TTL 99999999999
+
+        - Reason: Time out of range: 99999999999 does not fit in 32 bits
+
+        Version: @ensdomains/ensjs@1.0.0-mock.0]
+      `)
+    expect(() =>
+      parseZone({
+        zone: '@ IN SOA ns1 hostmaster 1 1d 2h 4w 100000w',
+        origin: 'example.eth',
+      }),
+    ).toThrowErrorMatchingInlineSnapshot(`
+      [DnsInvalidZoneRecordError: Invalid zone record: @ IN SOA ns1 hostmaster 1 1d 2h 4w 100000w
+
+      - Reason: Time out of range: 100000w does not fit in 32 bits
+
+      Version: @ensdomains/ensjs@1.0.0-mock.0]
+    `)
+  })
+  it('throws for unbalanced parentheses', () => {
+    expect(() =>
+      parseZone({ zone: '@ IN SOA ( ns1 hostmaster', origin: 'example.eth' }),
+    ).toThrowErrorMatchingInlineSnapshot(`
+      [DnsInvalidZoneRecordError: Invalid zone record: @ IN SOA   ns1 hostmaster
+
+      - Reason: Unbalanced parentheses
+
+      Version: @ensdomains/ensjs@1.0.0-mock.0]
+    `)
+  })
+})
+
+describe('encodeDnsRecords', () => {
+  it('encodes and decodes records', () => {
+    const records = parseZone({
+      zone: '@ 300 IN A 1.2.3.4\n@ 300 IN A 5.6.7.8',
+      origin: 'example.eth',
+    })
+    const encoded = encodeDnsRecords(records)
+    expect(encoded).toMatchInlineSnapshot(
+      `"0x076578616d706c650365746800000100010000012c000401020304076578616d706c650365746800000100010000012c000405060708"`,
+    )
+    expect(decodeDnsRecords(encoded)).toEqual(
+      records.map((record) => ({ ...record, flush: false })),
+    )
+  })
+})
@@ -0,0 +1,412 @@
+import { Buffer } from 'buffer'
+import * as packet from 'dns-packet'
+import { bytesToHex, hexToBytes, type Hex } from 'viem'
+import {
+  DnsInvalidZoneRecordError,
+  DnsUnsupportedRecordTypeError,
+} from '../../errors/dns.js'
+
+const CLASSES = ['IN', 'CH', 'HS', 'CS']
+
+const TTL_UNITS: Record<string, number> = {
+  s: 1,
+  m: 60,
+  h: 3600,
+  d: 86400,
+  w: 604800,
+}
+
+const MAX_UINT32 = 2 ** 32 - 1
+
+// character-strings are prefixed with a single length byte
+const MAX_CHARACTER_STRING_LENGTH = 255
+
+export type ParseZoneParameters = {
+  /** BIND-style zone text */
+  zone: string
+  /** Origin to use for `@` and relative names, usually the ENS name */
+  origin: string
+  /** TTL to use for records without one, if there is no `$TTL` directive (default: `3600`) */
+  ttl?: number
+}
+
+export type ParseZoneReturnType = packet.Answer[]
+
+// removes common indentation, so that zone text can be written as an indented template literal
+const dedent = (zone: string) => {
+  const lines = zone.split('\n')
+  const indent = Math.min(
+    ...lines
+      .filter((line) => line.trim() !== '')
+      .map((line) => line.match(/^[ \t]*/)![0].length),
+  )
+  return lines.map((line) => line.slice(indent)).join('\n')
+}
+
+// splits zone text into logical records, removing comments and joining parenthesised lines
+const splitRecords = (zone: string): string[] => {
+  const records: string[] = []
+  let current = ''
+  let depth = 0
+  let inQuote = false
+  let inComment = false
+
+  for (let i = 0; i < zone.length; i += 1) {
+    const char = zone[i]
+    if (inComment && char === '\n') inComment = false
+    if (inComment) {
+      // ignore comment contents
+    } else if (inQuote) {
+      current += char
+      if (char === '\\') {
+        current += zone[i + 1] ?? ''
+        i += 1
+      } else if (char === '"') inQuote = false
+    } else if (char === ';') inComment = true
+    else if (char === '"') {
+      inQuote = true
+      current += char
+    } else if (char === '(' || char === ')') {
+      depth += char === '(' ? 1 : -1
+      if (depth < 0)
+        throw new DnsInvalidZoneRecordError({
+          record: current.trim(),
+          reason: 'Unbalanced parentheses',
+        })
+      current += ' '
+    } else if (char === '\n') {
+      if (depth > 0) current += ' '
+      else {
+        records.push(current)
+        current = ''
+      }
+    } else if (char !== '\r') current += char
+  }
+
+  if (inQuote || depth > 0)
+    throw new DnsInvalidZoneRecordError({
+      record: current.trim(),
+      reason: inQuote ? 'Unterminated quote' : 'Unbalanced parentheses',
+    })
+  records.push(current)
+
+  return records.filter((record) => record.trim() !== '')
+}
+
+const tokenise = (record: string) =>
+  record.match(/"(?:[^"\\]|\\.)*"|\S+/g) ?? []
+
+const unquote = (token: string) =>
+  token.startsWith('"') ? token.slice(1, -1).replace(/\\(.)/g, '$1') : token
+
+const toAbsoluteName = (name: string, origin: string) => {
+  if (name === '@') return origin
+  if (name.endsWith('.')) return name.slice(0, -1).toLowerCase()
+  return (origin ? `${name}.${origin}` : name).toLowerCase()
+}
+
+const parseTtl = (value: string | undefined) => {
+  if (!value || !/^(\d+[smhdw]?)+$/i.test(value)) return null
+  return [...value.matchAll(/(\d+)([smhdw]?)/gi)].reduce(
+    (total, [, amount, unit]) =>
+      total + Number(amount) * (unit ? TTL_UNITS[unit.toLowerCase()] : 1),
+    0,
+  )
+}
+
+const isIPv4 = (value: string) => {
+  const parts = value.split('.')
+  return (
+    parts.length === 4 &&
+    parts.every((part) => /^\d{1,3}$/.test(part) && Number(part) <= 255)
+  )
+}
+
+const isIPv6 = (value: string) => {
+  // an embedded IPv4 address takes the place of the last two groups
+  const lastColon = value.lastIndexOf(':')
+  const tail = value.slice(lastColon + 1)
+  const hasIPv4 = tail.includes('.')
+  if (hasIPv4 && !isIPv4(tail)) return false
+  const halves = (
+    hasIPv4 ? `${value.slice(0, lastColon + 1)}0:0` : value
+  ).split('::')
+  if (halves.length > 2) return false
+  const groups = halves.flatMap((half) => (half === '' ? [] : half.split(':')))
+  if (!groups.every((group) => /^[\da-f]{1,4}$/i.test(group))) return false
+  // `::` replaces at least one group
+  return halves.length === 2 ? groups.length < 8 : groups.length === 8
+}
+
+const checkTime = ({
+  record,
+  value,
+  time,
+}: {
+  record: string
+  value: string
+  time: number
+}) => {
+  if (time > MAX_UINT32)
+    throw new DnsInvalidZoneRecordError({
+      record,
+      reason: `Time out of range: ${value} does not fit in 32 bits`,
+    })
+  return time
+}
+
+const parseRecordData = ({
+  type,
+  values,
+  origin,
+  record,
+}: {
+  type: string
+  values: string[]
+  origin: string
+  record: string
+}): packet.Answer['data'] => {
+  const expectValues = (count: number) => {
+    if (values.length !== count)
+      throw new DnsInvalidZoneRecordError({
+        record,
+        reason: `Expected ${count} value(s) for ${type} record, got ${values.length}`,
+      })
+  }
+  // SOA timers are times, so they can use TTL units
+  const toTime = (value: string) => {
+    const time = parseTtl(value)
+    if (time === null)
+      throw new DnsInvalidZoneRecordError({
+        record,
+        reason: `Invalid time: ${value}`,
+      })
+    return checkTime({ record, value, time })
+  }
+  const toInteger = (value: string, bits: 8 | 16 | 32) => {
+    if (!/^\d+$/.test(value))
+      throw new DnsInvalidZoneRecordError({
+        record,
+        reason: `Invalid integer: ${value}`,
+      })
+    const integer = Number(value)
+    if (integer >= 2 ** bits)
+      throw new DnsInvalidZoneRecordError({
+        record,
+        reason: `Integer out of range: ${value} does not fit in ${bits} bits`,
+      })
+    return integer
+  }
+
+  switch (type) {
+    case 'A':
+    case 'AAAA':
+      expectValues(1)
+      if (!(type === 'A' ? isIPv4 : isIPv6)(values[0]))
+        throw new DnsInvalidZoneRecordError({
+          record,
+          reason: `Invalid ${type === 'A' ? 'IPv4' : 'IPv6'} address: ${
+            values[0]
+          }`,
+        })
+      return values[0]
+    case 'CNAME':
+    case 'DNAME':
+    case 'NS':
+    case 'PTR':
+      expectValues(1)
+      return toAbsoluteName(values[0], origin)
+    case 'MX':
+      expectValues(2)
+      return {
+        preference: toInteger(values[0], 16),
+        exchange: toAbsoluteName(values[1], origin),
+      }
+    case 'SRV':
+      expectValues(4)
+      return {
+        priority: toInteger(values[0], 16),
+        weight: toInteger(values[1], 16),
+        port: toInteger(values[2], 16),
+        target: toAbsoluteName(values[3], origin),
+      }
+    case 'CAA':
+      expectValues(3)
+      return {
+        flags: toInteger(values[0], 8),
+        tag: values[1],
+        value: unquote(values[2]),
+      }
+    case 'SOA':
+      expectValues(7)
+      return {
+        mname: toAbsoluteName(values[0], origin),
+        rname: toAbsoluteName(values[1], origin),
+        serial: toInteger(values[2], 32),
+        refresh: toTime(values[3]),
+        retry: toTime(values[4]),
+        expire: toTime(values[5]),
+        minimum: toTime(values[6]),
+      }
+    case 'TXT':
+      if (!values.length)
+        throw new DnsInvalidZoneRecordError({
+          record,
+          reason: 'Expected at least 1 value for TXT record',
+        })
+      return values.map((value) => {
+        const data = Buffer.from(unquote(value))
+        if (data.length > MAX_CHARACTER_STRING_LENGTH)
+          throw new DnsInvalidZoneRecordError({
+            record,
+            reason: `TXT string is ${data.length} bytes, the maximum is ${MAX_CHARACTER_STRING_LENGTH}`,
+          })
+        return data
+      })
+    default:
+      throw new DnsUnsupportedRecordTypeError({ type })
+  }
+}
+
+const getDirectiveValue = (record: string, tokens: string[]) => {
+  if (tokens.length !== 2)
+    throw new DnsInvalidZoneRecordError({
+      record,
+      reason: `Expected 1 value for ${tokens[0]} directive`,
+    })
+  return tokens[1]
+}
+
+const parseRecord = ({
+  record,
+  tokens,
+  origin,
+  ttl,
+  previousName,
+}: {
+  record: string
+  tokens: string[]
+  origin: string
+  ttl: number
+  previousName: string | undefined
+}): packet.Answer => {
+  // records starting with whitespace use the previous owner name
+  const name = /^\s/.test(record)
+    ? previousName
+    : toAbsoluteName(tokens.shift()!, origin)
+  if (!name)
+    throw new DnsInvalidZoneRecordError({
+      record,
+      reason: 'Missing owner name',
+    })
+
+  // TTL and class are both optional, and can be in either order
+  let recordTtl = ttl
+  let recordClass = 'IN'
+  for (let i = 0; i < 2; i += 1) {
+    const tokenTtl = parseTtl(tokens[0])
+    if (tokenTtl !== null) {
+      recordTtl = checkTime({ record, value: tokens[0], time: tokenTtl })
+      tokens.shift()
+    } else if (tokens[0] && CLASSES.includes(tokens[0].toUpperCase()))
+      recordClass = tokens.shift()!.toUpperCase()
+  }
+
+  const type = tokens.shift()?.toUpperCase()
+  if (!type)
+    throw new DnsInvalidZoneRecordError({
+      record,
+      reason: 'Missing record type',
+    })
+
+  return {
+    name,
+    type,
+    class: recordClass,
+    ttl: recordTtl,
+    data: parseRecordData({ type, values: tokens, origin, record }),
+  } as packet.Answer
+}
+
+/**
+ * Parses BIND-style zone text into DNS records.
+ * Supports the `$ORIGIN` and `$TTL` directives, and A, AAAA, CAA, CNAME, DNAME, MX, NS, PTR, SOA, SRV, and TXT records.
+ * @param parameters - {@link ParseZoneParameters}
+ * @returns Array of DNS records. {@link ParseZoneReturnType}
+ *
+ * @example
+ * import { parseZone } from '@ensdomains/ensjs/dns'
+ *
+ * const records = parseZone({
+ *   zone: '@ 3600 IN A 1.2.3.4\nwww IN CNAME @',
+ *   origin: 'example.eth',
+ * })
+ */
+export const parseZone = ({
+  zone,
+  origin: initialOrigin,
+  ttl: initialTtl = 3600,
+}: ParseZoneParameters): ParseZoneReturnType => {
+  let origin = initialOrigin.replace(/\.$/, '').toLowerCase()
+  let ttl = initialTtl
+  const records: packet.Answer[] = []
+
+  for (const record of splitRecords(dedent(zone))) {
+    const tokens = tokenise(record)
+    const directive = tokens[0]!.toUpperCase()
+
+    if (directive === '$ORIGIN')
+      origin = toAbsoluteName(getDirectiveValue(record, tokens), origin)
+    else if (directive === '$TTL') {
+      const directiveTtl = parseTtl(getDirectiveValue(record, tokens))
+      if (directiveTtl === null)
+        throw new DnsInvalidZoneRecordError({
+          record,
+          reason: `Invalid TTL: ${tokens[1]}`,
+        })
+      ttl = checkTime({ record, value: tokens[1], time: directiveTtl })
+    } else if (directive.startsWith('$'))
+      throw new DnsInvalidZoneRecordError({
+        record,
+        reason: `Unsupported directive: ${tokens[0]}`,
+      })
+    else
+      records.push(
+        parseRecord({
+          record,
+          tokens,
+          origin,
+          ttl,
+          previousName: records.at(-1)?.name,
+        }),
+      )
+  }
+
+  return records
+}
+
+/**
+ * Encodes DNS records into the wire format used by `setDNSRecords`.
+ * @param records - Array of DNS records
+ * @returns Encoded records
+ */
+export const encodeDnsRecords = (records: packet.Answer[]): Hex =>
+  bytesToHex(
+    Buffer.concat(records.map((record) => packet.answer.encode(record))),
+  )
+
+/**
+ * Decodes DNS records from wire format, as returned from `dnsRecord`.
+ * @param data - Encoded records
+ * @returns Array of DNS records
+ */
+export const decodeDnsRecords = (data: Hex): packet.Answer[] => {
+  const buffer = Buffer.from(hexToBytes(data))
+  const records: packet.Answer[] = []
+  let offset = 0
+  while (offset < buffer.length) {
+    records.push(packet.answer.decode(buffer, offset))
+    offset += packet.answer.decode.bytes
+  }
+  return records
+}
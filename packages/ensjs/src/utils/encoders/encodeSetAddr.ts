@@ -1,10 +1,11 @@
 import { bytesToHex, encodeFunctionData, type Address, type Hex } from 'viem'
 import { publicResolverSetAddrSnippet } from '../../contracts/publicResolver.js'
+import type { CoinInput } from '../../types.js'
 import { getCoderFromCoin } from '../normaliseCoinId.js'
 
 export type EncodeSetAddrParameters = {
   namehash: Hex
-  coin: string | number
+  coin: CoinInput
   value: Address | string | null
 }
 
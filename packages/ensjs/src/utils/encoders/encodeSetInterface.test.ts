@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest'
+import { encodeSetInterface } from './encodeSetInterface.js'
+
+describe('encodeSetInterface', () => {
+  const namehash =
+    '0x1234567890abcdef1234567890abcdef1234567890abcdef1234567890abcdef'
+  const interfaceId = '0x01ffc9a7'
+
+  it('encodes the function data correctly when implementer is not null', () => {
+    expect(
+      encodeSetInterface({
+        namehash,
+        interfaceId,
+        implementer: '0x8e8Db5CcEF88cca9d624701Db544989C996E3216',
+      }),
+    ).toMatchInlineSnapshot(
+      `"0xe59d895d1234567890abcdef1234567890abcdef1234567890abcdef1234567890abcdef01ffc9a7000000000000000000000000000000000000000000000000000000000000000000000000000000008e8db5ccef88cca9d624701db544989c996e3216"`,
+    )
+  })
+
+  it('encodes the function data correctly when implementer is null', () => {
+    expect(
+      encodeSetInterface({ namehash, interfaceId, implementer: null }),
+    ).toMatchInlineSnapshot(
+      `"0xe59d895d1234567890abcdef1234567890abcdef1234567890abcdef1234567890abcdef01ffc9a7000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000"`,
+    )
+  })
+})
@@ -0,0 +1,23 @@
+import { encodeFunctionData, type Address, type Hex } from 'viem'
+import { publicResolverSetInterfaceSnippet } from '../../contracts/publicResolver.js'
+import { EMPTY_ADDRESS } from '../consts.js'
+
+export type EncodeSetInterfaceParameters = {
+  namehash: Hex
+  interfaceId: Hex
+  implementer: Address | null
+}
+
+export type EncodeSetInterfaceReturnType = Hex
+
+export const encodeSetInterface = ({
+  namehash,
+  interfaceId,
+  implementer,
+}: EncodeSetInterfaceParameters): EncodeSetInterfaceReturnType => {
+  return encodeFunctionData({
+    abi: publicResolverSetInterfaceSnippet,
+    functionName: 'setInterface',
+    args: [namehash, interfaceId, implementer ?? EMPTY_ADDRESS],
+  })
+}
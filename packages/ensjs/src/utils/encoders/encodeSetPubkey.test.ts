@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest'
+import { encodeSetPubkey } from './encodeSetPubkey.js'
+
+describe('encodeSetPubkey', () => {
+  const namehash =
+    '0x1234567890abcdef1234567890abcdef1234567890abcdef1234567890abcdef'
+  const pubkey = {
+    x: '0x1111111111111111111111111111111111111111111111111111111111111111',
+    y: '0x2222222222222222222222222222222222222222222222222222222222222222',
+  } as const
+
+  it('encodes the function data correctly when pubkey is not null', () => {
+    expect(encodeSetPubkey({ namehash, pubkey })).toMatchInlineSnapshot(
+      `"0x29cd62ea1234567890abcdef1234567890abcdef1234567890abcdef1234567890abcdef11111111111111111111111111111111111111111111111111111111111111112222222222222222222222222222222222222222222222222222222222222222"`,
+    )
+  })
+
+  it('encodes the function data correctly when pubkey is null', () => {
+    expect(encodeSetPubkey({ namehash, pubkey: null })).toMatchInlineSnapshot(
+      `"0x29cd62ea1234567890abcdef1234567890abcdef1234567890abcdef1234567890abcdef00000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000"`,
+    )
+  })
+})
@@ -0,0 +1,21 @@
+import { encodeFunctionData, padHex, type Hex } from 'viem'
+import { publicResolverSetPubkeySnippet } from '../../contracts/publicResolver.js'
+import type { DecodedPubkey } from '../../types.js'
+
+export type EncodeSetPubkeyParameters = {
+  namehash: Hex
+  pubkey: DecodedPubkey | null
+}
+
+export type EncodeSetPubkeyReturnType = Hex
+
+export const encodeSetPubkey = ({
+  namehash,
+  pubkey,
+}: EncodeSetPubkeyParameters): EncodeSetPubkeyReturnType => {
+  return encodeFunctionData({
+    abi: publicResolverSetPubkeySnippet,
+    functionName: 'setPubkey',
+    args: [namehash, pubkey?.x ?? padHex('0x'), pubkey?.y ?? padHex('0x')],
+  })
+}
@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest'
+import {
+  encodeSetZonehash,
+  type EncodeSetZonehashParameters,
+} from './encodeSetZonehash.js'
+
+describe('encodeSetZonehash', () => {
+  const namehash =
+    '0x1234567890abcdef1234567890abcdef1234567890abcdef1234567890abcdef'
+  const zonehash = 'ipfs://QmXwMFNjzjRvZuPvzJfYJZ1QqX2QJjzj1YJZ1QqX2QJjzj'
+
+  it('encodes the function data correctly when zonehash is not null', () => {
+    const params: EncodeSetZonehashParameters = { namehash, zonehash }
+    expect(encodeSetZonehash(params)).toMatchInlineSnapshot(
+      `"0xce3decdc1234567890abcdef1234567890abcdef1234567890abcdef1234567890abcdef00000000000000000000000000000000000000000000000000000000000000400000000000000000000000000000000000000000000000000000000000000026e301017012208e9cc47fde7ff64028480ec671a4ddb8f767a71ff71a73247f51a495a6f296340000000000000000000000000000000000000000000000000000"`,
+    )
+  })
+
+  it('encodes the function data correctly when zonehash is null', () => {
+    const params: EncodeSetZonehashParameters = { namehash, zonehash: null }
+    expect(encodeSetZonehash(params)).toMatchInlineSnapshot(
+      `"0xce3decdc1234567890abcdef1234567890abcdef1234567890abcdef1234567890abcdef00000000000000000000000000000000000000000000000000000000000000400000000000000000000000000000000000000000000000000000000000000000"`,
+    )
+  })
+})
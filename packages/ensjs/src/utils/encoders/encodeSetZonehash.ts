@@ -0,0 +1,25 @@
+import { encodeFunctionData, type Hex } from 'viem'
+import { publicResolverSetZonehashSnippet } from '../../contracts/publicResolver.js'
+import { encodeContentHash } from '../contentHash.js'
+
+export type EncodeSetZonehashParameters = {
+  namehash: Hex
+  zonehash: string | null
+}
+
+export type EncodeSetZonehashReturnType = Hex
+
+export const encodeSetZonehash = ({
+  namehash,
+  zonehash,
+}: EncodeSetZonehashParameters): EncodeSetZonehashReturnType => {
+  let encodedHash: Hex = '0x'
+  if (zonehash) {
+    encodedHash = encodeContentHash(zonehash)
+  }
+  return encodeFunctionData({
+    abi: publicResolverSetZonehashSnippet,
+    functionName: 'setZonehash',
+    args: [namehash, encodedHash],
+  })
+}
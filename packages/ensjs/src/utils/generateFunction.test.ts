@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest'
+import { getBlockParameters } from './generateFunction.js'
+
+describe('getBlockParameters()', () => {
+  it('returns an empty object when no block is specified', () => {
+    expect(getBlockParameters({ name: 'test.eth' })).toEqual({})
+    expect(getBlockParameters(undefined)).toEqual({})
+    expect(getBlockParameters('test.eth')).toEqual({})
+  })
+  it('returns the block number', () => {
+    expect(getBlockParameters({ name: 'test.eth', blockNumber: 1n })).toEqual({
+      blockNumber: 1n,
+    })
+  })
+  it('returns the block tag', () => {
+    expect(getBlockParameters({ blockTag: 'safe' })).toEqual({
+      blockTag: 'safe',
+    })
+  })
+  it('prefers the block number over the block tag', () => {
+    expect(getBlockParameters({ blockNumber: 1n, blockTag: 'latest' })).toEqual(
+      { blockNumber: 1n },
+    )
+  })
+})
@@ -1,7 +1,12 @@
 import { BaseError } from 'viem'
 import { call } from 'viem/actions'
 import type { ClientWithEns } from '../contracts/consts.js'
-import type { TransactionRequestWithPassthrough } from '../types.js'
+import type {
+  BlockParameters,
+  TransactionRequestWithPassthrough,
+} from '../types.js'
+import { getEnsReadCache, getReadCacheTags } from './readCache.js'
+import type { RequestCoalescer } from './requestCoalescer.js'
 
 export type EncoderFunction = (
   ...args: any[]
@@ -47,6 +52,19 @@ export interface GeneratedFunction<
   ) => BatchFunctionResult<TEncoderFn, TDecoderFn>
 }
 
+/**
+ * Gets the block to read at from function parameters, in the format used by `call`
+ * @param parameters - Function parameters, which may contain `blockNumber` or `blockTag`
+ * @returns Block parameters for `call`
+ */
+export const getBlockParameters = (parameters: unknown) => {
+  if (!parameters || typeof parameters !== 'object') return {}
+  const { blockNumber, blockTag } = parameters as BlockParameters
+  if (blockNumber !== undefined) return { blockNumber }
+  if (blockTag !== undefined) return { blockTag }
+  return {}
+}
+
 export const generateFunction = <
   TEncoderFn extends EncoderFunction,
   TDecoderFn extends DecoderFunction,
@@ -55,20 +73,39 @@ export const generateFunction = <
     TDecoderFn
   > = GeneratedFunction<TEncoderFn, TDecoderFn>,
 >({
+  name,
   encode,
   decode,
 }: {
+  /** Name of the function, used for per-function cache TTLs */
+  name?: string
   encode: TEncoderFn
   decode: TDecoderFn
 }) => {
   const single = async function (client, ...args) {
     const { passthrough, ...encodedData } = encode(client, ...args)
-    const result = await call(client, encodedData)
-      .then((ret) => ret.data)
-      .catch((e) => {
-        if (!(e instanceof BaseError)) throw e
-        return e
-      })
+    const request = { ...encodedData, ...getBlockParameters(args[0]) }
+    // coalescer is optional and imported as a type only, since it depends on multicallWrapper
+    const coalescer = (client as { ensRequestCoalescer?: RequestCoalescer })
+      .ensRequestCoalescer
+    const fetchData = () =>
+      coalescer
+        ? coalescer.call(request)
+        : call(client, request).then((ret) => ret.data)
+    const cache = getEnsReadCache(client)
+    const result = await (cache
+      ? cache.read({
+          ...request,
+          chainId: client.chain.id,
+          functionName: name,
+          tags: getReadCacheTags(args),
+          fetch: fetchData,
+        })
+      : fetchData()
+    ).catch((e) => {
+      if (!(e instanceof BaseError)) throw e
+      return e
+    })
     if (passthrough) return decode(client, result, passthrough, ...args)
     return decode(client, result, ...args)
   } as TFunction
@@ -80,6 +80,38 @@ it('adds coin calls when coins array is defined and not empty', () => {
     ]
   `)
 })
+it('adds pubkey call when pubkey is defined', () => {
+  expect(
+    generateRecordCallArray({
+      namehash: namehash('test.eth'),
+      pubkey: {
+        x: '0x1111111111111111111111111111111111111111111111111111111111111111',
+        y: '0x2222222222222222222222222222222222222222222222222222222222222222',
+      },
+    }),
+  ).toMatchInlineSnapshot(`
+    [
+      "0x29cd62eaeb4f647bea6caa36333c816d7b46fdcb05f9466ecacc140ea8c66faf15b3d9f111111111111111111111111111111111111111111111111111111111111111112222222222222222222222222222222222222222222222222222222222222222",
+    ]
+  `)
+})
+it('adds interface calls when interfaces array is not empty', () => {
+  expect(
+    generateRecordCallArray({
+      namehash: namehash('test.eth'),
+      interfaces: [
+        {
+          interfaceId: '0x01ffc9a7',
+          implementer: '0x8e8Db5CcEF88cca9d624701Db544989C996E3216',
+        },
+      ],
+    }),
+  ).toMatchInlineSnapshot(`
+    [
+      "0xe59d895deb4f647bea6caa36333c816d7b46fdcb05f9466ecacc140ea8c66faf15b3d9f101ffc9a7000000000000000000000000000000000000000000000000000000000000000000000000000000008e8db5ccef88cca9d624701db544989c996e3216",
+    ]
+  `)
+})
 it('adds abi call when data is null', async () => {
   const result = await encodeAbi({ encodeAs: 'uri', data: null })
   expect(
@@ -1,5 +1,5 @@
 import { type Hex } from 'viem'
-import type { Prettify } from '../types.js'
+import type { DecodedPubkey, Prettify } from '../types.js'
 import type { EncodedAbi } from './encoders/encodeAbi.js'
 import { encodeClearRecords } from './encoders/encodeClearRecords.js'
 import {
@@ -11,6 +11,11 @@ import {
   type EncodeSetAddrParameters,
 } from './encoders/encodeSetAddr.js'
 import { encodeSetContentHash } from './encoders/encodeSetContentHash.js'
+import {
+  encodeSetInterface,
+  type EncodeSetInterfaceParameters,
+} from './encoders/encodeSetInterface.js'
+import { encodeSetPubkey } from './encoders/encodeSetPubkey.js'
 import {
   encodeSetText,
   type EncodeSetTextParameters,
@@ -27,6 +32,10 @@ export type RecordOptions = Prettify<{
   coins?: Omit<EncodeSetAddrParameters, 'namehash'>[]
   /** ABI value */
   abi?: EncodedAbi | EncodedAbi[]
+  /** ECDSA SECP256k1 public key value */
+  pubkey?: DecodedPubkey | null
+  /** Array of interface implementer records */
+  interfaces?: Omit<EncodeSetInterfaceParameters, 'namehash'>[]
 }>
 
 export const generateRecordCallArray = ({
@@ -36,6 +45,8 @@ export const generateRecordCallArray = ({
   texts,
   coins,
   abi,
+  pubkey,
+  interfaces,
 }: { namehash: Hex } & RecordOptions): Hex[] => {
   const calls: Hex[] = []
 
@@ -70,5 +81,16 @@ export const generateRecordCallArray = ({
     if (data) calls.push(...data)
   }
 
+  if (pubkey !== undefined) {
+    calls.push(encodeSetPubkey({ namehash, pubkey }))
+  }
+
+  if (interfaces && interfaces.length > 0) {
+    const data = interfaces.map((interfaceItem) =>
+      encodeSetInterface({ namehash, ...interfaceItem }),
+    )
+    calls.push(...data)
+  }
+
   return calls
 }
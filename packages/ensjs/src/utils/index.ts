@@ -1,3 +1,11 @@
+export {
+  getGatewayUri,
+  parseAvatarUri,
+  resolveAvatarUri,
+  type AvatarGateways,
+  type ParsedAvatarUri,
+  type ResolveAvatarUriParameters,
+} from './avatar.js'
 export { ccipRequest } from './ccipRequest.js'
 export {
   getDnsTxtRecords,
@@ -35,11 +43,26 @@ export {
   type EncodeSetContentHashParameters,
   type EncodeSetContentHashReturnType,
 } from './encoders/encodeSetContentHash.js'
+export {
+  encodeSetInterface,
+  type EncodeSetInterfaceParameters,
+  type EncodeSetInterfaceReturnType,
+} from './encoders/encodeSetInterface.js'
+export {
+  encodeSetPubkey,
+  type EncodeSetPubkeyParameters,
+  type EncodeSetPubkeyReturnType,
+} from './encoders/encodeSetPubkey.js'
 export {
   encodeSetText,
   type EncodeSetTextParameters,
   type EncodeSetTextReturnType,
 } from './encoders/encodeSetText.js'
+export {
+  encodeSetZonehash,
+  type EncodeSetZonehashParameters,
+  type EncodeSetZonehashReturnType,
+} from './encoders/encodeSetZonehash.js'
 
 export {
   EMPTY_ADDRESS,
@@ -105,6 +128,11 @@ export {
   saveName,
 } from './labels.js'
 export { makeSafeSecondsDate } from './makeSafeSecondsDate.js'
+export {
+  chunkTransactions,
+  estimateCallGas,
+  type MulticallChunkParameters,
+} from './multicallChunks.js'
 export {
   beautify,
   emoji,
@@ -126,6 +154,27 @@ export {
   type Token,
   type ValidToken,
 } from './normalise.js'
+export {
+  getPremiumDropTimestamp,
+  getPremiumPrice,
+  type GetPremiumDropTimestampParameters,
+  type GetPremiumPriceParameters,
+  type PremiumCurveParameters,
+} from './premium.js'
+export {
+  createEnsReadCache,
+  createMemoryCacheStore,
+  type CreateEnsReadCacheParameters,
+  type CreateMemoryCacheStoreParameters,
+  type EnsReadCache,
+  type EnsReadCacheEntry,
+  type EnsReadCacheStore,
+} from './readCache.js'
+export {
+  createRequestCoalescer,
+  type CreateRequestCoalescerParameters,
+  type RequestCoalescer,
+} from './requestCoalescer.js'
 export {
   makeCommitment,
   makeCommitmentFromTuple,
@@ -136,6 +185,12 @@ export {
   type RegistrationParameters,
   type RegistrationTuple,
 } from './registerHelpers.js'
+export {
+  getEnsRevertError,
+  simulateTransaction,
+  type SimulateTransactionParameters,
+  type SimulateTransactionReturnType,
+} from './simulateTransaction.js'
 export {
   checkIsDotEth,
   parseInput,
@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest'
+import {
+  chunkTransactions,
+  estimateCallGas,
+  mapWithConcurrency,
+} from './multicallChunks.js'
+
+const to = '0x1234567890123456789012345678901234567890' as const
+
+describe('estimateCallGas()', () => {
+  it('adds calldata cost to the flat execution estimate', () => {
+    expect(estimateCallGas({ to, data: '0x0001' })).toBe(100_020)
+  })
+  it('uses the execution gas of the call if specified', () => {
+    expect(estimateCallGas({ to, data: '0x0001', executionGas: 500_000 })).toBe(
+      500_020,
+    )
+  })
+})
+
+describe('chunkTransactions()', () => {
+  const transactions = Array.from({ length: 5 }, () => ({
+    to,
+    data: '0x01' as const,
+  }))
+  it('returns a single chunk when within limits', () => {
+    expect(chunkTransactions(transactions)).toEqual([transactions])
+  })
+  it('splits by estimated gas', () => {
+    expect(
+      chunkTransactions(transactions, { maxGasPerChunk: 250_000 }).map(
+        (chunk) => chunk.length,
+      ),
+    ).toEqual([2, 2, 1])
+  })
+  it('splits by calldata size', () => {
+    expect(
+      chunkTransactions(transactions, { maxCalldataSizePerChunk: 3 }).map(
+        (chunk) => chunk.length,
+      ),
+    ).toEqual([3, 2])
+  })
+  it('puts calls that exceed the limits in their own chunk', () => {
+    expect(
+      chunkTransactions(transactions.slice(0, 2), { maxGasPerChunk: 1 }).map(
+        (chunk) => chunk.length,
+      ),
+    ).toEqual([1, 1])
+  })
+})
+
+describe('mapWithConcurrency()', () => {
+  it('returns results in order', async () => {
+    const result = await mapWithConcurrency(
+      [30, 10, 20],
+      2,
+      (ms) =>
+        new Promise<number>((resolve) => {
+          setTimeout(() => resolve(ms), ms)
+        }),
+    )
+    expect(result).toEqual([30, 10, 20])
+  })
+  it('limits the number of pending calls', async () => {
+    let pending = 0
+    let maxPending = 0
+    await mapWithConcurrency([1, 2, 3, 4, 5], 2, async () => {
+      pending += 1
+      maxPending = Math.max(maxPending, pending)
+      await new Promise((resolve) => {
+        setTimeout(resolve, 1)
+      })
+      pending -= 1
+    })
+    expect(maxPending).toBe(2)
+  })
+  it('throws for a concurrency below 1', async () => {
+    await expect(mapWithConcurrency([1], 0, async (item) => item)).rejects
+      .toThrowErrorMatchingInlineSnapshot(`
+      [InvalidConcurrencyError: Invalid concurrency: 0
+
+      Details: Concurrency must be an integer of at least 1
+
+      Version: @ensdomains/ensjs@1.0.0-mock.0]
+    `)
+    await expect(
+      mapWithConcurrency([1], NaN, async (item) => item),
+    ).rejects.toThrow('Invalid concurrency: NaN')
+  })
+})
@@ -0,0 +1,108 @@
+import { hexToBytes } from 'viem'
+import { InvalidConcurrencyError } from '../errors/general.js'
+import type { SimpleTransactionRequest } from '../types.js'
+
+export type MulticallChunkParameters = {
+  /** Maximum estimated gas for a single multicall, defaults to `30_000_000` */
+  maxGasPerChunk?: number
+  /** Maximum calldata size in bytes for a single multicall, defaults to `100_000` */
+  maxCalldataSizePerChunk?: number
+  /** Maximum number of multicalls sent at the same time, defaults to `4` */
+  concurrency?: number
+}
+
+export type ChunkableTransactionRequest = SimpleTransactionRequest & {
+  /** Estimated execution gas for the call, for calls that are known to cost more than the default estimate */
+  executionGas?: number
+}
+
+// execution cost can't be known before calling, so a generous flat estimate is used for each call
+const ESTIMATED_EXECUTION_GAS = 100_000
+
+/**
+ * Estimates the gas used by a call within a multicall
+ * @param transaction - Call to estimate gas for
+ * @returns Estimated gas, as the execution cost plus calldata cost
+ */
+export const estimateCallGas = ({
+  data,
+  executionGas = ESTIMATED_EXECUTION_GAS,
+}: ChunkableTransactionRequest) =>
+  hexToBytes(data).reduce(
+    (gas, byte) => gas + (byte === 0 ? 4 : 16),
+    executionGas,
+  )
+
+const getCalldataSize = ({ data }: SimpleTransactionRequest) =>
+  (data.length - 2) / 2
+
+/**
+ * Splits calls into chunks that fit within the gas and calldata limits of a single multicall
+ * @param transactions - Calls to split
+ * @param parameters - {@link MulticallChunkParameters}
+ * @returns Chunks of calls, in the original order
+ */
+export const chunkTransactions = <
+  TTransaction extends ChunkableTransactionRequest,
+>(
+  transactions: TTransaction[],
+  {
+    maxGasPerChunk = 30_000_000,
+    maxCalldataSizePerChunk = 100_000,
+  }: MulticallChunkParameters = {},
+): TTransaction[][] => {
+  const chunks: TTransaction[][] = []
+  let current: TTransaction[] = []
+  let gas = 0
+  let size = 0
+  for (const transaction of transactions) {
+    const transactionGas = estimateCallGas(transaction)
+    const transactionSize = getCalldataSize(transaction)
+    // a single call that exceeds the limits is still sent, in a chunk of its own
+    if (
+      current.length > 0 &&
+      (gas + transactionGas > maxGasPerChunk ||
+        size + transactionSize > maxCalldataSizePerChunk)
+    ) {
+      chunks.push(current)
+      current = []
+      gas = 0
+      size = 0
+    }
+    current.push(transaction)
+    gas += transactionGas
+    size += transactionSize
+  }
+  if (current.length > 0) chunks.push(current)
+  return chunks
+}
+
+/**
+ * Maps over items with an async function, running at most `concurrency` at the same time
+ * @param items - Items to map over
+ * @param concurrency - Maximum number of pending calls
+ * @param fn - Function to call for each item
+ * @returns Results, in the original order
+ */
+export const mapWithConcurrency = async <TItem, TResult>(
+  items: TItem[],
+  concurrency: number,
+  fn: (item: TItem, index: number) => Promise<TResult>,
+): Promise<TResult[]> => {
+  if (!Number.isInteger(concurrency) || concurrency < 1)
+    throw new InvalidConcurrencyError({ concurrency })
+  const results: TResult[] = new Array(items.length)
+  let nextIndex = 0
+  const worker = async () => {
+    while (nextIndex < items.length) {
+      const index = nextIndex
+      nextIndex += 1
+      // eslint-disable-next-line no-await-in-loop
+      results[index] = await fn(items[index], index)
+    }
+  }
+  await Promise.all(
+    Array.from({ length: Math.min(concurrency, items.length) }, worker),
+  )
+  return results
+}
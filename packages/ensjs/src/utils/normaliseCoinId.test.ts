@@ -0,0 +1,59 @@
+import { optimism } from 'viem/chains'
+import { describe, expect, it } from 'vitest'
+import {
+  getChainIdFromCoinType,
+  getCoderFromCoin,
+  getCoinTypeFromChainId,
+  isEvmFallbackCoinType,
+} from './normaliseCoinId.js'
+
+describe('getCoderFromCoin()', () => {
+  it('gets a coder from a coin name', () => {
+    expect(getCoderFromCoin('ETH').coinType).toBe(60)
+  })
+  it('gets a coder from a coin type', () => {
+    expect(getCoderFromCoin('61').name).toBe('etcLegacy')
+  })
+  it('gets a coder from a viem chain', () => {
+    expect(getCoderFromCoin(optimism).coinType).toBe(2147483658)
+  })
+  it('gets a coder from a chain id', () => {
+    expect(getCoderFromCoin({ chainId: 1 }).coinType).toBe(60)
+    expect(getCoderFromCoin({ chainId: 0 }).coinType).toBe(2147483648)
+  })
+  it('throws for an unknown coin', () => {
+    expect(() => getCoderFromCoin('notacoin')).toThrow(
+      'Coin formatter not found for notacoin',
+    )
+  })
+})
+
+describe('getCoinTypeFromChainId()', () => {
+  it('uses the SLIP-44 coin type for mainnet', () => {
+    expect(getCoinTypeFromChainId(1)).toBe(60)
+  })
+  it('uses the ENSIP-11 coin type for other chains', () => {
+    expect(getCoinTypeFromChainId(10)).toBe(2147483658)
+  })
+})
+
+describe('getChainIdFromCoinType()', () => {
+  it('returns the chain id for EVM coin types', () => {
+    expect(getChainIdFromCoinType(60)).toBe(1)
+    expect(getChainIdFromCoinType(2147483658)).toBe(10)
+  })
+  it('returns undefined for non-EVM coin types', () => {
+    expect(getChainIdFromCoinType(0)).toBeUndefined()
+  })
+})
+
+describe('isEvmFallbackCoinType()', () => {
+  it('returns true for EVM chain coin types', () => {
+    expect(isEvmFallbackCoinType(2147483658)).toBe(true)
+  })
+  it('returns false for mainnet, the default, and non-EVM coin types', () => {
+    expect(isEvmFallbackCoinType(60)).toBe(false)
+    expect(isEvmFallbackCoinType(2147483648)).toBe(false)
+    expect(isEvmFallbackCoinType(0)).toBe(false)
+  })
+})
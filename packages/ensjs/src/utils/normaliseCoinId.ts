@@ -3,7 +3,16 @@ import {
   getCoderByCoinType,
   type Coin,
 } from '@ensdomains/address-encoder'
+import {
+  coinTypeToEvmChainId,
+  evmChainIdToCoinType,
+  isEvmCoinType,
+} from '@ensdomains/address-encoder/utils'
 import { CoinFormatterNotFoundError } from '../errors/public.js'
+import type { CoinInput } from '../types.js'
+
+/** Coin type used for EVM chains without a chain-specific record (ENSIP-19) */
+export const DEFAULT_EVM_COIN_TYPE = 0x80000000
 
 export const normaliseCoinId = (coinId: string | number) => {
   const isString = typeof coinId === 'string'
@@ -20,8 +29,43 @@ export const normaliseCoinId = (coinId: string | number) => {
   } as const
 }
 
-export const getCoderFromCoin = (coinId: string | number): Coin => {
-  const normalisedCoin = normaliseCoinId(coinId)
+/**
+ * Gets the coin type for an EVM chain ID, as specified by ENSIP-11.
+ * Ethereum mainnet uses the SLIP-44 coin type `60`.
+ * @param chainId - EVM chain ID
+ * @returns Coin type
+ */
+export const getCoinTypeFromChainId = (chainId: number): number =>
+  chainId === 1 ? 60 : evmChainIdToCoinType(chainId)
+
+/**
+ * Gets the EVM chain ID for a coin type, if it is an EVM coin type.
+ * @param coinType - Coin type
+ * @returns EVM chain ID, or `undefined` for non-EVM coin types
+ */
+export const getChainIdFromCoinType = (
+  coinType: number,
+): number | undefined => {
+  if (coinType === 60) return 1
+  if (isEvmCoinType(coinType)) return coinTypeToEvmChainId(coinType)
+  return undefined
+}
+
+/**
+ * Checks if a coin type can fall back to the default EVM coin type when its record is empty.
+ * @param coinType - Coin type
+ * @returns `true` for EVM chain coin types other than mainnet and the default itself
+ */
+export const isEvmFallbackCoinType = (coinType: number): boolean =>
+  coinType !== DEFAULT_EVM_COIN_TYPE && isEvmCoinType(coinType)
+
+const normaliseCoinInput = (coin: CoinInput): string | number => {
+  if (typeof coin !== 'object') return coin
+  return getCoinTypeFromChainId('chainId' in coin ? coin.chainId : coin.id)
+}
+
+export const getCoderFromCoin = (coinId: CoinInput): Coin => {
+  const normalisedCoin = normaliseCoinId(normaliseCoinInput(coinId))
   let coder: Coin
   try {
     coder =
@@ -29,7 +73,9 @@ export const getCoderFromCoin = (coinId: string | number): Coin => {
         ? getCoderByCoinType(normalisedCoin.value)
         : getCoderByCoinName(normalisedCoin.value)
   } catch {
-    throw new CoinFormatterNotFoundError({ coinType: coinId })
+    throw new CoinFormatterNotFoundError({
+      coinType: normaliseCoinInput(coinId),
+    })
   }
 
   return coder
@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest'
+import { GRACE_PERIOD_SECONDS } from './consts.js'
+import { getPremiumDropTimestamp, getPremiumPrice } from './premium.js'
+
+const expiry = 1675000000n
+const releaseTimestamp = expiry + BigInt(GRACE_PERIOD_SECONDS)
+const startPremium = 100_000_000n * 10n ** 18n
+const endValue = startPremium >> 21n
+
+describe('getPremiumPrice', () => {
+  it('returns 0 before the grace period has ended', () => {
+    expect(
+      getPremiumPrice({ expiry, timestamp: releaseTimestamp - 1n }),
+    ).toEqual(0n)
+  })
+  it('returns the start premium minus the end value at release', () => {
+    expect(getPremiumPrice({ expiry, timestamp: releaseTimestamp })).toEqual(
+      startPremium - endValue,
+    )
+  })
+  it('halves the premium every day', () => {
+    expect(
+      getPremiumPrice({ expiry, timestamp: releaseTimestamp + 86400n }),
+    ).toEqual((startPremium >> 1n) - endValue)
+  })
+  it('returns the premium within a day', () => {
+    expect(getPremiumPrice({ expiry, timestamp: 1682800000n })).toEqual(
+      82486399493371234264337377n,
+    )
+  })
+  it('returns 0 after the decay period has ended', () => {
+    expect(
+      getPremiumPrice({ expiry, timestamp: releaseTimestamp + 21n * 86400n }),
+    ).toEqual(0n)
+  })
+  it('converts the premium to wei when ethUsdPrice is supplied', () => {
+    expect(
+      getPremiumPrice({
+        expiry,
+        timestamp: releaseTimestamp,
+        ethUsdPrice: 160000000000n,
+      }),
+    ).toEqual(((startPremium - endValue) * 10n ** 8n) / 160000000000n)
+  })
+  it('allows Date inputs', () => {
+    expect(
+      getPremiumPrice({
+        expiry: new Date(Number(expiry) * 1000),
+        timestamp: new Date(1682800000000),
+      }),
+    ).toEqual(82486399493371234264337377n)
+  })
+  it('allows a custom curve', () => {
+    expect(
+      getPremiumPrice({
+        expiry,
+        timestamp: expiry + 86400n,
+        gracePeriod: 0,
+        startPremium: 1024n,
+        totalDays: 2,
+      }),
+    ).toEqual(512n - 256n)
+  })
+})
+
+describe('getPremiumDropTimestamp', () => {
+  it('returns the first timestamp the premium is below the target', () => {
+    const timestamp = getPremiumDropTimestamp({
+      expiry,
+      targetPremium: 100n * 10n ** 18n,
+    })
+    expect(timestamp).toEqual(1684449488n)
+    expect(getPremiumPrice({ expiry, timestamp: timestamp! })).toBeLessThan(
+      100n * 10n ** 18n,
+    )
+    expect(
+      getPremiumPrice({ expiry, timestamp: timestamp! - 1n }),
+    ).toBeGreaterThanOrEqual(100n * 10n ** 18n)
+  })
+  it('returns the release timestamp when the target is above the start premium', () => {
+    expect(
+      getPremiumDropTimestamp({ expiry, targetPremium: startPremium }),
+    ).toEqual(releaseTimestamp)
+  })
+  it('returns null when the target is 0', () => {
+    expect(getPremiumDropTimestamp({ expiry, targetPremium: 0n })).toBeNull()
+  })
+})
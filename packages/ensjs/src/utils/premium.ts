@@ -0,0 +1,146 @@
+import type { AnyDate } from '../types.js'
+import { GRACE_PERIOD_SECONDS } from './consts.js'
+import { expiryToBigInt } from './wrapper.js'
+
+export type PremiumCurveParameters = {
+  /** Expiry of the name */
+  expiry: AnyDate
+  /** Premium at the start of the curve in attoUSD, defaults to `100_000_000` USD */
+  startPremium?: bigint
+  /** Number of days the premium decays over, defaults to `21` */
+  totalDays?: number
+  /** Grace period in seconds, defaults to {@link GRACE_PERIOD_SECONDS} */
+  gracePeriod?: number
+  /** ETH/USD price from the price oracle (8 decimals), if supplied premium values are in wei instead of attoUSD */
+  ethUsdPrice?: bigint
+}
+
+export type GetPremiumPriceParameters = PremiumCurveParameters & {
+  /** Timestamp to get the premium at */
+  timestamp: AnyDate
+}
+
+export type GetPremiumDropTimestampParameters = PremiumCurveParameters & {
+  /** Premium to get the timestamp for, in the same unit as the returned premium */
+  targetPremium: bigint
+}
+
+const PRECISION = 10n ** 18n
+const SECONDS_PER_DAY = 86400n
+const DEFAULT_START_PREMIUM = 100_000_000n * PRECISION
+const DEFAULT_TOTAL_DAYS = 21
+
+// 0.5 ^ (2 ^ i / 65536) * 10 ** 18, as used by ExponentialPremiumPriceOracle
+const fractionalBits = [
+  999989423469314432n,
+  999978847050491904n,
+  999957694548431104n,
+  999915390886613504n,
+  999830788931929088n,
+  999661606496243712n,
+  999323327502650752n,
+  998647112890970240n,
+  997296056085470080n,
+  994599423483633152n,
+  989228013193975424n,
+  978572062087700096n,
+  957603280698573696n,
+  917004043204671232n,
+  840896415253714560n,
+  707106781186547584n,
+]
+
+const addFractionalPremium = (fraction: bigint, premium: bigint) =>
+  fractionalBits.reduce(
+    (result, bit, i) =>
+      fraction & (1n << BigInt(i)) ? (result * bit) / PRECISION : result,
+    premium,
+  )
+
+const decayedPremium = (startPremium: bigint, elapsed: bigint) => {
+  const daysPast = (elapsed * PRECISION) / SECONDS_PER_DAY
+  const intDays = daysPast / PRECISION
+  const premium = startPremium >> intDays
+  const partDay = daysPast - intDays * PRECISION
+  const fraction = (partDay * 2n ** 16n) / PRECISION
+  return addFractionalPremium(fraction, premium)
+}
+
+const getReleaseTimestamp = ({
+  expiry,
+  gracePeriod = GRACE_PERIOD_SECONDS,
+}: PremiumCurveParameters) => expiryToBigInt(expiry) + BigInt(gracePeriod)
+
+/**
+ * Gets the temporary premium of a name at a given timestamp, matching the ExponentialPremiumPriceOracle
+ * @param parameters - {@link GetPremiumPriceParameters}
+ * @returns Premium in attoUSD, or wei if `ethUsdPrice` is supplied
+ *
+ * @example
+ * import { getPremiumPrice } from '@ensdomains/ensjs/utils'
+ *
+ * const premium = getPremiumPrice({
+ *   expiry: 1675000000n,
+ *   timestamp: 1682800000n,
+ * })
+ * // 82486399493371234264337377n
+ */
+export const getPremiumPrice = ({
+  timestamp,
+  ...parameters
+}: GetPremiumPriceParameters): bigint => {
+  const {
+    startPremium = DEFAULT_START_PREMIUM,
+    totalDays = DEFAULT_TOTAL_DAYS,
+    ethUsdPrice,
+  } = parameters
+  const releaseTimestamp = getReleaseTimestamp(parameters)
+  const currentTimestamp = expiryToBigInt(timestamp)
+  if (releaseTimestamp > currentTimestamp) return 0n
+
+  const endValue = startPremium >> BigInt(totalDays)
+  const premium = decayedPremium(
+    startPremium,
+    currentTimestamp - releaseTimestamp,
+  )
+  const premiumUsd = premium >= endValue ? premium - endValue : 0n
+  if (ethUsdPrice === undefined) return premiumUsd
+  return (premiumUsd * 10n ** 8n) / ethUsdPrice
+}
+
+/**
+ * Gets the first timestamp at which the temporary premium of a name is below a target premium
+ * @param parameters - {@link GetPremiumDropTimestampParameters}
+ * @returns Timestamp in seconds, or `null` if the premium never drops below the target
+ *
+ * @example
+ * import { getPremiumDropTimestamp } from '@ensdomains/ensjs/utils'
+ *
+ * const timestamp = getPremiumDropTimestamp({
+ *   expiry: 1675000000n,
+ *   targetPremium: 100n * 10n ** 18n,
+ * })
+ * // 1684449488n
+ */
+export const getPremiumDropTimestamp = ({
+  targetPremium,
+  ...parameters
+}: GetPremiumDropTimestampParameters): bigint | null => {
+  if (targetPremium <= 0n) return null
+  const { totalDays = DEFAULT_TOTAL_DAYS } = parameters
+  const releaseTimestamp = getReleaseTimestamp(parameters)
+  const isBelowTarget = (timestamp: bigint) =>
+    getPremiumPrice({ ...parameters, timestamp }) < targetPremium
+
+  if (isBelowTarget(releaseTimestamp)) return releaseTimestamp
+
+  // premium only decreases over time, and is zero once the decay period has ended
+  let low = releaseTimestamp
+  let high = releaseTimestamp + BigInt(totalDays) * SECONDS_PER_DAY
+  while (high - low > 1n) {
+    const middle = (low + high) / 2n
+    if (isBelowTarget(middle)) high = middle
+    else low = middle
+  }
+  return high
+}
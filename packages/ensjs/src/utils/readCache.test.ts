@@ -0,0 +1,230 @@
+import type { Client } from 'viem'
+import { waitForTransactionReceipt } from 'viem/actions'
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import {
+  createEnsReadCache,
+  createMemoryCacheStore,
+  getReadCacheTags,
+  withoutEnsReadCache,
+  withReadCacheInvalidation,
+} from './readCache.js'
+
+vi.mock('viem/actions', () => ({
+  waitForTransactionReceipt: vi.fn(),
+}))
+
+const readParameters = {
+  chainId: 1,
+  to: '0x1234567890123456789012345678901234567890' as const,
+  data: '0x1234' as const,
+  tags: ['test.eth'],
+}
+
+afterEach(() => {
+  vi.useRealTimers()
+})
+
+describe('createMemoryCacheStore()', () => {
+  it('removes expired entries', async () => {
+    vi.useFakeTimers()
+    const store = createMemoryCacheStore()
+    await store.set('key', { data: '0xabcd', expiresAt: Date.now() + 1000 })
+    expect(await store.get('key')).toEqual({
+      data: '0xabcd',
+      expiresAt: Date.now() + 1000,
+    })
+    vi.advanceTimersByTime(1001)
+    expect(await store.get('key')).toBeUndefined()
+  })
+  it('removes the least recently used entry when full', async () => {
+    const store = createMemoryCacheStore({ maxEntries: 2 })
+    const entry = { data: '0xabcd', expiresAt: Date.now() + 1000 } as const
+    await store.set('a', entry)
+    await store.set('b', entry)
+    await store.get('a')
+    await store.set('c', entry)
+    expect(await store.get('a')).toEqual(entry)
+    expect(await store.get('b')).toBeUndefined()
+    expect(await store.get('c')).toEqual(entry)
+  })
+})
+
+describe('createEnsReadCache()', () => {
+  it('returns cached data for the same call', async () => {
+    const cache = createEnsReadCache()
+    const fetch = vi.fn().mockResolvedValue('0xabcd')
+    expect(await cache.read({ ...readParameters, fetch })).toBe('0xabcd')
+    expect(await cache.read({ ...readParameters, fetch })).toBe('0xabcd')
+    expect(fetch).toHaveBeenCalledTimes(1)
+  })
+  it('does not share entries between blocks', async () => {
+    const cache = createEnsReadCache()
+    const fetch = vi.fn().mockResolvedValue('0xabcd')
+    await cache.read({ ...readParameters, fetch })
+    await cache.read({ ...readParameters, blockNumber: 1n, fetch })
+    expect(fetch).toHaveBeenCalledTimes(2)
+  })
+  it('refetches data after the ttl', async () => {
+    vi.useFakeTimers()
+    const cache = createEnsReadCache({ ttl: 1000 })
+    const fetch = vi.fn().mockResolvedValue('0xabcd')
+    await cache.read({ ...readParameters, fetch })
+    vi.advanceTimersByTime(1001)
+    await cache.read({ ...readParameters, fetch })
+    expect(fetch).toHaveBeenCalledTimes(2)
+  })
+  it('uses function specific ttls', async () => {
+    const cache = createEnsReadCache({ functionTtls: { getName: 0 } })
+    const fetch = vi.fn().mockResolvedValue('0xabcd')
+    await cache.read({ ...readParameters, functionName: 'getName', fetch })
+    await cache.read({ ...readParameters, functionName: 'getName', fetch })
+    expect(fetch).toHaveBeenCalledTimes(2)
+  })
+  it('does not cache errors', async () => {
+    const cache = createEnsReadCache()
+    const fetch = vi
+      .fn()
+      .mockRejectedValueOnce(new Error('error'))
+      .mockResolvedValue('0xabcd')
+    await expect(cache.read({ ...readParameters, fetch })).rejects.toThrow()
+    expect(await cache.read({ ...readParameters, fetch })).toBe('0xabcd')
+  })
+  it('invalidates entries for a name', async () => {
+    const store = createMemoryCacheStore()
+    const cache = createEnsReadCache({ store })
+    const fetch = vi.fn().mockResolvedValue('0xabcd')
+    await cache.read({ ...readParameters, fetch })
+    await cache.invalidate('Test.eth')
+    await cache.read({ ...readParameters, fetch })
+    expect(fetch).toHaveBeenCalledTimes(2)
+  })
+  it('only invalidates entries for their latest tags', async () => {
+    vi.useFakeTimers()
+    const cache = createEnsReadCache({ ttl: 1000 })
+    const fetch = vi.fn().mockResolvedValue('0xabcd')
+    await cache.read({ ...readParameters, fetch })
+    vi.advanceTimersByTime(1001)
+    await cache.read({ ...readParameters, tags: ['other.eth'], fetch })
+    await cache.invalidate('test.eth')
+    await cache.read({ ...readParameters, tags: ['other.eth'], fetch })
+    expect(fetch).toHaveBeenCalledTimes(2)
+    await cache.invalidate('other.eth')
+    await cache.read({ ...readParameters, tags: ['other.eth'], fetch })
+    expect(fetch).toHaveBeenCalledTimes(3)
+  })
+})
+
+describe('getReadCacheTags()', () => {
+  it('returns names and addresses from parameters', () => {
+    expect(
+      getReadCacheTags([
+        { name: 'test.eth' },
+        { address: '0x1234567890123456789012345678901234567890' },
+      ]),
+    ).toEqual(['test.eth', '0x1234567890123456789012345678901234567890'])
+  })
+  it('returns owner addresses from parameters', () => {
+    expect(
+      getReadCacheTags([
+        {
+          owner: '0x1234567890123456789012345678901234567890',
+          operator: '0x0000000000000000000000000000000000000001',
+        },
+      ]),
+    ).toEqual(['0x1234567890123456789012345678901234567890'])
+  })
+  it('returns names from batched functions', () => {
+    expect(
+      getReadCacheTags([
+        { blockNumber: 1n },
+        { args: [{ name: 'test.eth' }] },
+        { args: [{ name: 'other.eth' }] },
+      ]),
+    ).toEqual(['test.eth', 'other.eth'])
+  })
+})
+
+describe('withReadCacheInvalidation()', () => {
+  it('invalidates names and the sender address after sending', async () => {
+    const cache = createEnsReadCache()
+    const invalidate = vi.spyOn(cache, 'invalidate')
+    vi.mocked(waitForTransactionReceipt).mockReturnValue(new Promise(() => {}))
+    const actions = withReadCacheInvalidation(
+      { ensReadCache: cache } as unknown as Client,
+      { renewNames: vi.fn().mockResolvedValue('0x1234') },
+    )
+    await actions.renewNames({
+      nameOrNames: ['test.eth', 'other.eth'],
+      account: '0x1234567890123456789012345678901234567890',
+    })
+    expect(invalidate).toHaveBeenCalledWith(
+      'test.eth',
+      'other.eth',
+      '0x1234567890123456789012345678901234567890',
+    )
+  })
+  it('invalidates parent names and addresses the write is for', async () => {
+    const cache = createEnsReadCache()
+    const invalidate = vi.spyOn(cache, 'invalidate')
+    vi.mocked(waitForTransactionReceipt).mockReturnValue(new Promise(() => {}))
+    const actions = withReadCacheInvalidation(
+      { ensReadCache: cache } as unknown as Client,
+      {
+        approveName: vi.fn().mockResolvedValue('0x1234'),
+        createSubname: vi.fn().mockResolvedValue('0x1234'),
+      },
+    )
+    await actions.createSubname({
+      name: 'sub.test.eth',
+      owner: '0x1234567890123456789012345678901234567890',
+    })
+    expect(invalidate).toHaveBeenLastCalledWith(
+      'sub.test.eth',
+      '0x1234567890123456789012345678901234567890',
+      'test.eth',
+    )
+    await actions.approveName({
+      name: 'test.eth',
+      approvedAddress: '0x0000000000000000000000000000000000000001',
+    })
+    expect(invalidate).toHaveBeenLastCalledWith(
+      'test.eth',
+      '0x0000000000000000000000000000000000000001',
+    )
+  })
+  it('invalidates again once the transaction is mined', async () => {
+    const cache = createEnsReadCache()
+    const invalidate = vi.spyOn(cache, 'invalidate')
+    let resolveReceipt: () => void = () => {}
+    vi.mocked(waitForTransactionReceipt).mockReturnValue(
+      new Promise((resolve) => {
+        resolveReceipt = () => resolve({} as never)
+      }),
+    )
+    const actions = withReadCacheInvalidation(
+      { ensReadCache: cache } as unknown as Client,
+      { setTextRecord: vi.fn().mockResolvedValue('0x1234') },
+    )
+    await actions.setTextRecord({ name: 'test.eth' })
+    expect(invalidate).toHaveBeenCalledTimes(1)
+    resolveReceipt()
+    await vi.waitFor(() => expect(invalidate).toHaveBeenCalledTimes(2))
+    expect(invalidate).toHaveBeenLastCalledWith('test.eth')
+  })
+  it('returns the actions unchanged without a cache', () => {
+    const actions = { setTextRecord: vi.fn() }
+    expect(withReadCacheInvalidation({} as Client, actions)).toBe(actions)
+  })
+})
+
+describe('withoutEnsReadCache()', () => {
+  it('removes the read cache from the client', () => {
+    const client = { ensReadCache: createEnsReadCache() } as unknown as Client
+    expect(withoutEnsReadCache(client)).toEqual({ ensReadCache: undefined })
+    expect(client).toHaveProperty('ensReadCache')
+  })
+  it('returns the client unchanged without a cache', () => {
+    const client = {} as Client
+    expect(withoutEnsReadCache(client)).toBe(client)
+  })
+})
@@ -0,0 +1,311 @@
+import type { Account, Address, BlockTag, Client, Hex } from 'viem'
+import { waitForTransactionReceipt } from 'viem/actions'
+import { parseAccount } from 'viem/utils'
+
+type MaybePromise<T> = T | Promise<T>
+
+export type EnsReadCacheEntry = {
+  /** Raw return data of the call */
+  data: Hex | undefined
+  /** Time in milliseconds after which the entry is stale */
+  expiresAt: number
+}
+
+export type EnsReadCacheStore = {
+  get: (key: string) => MaybePromise<EnsReadCacheEntry | undefined>
+  set: (key: string, entry: EnsReadCacheEntry) => MaybePromise<void>
+  delete: (key: string) => MaybePromise<void>
+  clear: () => MaybePromise<void>
+}
+
+export type CreateEnsReadCacheParameters = {
+  /** Store to use for cached entries, defaults to an in-memory store */
+  store?: EnsReadCacheStore
+  /** Default TTL for cached entries in milliseconds, defaults to 60 seconds */
+  ttl?: number
+  /** TTLs in milliseconds for specific functions, keyed by function name (e.g. `getRecords`). A TTL of `0` disables caching for that function. */
+  functionTtls?: Record<string, number>
+}
+
+type ReadCacheKeyParameters = {
+  chainId?: number
+  to?: Address
+  data?: Hex
+  blockNumber?: bigint
+  blockTag?: BlockTag
+}
+
+type CachedReadParameters = ReadCacheKeyParameters & {
+  /** Name of the function that is being called */
+  functionName?: string
+  /** Names or addresses the call is for, used for invalidation */
+  tags: string[]
+  fetch: () => Promise<Hex | undefined>
+}
+
+export type EnsReadCache = {
+  read: (parameters: CachedReadParameters) => Promise<Hex | undefined>
+  /** Removes all cached entries for the given names or addresses */
+  invalidate: (...tags: string[]) => Promise<void>
+  clear: () => Promise<void>
+}
+
+type ClientWithReadCache = Client & { ensReadCache?: EnsReadCache }
+
+export type CreateMemoryCacheStoreParameters = {
+  /** Maximum number of entries to keep, with the least recently used entries removed first (default: `1000`) */
+  maxEntries?: number
+}
+
+/**
+ * Creates a simple in-memory store for an {@link EnsReadCache}.
+ * @param parameters - {@link CreateMemoryCacheStoreParameters}
+ * @returns In-memory store. {@link EnsReadCacheStore}
+ */
+export const createMemoryCacheStore = ({
+  maxEntries = 1000,
+}: CreateMemoryCacheStoreParameters = {}): EnsReadCacheStore => {
+  // maps iterate in insertion order, so the first key is the least recently used
+  const entries = new Map<string, EnsReadCacheEntry>()
+  return {
+    get: (key) => {
+      const entry = entries.get(key)
+      if (!entry) return undefined
+      entries.delete(key)
+      if (entry.expiresAt <= Date.now()) return undefined
+      entries.set(key, entry)
+      return entry
+    },
+    set: (key, entry) => {
+      entries.delete(key)
+      entries.set(key, entry)
+      if (entries.size > maxEntries) entries.delete(entries.keys().next().value)
+    },
+    delete: (key) => {
+      entries.delete(key)
+    },
+    clear: () => entries.clear(),
+  }
+}
+
+const getReadCacheKey = ({
+  chainId,
+  to,
+  data,
+  blockNumber,
+  blockTag,
+}: ReadCacheKeyParameters) =>
+  [chainId, to?.toLowerCase(), data, blockNumber ?? blockTag ?? 'latest'].join(
+    ':',
+  )
+
+const normaliseTag = (tag: string) => tag.toLowerCase()
+
+/**
+ * Creates a read cache, which can be passed to `createEnsPublicClient` to cache read results,
+ * and to `createEnsWalletClient` to invalidate cached results for names that are written to.
+ * @param parameters - {@link CreateEnsReadCacheParameters}
+ * @returns Read cache. {@link EnsReadCache}
+ *
+ * @example
+ * import { http } from 'viem'
+ * import { mainnet } from 'viem/chains'
+ * import { createEnsPublicClient } from '@ensdomains/ensjs'
+ * import { createEnsReadCache } from '@ensdomains/ensjs/utils'
+ *
+ * const cache = createEnsReadCache({ ttl: 30_000, functionTtls: { getName: 5_000 } })
+ * const client = createEnsPublicClient({
+ *   chain: mainnet,
+ *   transport: http(),
+ *   cache,
+ * })
+ */
+export const createEnsReadCache = ({
+  store = createMemoryCacheStore(),
+  ttl = 60_000,
+  functionTtls = {},
+}: CreateEnsReadCacheParameters = {}): EnsReadCache => {
+  // tags are kept in memory since stores are only required to support key lookups
+  const taggedKeys = new Map<string, Set<string>>()
+  const keyTags = new Map<string, Set<string>>()
+  // insertion ordered, so that the oldest keys can be pruned first
+  const keyExpiries = new Map<string, number>()
+
+  const untrackKey = (key: string) => {
+    for (const tag of keyTags.get(key) ?? []) {
+      const keys = taggedKeys.get(tag)
+      keys?.delete(key)
+      if (keys?.size === 0) taggedKeys.delete(tag)
+    }
+    keyTags.delete(key)
+    keyExpiries.delete(key)
+  }
+
+  const trackKey = (key: string, tags: string[], expiresAt: number) => {
+    untrackKey(key)
+    keyTags.set(key, new Set(tags))
+    keyExpiries.set(key, expiresAt)
+    for (const tag of tags) {
+      const keys = taggedKeys.get(tag) ?? new Set()
+      keys.add(key)
+      taggedKeys.set(tag, keys)
+    }
+  }
+
+  // expired keys are untracked from the oldest onwards, so that tags don't grow indefinitely
+  const pruneExpiredKeys = (now: number) => {
+    for (const [key, expiresAt] of keyExpiries) {
+      if (expiresAt > now) break
+      untrackKey(key)
+    }
+  }
+
+  return {
+    read: async ({ functionName, tags, fetch, ...keyParameters }) => {
+      const entryTtl =
+        (functionName !== undefined ? functionTtls[functionName] : undefined) ??
+        ttl
+      if (entryTtl <= 0) return fetch()
+
+      const key = getReadCacheKey(keyParameters)
+      const cached = await store.get(key)
+      if (cached && cached.expiresAt > Date.now()) return cached.data
+
+      const data = await fetch()
+      const now = Date.now()
+      const expiresAt = now + entryTtl
+      await store.set(key, { data, expiresAt })
+      pruneExpiredKeys(now)
+      trackKey(key, tags.map(normaliseTag), expiresAt)
+      return data
+    },
+    invalidate: async (...tags) => {
+      const keys = new Set(
+        tags
+          .map(normaliseTag)
+          .flatMap((tag) => [...(taggedKeys.get(tag) ?? [])]),
+      )
+      for (const key of keys) untrackKey(key)
+      await Promise.all([...keys].map((key) => store.delete(key)))
+    },
+    clear: async () => {
+      taggedKeys.clear()
+      keyTags.clear()
+      keyExpiries.clear()
+      await store.clear()
+    },
+  }
+}
+
+/**
+ * Gets the read cache attached to a client, if any
+ * @param client - Client
+ * @returns Read cache, or `undefined` if caching is not enabled
+ */
+export const getEnsReadCache = (client: Client): EnsReadCache | undefined =>
+  (client as ClientWithReadCache).ensReadCache
+
+const getTagsFromParameters = (parameters: unknown): string[] => {
+  if (!parameters || typeof parameters !== 'object') return []
+  const { name, nameOrNames, address, owner } = parameters as {
+    name?: unknown
+    nameOrNames?: unknown
+    address?: unknown
+    owner?: unknown
+  }
+  return [
+    name,
+    ...(Array.isArray(nameOrNames) ? nameOrNames : [nameOrNames]),
+    address,
+    owner,
+  ].filter((tag): tag is string => typeof tag === 'string')
+}
+
+/**
+ * Gets the names and addresses a read function call is for
+ * @param args - Arguments of the function call, after the client
+ * @returns Tags for the call
+ */
+export const getReadCacheTags = (args: unknown[]): string[] =>
+  args.flatMap((arg) => {
+    // batched function items contain their own arguments
+    if (
+      arg &&
+      typeof arg === 'object' &&
+      'args' in arg &&
+      Array.isArray(arg.args)
+    )
+      return getReadCacheTags(arg.args.slice(0, 1))
+    return getTagsFromParameters(arg)
+  })
+
+const getParentName = (name: string) => name.split('.').slice(1).join('.')
+
+const getWriteTagsFromParameters = (parameters: unknown): string[] => {
+  const tags = getTagsFromParameters(parameters)
+  if (!parameters || typeof parameters !== 'object') return tags
+  const { approvedAddress, newOwnerAddress, newRegistrantAddress, operator } =
+    parameters as {
+      approvedAddress?: unknown
+      newOwnerAddress?: unknown
+      newRegistrantAddress?: unknown
+      operator?: unknown
+    }
+  return [
+    ...tags,
+    // writes to subnames can change reads of their parent, such as its subnames or fuses
+    ...tags.filter((tag) => tag.split('.').length > 2).map(getParentName),
+    approvedAddress,
+    newOwnerAddress,
+    newRegistrantAddress,
+    operator,
+  ].filter((tag): tag is string => typeof tag === 'string')
+}
+
+/**
+ * Removes the read cache from a client, so that reads made with it always fetch the latest data
+ * @param client - Client with an optional read cache
+ * @returns Client without a read cache
+ */
+export const withoutEnsReadCache = <TClient extends Client>(
+  client: TClient,
+): TClient =>
+  getEnsReadCache(client) ? { ...client, ensReadCache: undefined } : client
+
+/**
+ * Wraps write actions so that cached reads for the names they write to are invalidated once the transaction is sent,
+ * and again once it is mined, since reads made while the transaction is pending are cached with the old state.
+ * Parent names of written names and addresses the write is for are invalidated with them, as is the sender's address,
+ * since writes such as `setPrimaryName` change its reverse record.
+ * @param client - Client with an optional read cache
+ * @param actions - Write actions to wrap
+ * @returns Wrapped write actions
+ */
+export const withReadCacheInvalidation = <
+  TActions extends Record<string, (parameters: any) => Promise<Hex>>,
+>(
+  client: Client,
+  actions: TActions,
+): TActions => {
+  const cache = getEnsReadCache(client)
+  if (!cache) return actions
+  return Object.fromEntries(
+    Object.entries(actions).map(([key, action]) => [
+      key,
+      async (parameters: { account?: Account | Address }) => {
+        const hash = await action(parameters)
+        const account = parameters.account ?? client.account
+        const tags = [
+          ...getWriteTagsFromParameters(parameters),
+          ...(account ? [parseAccount(account).address] : []),
+        ]
+        await cache.invalidate(...tags)
+        // not awaited, so that the hash is still returned as soon as the transaction is sent
+        waitForTransactionReceipt(client, { hash })
+          .then(() => cache.invalidate(...tags))
+          .catch(() => {})
+        return hash
+      },
+    ]),
+  ) as TActions
+}
@@ -0,0 +1,99 @@
+import {
+  RawContractError,
+  createClient,
+  custom,
+  decodeFunctionData,
+  encodeFunctionResult,
+  type Hex,
+} from 'viem'
+import { mainnet } from 'viem/chains'
+import { describe, expect, it, vi } from 'vitest'
+import { addEnsContracts } from '../contracts/addEnsContracts.js'
+import { multicallTryAggregateSnippet } from '../contracts/multicall.js'
+import { createRequestCoalescer } from './requestCoalescer.js'
+
+const target = '0x1234567890123456789012345678901234567890'
+
+// echoes each call's data back, and fails calls with data 0xdead
+const createTestClient = () => {
+  const request = vi.fn(async ({ params }: { params: [{ data: Hex }] }) => {
+    const { args } = decodeFunctionData({
+      abi: multicallTryAggregateSnippet,
+      data: params[0].data,
+    })
+    return encodeFunctionResult({
+      abi: multicallTryAggregateSnippet,
+      functionName: 'tryAggregate',
+      // single array outputs need to be wrapped
+      result: [
+        args[1].map(({ callData }) => ({
+          success: callData !== '0xdead',
+          returnData: callData,
+        })),
+      ] as any,
+    })
+  })
+  const client = createClient({
+    chain: addEnsContracts(mainnet),
+    transport: custom({ request }, { retryCount: 0 }),
+  })
+  return { client, request }
+}
+
+describe('createRequestCoalescer()', () => {
+  it('sends calls made in the same window as a single call', async () => {
+    const { client, request } = createTestClient()
+    const coalescer = createRequestCoalescer(client)
+    const results = await Promise.all([
+      coalescer.call({ to: target, data: '0x01' }),
+      coalescer.call({ to: target, data: '0x02' }),
+    ])
+    expect(results).toEqual(['0x01', '0x02'])
+    expect(request).toHaveBeenCalledTimes(1)
+  })
+  it('rejects failed calls individually', async () => {
+    const { client } = createTestClient()
+    const coalescer = createRequestCoalescer(client)
+    const [failed, succeeded] = await Promise.allSettled([
+      coalescer.call({ to: target, data: '0xdead' }),
+      coalescer.call({ to: target, data: '0x02' }),
+    ])
+    expect(failed.status).toBe('rejected')
+    expect((failed as PromiseRejectedResult).reason).toBeInstanceOf(
+      RawContractError,
+    )
+    expect(succeeded).toEqual({ status: 'fulfilled', value: '0x02' })
+  })
+  it('sends calls for different blocks separately', async () => {
+    const { client, request } = createTestClient()
+    const coalescer = createRequestCoalescer(client)
+    await Promise.all([
+      coalescer.call({ to: target, data: '0x01' }),
+      coalescer.call({ to: target, data: '0x02', blockNumber: 1n }),
+    ])
+    expect(request).toHaveBeenCalledTimes(2)
+  })
+  it('sends calls once the batch size is reached', async () => {
+    const { client, request } = createTestClient()
+    const coalescer = createRequestCoalescer(client, { batchSize: 2 })
+    await Promise.all([
+      coalescer.call({ to: target, data: '0x01' }),
+      coalescer.call({ to: target, data: '0x02' }),
+      coalescer.call({ to: target, data: '0x03' }),
+    ])
+    expect(request).toHaveBeenCalledTimes(2)
+  })
+  it('rejects all calls when the multicall fails', async () => {
+    const { client, request } = createTestClient()
+    request.mockRejectedValueOnce(new Error('network error'))
+    const coalescer = createRequestCoalescer(client)
+    const results = await Promise.allSettled([
+      coalescer.call({ to: target, data: '0x01' }),
+      coalescer.call({ to: target, data: '0x02' }),
+    ])
+    expect(results.map(({ status }) => status)).toEqual([
+      'rejected',
+      'rejected',
+    ])
+  })
+})
@@ -0,0 +1,97 @@
+import { RawContractError, type Hex } from 'viem'
+import { call } from 'viem/actions'
+import type { ClientWithEns } from '../contracts/consts.js'
+import multicallWrapper from '../functions/public/multicallWrapper.js'
+import type { BlockParameters, SimpleTransactionRequest } from '../types.js'
+import { getBlockParameters } from './generateFunction.js'
+
+export type CreateRequestCoalescerParameters = {
+  /** Time in milliseconds to wait for more calls before sending them, defaults to `0` */
+  wait?: number
+  /** Maximum number of calls to send in a single multicall, defaults to `100` */
+  batchSize?: number
+}
+
+export type RequestCoalescer = {
+  call: (
+    request: SimpleTransactionRequest & BlockParameters,
+  ) => Promise<Hex | undefined>
+}
+
+type PendingCall = {
+  request: SimpleTransactionRequest
+  resolve: (data: Hex | undefined) => void
+  reject: (error: unknown) => void
+}
+
+const sendCalls = async (
+  client: ClientWithEns,
+  pending: PendingCall[],
+  blockParameters: BlockParameters,
+) => {
+  const transactions = pending.map(({ request }) => request)
+  try {
+    const { data } = await call(client, {
+      ...multicallWrapper.encode(client, { transactions }),
+      ...getBlockParameters(blockParameters),
+    })
+    const results = await multicallWrapper.decode(
+      client,
+      data!,
+      transactions,
+      blockParameters,
+    )
+    results.forEach(({ success, returnData }, i) => {
+      // failed calls are rejected individually, in the same way a reverted call would be
+      if (!success)
+        pending[i].reject(new RawContractError({ data: returnData }))
+      else pending[i].resolve(returnData === '0x' ? undefined : returnData)
+    })
+  } catch (error) {
+    pending.forEach(({ reject }) => reject(error))
+  }
+}
+
+/**
+ * Creates a request coalescer, which collects calls made within a window and sends them as a single multicall.
+ * Calls for different blocks are sent separately.
+ * @param client - {@link ClientWithEns}
+ * @param parameters - {@link CreateRequestCoalescerParameters}
+ * @returns Request coalescer. {@link RequestCoalescer}
+ */
+export const createRequestCoalescer = (
+  client: ClientWithEns,
+  { wait = 0, batchSize = 100 }: CreateRequestCoalescerParameters = {},
+): RequestCoalescer => {
+  const queues = new Map<
+    string,
+    { pending: PendingCall[]; timeout: ReturnType<typeof setTimeout> }
+  >()
+
+  const flush = (key: string, blockParameters: BlockParameters) => {
+    const queue = queues.get(key)
+    if (!queue) return
+    queues.delete(key)
+    clearTimeout(queue.timeout)
+    sendCalls(client, queue.pending, blockParameters)
+  }
+
+  return {
+    call: ({ blockNumber, blockTag, ...request }) => {
+      const blockParameters = { blockNumber, blockTag }
+      const key = String(blockNumber ?? blockTag ?? 'latest')
+      return new Promise((resolve, reject) => {
+        let queue = queues.get(key)
+        if (!queue) {
+          queue = {
+            pending: [],
+            timeout: setTimeout(() => flush(key, blockParameters), wait),
+          }
+          queues.set(key, queue)
+        }
+        queue.pending.push({ request, resolve, reject })
+        if (queue.pending.length >= batchSize) flush(key, blockParameters)
+      })
+    },
+  }
+}
@@ -0,0 +1,51 @@
+import type {
+  Account,
+  Chain,
+  Client,
+  SendTransactionParameters,
+  SendTransactionReturnType,
+  Transport,
+} from 'viem'
+import { sendTransaction as viemSendTransaction } from 'viem/actions'
+import type { ChainWithEns, ClientWithAccount } from '../contracts/consts.js'
+import {
+  getEnsRevertError,
+  simulateTransaction,
+} from './simulateTransaction.js'
+
+/**
+ * Sends a transaction, simulating it first if `simulate` is set, and decodes known ENS contract reverts into ensjs errors
+ * @param wallet - Wallet client
+ * @param args - Transaction parameters, with the optional `simulate` flag
+ * @returns Transaction hash
+ */
+export const sendTransaction = async <
+  TChain extends Chain | undefined,
+  TAccount extends Account | undefined,
+  TChainOverride extends Chain | undefined,
+>(
+  wallet: Client<Transport, TChain, TAccount>,
+  args: SendTransactionParameters<TChain, TAccount, TChainOverride>,
+): Promise<SendTransactionReturnType> => {
+  // the simulate flag is passed through from the write parameters of each function
+  const { simulate, ...parameters } = args as typeof args & {
+    simulate?: boolean
+  }
+  if (simulate)
+    await simulateTransaction(
+      wallet as unknown as ClientWithAccount<
+        Transport,
+        ChainWithEns,
+        Account | undefined
+      >,
+      parameters as Parameters<typeof simulateTransaction>[1],
+    )
+  try {
+    return await viemSendTransaction(
+      wallet,
+      parameters as SendTransactionParameters<TChain, TAccount, TChainOverride>,
+    )
+  } catch (error) {
+    throw getEnsRevertError(error) ?? error
+  }
+}
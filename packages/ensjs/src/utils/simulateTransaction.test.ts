@@ -0,0 +1,133 @@
+import {
+  RawContractError,
+  encodeErrorResult,
+  labelhash,
+  type Address,
+  type Hex,
+} from 'viem'
+import { afterEach, beforeAll, beforeEach, describe, expect, it } from 'vitest'
+import { ethRegistrarControllerErrors } from '../contracts/ethRegistrarController.js'
+import { nameWrapperErrors } from '../contracts/nameWrapper.js'
+import {
+  testClient,
+  waitForTransaction,
+  walletClient,
+} from '../test/addTestContracts.js'
+import commitName from '../functions/wallet/commitName.js'
+import registerName from '../functions/wallet/registerName.js'
+import setFuses from '../functions/wallet/setFuses.js'
+import { namehash } from './normalise.js'
+import type { RegistrationParameters } from './registerHelpers.js'
+import {
+  getEnsRevertError,
+  simulateTransaction,
+} from './simulateTransaction.js'
+
+let snapshot: Hex
+let accounts: Address[]
+
+beforeAll(async () => {
+  accounts = await walletClient.getAddresses()
+})
+
+beforeEach(async () => {
+  snapshot = await testClient.snapshot()
+})
+
+afterEach(async () => {
+  await testClient.revert({ id: snapshot })
+})
+
+describe('getEnsRevertError', () => {
+  it('should decode a known error into an ensjs error', () => {
+    const node = namehash('test.eth')
+    const error = getEnsRevertError(
+      new RawContractError({
+        data: encodeErrorResult({
+          abi: nameWrapperErrors,
+          errorName: 'OperationProhibited',
+          args: [node],
+        }),
+      }),
+    )
+    expect(error?.name).toBe('OperationProhibitedError')
+    expect(error).toHaveProperty('node', node)
+  })
+  it('should decode an unmapped known error into a ContractRevertedError', () => {
+    const error = getEnsRevertError(
+      new RawContractError({
+        data: encodeErrorResult({
+          abi: nameWrapperErrors,
+          errorName: 'LabelTooShort',
+        }),
+      }),
+    )
+    expect(error?.name).toBe('ContractRevertedError')
+    expect(error).toHaveProperty('errorName', 'LabelTooShort')
+  })
+  it('should return undefined for an unknown error', () => {
+    expect(
+      getEnsRevertError(new RawContractError({ data: labelhash('test') })),
+    ).toBeUndefined()
+    expect(getEnsRevertError(new Error('test'))).toBeUndefined()
+  })
+  it('should decode an error with arguments', () => {
+    const error = getEnsRevertError(
+      new RawContractError({
+        data: encodeErrorResult({
+          abi: ethRegistrarControllerErrors,
+          errorName: 'DurationTooShort',
+          args: [100n],
+        }),
+      }),
+    )
+    expect(error?.name).toBe('DurationTooShortError')
+    expect(error).toHaveProperty('duration', 100n)
+  })
+})
+
+describe('simulateTransaction', () => {
+  it('should return the estimated gas for a valid transaction', async () => {
+    const { gas } = await simulateTransaction(walletClient, {
+      ...setFuses.makeFunctionData(walletClient, {
+        name: 'wrapped.eth',
+        fuses: { named: ['CANNOT_UNWRAP'] },
+      }),
+      account: accounts[1],
+    })
+    expect(gas).toBeGreaterThan(0n)
+  })
+  it('should throw an ensjs error for an unauthorised account', async () => {
+    await expect(
+      simulateTransaction(walletClient, {
+        ...setFuses.makeFunctionData(walletClient, {
+          name: 'wrapped.eth',
+          fuses: { named: ['CANNOT_UNWRAP'] },
+        }),
+        account: accounts[2],
+      }),
+    ).rejects.toThrow(`${accounts[2]} is not authorised`)
+  })
+  it('should throw an ensjs error when simulating through a wallet action', async () => {
+    const params: RegistrationParameters = {
+      name: 'cool-swag.eth',
+      duration: 31536000,
+      owner: accounts[1],
+      secret: `0x${'a'.repeat(64)}`,
+    }
+    const commitTx = await commitName(walletClient, {
+      ...params,
+      account: accounts[1],
+    })
+    await waitForTransaction(commitTx)
+
+    await expect(
+      registerName(walletClient, {
+        ...params,
+        value: 0n,
+        account: accounts[1],
+        simulate: true,
+      }),
+    ).rejects.toThrow('Commitment is too new to register')
+  })
+})
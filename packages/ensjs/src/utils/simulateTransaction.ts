@@ -0,0 +1,142 @@
+import {
+  decodeErrorResult,
+  type Account,
+  type Address,
+  type Transport,
+} from 'viem'
+import { call, estimateGas } from 'viem/actions'
+import { parseAccount } from 'viem/utils'
+import type { ChainWithEns, ClientWithAccount } from '../contracts/consts.js'
+import { dnsRegistrarErrors } from '../contracts/dnsRegistrar.js'
+import { ethRegistrarControllerErrors } from '../contracts/ethRegistrarController.js'
+import { nameWrapperErrors } from '../contracts/nameWrapper.js'
+import { universalResolverErrors } from '../contracts/universalResolver.js'
+import type { BaseError } from '../errors/base.js'
+import {
+  CommitmentTooNewError,
+  CommitmentTooOldError,
+  ContractRevertedError,
+  DurationTooShortError,
+  InsufficientValueError,
+  NameNotWrappedError,
+  OperationProhibitedError,
+  RegistrationNameNotAvailableError,
+  UnauthorisedError,
+  UnexpiredCommitmentExistsError,
+} from '../errors/wallet.js'
+import type { SimpleTransactionRequest } from '../types.js'
+import { getRevertErrorData } from './getRevertErrorData.js'
+
+const ensContractErrors = [
+  ...ethRegistrarControllerErrors,
+  ...nameWrapperErrors,
+  ...dnsRegistrarErrors,
+  ...universalResolverErrors,
+] as const
+
+/**
+ * Gets an ensjs error from a contract revert, if the revert is a known ENS contract error
+ * @param error - Error thrown by a call or transaction
+ * @returns Decoded ensjs error, or `undefined` if the error is not a known ENS contract error
+ */
+export const getEnsRevertError = (error: unknown): BaseError | undefined => {
+  const data = getRevertErrorData(error)
+  if (!data) return undefined
+
+  let decoded: ReturnType<typeof decodeErrorResult<typeof ensContractErrors>>
+  try {
+    decoded = decodeErrorResult({ abi: ensContractErrors, data })
+  } catch {
+    return undefined
+  }
+
+  // built-in solidity errors are already readable from the original error
+  if (['Error', 'Panic'].includes(decoded.errorName)) return undefined
+
+  switch (decoded.errorName) {
+    case 'CommitmentTooNew':
+      return new CommitmentTooNewError({ commitment: decoded.args[0] })
+    case 'CommitmentTooOld':
+      return new CommitmentTooOldError({ commitment: decoded.args[0] })
+    case 'UnexpiredCommitmentExists':
+      return new UnexpiredCommitmentExistsError({
+        commitment: decoded.args[0],
+      })
+    case 'DurationTooShort':
+      return new DurationTooShortError({ duration: decoded.args[0] })
+    case 'InsufficientValue':
+      return new InsufficientValueError()
+    case 'NameNotAvailable':
+      return new RegistrationNameNotAvailableError({ name: decoded.args[0] })
+    case 'Unauthorised':
+      return new UnauthorisedError({
+        node: decoded.args[0],
+        address: decoded.args[1],
+      })
+    case 'OperationProhibited':
+      return new OperationProhibitedError({ node: decoded.args[0] })
+    case 'NameIsNotWrapped':
+      return new NameNotWrappedError()
+    default:
+      return new ContractRevertedError({
+        errorName: decoded.errorName,
+        args: decoded.args,
+      })
+  }
+}
+
+export type SimulateTransactionParameters = SimpleTransactionRequest & {
+  /** Value to send with the transaction */
+  value?: bigint
+  /** Account to simulate the transaction from, defaults to the wallet account */
+  account?: Account | Address
+}
+
+export type SimulateTransactionReturnType = {
+  /** Estimated gas for the transaction */
+  gas: bigint
+}
+
+/**
+ * Simulates a transaction with `eth_call` and estimates its gas, throwing an ensjs error if it reverts with a known ENS contract error
+ * @param wallet - {@link ClientWithAccount}
+ * @param parameters - {@link SimulateTransactionParameters}
+ * @returns Simulation result. {@link SimulateTransactionReturnType}
+ *
+ * @example
+ * import { createWalletClient, custom } from 'viem'
+ * import { mainnet } from 'viem/chains'
+ * import { addEnsContracts } from '@ensdomains/ensjs'
+ * import { simulateTransaction } from '@ensdomains/ensjs/utils'
+ * import { setFuses } from '@ensdomains/ensjs/wallet'
+ *
+ * const wallet = createWalletClient({
+ *   chain: addEnsContracts(mainnet),
+ *   transport: custom(window.ethereum),
+ * })
+ * const { gas } = await simulateTransaction(
+ *   wallet,
+ *   setFuses.makeFunctionData(wallet, {
+ *     name: 'ens.eth',
+ *     fuses: { named: ['CANNOT_TRANSFER'] },
+ *   }),
+ * )
+ */
+export const simulateTransaction = async (
+  wallet: ClientWithAccount<Transport, ChainWithEns, Account | undefined>,
+  { to, data, value, account }: SimulateTransactionParameters,
+): Promise<SimulateTransactionReturnType> => {
+  const request = {
+    account: parseAccount((account || wallet.account)!),
+    to,
+    data,
+    value,
+  }
+  try {
+    await call(wallet, request)
+    const gas = await estimateGas(wallet, request)
+    return { gas }
+  } catch (error) {
+    throw getEnsRevertError(error) ?? error
+  }
+}
@@ -1,3 +1,10 @@
+export {
+  default as approveName,
+  type ApproveNameDataParameters,
+  type ApproveNameDataReturnType,
+  type ApproveNameParameters,
+  type ApproveNameReturnType,
+} from './functions/wallet/approveName.js'
 export {
   default as clearRecords,
   type ClearRecordsDataParameters,
@@ -12,6 +19,15 @@ export {
   type CommitNameParameters,
   type CommitNameReturnType,
 } from './functions/wallet/commitName.js'
+export {
+  default as createRegistrationSession,
+  type CreateRegistrationSessionParameters,
+  type CreateRegistrationSessionReturnType,
+  type RegistrationSession,
+  type RegistrationSessionEvent,
+  type RegistrationSessionState,
+  type RegistrationSessionStatus,
+} from './functions/wallet/createRegistrationSession.js'
 export {
   default as createSubname,
   type CreateSubnameDataParameters,
@@ -26,6 +42,15 @@ export {
   type DeleteSubnameParameters,
   type DeleteSubnameReturnType,
 } from './functions/wallet/deleteSubname.js'
+export {
+  default as ensureName,
+  type EnsureNameAction,
+  type EnsureNameDesiredState,
+  type EnsureNameParameters,
+  type EnsureNameRecords,
+  type EnsureNameReturnType,
+  type EnsureNameStep,
+} from './functions/wallet/ensureName.js'
 export {
   default as registerName,
   type RegisterNameDataParameters,
@@ -54,6 +79,13 @@ export {
   type SetAddressRecordParameters,
   type SetAddressRecordReturnType,
 } from './functions/wallet/setAddressRecord.js'
+export {
+  default as setApprovalForAll,
+  type SetApprovalForAllDataParameters,
+  type SetApprovalForAllDataReturnType,
+  type SetApprovalForAllParameters,
+  type SetApprovalForAllReturnType,
+} from './functions/wallet/setApprovalForAll.js'
 export {
   default as setChildFuses,
   type SetChildFusesDataParameters,
@@ -75,6 +107,13 @@ export {
   type SetFusesParameters,
   type SetFusesReturnType,
 } from './functions/wallet/setFuses.js'
+export {
+  default as setInterfaceRecord,
+  type SetInterfaceRecordDataParameters,
+  type SetInterfaceRecordDataReturnType,
+  type SetInterfaceRecordParameters,
+  type SetInterfaceRecordReturnType,
+} from './functions/wallet/setInterfaceRecord.js'
 export {
   default as setPrimaryName,
   type SetPrimaryNameDataParameters,
@@ -82,6 +121,13 @@ export {
   type SetPrimaryNameParameters,
   type SetPrimaryNameReturnType,
 } from './functions/wallet/setPrimaryName.js'
+export {
+  default as setPubkeyRecord,
+  type SetPubkeyRecordDataParameters,
+  type SetPubkeyRecordDataReturnType,
+  type SetPubkeyRecordParameters,
+  type SetPubkeyRecordReturnType,
+} from './functions/wallet/setPubkeyRecord.js'
 export {
   default as setRecords,
   type SetRecordsDataParameters,
@@ -96,6 +142,13 @@ export {
   type SetResolverParameters,
   type SetResolverReturnType,
 } from './functions/wallet/setResolver.js'
+export {
+  default as setResolverApproval,
+  type SetResolverApprovalDataParameters,
+  type SetResolverApprovalDataReturnType,
+  type SetResolverApprovalParameters,
+  type SetResolverApprovalReturnType,
+} from './functions/wallet/setResolverApproval.js'
 export {
   default as setTextRecord,
   type SetTextRecordDataParameters,
@@ -103,6 +156,13 @@ export {
   type SetTextRecordParameters,
   type SetTextRecordReturnType,
 } from './functions/wallet/setTextRecord.js'
+export {
+  default as setZonehashRecord,
+  type SetZonehashRecordDataParameters,
+  type SetZonehashRecordDataReturnType,
+  type SetZonehashRecordParameters,
+  type SetZonehashRecordReturnType,
+} from './functions/wallet/setZonehashRecord.js'
 export {
   default as transferName,
   type TransferNameDataParameters,